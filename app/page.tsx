@@ -1,17 +1,22 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ElevationEditor } from '@/components/elevation-editor';
 import { Footer } from '@/components/footer';
-import { parseGPX, GPXData } from '@/lib/gpx-parser';
+import { GPXData } from '@/lib/gpx-parser';
+import { parseTrackFile, TrackFileContent } from '@/lib/track-formats';
 import { Toaster } from '@/components/ui/sonner';
 import { toast } from 'sonner';
+import { useLocalStorageState } from '@/components/elevation-editor/hooks/useLocalStorageState';
 
 export default function Home() {
   const [gpxData, setGpxData] = useState<GPXData | null>(null);
-  const [originalContent, setOriginalContent] = useState<string>('');
+  const [originalContent, setOriginalContent] = useState<TrackFileContent>('');
   const [filename, setFilename] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
+  const [countSegmentGaps, setCountSegmentGaps] = useLocalStorageState('elevationEditor.countSegmentGaps', false);
+  // The saved setting the sample is parsed with on mount; later changes re-parse it
+  const initialCountSegmentGaps = useRef(countSegmentGaps);
 
   // Load sample.gpx on mount
   useEffect(() => {
@@ -20,14 +25,14 @@ export default function Home() {
         // Use relative path - works in both dev and production with basePath
         const response = await fetch('./sample.gpx');
         const content = await response.text();
-        const parsed = parseGPX(content);
+        const parsed = parseTrackFile(content, 'sample.gpx', { countSegmentGaps: initialCountSegmentGaps.current });
 
         setGpxData(parsed);
         setOriginalContent(content);
         setFilename('sample.gpx');
         setIsLoading(false);
 
-        toast.success(`Sample GPX loaded! Found ${parsed.trackPoints.length} track points.`);
+        toast.success(`Sample GPX loaded! Found ${parsed.trackPoints.length} ${parsed.source} points.`);
       } catch (error) {
         console.error('Error loading sample GPX:', error);
         toast.error('Failed to load sample GPX file.');
@@ -38,21 +43,27 @@ export default function Home() {
     loadSampleGPX();
   }, []);
 
-  const handleFileUpload = (content: string, uploadedFilename: string) => {
+  const handleFileUpload = (content: TrackFileContent, uploadedFilename: string) => {
     try {
-      const parsed = parseGPX(content);
+      const parsed = parseTrackFile(content, uploadedFilename, { countSegmentGaps });
 
       setGpxData(parsed);
       setOriginalContent(content);
       setFilename(uploadedFilename);
 
-      toast.success(`GPX file loaded successfully! Found ${parsed.trackPoints.length} track points.`);
+      toast.success(`File loaded successfully! Found ${parsed.trackPoints.length} ${parsed.source} points.`);
     } catch (error) {
-      console.error('Error parsing GPX:', error);
-      toast.error('Failed to parse GPX file. Please ensure it\'s a valid GPX file.');
+      console.error('Error parsing file:', error);
+      toast.error('Failed to parse file. Please ensure it\'s a valid GPX, TCX, FIT, KML, KMZ or GeoJSON file.');
     }
   };
 
+  // Re-parse the current file so distances reflect the new segment gap setting
+  const handleCountSegmentGapsChange = (nextValue: boolean) => {
+    setCountSegmentGaps(nextValue);
+    setGpxData(parseTrackFile(originalContent, filename, { countSegmentGaps: nextValue }));
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex justify-center items-center">
@@ -67,11 +78,13 @@ export default function Home() {
       <div className="flex-1 px-[25px]">
         {gpxData && (
           <ElevationEditor
-            key={filename}
+            key={`${filename}-${countSegmentGaps}`}
             gpxData={gpxData}
             originalContent={originalContent}
             filename={filename}
             onLoadNewFile={handleFileUpload}
+            countSegmentGaps={countSegmentGaps}
+            onCountSegmentGapsChange={handleCountSegmentGapsChange}
           />
         )}
       </div>
@@ -1,10 +1,71 @@
 "use client";
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { GPXData, TrackPoint, exportGPX } from '@/lib/gpx-parser';
-import { ElevationEditorProps, ChartDataPoint, DragState } from './elevation-editor/types';
-import { detectElevationAnomalies } from './elevation-editor/algorithms/anomaly-detection';
-import { applySmoothTransition, applyClickSmoothing } from './elevation-editor/algorithms/smoothing';
+import { toast } from 'sonner';
+import { GPXData, SensorChannel, TrackPoint, buildGPX } from '@/lib/gpx-parser';
+import { SENSOR_CHANNELS } from '@/lib/track-builder';
+import { DemSource, readDemFile, sampleDemProfile } from '@/lib/dem';
+import { CSVProfileRow, CSVTable, buildGPXDataFromCSV, buildProfileCSV, parseCSV } from '@/lib/csv';
+import {
+  ACCEPTED_FILE_TYPES,
+  ConversionFormat,
+  convertTrackFile,
+  exportTrackFile,
+  parseTrackFile,
+  readTrackFile
+} from '@/lib/track-formats';
+import {
+  ElevationEditorProps,
+  ChartDataPoint,
+  DragState,
+  CsvImportMode,
+  ElevationLimits,
+  GradientColoring,
+  HistoryAction,
+  MapColorMode,
+  AnomalyDetector,
+  AnomalyListItem,
+  AnomalyRegion,
+  AnomalyRepairMode,
+  RangeOperation,
+  ReferenceBlendMode,
+  SmoothingAlgorithm,
+  SmoothingParams,
+  StructureCandidate
+} from './elevation-editor/types';
+import { detectAnomalies, measureAnomalyJump } from './elevation-editor/algorithms/anomaly-detection';
+import { repairAnomalies } from './elevation-editor/algorithms/anomaly-repair';
+import { detectTunnelsAndBridges } from './elevation-editor/algorithms/tunnel-bridge-detection';
+import { detectClimbs } from './elevation-editor/algorithms/climb-detection';
+import { computeGradients } from './elevation-editor/algorithms/gradient';
+import {
+  applySmoothTransition,
+  applyClickSmoothing,
+  interpolateRange,
+  flattenRange,
+  offsetRange,
+  scaleRange,
+  applySmoothing,
+  smoothElevations
+} from './elevation-editor/algorithms/smoothing';
+import { patchElevationsByDistance, patchElevationsByIndex } from './elevation-editor/algorithms/elevation-patch';
+import { applyDemElevations, findUncoveredRanges } from './elevation-editor/algorithms/dem-correction';
+import { calculateElevationStats } from './elevation-editor/algorithms/statistics';
+import {
+  alignReferenceElevations,
+  blendReferenceElevations,
+  computeElevationResiduals
+} from './elevation-editor/algorithms/reference-blend';
+import { buildChartData, buildOverlayChartData } from './elevation-editor/utils/chart-data';
+import { buildRouteColoring } from './elevation-editor/utils/route-colors';
+import { downloadFile } from './elevation-editor/utils/download';
+import { findIndexRange } from './elevation-editor/utils/range';
+import {
+  DEFAULT_GRADIENT_COLORING,
+  DEFAULT_HAMPEL_PARAMS,
+  DEFAULT_SMOOTHING_PARAMS,
+  NO_ELEVATION_LIMITS
+} from './elevation-editor/constants';
 
 // Import custom hooks
 import { useLocalStorageState } from './elevation-editor/hooks/useLocalStorageState';
@@ -22,15 +83,26 @@ import {
   StatsGrid,
   HelpCard,
   ControlsCard,
+  HistoryCard,
   ChartCard,
-  KeyboardShortcutsCard
+  KeyboardShortcutsCard,
+  CsvImportDialog,
+  TerrainCard,
+  ReferenceCard,
+  RangeToolsCard,
+  AnomalyListCard,
+  StructuresCard,
+  ClimbsCard,
+  GradientCard
 } from './elevation-editor/components';
 
 export function ElevationEditor({
   gpxData,
   originalContent,
   filename,
-  onLoadNewFile
+  onLoadNewFile,
+  countSegmentGaps = false,
+  onCountSegmentGapsChange
 }: ElevationEditorProps) {
   // ============================================================================
   // Refs
@@ -43,15 +115,24 @@ export function ElevationEditor({
   // ============================================================================
   const [trackPoints, setTrackPoints] = useState<TrackPoint[]>(gpxData.trackPoints);
   const [editedPoints, setEditedPoints] = useState<Set<number>>(new Set());
+  const [selectedTrackIndex, setSelectedTrackIndex] = useState(0);
   const [dragState, setDragState] = useState<DragState | null>(null);
-  const [smoothingRadius, setSmoothingRadius] = useState(5);
+  // Smoothing radius in meters along the track
+  const [smoothingRadius, setSmoothingRadius] = useState(50);
   const [smoothingStrength, setSmoothingStrength] = useState(0.25);
   const [anomalyThreshold, setAnomalyThreshold] = useState(10);
   const [ignoredAnomalies, setIgnoredAnomalies] = useState<Set<string>>(new Set());
   const [mapKey, setMapKey] = useState(0);
   const [hoveredAnomalyKey, setHoveredAnomalyKey] = useState<string | null>(null);
+  // Anomaly picked in the anomaly list or with N/P
+  const [activeAnomalyKey, setActiveAnomalyKey] = useState<string | null>(null);
   const [isPanningMode, setIsPanningMode] = useState(false);
   const [panDragState, setPanDragState] = useState<{ startX: number; startDomain: [number, number] } | null>(null);
+  const [csvImport, setCsvImport] = useState<{ table: CSVTable; filename: string } | null>(null);
+  const [demSources, setDemSources] = useState<DemSource[]>([]);
+  const [referenceTrack, setReferenceTrack] = useState<{ name: string; points: TrackPoint[] } | null>(null);
+  // Distance range (meters) targeted by range operations
+  const [selectedRange, setSelectedRange] = useState<[number, number] | null>(null);
 
   // ============================================================================
   // Custom hooks
@@ -61,8 +142,47 @@ export function ElevationEditor({
   const [showOriginal, setShowOriginal] = useLocalStorageState('elevationEditor.showOriginal', false);
   const [showAnomalies, setShowAnomalies] = useLocalStorageState('elevationEditor.showAnomalies', true);
   const [showMap, setShowMap] = useLocalStorageState('elevationEditor.showMap', true);
+  const [mapColorMode, setMapColorMode] = useLocalStorageState<MapColorMode>('elevationEditor.mapColorMode', 'plain');
   const [showHelpCard, setShowHelpCard] = useLocalStorageState('elevationEditor.showHelpCard', true);
   const [showMobileWarning, setShowMobileWarning] = useLocalStorageState('elevationEditor.showMobileWarning', true);
+  const [showTerrain, setShowTerrain] = useLocalStorageState('elevationEditor.showTerrain', true);
+  const [showClimbs, setShowClimbs] = useLocalStorageState('elevationEditor.showClimbs', true);
+  const [showGradientColors, setShowGradientColors] = useLocalStorageState('elevationEditor.showGradientColors', false);
+  const [isStructuresCardOpen, setIsStructuresCardOpen] = useLocalStorageState('structures-card-open', false);
+  const [gradientColoring, setGradientColoring] = useLocalStorageState<GradientColoring>(
+    'elevationEditor.gradientColoring',
+    DEFAULT_GRADIENT_COLORING
+  );
+  const [sensorSeries, setSensorSeries] = useLocalStorageState<SensorChannel[]>('elevationEditor.sensorSeries', []);
+  const [smoothingAlgorithm, setSmoothingAlgorithm] = useLocalStorageState<SmoothingAlgorithm>(
+    'elevationEditor.smoothingAlgorithm',
+    'gaussian'
+  );
+  const [storedSmoothingParams, setSmoothingParams] = useLocalStorageState<SmoothingParams>(
+    'elevationEditor.smoothingParams',
+    DEFAULT_SMOOTHING_PARAMS
+  );
+  const [showSmoothingPreview, setShowSmoothingPreview] = useState(false);
+  const [anomalyDetector, setAnomalyDetector] = useLocalStorageState<AnomalyDetector>(
+    'elevationEditor.anomalyDetector',
+    'gradient'
+  );
+  const [hampelParams, setHampelParams] = useLocalStorageState(
+    'elevationEditor.hampelParams',
+    DEFAULT_HAMPEL_PARAMS
+  );
+  const [elevationLimits, setElevationLimits] = useLocalStorageState<ElevationLimits>(
+    'elevationEditor.elevationLimits',
+    NO_ELEVATION_LIMITS
+  );
+  const [anomalyRepairMode, setAnomalyRepairMode] = useLocalStorageState<AnomalyRepairMode>(
+    'elevationEditor.anomalyRepairMode',
+    'interpolate'
+  );
+  const [anomalyRepairStrength, setAnomalyRepairStrength] = useLocalStorageState(
+    'elevationEditor.anomalyRepairStrength',
+    1
+  );
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(true);
 
   const {
@@ -71,12 +191,24 @@ export function ElevationEditor({
     convertDistance,
     convertElevation,
     convertSpeed,
+    convertShortDistance,
     distanceUnitLabel,
     elevationUnitLabel,
-    speedUnitLabel
+    speedUnitLabel,
+    shortDistanceUnitLabel
   } = useUnitConversion();
 
-  const { canUndo, pushHistory, handleUndo } = useElevationHistory(
+  const {
+    canUndo,
+    canRedo,
+    timeline,
+    currentPosition,
+    isTruncated: isHistoryTruncated,
+    pushHistory,
+    handleUndo,
+    handleRedo,
+    jumpToHistory
+  } = useElevationHistory(
     trackPoints,
     editedPoints,
     setTrackPoints,
@@ -85,44 +217,245 @@ export function ElevationEditor({
     dragSnapshotRef
   );
 
+  // ============================================================================
+  // Selected track
+  // ============================================================================
+  // Only one track is edited at a time; history and export always work on the whole file
+  const activeTrack = gpxData.tracks[selectedTrackIndex] ?? gpxData.tracks[0];
+  const trackStart = activeTrack.startIndex;
+  const trackEnd = activeTrack.endIndex;
+
+  // Routes follow the tracks in the selector and are numbered on their own
+  const trackNames = useMemo(() => {
+    const routeOffset = gpxData.tracks.findIndex((track) => track.source === 'route');
+    return gpxData.tracks.map((track, index) => {
+      if (track.source !== 'route') {
+        return track.name || `Track ${index + 1}`;
+      }
+      if (!track.name) {
+        return `Route ${index - routeOffset + 1}`;
+      }
+      return gpxData.source === 'track' ? `${track.name} (route)` : track.name;
+    });
+  }, [gpxData]);
+
+  const activePoints = useMemo(
+    () => trackPoints.slice(trackStart, trackEnd + 1),
+    [trackPoints, trackStart, trackEnd]
+  );
+
+  const activeEditedPoints = useMemo(() => {
+    const local = new Set<number>();
+    editedPoints.forEach((index) => {
+      if (index >= trackStart && index <= trackEnd) {
+        local.add(index - trackStart);
+      }
+    });
+    return local;
+  }, [editedPoints, trackStart, trackEnd]);
+
+  const segmentStarts = useMemo(
+    () => activeTrack.segments.map((segment) => segment.startIndex - trackStart),
+    [activeTrack, trackStart]
+  );
+
+  const setActivePoints = useCallback((points: TrackPoint[]) => {
+    setTrackPoints((prev) => [...prev.slice(0, trackStart), ...points, ...prev.slice(trackEnd + 1)]);
+  }, [trackStart, trackEnd]);
+
+  const setActiveEditedPoints = useCallback(
+    (setter: (prev: Set<number>) => Set<number>) => {
+      setEditedPoints((prev) => {
+        const local = new Set<number>();
+        const next = new Set<number>();
+        prev.forEach((index) => {
+          if (index >= trackStart && index <= trackEnd) {
+            local.add(index - trackStart);
+          } else {
+            next.add(index);
+          }
+        });
+        setter(local).forEach((index) => next.add(index + trackStart));
+        return next;
+      });
+    },
+    [trackStart, trackEnd]
+  );
+
+  // Records an operation as one history step and marks the points it changed.
+  // Indices refer to the selected track unless the change covers the whole file.
+  const applyElevationChange = useCallback(
+    (
+      action: HistoryAction,
+      points: TrackPoint[],
+      changedIndices: number[],
+      { wholeFile = false, unchangedNote = '' }: { wholeFile?: boolean; unchangedNote?: string } = {}
+    ): boolean => {
+      if (changedIndices.length === 0) {
+        toast.info(`No elevations were changed${unchangedNote}`);
+        return false;
+      }
+
+      const markChanged = (prev: Set<number>) => {
+        const next = new Set(prev);
+        changedIndices.forEach((index) => next.add(index));
+        return next;
+      };
+      pushHistory(action);
+      if (wholeFile) {
+        setTrackPoints(points);
+        setEditedPoints(markChanged);
+      } else {
+        setActivePoints(points);
+        setActiveEditedPoints(markChanged);
+      }
+      return true;
+    },
+    [pushHistory, setActivePoints, setActiveEditedPoints]
+  );
+
   const { zoomDomain, setZoomDomain, zoomIn, zoomOut, resetZoom, panLeft, panRight } = useZoomPan(
-    gpxData.totalDistance
+    activeTrack.totalDistance
+  );
+
+  const stats = useElevationStats(activePoints, activeTrack.totalDistance, activeEditedPoints.size);
+
+  const selectedIndices = useMemo(
+    () => (selectedRange ? findIndexRange(activePoints, selectedRange) : null),
+    [activePoints, selectedRange]
   );
 
-  const stats = useElevationStats(trackPoints, gpxData.totalDistance, editedPoints.size);
+  const selection = useMemo(() => {
+    if (!selectedRange || !selectedIndices) {
+      return null;
+    }
+    const [first, last] = selectedIndices;
+    let editedCount = 0;
+    activeEditedPoints.forEach((index) => {
+      if (index >= first && index <= last) {
+        editedCount++;
+      }
+    });
+    return {
+      range: selectedRange,
+      stats: calculateElevationStats(
+        activePoints.slice(first, last + 1),
+        selectedRange[1] - selectedRange[0],
+        editedCount
+      )
+    };
+  }, [activePoints, activeEditedPoints, selectedRange, selectedIndices]);
 
-  // Clear ignored anomalies when threshold changes
+  // Clear ignored anomalies when the detector or its settings change
   useEffect(() => {
     setIgnoredAnomalies(new Set());
-  }, [anomalyThreshold]);
+  }, [anomalyThreshold, anomalyDetector, hampelParams]);
 
   // ============================================================================
   // Computed values
   // ============================================================================
   const maxSmoothingRadius = useMemo(
-    () => Math.max(0, Math.min(200, Math.floor(trackPoints.length / 8))),
-    [trackPoints.length]
+    () => Math.max(0, Math.min(2000, Math.floor(activeTrack.totalDistance / 8))),
+    [activeTrack.totalDistance]
+  );
+
+  const gradients = useMemo(
+    () => computeGradients(activePoints, gradientColoring.window),
+    [activePoints, gradientColoring.window]
   );
 
   const chartData: ChartDataPoint[] = useMemo(
-    () =>
-      trackPoints.map((point, index) => ({
-        distance: point.distance || 0,
-        elevation: point.ele,
-        originalIndex: index,
-        isEdited: editedPoints.has(index)
-      })),
-    [trackPoints, editedPoints]
+    () => buildChartData(activePoints, segmentStarts, activeEditedPoints, gradients),
+    [activePoints, segmentStarts, activeEditedPoints, gradients]
   );
 
   const originalChartData: ChartDataPoint[] = useMemo(
+    () => buildChartData(gpxData.trackPoints.slice(trackStart, trackEnd + 1), segmentStarts),
+    [gpxData.trackPoints, trackStart, trackEnd, segmentStarts]
+  );
+
+  // Terrain elevation under every point of the selected track; coordinates are never
+  // edited, so sampling the loaded points keeps this independent of elevation edits
+  const terrainElevations = useMemo(
     () =>
-      gpxData.trackPoints.map((point, index) => ({
-        distance: point.distance || 0,
-        elevation: point.ele,
-        originalIndex: index
-      })),
-    [gpxData.trackPoints]
+      demSources.length > 0
+        ? sampleDemProfile(demSources, gpxData.trackPoints.slice(trackStart, trackEnd + 1))
+        : null,
+    [demSources, gpxData.trackPoints, trackStart, trackEnd]
+  );
+
+  const terrainChartData = useMemo(
+    () => (terrainElevations ? buildOverlayChartData(originalChartData, terrainElevations) : null),
+    [terrainElevations, originalChartData]
+  );
+
+  const terrainCoveredCount = useMemo(
+    () => terrainElevations?.filter((elevation) => elevation !== null).length ?? 0,
+    [terrainElevations]
+  );
+
+  // Stretches of the selected track outside the loaded terrain, shaded on the chart
+  const uncoveredRanges = useMemo(
+    () =>
+      terrainElevations
+        ? findUncoveredRanges(gpxData.trackPoints.slice(trackStart, trackEnd + 1), terrainElevations)
+        : [],
+    [terrainElevations, gpxData.trackPoints, trackStart, trackEnd]
+  );
+
+  // Reference recording aligned to the selected track by position; like the terrain
+  // this only depends on coordinates, while the residuals follow every edit
+  const referenceElevations = useMemo(
+    () =>
+      referenceTrack
+        ? alignReferenceElevations(gpxData.trackPoints.slice(trackStart, trackEnd + 1), referenceTrack.points)
+        : null,
+    [referenceTrack, gpxData.trackPoints, trackStart, trackEnd]
+  );
+
+  const referenceChartData = useMemo(
+    () => (referenceElevations ? buildOverlayChartData(originalChartData, referenceElevations) : null),
+    [referenceElevations, originalChartData]
+  );
+
+  const residualChartData = useMemo(
+    () =>
+      referenceElevations
+        ? buildOverlayChartData(originalChartData, computeElevationResiduals(activePoints, referenceElevations))
+        : null,
+    [referenceElevations, activePoints, originalChartData]
+  );
+
+  // Stored parameters may predate newer algorithms, so fill in missing defaults
+  const smoothingParams = useMemo(
+    () => ({ ...DEFAULT_SMOOTHING_PARAMS, ...storedSmoothingParams }),
+    [storedSmoothingParams]
+  );
+
+  // With a selection the preview covers only the range "Smooth selection" would change
+  const smoothingPreviewData = useMemo(() => {
+    if (!showSmoothingPreview) return null;
+    const [first, last] = selectedIndices ?? [0, activePoints.length - 1];
+    const smoothed = smoothElevations(activePoints, smoothingAlgorithm, smoothingParams);
+    return buildOverlayChartData(
+      chartData,
+      smoothed.map((elevation, index) => (index >= first && index <= last ? elevation : null))
+    );
+  }, [showSmoothingPreview, selectedIndices, chartData, activePoints, smoothingAlgorithm, smoothingParams]);
+
+  const referenceMatchedCount = useMemo(
+    () => referenceElevations?.filter((elevation) => elevation !== null).length ?? 0,
+    [referenceElevations]
+  );
+
+  // Sensor channels recorded in the selected track, and those shown on the chart
+  const availableSensors = useMemo(
+    () => SENSOR_CHANNELS.filter((channel) => activePoints.some((point) => point[channel] !== undefined)),
+    [activePoints]
+  );
+  const visibleSensors = useMemo(
+    () => availableSensors.filter((channel) => sensorSeries.includes(channel)),
+    [availableSensors, sensorSeries]
   );
 
   // Helper function to create unique key for anomaly region
@@ -131,9 +464,102 @@ export function ElevationEditor({
   }, []);
 
   const anomalyRegions = useMemo(() => {
-    const regions = detectElevationAnomalies(trackPoints, anomalyThreshold);
+    const regions = detectAnomalies(activePoints, anomalyDetector, anomalyThreshold, hampelParams);
     return regions.filter((region) => !ignoredAnomalies.has(getAnomalyKey(region)));
-  }, [trackPoints, anomalyThreshold, ignoredAnomalies, getAnomalyKey]);
+  }, [activePoints, anomalyDetector, anomalyThreshold, hampelParams, ignoredAnomalies, getAnomalyKey]);
+
+  const anomalyList = useMemo<AnomalyListItem[]>(
+    () =>
+      anomalyRegions
+        .slice()
+        .sort((a, b) => a.startDistance - b.startDistance)
+        .map((region) => ({
+          key: getAnomalyKey(region),
+          region,
+          elevationJump: measureAnomalyJump(activePoints, region)
+        })),
+    [anomalyRegions, activePoints, getAnomalyKey]
+  );
+
+  // The picked anomaly disappears once it is fixed, ignored or no longer detected
+  const activeAnomaly = useMemo(
+    () => anomalyList.find((item) => item.key === activeAnomalyKey) ?? null,
+    [anomalyList, activeAnomalyKey]
+  );
+
+  const activeAnomalyIndices = useMemo(
+    () =>
+      activeAnomaly
+        ? findIndexRange(activePoints, [activeAnomaly.region.startDistance, activeAnomaly.region.endDistance])
+        : null,
+    [activePoints, activeAnomaly]
+  );
+
+  // Picks an anomaly and zooms the chart to it, with its own width of context on either side
+  const handleFocusAnomaly = useCallback((key: string) => {
+    const item = anomalyList.find((candidate) => candidate.key === key);
+    if (!item) return;
+
+    const totalDistance = activeTrack.totalDistance;
+    const { startDistance, endDistance } = item.region;
+    const padding = Math.max(endDistance - startDistance, totalDistance * 0.01);
+    const domainMin = Math.max(0, startDistance - padding);
+    const domainMax = Math.min(totalDistance, endDistance + padding);
+
+    setActiveAnomalyKey(key);
+    setZoomDomain(domainMax - domainMin >= totalDistance ? null : [domainMin, domainMax]);
+  }, [anomalyList, activeTrack.totalDistance, setZoomDomain]);
+
+  // Steps along the track to the next or previous anomaly, wrapping around at the ends
+  const handleStepAnomaly = useCallback((direction: 1 | -1) => {
+    if (anomalyList.length === 0) return;
+
+    const currentIndex = anomalyList.findIndex((item) => item.key === activeAnomaly?.key);
+    const nextIndex = currentIndex < 0
+      ? (direction === 1 ? 0 : anomalyList.length - 1)
+      : (currentIndex + direction + anomalyList.length) % anomalyList.length;
+    handleFocusAnomaly(anomalyList[nextIndex].key);
+  }, [anomalyList, activeAnomaly, handleFocusAnomaly]);
+
+  // Tunnel and bridge detection is too slow to rerun on every mousemove of a drag,
+  // so it only runs while its card is open and sees a drag once it ends
+  const [structurePoints, setStructurePoints] = useState<TrackPoint[]>(activePoints);
+  useEffect(() => {
+    if (!dragState) {
+      setStructurePoints(activePoints);
+    }
+  }, [activePoints, dragState]);
+
+  const structureCandidates = useMemo(
+    () => (isStructuresCardOpen ? detectTunnelsAndBridges(structurePoints) : []),
+    [isStructuresCardOpen, structurePoints]
+  );
+
+  const climbs = useMemo(() => detectClimbs(activePoints), [activePoints]);
+
+  const routeColoring = useMemo(
+    () =>
+      showMap
+        ? buildRouteColoring(mapColorMode, activePoints, {
+            gradients,
+            gradientThresholds: gradientColoring.thresholds,
+            editedPoints: activeEditedPoints,
+            anomalyRegions,
+            formatElevation: (meters) => `${Math.round(convertElevation(meters))} ${elevationUnitLabel}`
+          })
+        : null,
+    [
+      showMap,
+      mapColorMode,
+      activePoints,
+      gradients,
+      gradientColoring.thresholds,
+      activeEditedPoints,
+      anomalyRegions,
+      convertElevation,
+      elevationUnitLabel
+    ]
+  );
 
   const { chartContainerRef, anomalyButtonOffsets, gridBounds } = useAnomalyButtonPositioning(
     anomalyRegions,
@@ -141,18 +567,27 @@ export function ElevationEditor({
     chartData
   );
 
-  const { hoveredPointIndex, handleChartMouseDown, handleChartMouseMove, handleChartMouseUp, handleChartMouseLeave } =
+  const {
+    hoveredPointIndex,
+    pendingSelectionStart,
+    handleChartMouseDown,
+    handleChartMouseMove,
+    handleChartMouseUp,
+    handleChartMouseLeave
+  } =
     useChartInteractions(
-      trackPoints,
-      setTrackPoints,
-      editedPoints,
-      setEditedPoints,
+      activePoints,
+      setActivePoints,
+      activeEditedPoints,
+      setActiveEditedPoints,
       smoothingRadius,
       smoothingStrength,
       stats,
       pushHistory,
       dragSnapshotRef,
-      setDragState
+      setDragState,
+      setSelectedRange,
+      elevationLimits
     );
 
   // Handle Ctrl/Cmd key press for panning mode
@@ -242,13 +677,13 @@ export function ElevationEditor({
       newMin = 0;
       newMax = domainRange;
     }
-    if (newMax > gpxData.totalDistance) {
-      newMax = gpxData.totalDistance;
-      newMin = gpxData.totalDistance - domainRange;
+    if (newMax > activeTrack.totalDistance) {
+      newMax = activeTrack.totalDistance;
+      newMin = activeTrack.totalDistance - domainRange;
     }
 
     setZoomDomain([newMin, newMax]);
-  }, [isPanningMode, panDragState, zoomDomain, gpxData.totalDistance, setZoomDomain]);
+  }, [isPanningMode, panDragState, zoomDomain, activeTrack.totalDistance, setZoomDomain]);
 
   const handlePanMouseUp = useCallback(() => {
     setPanDragState(null);
@@ -270,14 +705,23 @@ export function ElevationEditor({
       const file = e.target.files?.[0];
       if (!file) return;
 
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const content = event.target?.result as string;
-        if (content && onLoadNewFile) {
-          onLoadNewFile(content, file.name);
-        }
-      };
-      reader.readAsText(file);
+      // CSV profiles go through the column mapping dialog instead of replacing the file
+      if (/\.csv$/i.test(file.name)) {
+        file.text()
+          .then(text => setCsvImport({ table: parseCSV(text), filename: file.name }))
+          .catch(error => {
+            console.error('Error reading CSV:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to read CSV file');
+          });
+      } else {
+        readTrackFile(file)
+          .then(content => {
+            if (onLoadNewFile) {
+              onLoadNewFile(content, file.name);
+            }
+          })
+          .catch(error => console.error('Error reading file:', error));
+      }
 
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -291,32 +735,243 @@ export function ElevationEditor({
       ...gpxData,
       trackPoints: trackPoints
     };
-    const modifiedGPX = exportGPX(modifiedGPXData, originalContent);
-    const blob = new Blob([modifiedGPX], { type: 'application/gpx+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename.replace(/\.gpx$/i, '_modified.gpx');
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(exportTrackFile(modifiedGPXData, originalContent, filename));
   }, [trackPoints, gpxData, originalContent, filename]);
 
+  const handleExport = useCallback((format: ConversionFormat) => {
+    const modifiedGPXData: GPXData = {
+      ...gpxData,
+      trackPoints: trackPoints
+    };
+    downloadFile(convertTrackFile(modifiedGPXData, format, filename));
+  }, [trackPoints, gpxData, filename]);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile({
+      content: buildProfileCSV(trackPoints, gpxData.trackPoints, editedPoints),
+      mimeType: 'text/csv',
+      filename: `${filename.replace(/\.[^.]+$/, '')}_profile.csv`
+    });
+  }, [trackPoints, gpxData.trackPoints, editedPoints, filename]);
+
+  const handleCsvImport = useCallback((profile: CSVProfileRow[], mode: CsvImportMode) => {
+    if (!csvImport) return;
+    setCsvImport(null);
+
+    if (mode === 'create') {
+      try {
+        const name = csvImport.filename.replace(/\.csv$/i, '');
+        onLoadNewFile?.(buildGPX(buildGPXDataFromCSV(profile, name)), `${name}.gpx`);
+      } catch (error) {
+        console.error('Error importing CSV:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to import CSV file');
+      }
+      return;
+    }
+
+    // Indices refer to the whole file; distances to the selected track
+    const patch = mode === 'patch-index'
+      ? patchElevationsByIndex(trackPoints, profile)
+      : patchElevationsByDistance(activePoints, profile);
+    const applied = applyElevationChange({ type: 'csv-import' }, patch.points, patch.changedIndices, {
+      wholeFile: mode === 'patch-index',
+      unchangedNote: ' by the CSV import'
+    });
+    if (applied) {
+      toast.success(`Imported elevations for ${patch.changedIndices.length} points`);
+    }
+  }, [csvImport, onLoadNewFile, trackPoints, activePoints, applyElevationChange]);
+
+  const handleLoadDemFiles = useCallback((files: File[]) => {
+    Promise.all(files.map(readDemFile))
+      .then((results) => {
+        const sources = results.reduce<DemSource[]>((all, list) => all.concat(list), []);
+        setDemSources((prev) => [...prev, ...sources]);
+        toast.success(`Loaded ${sources.length} DEM ${sources.length === 1 ? 'tile' : 'tiles'}`);
+      })
+      .catch((error) => {
+        console.error('Error reading DEM file:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to read DEM file');
+      });
+  }, []);
+
+  const handleApplyTerrain = useCallback((range?: [number, number]) => {
+    if (!terrainElevations) return;
+
+    const result = applyDemElevations(activePoints, terrainElevations, range);
+    const skipped = result.uncoveredCount > 0
+      ? `; ${result.uncoveredCount} points outside the DEM were kept`
+      : '';
+    const action: HistoryAction = { type: 'terrain', distance: range ? Math.min(...range) : undefined };
+    if (applyElevationChange(action, result.points, result.changedIndices, { unchangedNote: skipped })) {
+      toast.success(`Replaced ${result.changedIndices.length} elevations from terrain${skipped}`);
+    }
+  }, [terrainElevations, activePoints, applyElevationChange]);
+
+  const handleRangeOperation = useCallback((operation: RangeOperation, value?: number) => {
+    if (!selectedRange || !selectedIndices) {
+      toast.info('The selected range contains no points');
+      return;
+    }
+
+    const [first, last] = selectedIndices;
+    let updated: TrackPoint[];
+    switch (operation) {
+      case 'interpolate':
+        updated = interpolateRange(activePoints, first, last, elevationLimits);
+        break;
+      case 'flatten': {
+        // Without an explicit elevation, flatten at the range mean
+        const rangePoints = activePoints.slice(first, last + 1);
+        const mean = rangePoints.reduce((sum, point) => sum + point.ele, 0) / rangePoints.length;
+        updated = flattenRange(activePoints, first, last, value ?? mean, elevationLimits);
+        break;
+      }
+      case 'offset':
+        updated = offsetRange(activePoints, first, last, value ?? 0, elevationLimits);
+        break;
+      case 'scale':
+        updated = scaleRange(activePoints, first, last, value ?? 1, elevationLimits);
+        break;
+    }
+
+    const changedIndices: number[] = [];
+    for (let index = first; index <= last; index++) {
+      if (updated[index].ele !== activePoints[index].ele) {
+        changedIndices.push(index);
+      }
+    }
+    if (applyElevationChange({ type: operation, distance: selectedRange[0] }, updated, changedIndices)) {
+      toast.success(`Changed ${changedIndices.length} elevations in the selected range`);
+    }
+  }, [selectedRange, selectedIndices, activePoints, elevationLimits, applyElevationChange]);
+
+  const handleApplySmoothing = useCallback((selectionOnly: boolean) => {
+    const [first, last] = selectionOnly && selectedIndices ? selectedIndices : [0, activePoints.length - 1];
+    const updated = applySmoothing(activePoints, smoothingAlgorithm, smoothingParams, first, last, elevationLimits);
+
+    const changedIndices: number[] = [];
+    for (let index = first; index <= last; index++) {
+      if (updated[index].ele !== activePoints[index].ele) {
+        changedIndices.push(index);
+      }
+    }
+    const action: HistoryAction = { type: 'smooth', distance: selectionOnly && selectedRange ? selectedRange[0] : undefined };
+    if (applyElevationChange(action, updated, changedIndices)) {
+      toast.success(`Smoothed ${changedIndices.length} elevations`);
+    }
+  }, [
+    selectedIndices,
+    selectedRange,
+    activePoints,
+    smoothingAlgorithm,
+    smoothingParams,
+    elevationLimits,
+    applyElevationChange
+  ]);
+
+  const handleLoadReference = useCallback((file: File) => {
+    readTrackFile(file)
+      .then((content) => {
+        const reference = parseTrackFile(content, file.name);
+        setReferenceTrack({ name: file.name, points: reference.trackPoints });
+        toast.success(`Loaded reference recording with ${reference.trackPoints.length} points`);
+      })
+      .catch((error) => {
+        console.error('Error reading reference file:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to read reference file');
+      });
+  }, []);
+
+  const handleBlendReference = useCallback((mode: ReferenceBlendMode, range?: [number, number]) => {
+    if (!referenceElevations) return;
+
+    const result = blendReferenceElevations(activePoints, referenceElevations, mode, range);
+    const skipped = result.unmatchedCount > 0
+      ? `; ${result.unmatchedCount} points away from the reference were kept`
+      : '';
+    const action: HistoryAction = { type: 'reference-blend', distance: range ? Math.min(...range) : undefined };
+    if (applyElevationChange(action, result.points, result.changedIndices, { unchangedNote: skipped })) {
+      const verb = mode === 'average' ? 'Averaged' : 'Transferred';
+      toast.success(`${verb} ${result.changedIndices.length} elevations from the reference${skipped}`);
+    }
+  }, [referenceElevations, activePoints, applyElevationChange]);
+
   const handleReset = useCallback(() => {
-    if (window.confirm('Reset all changes? This cannot be undone.')) {
+    if (window.confirm('Reset all changes?')) {
+      pushHistory({ type: 'reset' });
       setTrackPoints(gpxData.trackPoints);
       setEditedPoints(new Set());
     }
-  }, [gpxData.trackPoints]);
+  }, [gpxData.trackPoints, pushHistory]);
 
   // ============================================================================
   // Other handlers
   // ============================================================================
+  const handleSelectTrack = useCallback((index: number) => {
+    setSelectedTrackIndex(index);
+    setIgnoredAnomalies(new Set());
+    setSelectedRange(null);
+    resetZoom();
+  }, [resetZoom]);
+
+  const handleToggleSegmentGaps = useCallback(() => {
+    if (
+      editedPoints.size > 0 &&
+      !window.confirm('Changing how segment gaps are measured reloads the file and discards your edits. Continue?')
+    ) {
+      return;
+    }
+    onCountSegmentGapsChange?.(!countSegmentGaps);
+  }, [editedPoints.size, countSegmentGaps, onCountSegmentGapsChange]);
+
   const handleIgnoreAnomaly = useCallback((key: string) => {
     setIgnoredAnomalies((prev) => new Set(prev).add(key));
   }, []);
 
+  const handleFixAnomalies = useCallback((regions: AnomalyRegion[]) => {
+    const result = repairAnomalies(activePoints, regions, anomalyRepairMode, anomalyRepairStrength, elevationLimits);
+    const action: HistoryAction = {
+      type: 'anomaly-fix',
+      distance: regions.length === 1 ? regions[0].startDistance : undefined
+    };
+    if (!applyElevationChange(action, result.points, result.changedIndices)) {
+      return;
+    }
+
+    // The repaired region's buttons unmount without a mouse leave event
+    setHoveredAnomalyKey(null);
+    const anomalies = result.repairedCount === 1 ? 'anomaly' : 'anomalies';
+    toast.success(`Fixed ${result.repairedCount} ${anomalies}, ${result.changedIndices.length} points changed`);
+  }, [activePoints, anomalyRepairMode, anomalyRepairStrength, elevationLimits, applyElevationChange]);
+
+  // Replaces each structure with the chord between its ends
+  const handleStraightenStructures = useCallback((structures: StructureCandidate[]) => {
+    let updated = activePoints;
+    const changedIndices: number[] = [];
+    structures.forEach((structure) => {
+      const indices = findIndexRange(updated, [structure.startDistance, structure.endDistance]);
+      if (!indices) return;
+
+      const [first, last] = indices;
+      const straightened = interpolateRange(updated, first, last, elevationLimits);
+      for (let index = first; index <= last; index++) {
+        if (straightened[index].ele !== updated[index].ele) {
+          changedIndices.push(index);
+        }
+      }
+      updated = straightened;
+    });
+    const action: HistoryAction = {
+      type: 'structure-fix',
+      distance: structures.length === 1 ? structures[0].startDistance : undefined
+    };
+    if (applyElevationChange(action, updated, changedIndices)) {
+      const stretches = structures.length === 1 ? 'stretch' : 'stretches';
+      toast.success(`Straightened ${structures.length} ${stretches}, ${changedIndices.length} points changed`);
+    }
+  }, [activePoints, elevationLimits, applyElevationChange]);
+
   const handleToggleMap = useCallback(() => {
     setShowMap((prev) => {
       if (!prev) {
@@ -326,20 +981,41 @@ export function ElevationEditor({
     });
   }, [setShowMap]);
 
+  const handleToggleSensor = useCallback((channel: SensorChannel) => {
+    setSensorSeries((prev) =>
+      prev.includes(channel) ? prev.filter((item) => item !== channel) : [...prev, channel]
+    );
+  }, [setSensorSeries]);
+
   // ============================================================================
   // Global keyboard shortcuts
   // ============================================================================
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setSelectedRange(null);
+        return;
+      }
+
+      // N/P step through anomalies, unless typing in a field
+      const target = e.target as HTMLElement | null;
+      const isTyping = target !== null &&
+        (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (!e.ctrlKey && !e.metaKey && !e.altKey && !isTyping) {
+        switch (e.key.toLowerCase()) {
+          case 'n':
+            handleStepAnomaly(1);
+            return;
+          case 'p':
+            handleStepAnomaly(-1);
+            return;
+        }
+      }
+
       // Global shortcuts (CMD/CTRL + key)
+      // Undo/redo (Z, Shift+Z, Y) are handled by useElevationHistory
       if (e.ctrlKey || e.metaKey) {
         switch (e.key.toLowerCase()) {
-          case 'z':
-            if (canUndo) {
-              e.preventDefault();
-              handleUndo();
-            }
-            break;
           case 'o':
             e.preventDefault();
             handleLoadNewFile();
@@ -373,7 +1049,7 @@ export function ElevationEditor({
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [canUndo, handleUndo, handleLoadNewFile, handleToggleMap, setShowOriginal, setShowAnomalies, unitSystem, setUnitSystem, handleDownload]);
+  }, [handleLoadNewFile, handleToggleMap, setShowOriginal, setShowAnomalies, unitSystem, setUnitSystem, handleDownload, handleStepAnomaly]);
 
   // ============================================================================
   // Render
@@ -383,20 +1059,34 @@ export function ElevationEditor({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".gpx"
+        accept={`${ACCEPTED_FILE_TYPES},.csv`}
         onChange={handleFileChange}
         className="hidden"
-        aria-label="Upload GPX file"
+        aria-label="Upload track file"
       />
 
       <Header
         filename={filename}
         gpxName={gpxData.name}
+        source={gpxData.source}
+        waypointCount={gpxData.waypoints.length}
         canUndo={canUndo}
+        canRedo={canRedo}
         onUndo={handleUndo}
+        onRedo={handleRedo}
         onReset={handleReset}
         onLoadNewFile={handleLoadNewFile}
         onDownload={handleDownload}
+        onExport={handleExport}
+        onExportCsv={handleExportCsv}
+      />
+
+      <CsvImportDialog
+        key={csvImport?.filename}
+        table={csvImport?.table ?? null}
+        filename={csvImport?.filename ?? ''}
+        onCancel={() => setCsvImport(null)}
+        onImport={handleCsvImport}
       />
 
       <StatsGrid
@@ -407,6 +1097,8 @@ export function ElevationEditor({
         distanceUnitLabel={distanceUnitLabel}
         elevationUnitLabel={elevationUnitLabel}
         speedUnitLabel={speedUnitLabel}
+        selection={selection}
+        onClearSelection={() => setSelectedRange(null)}
       />
 
       <HelpCard show={showHelpCard} onDismiss={() => setShowHelpCard(false)} />
@@ -416,55 +1108,200 @@ export function ElevationEditor({
         smoothingStrength={smoothingStrength}
         anomalyThreshold={anomalyThreshold}
         maxSmoothingRadius={maxSmoothingRadius}
+        convertShortDistance={convertShortDistance}
+        shortDistanceUnitLabel={shortDistanceUnitLabel}
         onSmoothingRadiusChange={setSmoothingRadius}
         onSmoothingStrengthChange={setSmoothingStrength}
         onAnomalyThresholdChange={setAnomalyThreshold}
+        elevationLimits={elevationLimits}
+        convertElevation={convertElevation}
+        elevationUnitLabel={elevationUnitLabel}
+        onElevationLimitsChange={setElevationLimits}
+        anomalyDetector={anomalyDetector}
+        hampelParams={hampelParams}
+        onAnomalyDetectorChange={setAnomalyDetector}
+        onHampelParamsChange={setHampelParams}
+        anomalyRepairMode={anomalyRepairMode}
+        anomalyRepairStrength={anomalyRepairStrength}
+        onAnomalyRepairModeChange={setAnomalyRepairMode}
+        onAnomalyRepairStrengthChange={setAnomalyRepairStrength}
+        smoothingAlgorithm={smoothingAlgorithm}
+        smoothingParams={smoothingParams}
+        showSmoothingPreview={showSmoothingPreview}
+        hasSelection={selectedIndices !== null}
+        onSmoothingAlgorithmChange={setSmoothingAlgorithm}
+        onSmoothingParamsChange={setSmoothingParams}
+        onToggleSmoothingPreview={() => setShowSmoothingPreview((prev) => !prev)}
+        onApplySmoothing={handleApplySmoothing}
       />
 
-      <ChartCard
-        chartData={chartData}
-        originalChartData={originalChartData}
-        trackPoints={trackPoints}
-        stats={stats}
-        editedPoints={editedPoints}
-        isMobile={isMobile}
-        unitSystem={unitSystem}
-        showOriginal={showOriginal}
-        showAnomalies={showAnomalies}
-        showMap={showMap}
-        showMobileWarning={showMobileWarning}
-        zoomDomain={zoomDomain}
-        anomalyRegions={anomalyRegions}
-        anomalyButtonOffsets={anomalyButtonOffsets}
-        gridBounds={gridBounds}
-        hoveredPointIndex={hoveredPointIndex}
-        hoveredAnomalyKey={hoveredAnomalyKey}
-        mapKey={mapKey}
-        chartContainerRef={chartContainerRef}
-        isPanningMode={isPanningMode}
+      <HistoryCard
+        timeline={timeline}
+        currentPosition={currentPosition}
+        isTruncated={isHistoryTruncated}
+        convertDistance={convertDistance}
+        convertShortDistance={convertShortDistance}
+        distanceUnitLabel={distanceUnitLabel}
+        shortDistanceUnitLabel={shortDistanceUnitLabel}
+        onJumpTo={jumpToHistory}
+      />
+
+      <TerrainCard
+        sources={demSources}
+        coveredCount={terrainCoveredCount}
+        pointCount={activePoints.length}
+        showTerrain={showTerrain}
+        convertDistance={convertDistance}
+        distanceUnitLabel={distanceUnitLabel}
+        selectedRange={selectedRange}
+        onSelectRange={setSelectedRange}
+        onLoadFiles={handleLoadDemFiles}
+        onClearSources={() => setDemSources([])}
+        onToggleTerrain={() => setShowTerrain((prev) => !prev)}
+        onApply={handleApplyTerrain}
+      />
+
+      <ReferenceCard
+        referenceName={referenceTrack?.name ?? null}
+        matchedCount={referenceMatchedCount}
+        pointCount={activePoints.length}
+        convertDistance={convertDistance}
+        distanceUnitLabel={distanceUnitLabel}
+        selectedRange={selectedRange}
+        onSelectRange={setSelectedRange}
+        onLoadFile={handleLoadReference}
+        onClear={() => setReferenceTrack(null)}
+        onApply={handleBlendReference}
+      />
+
+      <RangeToolsCard
+        selectedRange={selectedRange}
+        convertDistance={convertDistance}
+        convertElevation={convertElevation}
+        distanceUnitLabel={distanceUnitLabel}
+        elevationUnitLabel={elevationUnitLabel}
+        onSelectRange={setSelectedRange}
+        onApply={handleRangeOperation}
+      />
+
+      <StructuresCard
+        structures={structureCandidates}
+        isOpen={isStructuresCardOpen}
+        onOpenChange={setIsStructuresCardOpen}
+        selectedRange={selectedRange}
+        convertDistance={convertDistance}
+        convertElevation={convertElevation}
+        distanceUnitLabel={distanceUnitLabel}
+        elevationUnitLabel={elevationUnitLabel}
+        onSelectRange={setSelectedRange}
+        onStraighten={handleStraightenStructures}
+      />
+
+      <ClimbsCard
+        climbs={climbs}
+        showClimbs={showClimbs}
+        selectedRange={selectedRange}
         convertDistance={convertDistance}
         convertElevation={convertElevation}
         distanceUnitLabel={distanceUnitLabel}
         elevationUnitLabel={elevationUnitLabel}
-        getAnomalyKey={getAnomalyKey}
-        onUnitSystemChange={setUnitSystem}
-        onToggleOriginal={() => setShowOriginal((prev) => !prev)}
-        onToggleAnomalies={() => setShowAnomalies((prev) => !prev)}
-        onToggleMap={handleToggleMap}
-        onDismissMobileWarning={() => setShowMobileWarning(false)}
-        onChartMouseDown={isPanningMode ? handlePanMouseDown : handleChartMouseDown}
-        onChartMouseMove={isPanningMode ? handlePanMouseMove : handleChartMouseMove}
-        onChartMouseUp={isPanningMode ? handlePanMouseUp : handleChartMouseUp}
-        onChartMouseLeave={isPanningMode ? handlePanMouseLeave : handleChartMouseLeave}
-        onIgnoreAnomaly={handleIgnoreAnomaly}
-        onHoverAnomalyChange={setHoveredAnomalyKey}
-        onZoomIn={zoomIn}
-        onZoomOut={zoomOut}
-        onResetZoom={resetZoom}
-        onPanLeft={panLeft}
-        onPanRight={panRight}
+        onSelectRange={setSelectedRange}
+        onToggleClimbs={() => setShowClimbs((prev) => !prev)}
+      />
+
+      <GradientCard
+        gradientColoring={gradientColoring}
+        showGradientColors={showGradientColors}
+        convertShortDistance={convertShortDistance}
+        shortDistanceUnitLabel={shortDistanceUnitLabel}
+        onGradientColoringChange={setGradientColoring}
+        onToggleGradientColors={() => setShowGradientColors((prev) => !prev)}
       />
 
+      <div className="grid gap-4 md:gap-6 xl:grid-cols-[minmax(0,1fr)_22rem] items-start">
+        <ChartCard
+          chartData={chartData}
+          originalChartData={originalChartData}
+          terrainChartData={terrainChartData}
+          uncoveredRanges={uncoveredRanges}
+          climbs={climbs}
+          referenceChartData={referenceChartData}
+          residualChartData={residualChartData}
+          smoothingPreviewData={smoothingPreviewData}
+          selectedRange={selectedRange}
+          pendingSelectionStart={pendingSelectionStart}
+          selectedIndices={selectedIndices}
+          activeAnomalyIndices={activeAnomalyIndices}
+          trackPoints={activePoints}
+          stats={stats}
+          editedPoints={editedPoints}
+          isMobile={isMobile}
+          unitSystem={unitSystem}
+          trackNames={trackNames}
+          selectedTrackIndex={selectedTrackIndex}
+          hasSegmentBreaks={gpxData.tracks.some((track) => track.segments.length > 1)}
+          countSegmentGaps={countSegmentGaps}
+          showOriginal={showOriginal}
+          showTerrain={showTerrain}
+          showClimbs={showClimbs}
+          gradientColoring={showGradientColors ? gradientColoring : null}
+          showAnomalies={showAnomalies}
+          showMap={showMap}
+          mapColorMode={mapColorMode}
+          routeColoring={routeColoring}
+          availableSensors={availableSensors}
+          visibleSensors={visibleSensors}
+          showMobileWarning={showMobileWarning}
+          zoomDomain={zoomDomain}
+          anomalyRegions={anomalyRegions}
+          anomalyButtonOffsets={anomalyButtonOffsets}
+          gridBounds={gridBounds}
+          hoveredPointIndex={hoveredPointIndex}
+          hoveredAnomalyKey={hoveredAnomalyKey ?? activeAnomaly?.key ?? null}
+          mapKey={mapKey}
+          chartContainerRef={chartContainerRef}
+          isPanningMode={isPanningMode}
+          convertDistance={convertDistance}
+          convertElevation={convertElevation}
+          distanceUnitLabel={distanceUnitLabel}
+          elevationUnitLabel={elevationUnitLabel}
+          getAnomalyKey={getAnomalyKey}
+          onUnitSystemChange={setUnitSystem}
+          onSelectTrack={handleSelectTrack}
+          onToggleSegmentGaps={onCountSegmentGapsChange ? handleToggleSegmentGaps : undefined}
+          onToggleOriginal={() => setShowOriginal((prev) => !prev)}
+          onToggleAnomalies={() => setShowAnomalies((prev) => !prev)}
+          onToggleMap={handleToggleMap}
+          onToggleSensor={handleToggleSensor}
+          onMapColorModeChange={setMapColorMode}
+          onDismissMobileWarning={() => setShowMobileWarning(false)}
+          onChartMouseDown={isPanningMode ? handlePanMouseDown : handleChartMouseDown}
+          onChartMouseMove={isPanningMode ? handlePanMouseMove : handleChartMouseMove}
+          onChartMouseUp={isPanningMode ? handlePanMouseUp : handleChartMouseUp}
+          onChartMouseLeave={isPanningMode ? handlePanMouseLeave : handleChartMouseLeave}
+          onIgnoreAnomaly={handleIgnoreAnomaly}
+          onFixAnomaly={(region) => handleFixAnomalies([region])}
+          onFixAllAnomalies={() => handleFixAnomalies(anomalyRegions)}
+          onHoverAnomalyChange={setHoveredAnomalyKey}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onResetZoom={resetZoom}
+          onPanLeft={panLeft}
+          onPanRight={panRight}
+        />
+
+        <AnomalyListCard
+          items={anomalyList}
+          activeKey={activeAnomaly?.key ?? null}
+          convertDistance={convertDistance}
+          convertElevation={convertElevation}
+          distanceUnitLabel={distanceUnitLabel}
+          elevationUnitLabel={elevationUnitLabel}
+          onSelect={handleFocusAnomaly}
+          onStep={handleStepAnomaly}
+        />
+      </div>
+
       <KeyboardShortcutsCard
         show={showKeyboardShortcuts}
         onDismiss={() => setShowKeyboardShortcuts(false)}
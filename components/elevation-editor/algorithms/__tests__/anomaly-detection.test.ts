@@ -2,7 +2,12 @@
  * Unit tests for anomaly detection algorithm
  */
 
-import { detectElevationAnomalies } from '../anomaly-detection';
+import {
+  detectAnomalies,
+  detectElevationAnomalies,
+  detectHampelAnomalies,
+  measureAnomalyJump
+} from '../anomaly-detection';
 import { TrackPoint } from '@/lib/gpx-parser';
 
 // Helper to create mock track points
@@ -181,3 +186,120 @@ describe('detectElevationAnomalies', () => {
     expect(Array.isArray(anomalies)).toBe(true);
   });
 });
+
+describe('detectHampelAnomalies', () => {
+  it('should return empty array when the track is shorter than the window', () => {
+    const points: TrackPoint[] = Array.from({ length: 8 }, (_, i) => createMockPoint(100, i * 100));
+
+    expect(detectHampelAnomalies(points, 10, { halfWindow: 5, sigmas: 3 })).toEqual([]);
+  });
+
+  it('should return empty array for flat elevation', () => {
+    const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) => createMockPoint(100, i * 100));
+
+    expect(detectHampelAnomalies(points, 10)).toEqual([]);
+  });
+
+  it('should cover exactly the outlying points', () => {
+    const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) =>
+      createMockPoint(i === 12 || i === 13 ? 160 : 100, i * 100)
+    );
+
+    const anomalies = detectHampelAnomalies(points, 10);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].startDistance).toBe(1150);
+    expect(anomalies[0].endDistance).toBe(1350);
+    expect(anomalies[0].severity).toBeGreaterThan(1);
+  });
+
+  it('should respect the minimum deviation threshold', () => {
+    const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) =>
+      createMockPoint(i === 15 ? 108 : 100, i * 100)
+    );
+
+    expect(detectHampelAnomalies(points, 10)).toEqual([]);
+    expect(detectHampelAnomalies(points, 5)).toHaveLength(1);
+  });
+
+  it('should ignore a point within the scaled MAD of noisy neighbours', () => {
+    // Noise spread evenly over ±15 m gives a wide MAD, so a 25 m excursion is not an outlier
+    const points: TrackPoint[] = Array.from({ length: 30 }, (_, i) =>
+      createMockPoint(i === 15 ? 125 : 100 + (((i * 7) % 11) - 5) * 3, i * 100)
+    );
+    const coversSpike = (region: { startDistance: number; endDistance: number }) =>
+      region.startDistance < 1500 && region.endDistance > 1500;
+
+    expect(detectHampelAnomalies(points, 5, { halfWindow: 5, sigmas: 3 }).some(coversSpike)).toBe(false);
+    expect(detectHampelAnomalies(points, 5, { halfWindow: 5, sigmas: 1.5 }).some(coversSpike)).toBe(true);
+  });
+});
+
+describe('anomaly detectors on synthetic profiles', () => {
+  it('should find a single-point spike that the gradient detector misses', () => {
+    const points: TrackPoint[] = Array.from({ length: 40 }, (_, i) =>
+      createMockPoint(i === 20 ? 150 : 100 + i * 0.5, i * 50)
+    );
+
+    expect(detectAnomalies(points, 'gradient', 10)).toEqual([]);
+
+    const anomalies = detectAnomalies(points, 'hampel', 10);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].startDistance).toBeLessThan(1000);
+    expect(anomalies[0].endDistance).toBeGreaterThan(1000);
+  });
+
+  it('should not flag a steady steep climb that the gradient detector flags', () => {
+    // Flat approach, then a 25% climb, then flat again
+    const points: TrackPoint[] = Array.from({ length: 60 }, (_, i) => {
+      const climb = Math.min(Math.max(i - 20, 0), 20);
+      return createMockPoint(100 + climb * 12.5, i * 50);
+    });
+
+    expect(detectAnomalies(points, 'gradient', 10).length).toBeGreaterThan(0);
+    expect(detectAnomalies(points, 'hampel', 10)).toEqual([]);
+  });
+
+  it('should both find a large multi-point spike', () => {
+    const points: TrackPoint[] = [
+      ...Array.from({ length: 10 }, (_, i) => createMockPoint(100, i * 100)),
+      createMockPoint(130, 1000),
+      createMockPoint(150, 1100),
+      createMockPoint(140, 1200),
+      createMockPoint(100, 1300),
+      ...Array.from({ length: 10 }, (_, i) => createMockPoint(100, (i + 14) * 100))
+    ];
+
+    const gradient = detectAnomalies(points, 'gradient', 10);
+    const hampel = detectAnomalies(points, 'hampel', 10);
+
+    expect(gradient.length).toBeGreaterThan(0);
+    expect(hampel).toHaveLength(1);
+    expect(hampel[0].startDistance).toBeLessThan(1000);
+    expect(hampel[0].endDistance).toBeGreaterThan(1200);
+  });
+
+  it('should leave small noise alone with either detector', () => {
+    const points: TrackPoint[] = Array.from({ length: 50 }, (_, i) =>
+      createMockPoint(100 + Math.sin(i * 2.3) * 2, i * 100)
+    );
+
+    expect(detectAnomalies(points, 'gradient', 20)).toEqual([]);
+    expect(detectAnomalies(points, 'hampel', 20)).toEqual([]);
+  });
+});
+
+describe('measureAnomalyJump', () => {
+  const points: TrackPoint[] = Array.from({ length: 20 }, (_, i) =>
+    createMockPoint(i === 10 ? 160 : 100 + i, i * 100)
+  );
+
+  it('should include the points on either side of the region', () => {
+    expect(measureAnomalyJump(points, { startDistance: 950, endDistance: 1050, severity: 1 })).toBe(51);
+    expect(measureAnomalyJump(points, { startDistance: 1500, endDistance: 1500, severity: 1 })).toBe(2);
+  });
+
+  it('should return 0 when the region holds no points', () => {
+    expect(measureAnomalyJump(points, { startDistance: 5000, endDistance: 6000, severity: 1 })).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for automatic anomaly repair
+ */
+
+import { repairAnomalies } from '../anomaly-repair';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+// Gentle climb of 1 m per 10 m with a spike at 50-60 m
+const createSpikedTrack = () =>
+  Array.from({ length: 12 }, (_, i) => createMockPoint(100 + i + (i === 5 || i === 6 ? 40 : 0), i * 10));
+
+describe('repairAnomalies', () => {
+  it('should interpolate across a region and its boundary points', () => {
+    const points = createSpikedTrack();
+    const result = repairAnomalies(points, [{ startDistance: 40, endDistance: 70, severity: 1 }], 'interpolate');
+
+    expect(result.points.map(p => p.ele)).toEqual(Array.from({ length: 12 }, (_, i) => 100 + i));
+    expect(result.changedIndices).toEqual([5, 6]);
+    expect(result.repairedCount).toBe(1);
+  });
+
+  it('should repair tracks below sea level and respect the limits', () => {
+    // The spiked track moved 500 m down, as around the Dead Sea
+    const points = createSpikedTrack().map(point => ({ ...point, ele: point.ele - 500 }));
+    const region = { startDistance: 40, endDistance: 70, severity: 1 };
+
+    expect(repairAnomalies(points, [region], 'interpolate').points.map(p => p.ele))
+      .toEqual(Array.from({ length: 12 }, (_, i) => i - 400));
+    expect(repairAnomalies(points, [region], 'interpolate', 1, { floor: null, ceiling: -396 }).points[6].ele).toBe(-396);
+  });
+
+  it('should blend toward the surrounding median by strength', () => {
+    const points = createSpikedTrack();
+    const full = repairAnomalies(points, [{ startDistance: 50, endDistance: 60, severity: 1 }], 'smooth', 1);
+    const half = repairAnomalies(points, [{ startDistance: 50, endDistance: 60, severity: 1 }], 'smooth', 0.5);
+
+    expect(full.points[5].ele).toBeLessThan(110);
+    expect(half.points[5].ele).toBeCloseTo((points[5].ele + full.points[5].ele) / 2, 6);
+    expect(full.points[0].ele).toBe(100);
+    expect(full.points[11].ele).toBe(111);
+  });
+
+  it('should repair several regions in one pass', () => {
+    const points = Array.from({ length: 20 }, (_, i) => createMockPoint(i === 3 || i === 15 ? 200 : 100, i * 10));
+    const result = repairAnomalies(
+      points,
+      [
+        { startDistance: 30, endDistance: 30, severity: 1 },
+        { startDistance: 150, endDistance: 150, severity: 1 }
+      ],
+      'interpolate'
+    );
+
+    expect(result.points.every(p => p.ele === 100)).toBe(true);
+    expect(result.changedIndices).toEqual([3, 15]);
+    expect(result.repairedCount).toBe(2);
+  });
+
+  it('should leave the input untouched and skip regions without points', () => {
+    const points = createSpikedTrack();
+    const result = repairAnomalies(points, [{ startDistance: 500, endDistance: 600, severity: 1 }], 'interpolate');
+
+    expect(result.changedIndices).toEqual([]);
+    expect(result.repairedCount).toBe(0);
+    expect(points[5].ele).toBe(145);
+  });
+});
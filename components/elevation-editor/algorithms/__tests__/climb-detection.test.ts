@@ -0,0 +1,105 @@
+/**
+ * Unit tests for climb detection
+ */
+
+import { detectClimbs } from '../climb-detection';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+// Builds a profile at 20 m spacing from [length, gradient] pieces, starting at 100 m
+const createProfile = (pieces: Array<[number, number]>): TrackPoint[] => {
+  const points = [createMockPoint(100, 0)];
+  pieces.forEach(([length, gradient]) => {
+    for (let run = 20; run <= length; run += 20) {
+      const previous = points[points.length - 1];
+      points.push(createMockPoint(previous.ele + gradient * 20, previous.distance! + 20));
+    }
+  });
+  return points;
+};
+
+describe('detectClimbs', () => {
+  it('should return empty array for insufficient data', () => {
+    expect(detectClimbs([])).toEqual([]);
+    expect(detectClimbs([createMockPoint(100, 0)])).toEqual([]);
+  });
+
+  it('should find nothing on a flat track', () => {
+    expect(detectClimbs(createProfile([[5000, 0]]))).toEqual([]);
+  });
+
+  it('should measure a single climb', () => {
+    const climbs = detectClimbs(createProfile([[1000, 0], [5000, 0.06], [2000, 0]]));
+
+    expect(climbs).toHaveLength(1);
+    expect(climbs[0].startDistance).toBe(1000);
+    expect(climbs[0].endDistance).toBe(6000);
+    expect(climbs[0].length).toBe(5000);
+    expect(climbs[0].gain).toBeCloseTo(300, 6);
+    expect(climbs[0].averageGradient).toBeCloseTo(0.06, 6);
+    expect(climbs[0].maxGradient).toBeCloseTo(0.06, 6);
+    expect(climbs[0].score).toBeCloseTo(30000, 6);
+    expect(climbs[0].category).toBe('3');
+  });
+
+  it('should categorize climbs by length times gradient', () => {
+    const categoryOf = (length: number, gradient: number) =>
+      detectClimbs(createProfile([[500, 0], [length, gradient], [500, 0]])).map(climb => climb.category);
+
+    expect(categoryOf(1000, 0.05)).toEqual([]);
+    expect(categoryOf(2000, 0.05)).toEqual(['4']);
+    expect(categoryOf(4000, 0.05)).toEqual(['3']);
+    expect(categoryOf(8000, 0.05)).toEqual(['2']);
+    expect(categoryOf(10000, 0.07)).toEqual(['1']);
+    expect(categoryOf(10000, 0.09)).toEqual(['HC']);
+  });
+
+  it('should ignore long drags below the minimum gradient', () => {
+    expect(detectClimbs(createProfile([[10000, 0.02]]))).toEqual([]);
+  });
+
+  it('should ride through small dips but split at larger descents', () => {
+    const smallDip = detectClimbs(createProfile([[2000, 0.06], [200, -0.05], [2000, 0.06]]));
+    const largeDip = detectClimbs(createProfile([[2000, 0.06], [1000, -0.05], [2000, 0.06]]));
+
+    expect(smallDip).toHaveLength(1);
+    expect(smallDip[0].startDistance).toBe(0);
+    expect(smallDip[0].endDistance).toBe(4200);
+    expect(largeDip.map(climb => [climb.startDistance, climb.endDistance])).toEqual([[0, 2000], [3000, 5000]]);
+  });
+
+  it('should trim gentle lead-ins and run-outs', () => {
+    const climbs = detectClimbs(createProfile([[5000, 0.01], [2000, 0.08], [5000, 0.01]]));
+
+    // Within one 100 m gradient window of the steep part
+    expect(climbs).toHaveLength(1);
+    expect(climbs[0].startDistance).toBeGreaterThanOrEqual(4900);
+    expect(climbs[0].startDistance).toBeLessThanOrEqual(5000);
+    expect(climbs[0].endDistance).toBeGreaterThanOrEqual(7000);
+    expect(climbs[0].endDistance).toBeLessThanOrEqual(7100);
+    expect(climbs[0].averageGradient).toBeGreaterThan(0.07);
+  });
+
+  it('should report the steepest stretch as the maximum gradient', () => {
+    const climbs = detectClimbs(createProfile([[1500, 0.05], [300, 0.12], [1500, 0.05]]));
+
+    expect(climbs).toHaveLength(1);
+    expect(climbs[0].maxGradient).toBeCloseTo(0.12, 6);
+    expect(climbs[0].averageGradient).toBeLessThan(0.07);
+  });
+
+  it('should not let a single noisy point break a climb', () => {
+    const points = createProfile([[4000, 0.05]]);
+    points[100] = { ...points[100], ele: points[100].ele - 50 };
+
+    expect(detectClimbs(points)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for terrain (DEM) correction
+ */
+
+import { applyDemElevations, findUncoveredRanges } from '../dem-correction';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('applyDemElevations', () => {
+  const points = [0, 100, 200, 300].map(distance => createMockPoint(100, distance));
+
+  it('should replace every covered elevation', () => {
+    const result = applyDemElevations(points, [110, null, 100, 130]);
+
+    expect(result.points.map(p => p.ele)).toEqual([110, 100, 100, 130]);
+    expect(result.changedIndices).toEqual([0, 3]);
+    expect(result.uncoveredCount).toBe(1);
+  });
+
+  it('should only change points within the distance range', () => {
+    const result = applyDemElevations(points, [110, 120, 130, 140], [250, 90]);
+
+    expect(result.points.map(p => p.ele)).toEqual([100, 120, 130, 100]);
+    expect(result.changedIndices).toEqual([1, 2]);
+  });
+
+  it('should not mutate the input points', () => {
+    applyDemElevations(points, [1, 2, 3, 4]);
+
+    expect(points.map(p => p.ele)).toEqual([100, 100, 100, 100]);
+  });
+});
+
+describe('findUncoveredRanges', () => {
+  const points = [0, 100, 200, 300, 400].map(distance => createMockPoint(100, distance));
+
+  it('should extend each uncovered stretch halfway to its covered neighbours', () => {
+    expect(findUncoveredRanges(points, [100, null, null, 100, 100])).toEqual([[50, 250]]);
+    expect(findUncoveredRanges(points, [100, 100, null, 100, null])).toEqual([[150, 250], [350, 400]]);
+  });
+
+  it('should cover the whole track when no point is covered', () => {
+    expect(findUncoveredRanges(points, [null, null, null, null, null])).toEqual([[0, 400]]);
+  });
+
+  it('should return no ranges when every point is covered', () => {
+    expect(findUncoveredRanges(points, [1, 2, 3, 4, 5])).toEqual([]);
+  });
+});
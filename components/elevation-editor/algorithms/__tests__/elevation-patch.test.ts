@@ -0,0 +1,69 @@
+/**
+ * Unit tests for patching imported elevations
+ */
+
+import { patchElevationsByIndex, patchElevationsByDistance } from '../elevation-patch';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('patchElevationsByIndex', () => {
+  const points = [createMockPoint(100, 0), createMockPoint(110, 100), createMockPoint(120, 200)];
+
+  it('should patch the points named by the index column', () => {
+    const result = patchElevationsByIndex(points, [{ index: 2, ele: 125 }, { index: 0, ele: 100 }]);
+
+    expect(result.points.map(p => p.ele)).toEqual([100, 110, 125]);
+    expect(result.changedIndices).toEqual([2]);
+  });
+
+  it('should fall back to row order and ignore rows past the end', () => {
+    const result = patchElevationsByIndex(points, [{ ele: 90 }, { ele: 95 }, { ele: 120 }, { ele: 130 }]);
+
+    expect(result.points.map(p => p.ele)).toEqual([90, 95, 120]);
+    expect(result.changedIndices).toEqual([0, 1]);
+  });
+
+  it('should not mutate the input points', () => {
+    patchElevationsByIndex(points, [{ index: 1, ele: 0 }]);
+
+    expect(points[1].ele).toBe(110);
+  });
+});
+
+describe('patchElevationsByDistance', () => {
+  const points = [0, 100, 200, 300, 400].map(distance => createMockPoint(100, distance));
+
+  it('should take the elevation of the nearest row', () => {
+    const result = patchElevationsByDistance(points, [
+      { distance: 90, ele: 150 },
+      { distance: 0, ele: 140 },
+      { distance: 310, ele: 170 },
+      { distance: 180, ele: 160 }
+    ]);
+
+    expect(result.points.map(p => p.ele)).toEqual([140, 150, 160, 170, 100]);
+    expect(result.changedIndices).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should leave points outside the covered distance range untouched', () => {
+    const result = patchElevationsByDistance(points, [{ distance: 150, ele: 50 }, { distance: 250, ele: 60 }]);
+
+    expect(result.points.map(p => p.ele)).toEqual([100, 100, 50, 100, 100]);
+    expect(result.changedIndices).toEqual([2]);
+  });
+
+  it('should ignore rows without a distance', () => {
+    const result = patchElevationsByDistance(points, [{ ele: 50 }]);
+
+    expect(result.points).toBe(points);
+    expect(result.changedIndices).toEqual([]);
+  });
+});
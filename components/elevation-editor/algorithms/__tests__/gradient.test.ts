@@ -0,0 +1,75 @@
+/**
+ * Unit tests for gradient calculation
+ */
+
+import { computeGradients, findGradientBucket } from '../gradient';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('computeGradients', () => {
+  it('should return zeros for insufficient data', () => {
+    expect(computeGradients([], 50)).toEqual([]);
+    expect(computeGradients([createMockPoint(100, 0)], 50)).toEqual([0]);
+  });
+
+  it('should compute a constant gradient on a steady slope', () => {
+    const points = Array.from({ length: 21 }, (_, i) => createMockPoint(100 + i * 10 * 0.08, i * 10));
+
+    computeGradients(points, 50).forEach(gradient => expect(gradient).toBeCloseTo(0.08, 10));
+  });
+
+  it('should be negative downhill', () => {
+    const points = Array.from({ length: 11 }, (_, i) => createMockPoint(100 - i * 5, i * 10));
+
+    computeGradients(points, 40).forEach(gradient => expect(gradient).toBeCloseTo(-0.5, 10));
+  });
+
+  it('should average a noisy point over the window', () => {
+    const points = Array.from({ length: 21 }, (_, i) => createMockPoint(100, i * 10));
+    points[10] = createMockPoint(105, 100);
+
+    const narrow = computeGradients(points, 0);
+    const wide = computeGradients(points, 100);
+
+    // Between the neighbours only, the spike reads as 25% either side of it
+    expect(Math.abs(narrow[9])).toBeCloseTo(0.25, 10);
+    expect(Math.abs(narrow[11])).toBeCloseTo(0.25, 10);
+    // Across 100 m the flanks of the spike cancel or spread out
+    wide.forEach(gradient => expect(Math.abs(gradient)).toBeLessThanOrEqual(0.05 + 1e-10));
+  });
+
+  it('should step over points sharing a distance', () => {
+    const points = [
+      createMockPoint(100, 0),
+      createMockPoint(101, 10),
+      createMockPoint(101, 10),
+      createMockPoint(102, 20)
+    ];
+
+    computeGradients(points, 0).forEach(gradient => expect(gradient).toBeCloseTo(0.1, 10));
+  });
+});
+
+describe('findGradientBucket', () => {
+  const thresholds = [0.03, 0.06, 0.09, 0.12];
+
+  it('should place gradients in the bucket below the next threshold', () => {
+    expect(findGradientBucket(0, thresholds)).toBe(0);
+    expect(findGradientBucket(0.0299, thresholds)).toBe(0);
+    expect(findGradientBucket(0.03, thresholds)).toBe(1);
+    expect(findGradientBucket(0.1, thresholds)).toBe(3);
+    expect(findGradientBucket(0.15, thresholds)).toBe(4);
+  });
+
+  it('should treat descents like climbs of the same steepness', () => {
+    expect(findGradientBucket(-0.07, thresholds)).toBe(findGradientBucket(0.07, thresholds));
+  });
+});
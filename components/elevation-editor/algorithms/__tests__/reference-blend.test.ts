@@ -0,0 +1,98 @@
+/**
+ * Unit tests for blending elevations from a reference recording
+ */
+
+import {
+  alignReferenceElevations,
+  blendReferenceElevations,
+  computeElevationResiduals
+} from '../reference-blend';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Roughly 11 m per 0.0001° of latitude
+const LAT_STEP = 0.0001;
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0, lat: number = 0, lon: number = 0): TrackPoint => ({
+  lat,
+  lon,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('alignReferenceElevations', () => {
+  // Reference heading north along lon 0, rising 10 m per step
+  const reference = [0, 1, 2, 3].map(step => createMockPoint(100 + step * 10, 0, 50 + step * LAT_STEP, 14));
+
+  it('should interpolate the reference at the nearest position, not the nearest index', () => {
+    const points = [
+      createMockPoint(0, 0, 50 + 2.5 * LAT_STEP, 14),
+      createMockPoint(0, 0, 50 + 0.5 * LAT_STEP, 14.00005),
+      createMockPoint(0, 0, 50 + 3 * LAT_STEP, 14)
+    ];
+
+    const aligned = alignReferenceElevations(points, reference);
+
+    expect(aligned[0]).toBeCloseTo(125, 6);
+    expect(aligned[1]).toBeCloseTo(105, 6);
+    expect(aligned[2]).toBeCloseTo(130, 6);
+  });
+
+  it('should leave points far from the reference unmatched', () => {
+    const points = [
+      createMockPoint(0, 0, 50 + LAT_STEP, 14.001),
+      createMockPoint(0, 0, 50 + 10 * LAT_STEP, 14)
+    ];
+
+    expect(alignReferenceElevations(points, reference)).toEqual([null, null]);
+  });
+
+  it('should respect a custom maximum offset', () => {
+    // About 72 m east of the reference
+    const point = createMockPoint(0, 0, 50 + LAT_STEP, 14.001);
+
+    expect(alignReferenceElevations([point], reference, 100)[0]).toBeCloseTo(110, 6);
+  });
+
+  it('should handle empty and single-point references', () => {
+    const point = createMockPoint(0, 0, 50, 14);
+
+    expect(alignReferenceElevations([point], [])).toEqual([null]);
+    expect(alignReferenceElevations([point], [reference[0]])).toEqual([100]);
+  });
+});
+
+describe('blendReferenceElevations', () => {
+  const points = [0, 100, 200, 300].map(distance => createMockPoint(100, distance));
+
+  it('should transfer every matched elevation', () => {
+    const result = blendReferenceElevations(points, [110, null, 100, 130], 'transfer');
+
+    expect(result.points.map(p => p.ele)).toEqual([110, 100, 100, 130]);
+    expect(result.changedIndices).toEqual([0, 3]);
+    expect(result.unmatchedCount).toBe(1);
+  });
+
+  it('should average with the reference', () => {
+    const result = blendReferenceElevations(points, [110, null, 100, 130], 'average');
+
+    expect(result.points.map(p => p.ele)).toEqual([105, 100, 100, 115]);
+    expect(result.changedIndices).toEqual([0, 3]);
+  });
+
+  it('should only change points within the distance range', () => {
+    const result = blendReferenceElevations(points, [110, 120, 130, 140], 'transfer', [250, 90]);
+
+    expect(result.points.map(p => p.ele)).toEqual([100, 120, 130, 100]);
+    expect(result.changedIndices).toEqual([1, 2]);
+  });
+});
+
+describe('computeElevationResiduals', () => {
+  it('should subtract the reference from the track', () => {
+    const points = [createMockPoint(100), createMockPoint(120), createMockPoint(90)];
+
+    expect(computeElevationResiduals(points, [95, null, 100])).toEqual([5, null, -10]);
+  });
+});
@@ -2,9 +2,25 @@
  * Unit tests for smoothing algorithms
  */
 
-import { applySmoothTransition, applyClickSmoothing } from '../smoothing';
+import {
+  applySmoothTransition,
+  applyClickSmoothing,
+  interpolateRange,
+  flattenRange,
+  offsetRange,
+  scaleRange,
+  gaussianSmooth,
+  savitzkyGolaySmooth,
+  medianSmooth,
+  kalmanSmooth,
+  applySmoothing
+} from '../smoothing';
+import { DEFAULT_SMOOTHING_PARAMS } from '../../constants';
+import { ElevationLimits } from '../../types';
 import { TrackPoint } from '@/lib/gpx-parser';
 
+const SEA_LEVEL_FLOOR: ElevationLimits = { floor: 0, ceiling: null };
+
 // Helper to create mock track points
 const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
   lat: 0,
@@ -35,7 +51,7 @@ describe('applySmoothTransition', () => {
       createMockPoint(120, 200)
     ];
     const original = points.map(p => ({ ...p }));
-    const result = applySmoothTransition(points, 1, 115, 1, 0);
+    const result = applySmoothTransition(points, 1, 115, 150, 0);
 
     expect(result[0].ele).toBe(original[0].ele);
     expect(result[1].ele).toBe(115); // Target point still changes
@@ -50,7 +66,7 @@ describe('applySmoothTransition', () => {
       createMockPoint(100, 300),
       createMockPoint(100, 400)
     ];
-    const result = applySmoothTransition(points, 2, 120, 1, 1.0);
+    const result = applySmoothTransition(points, 2, 120, 150, 1.0);
 
     // Middle point should be 120
     expect(result[2].ele).toBe(120);
@@ -68,7 +84,7 @@ describe('applySmoothTransition', () => {
       createMockPoint(100, 100),
       createMockPoint(100, 200)
     ];
-    const result = applySmoothTransition(points, 0, 120, 2, 0.5);
+    const result = applySmoothTransition(points, 0, 120, 250, 0.5);
 
     expect(result[0].ele).toBe(120);
     expect(result.length).toBe(3);
@@ -80,32 +96,46 @@ describe('applySmoothTransition', () => {
       createMockPoint(100, 100),
       createMockPoint(100, 200)
     ];
-    const result = applySmoothTransition(points, 2, 120, 2, 0.5);
+    const result = applySmoothTransition(points, 2, 120, 250, 0.5);
 
     expect(result[2].ele).toBe(120);
     expect(result.length).toBe(3);
   });
 
-  it('should not create negative elevations', () => {
+  it('should keep elevations above the floor', () => {
     const points: TrackPoint[] = [
       createMockPoint(10, 0),
       createMockPoint(10, 100),
       createMockPoint(10, 200)
     ];
-    const result = applySmoothTransition(points, 1, 0, 5, 2.0);
+    const result = applySmoothTransition(points, 1, -20, 500, 2.0, SEA_LEVEL_FLOOR);
 
     result.forEach(point => {
       expect(point.ele).toBeGreaterThanOrEqual(0);
     });
   });
 
+  it('should keep elevations below the ceiling', () => {
+    const points: TrackPoint[] = [
+      createMockPoint(90, 0),
+      createMockPoint(90, 100),
+      createMockPoint(90, 200)
+    ];
+    const result = applySmoothTransition(points, 1, 150, 500, 1, { floor: null, ceiling: 100 });
+
+    expect(result[1].ele).toBe(100);
+    result.forEach(point => {
+      expect(point.ele).toBeLessThanOrEqual(100);
+    });
+  });
+
   it('should preserve other point properties', () => {
     const points: TrackPoint[] = [
       { lat: 50.1, lon: 14.5, ele: 100, distance: 0, time: '2024-01-01', originalIndex: 0 },
       { lat: 50.2, lon: 14.6, ele: 110, distance: 100, time: '2024-01-02', originalIndex: 1 },
       { lat: 50.3, lon: 14.7, ele: 120, distance: 200, time: '2024-01-03', originalIndex: 2 }
     ];
-    const result = applySmoothTransition(points, 1, 115, 1, 0.5);
+    const result = applySmoothTransition(points, 1, 115, 150, 0.5);
 
     expect(result[1].lat).toBe(50.2);
     expect(result[1].lon).toBe(14.6);
@@ -113,6 +143,23 @@ describe('applySmoothTransition', () => {
     expect(result[1].time).toBe('2024-01-02');
     expect(result[1].originalIndex).toBe(1);
   });
+
+  it('should measure the radius in meters, not points', () => {
+    // Dense samples near the target, then a long gap
+    const points: TrackPoint[] = [
+      createMockPoint(100, 0),
+      createMockPoint(100, 10),
+      createMockPoint(100, 20),
+      createMockPoint(100, 30),
+      createMockPoint(100, 1000)
+    ];
+    const result = applySmoothTransition(points, 1, 120, 50, 1.0);
+
+    expect(result[0].ele).toBeCloseTo(116, 6);
+    expect(result[2].ele).toBeCloseTo(116, 6);
+    expect(result[3].ele).toBeCloseTo(112, 6);
+    expect(result[4].ele).toBe(100);
+  });
 });
 
 describe('applyClickSmoothing', () => {
@@ -128,13 +175,13 @@ describe('applyClickSmoothing', () => {
     expect(result[1].ele).toBe(110);
   });
 
-  it('should average with neighbors when radius is 1', () => {
+  it('should average with neighbors within the radius', () => {
     const points: TrackPoint[] = [
       createMockPoint(100, 0),
       createMockPoint(150, 100),
       createMockPoint(100, 200)
     ];
-    const result = applyClickSmoothing(points, 1, 1, 1.0);
+    const result = applyClickSmoothing(points, 1, 150, 1.0);
 
     // Should average 100 + 150 + 100 with weights
     expect(result[1].ele).toBeLessThan(150);
@@ -147,7 +194,7 @@ describe('applyClickSmoothing', () => {
       createMockPoint(100, 100),
       createMockPoint(100, 200)
     ];
-    const result = applyClickSmoothing(points, 0, 1, 0.5);
+    const result = applyClickSmoothing(points, 0, 150, 0.5);
 
     expect(result[0].ele).toBeLessThanOrEqual(120);
     expect(result.length).toBe(3);
@@ -159,22 +206,22 @@ describe('applyClickSmoothing', () => {
       createMockPoint(100, 100),
       createMockPoint(120, 200)
     ];
-    const result = applyClickSmoothing(points, 2, 1, 0.5);
+    const result = applyClickSmoothing(points, 2, 150, 0.5);
 
     expect(result[2].ele).toBeLessThanOrEqual(120);
     expect(result.length).toBe(3);
   });
 
-  it('should not create negative elevations', () => {
+  it('should keep elevations above the floor', () => {
     const points: TrackPoint[] = [
       createMockPoint(5, 0),
       createMockPoint(10, 100),
       createMockPoint(5, 200)
     ];
-    const result = applyClickSmoothing(points, 1, 2, 2.0);
+    const result = applyClickSmoothing(points, 1, 250, 2.0, { floor: 8, ceiling: null });
 
     result.forEach(point => {
-      expect(point.ele).toBeGreaterThanOrEqual(0);
+      expect(point.ele).toBeGreaterThanOrEqual(8);
     });
   });
 
@@ -184,7 +231,7 @@ describe('applyClickSmoothing', () => {
       { lat: 50.2, lon: 14.6, ele: 110, distance: 100, time: '2024-01-02', originalIndex: 1 },
       { lat: 50.3, lon: 14.7, ele: 120, distance: 200, time: '2024-01-03', originalIndex: 2 }
     ];
-    const result = applyClickSmoothing(points, 1, 1, 0.5);
+    const result = applyClickSmoothing(points, 1, 150, 0.5);
 
     expect(result[1].lat).toBe(50.2);
     expect(result[1].lon).toBe(14.6);
@@ -199,12 +246,241 @@ describe('applyClickSmoothing', () => {
       createMockPoint(100, 200)
     ];
 
-    const resultLowStrength = applyClickSmoothing(points, 1, 1, 0.1);
-    const resultHighStrength = applyClickSmoothing(points, 1, 1, 0.9);
+    const resultLowStrength = applyClickSmoothing(points, 1, 150, 0.1);
+    const resultHighStrength = applyClickSmoothing(points, 1, 150, 0.9);
 
     // Higher strength should result in more smoothing (closer to neighbors)
     expect(Math.abs(resultHighStrength[1].ele - 200)).toBeGreaterThan(
       Math.abs(resultLowStrength[1].ele - 200)
     );
   });
+
+  it('should only average points within the radius in meters', () => {
+    const points: TrackPoint[] = [
+      createMockPoint(0, 0),
+      createMockPoint(100, 1000),
+      createMockPoint(110, 1010),
+      createMockPoint(120, 1020),
+      createMockPoint(0, 2000)
+    ];
+    const result = applyClickSmoothing(points, 2, 50, 1.0);
+
+    expect(result[2].ele).toBe(110);
+    expect(result[1].ele).toBeCloseTo(108, 6);
+    expect(result[0].ele).toBe(0);
+    expect(result[4].ele).toBe(0);
+  });
+});
+
+describe('interpolateRange', () => {
+  it('should draw a straight line between the endpoints by distance', () => {
+    const points = [
+      createMockPoint(100, 0),
+      createMockPoint(100, 100),
+      createMockPoint(150, 150),
+      createMockPoint(90, 200),
+      createMockPoint(140, 500),
+      createMockPoint(100, 600)
+    ];
+    const result = interpolateRange(points, 1, 4);
+
+    expect(result.map(p => p.ele)).toEqual([100, 100, 105, 110, 140, 100]);
+  });
+
+  it('should fall back to index spacing when the range has no length', () => {
+    const points = [createMockPoint(100, 0), createMockPoint(500, 0), createMockPoint(120, 0)];
+
+    expect(interpolateRange(points, 0, 2)[1].ele).toBe(110);
+  });
+
+  it('should not modify the source points', () => {
+    const points = [createMockPoint(100, 0), createMockPoint(500, 100), createMockPoint(120, 200)];
+    interpolateRange(points, 0, 2);
+
+    expect(points[1].ele).toBe(500);
+  });
+});
+
+describe('flattenRange', () => {
+  it('should set every point in the range to the elevation', () => {
+    const points = [100, 110, 120, 130].map((ele, i) => createMockPoint(ele, i * 100));
+
+    expect(flattenRange(points, 1, 2, 115).map(p => p.ele)).toEqual([100, 115, 115, 130]);
+  });
+
+  it('should keep elevations above the floor', () => {
+    const points = [createMockPoint(10, 0), createMockPoint(20, 100)];
+
+    expect(flattenRange(points, 0, 1, -5, SEA_LEVEL_FLOOR).map(p => p.ele)).toEqual([0, 0]);
+  });
+});
+
+describe('offsetRange', () => {
+  it('should shift only the points in the range', () => {
+    const points = [100, 110, 120, 130].map((ele, i) => createMockPoint(ele, i * 100));
+
+    expect(offsetRange(points, 1, 2, -15).map(p => p.ele)).toEqual([100, 95, 105, 130]);
+  });
+
+  it('should keep elevations above the floor', () => {
+    const points = [createMockPoint(10, 0), createMockPoint(20, 100)];
+
+    expect(offsetRange(points, 0, 1, -15, SEA_LEVEL_FLOOR).map(p => p.ele)).toEqual([0, 5]);
+  });
+});
+
+describe('scaleRange', () => {
+  it('should scale deviations around the range mean', () => {
+    const points = [0, 90, 110, 100, 0].map((ele, i) => createMockPoint(ele, i * 100));
+
+    expect(scaleRange(points, 1, 3, 0.5).map(p => p.ele)).toEqual([0, 95, 105, 100, 0]);
+    expect(scaleRange(points, 1, 3, 2).map(p => p.ele)).toEqual([0, 80, 120, 100, 0]);
+  });
+
+  it('should flatten at the mean with a factor of 0', () => {
+    const points = [90, 110].map((ele, i) => createMockPoint(ele, i * 100));
+
+    expect(scaleRange(points, 0, 1, 0).map(p => p.ele)).toEqual([100, 100]);
+  });
+});
+
+// Deterministic pseudo-random noise in [-1, 1)
+const noise = (index: number) => {
+  const x = Math.sin(index * 12.9898) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+const rmsError = (values: number[], expected: (index: number) => number) =>
+  Math.sqrt(values.reduce((sum, value, i) => sum + (value - expected(i)) ** 2, 0) / values.length);
+
+describe('gaussianSmooth', () => {
+  it('should keep a straight slope away from the ends', () => {
+    const points = Array.from({ length: 50 }, (_, i) => createMockPoint(100 + i * 2, i * 10));
+    const result = gaussianSmooth(points, 20);
+
+    expect(result[25]).toBeCloseTo(150, 6);
+  });
+
+  it('should weight neighbours by distance, not index', () => {
+    // Many points clustered near 0 m must not pull the point at 500 m
+    const points = [
+      ...Array.from({ length: 20 }, (_, i) => createMockPoint(0, i)),
+      createMockPoint(100, 500)
+    ];
+
+    expect(gaussianSmooth(points, 30)[20]).toBe(100);
+  });
+
+  it('should return the elevations unchanged with a zero sigma', () => {
+    const points = [createMockPoint(100, 0), createMockPoint(150, 10)];
+
+    expect(gaussianSmooth(points, 0)).toEqual([100, 150]);
+  });
+});
+
+describe('savitzkyGolaySmooth', () => {
+  it('should reproduce a quadratic profile exactly, including the ends', () => {
+    // Uneven spacing to check that distances are used
+    const distances = [0, 5, 20, 22, 40, 55, 61, 80, 95, 100];
+    const profile = (d: number) => 100 + 0.5 * d - 0.004 * d * d;
+    const points = distances.map(d => createMockPoint(profile(d), d));
+
+    savitzkyGolaySmooth(points, 5, 2).forEach((value, i) => {
+      expect(value).toBeCloseTo(profile(distances[i]), 6);
+    });
+  });
+
+  it('should reduce noise', () => {
+    const points = Array.from({ length: 100 }, (_, i) => createMockPoint(100 + i + noise(i) * 5, i * 10));
+    const result = savitzkyGolaySmooth(points, 21, 2);
+
+    expect(rmsError(result, i => 100 + i)).toBeLessThan(rmsError(points.map(p => p.ele), i => 100 + i) / 2);
+  });
+});
+
+describe('medianSmooth', () => {
+  it('should remove an isolated spike', () => {
+    const points = [100, 101, 160, 103, 104].map((ele, i) => createMockPoint(ele, i * 10));
+
+    expect(medianSmooth(points, 3)[2]).toBe(103);
+  });
+});
+
+describe('kalmanSmooth', () => {
+  it('should follow a steady climb without lag', () => {
+    const points = Array.from({ length: 50 }, (_, i) => createMockPoint(100 + i * 3, i * 20));
+    const result = kalmanSmooth(points, 5);
+
+    result.forEach((value, i) => {
+      expect(value).toBeCloseTo(100 + i * 3, 2);
+    });
+  });
+
+  it('should reduce noise', () => {
+    const points = Array.from({ length: 200 }, (_, i) => createMockPoint(200 + i * 0.5 + noise(i) * 5, i * 10));
+    const result = kalmanSmooth(points, 5);
+
+    expect(rmsError(result, i => 200 + i * 0.5)).toBeLessThan(rmsError(points.map(p => p.ele), i => 200 + i * 0.5) / 2);
+  });
+
+  it('should handle empty input and repeated positions', () => {
+    expect(kalmanSmooth([], 5)).toEqual([]);
+
+    const result = kalmanSmooth([createMockPoint(100, 0), createMockPoint(110, 0), createMockPoint(105, 10)], 5);
+    result.forEach(value => expect(Number.isFinite(value)).toBe(true));
+  });
+});
+
+describe('applySmoothing', () => {
+  it('should only change points within the index range', () => {
+    const points = [100, 140, 100, 140, 100, 140].map((ele, i) => createMockPoint(ele, i * 10));
+    const result = applySmoothing(points, 'median', { ...DEFAULT_SMOOTHING_PARAMS, medianWindow: 3 }, 2, 3);
+
+    expect(result.map(p => p.ele)).toEqual([100, 140, 140, 100, 100, 140]);
+  });
+});
+
+describe('elevations below sea level', () => {
+  // Dead Sea shore road, around 400 m below sea level
+  const points = [-400, -405, -390, -410, -402, -398].map((ele, i) => createMockPoint(ele, i * 100));
+
+  it('should drag points below sea level without clamping', () => {
+    const result = applySmoothTransition(points, 2, -430, 150, 1);
+
+    expect(result[2].ele).toBe(-430);
+    expect(result[1].ele).toBeLessThan(-405);
+    expect(result[3].ele).toBeLessThan(-410);
+  });
+
+  it('should smooth negative elevations on click', () => {
+    const result = applyClickSmoothing(points, 2, 100, 1);
+    const average = (-405 - 390 - 410) / 3;
+
+    expect(result[2].ele).toBeCloseTo(average, 6);
+  });
+
+  it('should apply the range operations to negative elevations', () => {
+    expect(interpolateRange(points, 0, 2).map(p => p.ele)).toEqual([-400, -395, -390, -410, -402, -398]);
+    expect(flattenRange(points, 1, 2, -420).map(p => p.ele).slice(1, 3)).toEqual([-420, -420]);
+    expect(offsetRange(points, 0, 1, -10).map(p => p.ele).slice(0, 2)).toEqual([-410, -415]);
+    expect(scaleRange(points, 0, 1, 0).map(p => p.ele).slice(0, 2)).toEqual([-402.5, -402.5]);
+  });
+
+  it('should smooth negative elevations with every algorithm', () => {
+    (['gaussian', 'savitzky-golay', 'median', 'kalman'] as const).forEach(algorithm => {
+      const result = applySmoothing(points, algorithm, DEFAULT_SMOOTHING_PARAMS);
+
+      result.forEach(point => {
+        expect(point.ele).toBeLessThan(-380);
+        expect(point.ele).toBeGreaterThan(-420);
+      });
+    });
+  });
+
+  it('should respect a floor below sea level', () => {
+    const limits: ElevationLimits = { floor: -405, ceiling: null };
+
+    expect(offsetRange(points, 0, 5, -10, limits).map(p => p.ele)).toEqual([-405, -405, -400, -405, -405, -405]);
+    expect(applySmoothing(points, 'median', DEFAULT_SMOOTHING_PARAMS, 0, 5, limits).every(p => p.ele >= -405)).toBe(true);
+  });
 });
@@ -208,4 +208,43 @@ describe('calculateElevationStats', () => {
     expect(stats.totalAscent).toBe(0);
     expect(stats.totalDescent).toBeGreaterThan(0);
   });
+
+  it('should summarize heart rate, power and cadence', () => {
+    const points: TrackPoint[] = [
+      { ...createMockPoint(100, 0), heartRate: 120, power: 200, cadence: 80 },
+      { ...createMockPoint(100, 100), heartRate: 150, power: 0, cadence: 0 },
+      { ...createMockPoint(100, 200), heartRate: 141, power: 250, cadence: 90 },
+      createMockPoint(100, 300)
+    ];
+
+    const stats = calculateElevationStats(points, 300, 0);
+
+    expect(stats.averageHeartRate).toBe(137);
+    expect(stats.maxHeartRate).toBe(150);
+    expect(stats.averagePower).toBe(150);
+    // Zero cadence (coasting) is not averaged
+    expect(stats.averageCadence).toBe(85);
+  });
+
+  it('should summarize long tracks', () => {
+    const points: TrackPoint[] = Array.from({ length: 200000 }, (_, index) => ({
+      ...createMockPoint(100 + (index % 500), index),
+      heartRate: 100 + (index % 80)
+    }));
+
+    const stats = calculateElevationStats(points, 199999, 0);
+
+    expect(stats.minElevation).toBe(100);
+    expect(stats.maxElevation).toBe(599);
+    expect(stats.maxHeartRate).toBe(179);
+  });
+
+  it('should return null sensor statistics without readings', () => {
+    const stats = calculateElevationStats([createMockPoint(100, 0), createMockPoint(110, 100)], 100, 0);
+
+    expect(stats.averageHeartRate).toBeNull();
+    expect(stats.maxHeartRate).toBeNull();
+    expect(stats.averagePower).toBeNull();
+    expect(stats.averageCadence).toBeNull();
+  });
 });
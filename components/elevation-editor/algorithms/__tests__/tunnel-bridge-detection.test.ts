@@ -0,0 +1,133 @@
+/**
+ * Unit tests for tunnel and bridge detection
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { detectTunnelsAndBridges } from '../tunnel-bridge-detection';
+import { interpolateRange } from '../smoothing';
+import { findIndexRange } from '../../utils/range';
+import { parseGPX, TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0, time?: string): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  time,
+  originalIndex: 0
+});
+
+// 3 km at 10 m spacing on a steady 3% climb, with a bump between 1000 and 1300 m
+// rising at 50% (terrain, not a road) on either side, up to the given height
+const createTrack = (bumpHeight: number, secondsPerPoint?: (index: number) => number) => {
+  let seconds = 0;
+  return Array.from({ length: 301 }, (_, i) => {
+    const distance = i * 10;
+    const intoBump = Math.min(distance - 1000, 1300 - distance);
+    const bump = intoBump > 0 ? Math.sign(bumpHeight) * Math.min(intoBump * 0.5, Math.abs(bumpHeight)) : 0;
+    const time = secondsPerPoint ? new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString() : undefined;
+    seconds += secondsPerPoint ? secondsPerPoint(i) : 0;
+    return createMockPoint(200 + distance * 0.03 + bump, distance, time);
+  });
+};
+
+describe('detectTunnelsAndBridges', () => {
+  it('should return empty array for insufficient data', () => {
+    expect(detectTunnelsAndBridges([createMockPoint(100, 0), createMockPoint(100, 10)])).toEqual([]);
+  });
+
+  it('should find nothing on a steady climb', () => {
+    expect(detectTunnelsAndBridges(createTrack(0))).toEqual([]);
+  });
+
+  it('should label a hump above the chord as a likely tunnel', () => {
+    const structures = detectTunnelsAndBridges(createTrack(60));
+
+    expect(structures).toHaveLength(1);
+    expect(structures[0].kind).toBe('tunnel');
+    expect(structures[0].startDistance).toBe(1000);
+    expect(structures[0].endDistance).toBe(1300);
+    expect(structures[0].deviation).toBeCloseTo(60, 6);
+  });
+
+  it('should label a dip below the chord as a likely bridge', () => {
+    const structures = detectTunnelsAndBridges(createTrack(-40));
+
+    expect(structures).toHaveLength(1);
+    expect(structures[0].kind).toBe('bridge');
+    expect(structures[0].startDistance).toBe(1000);
+    expect(structures[0].endDistance).toBe(1300);
+  });
+
+  it('should ignore bumps below the minimum deviation', () => {
+    expect(detectTunnelsAndBridges(createTrack(5))).toEqual([]);
+  });
+
+  it('should ignore real hills that a road climbs at moderate gradients', () => {
+    // 60 m hill over 1.2 km with 10% flanks
+    const points = Array.from({ length: 301 }, (_, i) => {
+      const distance = i * 10;
+      const intoHill = Math.min(distance - 900, 2100 - distance);
+      return createMockPoint(200 + (intoHill > 0 ? Math.min(intoHill * 0.1, 60) : 0), distance);
+    });
+
+    expect(detectTunnelsAndBridges(points)).toEqual([]);
+  });
+
+  it('should ignore the real hills and bad readings of the sample track', () => {
+    const { trackPoints } = parseGPX(fs.readFileSync(path.join(process.cwd(), 'public/sample.gpx'), 'utf-8'));
+    // The 60 m hill between about 6.46 and 7.95 km, without the timestamps that
+    // would let the speed check reject it
+    const hill = trackPoints
+      .filter(point => (point.distance ?? 0) >= 6300)
+      .map(point => ({ ...point, time: undefined }));
+
+    expect(detectTunnelsAndBridges(trackPoints)).toEqual([]);
+    expect(detectTunnelsAndBridges(hill)).toEqual([]);
+  });
+
+  it('should ignore single bad readings', () => {
+    const points = createTrack(0);
+    points[150] = createMockPoint(points[150].ele + 70, 1500);
+
+    expect(detectTunnelsAndBridges(points)).toEqual([]);
+  });
+
+  it('should find a tunnel in a densely recorded track', () => {
+    // 2 m spacing, so only some of the points are tried as ends
+    const points = Array.from({ length: 1501 }, (_, i) => {
+      const distance = i * 2;
+      const intoBump = Math.min(distance - 1000, 1300 - distance);
+      return createMockPoint(200 + distance * 0.03 + (intoBump > 0 ? Math.min(intoBump * 0.5, 60) : 0), distance);
+    });
+
+    const structures = detectTunnelsAndBridges(points);
+
+    expect(structures).toHaveLength(1);
+    // Within the anchor spacing of the portals
+    expect(Math.abs(structures[0].startDistance - 1000)).toBeLessThanOrEqual(10);
+    expect(Math.abs(structures[0].endDistance - 1300)).toBeLessThanOrEqual(10);
+  });
+
+  it('should require a steady speed when the points have timestamps', () => {
+    const steady = createTrack(60, () => 2);
+    // Crawling up the bump and rushing down it, as on a real climb
+    const varying = createTrack(60, i => (i >= 100 && i < 115 ? 12 : 2));
+
+    expect(detectTunnelsAndBridges(steady)).toHaveLength(1);
+    expect(detectTunnelsAndBridges(varying)).toEqual([]);
+  });
+
+  it('should find nothing once the stretch is replaced with its chord', () => {
+    const points = createTrack(60);
+    const [structure] = detectTunnelsAndBridges(points);
+    const [first, last] = findIndexRange(points, [structure.startDistance, structure.endDistance])!;
+
+    const straightened = interpolateRange(points, first, last);
+
+    expect(straightened[115].ele).toBeCloseTo(200 + 1150 * 0.03, 6);
+    expect(detectTunnelsAndBridges(straightened)).toEqual([]);
+  });
+});
@@ -3,7 +3,9 @@
  */
 
 import { TrackPoint } from '@/lib/gpx-parser';
-import { AnomalyRegion } from '../types';
+import { AnomalyDetector, AnomalyRegion, HampelParams } from '../types';
+import { DEFAULT_HAMPEL_PARAMS, MAD_SCALE } from '../constants';
+import { findIndexRange } from '../utils/range';
 
 /**
  * Detects elevation anomalies in a GPX track based on gradient and elevation change thresholds
@@ -125,3 +127,120 @@ export const detectElevationAnomalies = (trackPoints: TrackPoint[], threshold: n
 
   return regions;
 };
+
+/**
+ * Middle value of an unsorted list
+ */
+const median = (values: number[]): number => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Detects elevation anomalies with a Hampel filter
+ *
+ * Each point is compared with the median of the points around it. A point is an
+ * outlier when it lies further from that median than a multiple of the window's
+ * median absolute deviation (scaled to a standard deviation), and at least
+ * threshold meters away. Steady climbs follow their median, so steep trails are
+ * not flagged, while a single-point spike is. Errors spanning more than half the
+ * window shift the median themselves and are not reliably found.
+ *
+ * Consecutive outliers form one region, reaching halfway to the neighbouring
+ * points so that the region covers exactly the outliers.
+ *
+ * @param trackPoints - Array of track points with elevation and distance data
+ * @param threshold - Minimum distance (in meters) from the rolling median to consider as anomalous
+ * @param params - Window size and outlier cut-off
+ * @returns Array of anomaly regions with start/end distances and severity scores
+ */
+export const detectHampelAnomalies = (
+  trackPoints: TrackPoint[],
+  threshold: number,
+  params: HampelParams = DEFAULT_HAMPEL_PARAMS
+): AnomalyRegion[] => {
+  const halfWindow = Math.max(1, Math.round(params.halfWindow));
+  if (trackPoints.length < 2 * halfWindow + 1) {
+    return [];
+  }
+
+  const elevations = trackPoints.map(p => p.ele);
+  const distances = trackPoints.map(p => p.distance ?? 0);
+
+  // Severity of each point: its deviation relative to the cut-off, 0 when not an outlier
+  const severities = elevations.map((elevation, i) => {
+    const window = elevations.slice(Math.max(0, i - halfWindow), Math.min(elevations.length, i + halfWindow + 1));
+    const center = median(window);
+    const mad = MAD_SCALE * median(window.map(value => Math.abs(value - center)));
+    const cutoff = Math.max(params.sigmas * mad, threshold);
+    const deviation = Math.abs(elevation - center);
+    return deviation > cutoff && cutoff > 0 ? deviation / cutoff : 0;
+  });
+
+  const regions: AnomalyRegion[] = [];
+  let i = 0;
+  while (i < severities.length) {
+    if (severities[i] === 0) {
+      i++;
+      continue;
+    }
+
+    const first = i;
+    let maxSeverity = 0;
+    while (i < severities.length && severities[i] > 0) {
+      maxSeverity = Math.max(maxSeverity, severities[i]);
+      i++;
+    }
+    const last = i - 1;
+
+    regions.push({
+      startDistance: first > 0 ? (distances[first - 1] + distances[first]) / 2 : distances[first],
+      endDistance: last < distances.length - 1 ? (distances[last] + distances[last + 1]) / 2 : distances[last],
+      severity: maxSeverity
+    });
+  }
+
+  return regions;
+};
+
+/**
+ * Runs the chosen anomaly detector
+ *
+ * @param trackPoints - Array of track points with elevation and distance data
+ * @param detector - Which detector to run
+ * @param threshold - Minimum elevation change (in meters) to consider as anomalous
+ * @param hampelParams - Parameters of the Hampel detector
+ * @returns Array of anomaly regions with start/end distances and severity scores
+ */
+export const detectAnomalies = (
+  trackPoints: TrackPoint[],
+  detector: AnomalyDetector,
+  threshold: number,
+  hampelParams: HampelParams = DEFAULT_HAMPEL_PARAMS
+): AnomalyRegion[] =>
+  detector === 'hampel'
+    ? detectHampelAnomalies(trackPoints, threshold, hampelParams)
+    : detectElevationAnomalies(trackPoints, threshold);
+
+/**
+ * Measures the elevation jump of an anomaly region
+ *
+ * The points on either side of the region are included, as the jump is
+ * usually between them and the first or last point inside.
+ *
+ * @param trackPoints - Track points (distances in meters)
+ * @param region - Anomaly region
+ * @returns Difference between the highest and lowest elevation, in meters
+ */
+export const measureAnomalyJump = (trackPoints: TrackPoint[], region: AnomalyRegion): number => {
+  const indices = findIndexRange(trackPoints, [region.startDistance, region.endDistance]);
+  if (!indices) {
+    return 0;
+  }
+
+  const first = Math.max(0, indices[0] - 1);
+  const last = Math.min(trackPoints.length - 1, indices[1] + 1);
+  const elevations = trackPoints.slice(first, last + 1).map(point => point.ele);
+  return Math.max(...elevations) - Math.min(...elevations);
+};
@@ -0,0 +1,95 @@
+/**
+ * Automatic repair of detected elevation anomalies
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { AnomalyRegion, AnomalyRepairMode, ElevationLimits } from '../types';
+import { NO_ELEVATION_LIMITS } from '../constants';
+import { findIndexRange } from '../utils/range';
+import { clampElevation, computeRollingMedian } from '../utils/math';
+import { interpolateRange } from './smoothing';
+
+/**
+ * Result of a repair: the new points and the indices whose elevation changed
+ */
+export interface AnomalyRepairResult {
+  points: TrackPoint[];
+  changedIndices: number[];
+  repairedCount: number;
+}
+
+/**
+ * Repairs anomaly regions in place of the recorded elevations
+ *
+ * Each region is widened by one point on either side so that its own boundary
+ * points, which are often part of the jump, are repaired too; the points
+ * beyond serve as anchors.
+ *
+ * - `interpolate` replaces the region with a straight line between the anchors.
+ * - `smooth` blends each point toward a rolling median spanning twice the
+ *   region, which ignores the spike itself, by the given strength.
+ *
+ * @param points - Track points (distances in meters)
+ * @param regions - Anomaly regions to repair
+ * @param mode - Repair method
+ * @param strength - Blend strength (0-1) for `smooth`; ignored for `interpolate`
+ * @param limits - Floor and ceiling the repaired elevations are kept within
+ * @returns Repaired points, changed indices and the number of regions changed
+ */
+export const repairAnomalies = (
+  points: TrackPoint[],
+  regions: AnomalyRegion[],
+  mode: AnomalyRepairMode,
+  strength: number = 1,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): AnomalyRepairResult => {
+  const clampedStrength = Math.min(Math.max(strength, 0), 1);
+  const elevations = points.map(point => point.ele);
+  let repairedCount = 0;
+
+  regions.forEach(region => {
+    const indices = findIndexRange(points, [region.startDistance, region.endDistance]);
+    if (!indices) {
+      return;
+    }
+
+    const first = Math.max(0, indices[0] - 1);
+    const last = Math.min(points.length - 1, indices[1] + 1);
+    let repaired: number[];
+
+    if (mode === 'interpolate') {
+      const span = points.slice(first, last + 1).map((point, offset) => ({ ...point, ele: elevations[first + offset] }));
+      repaired = interpolateRange(span, 0, span.length - 1, limits).map(point => point.ele);
+    } else {
+      const length = last - first + 1;
+      const windowStart = Math.max(0, first - length);
+      const windowEnd = Math.min(points.length - 1, last + length);
+      const medians = computeRollingMedian(elevations.slice(windowStart, windowEnd + 1), 2 * length + 1);
+      repaired = elevations
+        .slice(first, last + 1)
+        .map((ele, offset) => clampElevation(ele + (medians[first + offset - windowStart] - ele) * clampedStrength, limits));
+    }
+
+    let changed = false;
+    repaired.forEach((ele, offset) => {
+      if (ele !== elevations[first + offset]) {
+        elevations[first + offset] = ele;
+        changed = true;
+      }
+    });
+    if (changed) {
+      repairedCount++;
+    }
+  });
+
+  const changedIndices: number[] = [];
+  const repairedPoints = points.map((point, index) => {
+    if (elevations[index] === point.ele) {
+      return point;
+    }
+    changedIndices.push(index);
+    return { ...point, ele: elevations[index] };
+  });
+
+  return { points: repairedPoints, changedIndices, repairedCount };
+};
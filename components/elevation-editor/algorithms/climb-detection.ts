@@ -0,0 +1,135 @@
+/**
+ * Climb segmentation and categorization for elevation profiles
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { Climb, ClimbCategory } from '../types';
+import { computeRollingMedian } from '../utils/math';
+import {
+  CLIMB_CATEGORIES,
+  CLIMB_DESCENT_TOLERANCE,
+  CLIMB_GRADIENT_WINDOW,
+  CLIMB_MIN_GRADIENT,
+  MEDIAN_WINDOW_SIZE
+} from '../constants';
+
+/**
+ * Hardest category whose minimum score is reached, or null below Cat 4
+ */
+const categorize = (score: number): ClimbCategory | null =>
+  CLIMB_CATEGORIES.find(entry => score >= entry.minScore)?.category ?? null;
+
+/**
+ * Steepest gradient over CLIMB_GRADIENT_WINDOW meters between two points, or
+ * the average gradient when the stretch is shorter than that
+ */
+const steepestGradient = (elevations: number[], distances: number[], start: number, end: number): number => {
+  let steepest = (elevations[end] - elevations[start]) / (distances[end] - distances[start]);
+  let ahead = start;
+  for (let index = start; index < end; index++) {
+    while (ahead < end && distances[ahead] - distances[index] < CLIMB_GRADIENT_WINDOW) {
+      ahead++;
+    }
+    const run = distances[ahead] - distances[index];
+    if (run < CLIMB_GRADIENT_WINDOW) {
+      break;
+    }
+    steepest = Math.max(steepest, (elevations[ahead] - elevations[index]) / run);
+  }
+  return steepest;
+};
+
+/**
+ * Detects the categorized climbs along a track
+ *
+ * Elevations are first median-filtered like the ascent statistics, so single
+ * noisy points neither start nor break a climb. The track is then split into
+ * rises from a low point to the highest point reached before the profile drops
+ * more than CLIMB_DESCENT_TOLERANCE below it. Each rise is trimmed to where
+ * the gradient over CLIMB_GRADIENT_WINDOW meters first and last reaches
+ * CLIMB_MIN_GRADIENT, so gentle lead-ins and run-outs are left out, and is
+ * categorized by its score (length in meters times average gradient in
+ * percent). Rises averaging less than CLIMB_MIN_GRADIENT or scoring below
+ * Cat 4 are dropped.
+ *
+ * @param trackPoints - Array of track points with elevation and distance data
+ * @returns Climbs in order of distance
+ */
+export const detectClimbs = (trackPoints: TrackPoint[]): Climb[] => {
+  if (trackPoints.length < 2) {
+    return [];
+  }
+
+  const elevations = computeRollingMedian(trackPoints.map(point => point.ele), MEDIAN_WINDOW_SIZE);
+  const distances = trackPoints.map(point => point.distance ?? 0);
+  const climbs: Climb[] = [];
+
+  // Gradient over the window ahead of (direction 1) or behind (direction -1) a point, within a stretch
+  const localGradient = (index: number, direction: 1 | -1, first: number, last: number) => {
+    let other = index;
+    while (other + direction >= first && other + direction <= last &&
+      Math.abs(distances[other] - distances[index]) < CLIMB_GRADIENT_WINDOW) {
+      other += direction;
+    }
+    const run = Math.abs(distances[other] - distances[index]);
+    return run > 0 ? ((elevations[other] - elevations[index]) * direction) / run : 0;
+  };
+
+  const addClimb = (low: number, top: number) => {
+    // Gentle lead-ins and run-outs are approaches, not part of the climb
+    let start = low;
+    let end = top;
+    while (start < end && localGradient(start, 1, start, end) < CLIMB_MIN_GRADIENT) start++;
+    while (end > start && localGradient(end, -1, start, end) < CLIMB_MIN_GRADIENT) end--;
+
+    const length = distances[end] - distances[start];
+    const gain = elevations[end] - elevations[start];
+    if (length <= 0 || gain <= 0) {
+      return;
+    }
+
+    const averageGradient = gain / length;
+    if (averageGradient < CLIMB_MIN_GRADIENT) {
+      return;
+    }
+    const score = length * averageGradient * 100;
+    const category = categorize(score);
+    if (!category) {
+      return;
+    }
+
+    climbs.push({
+      startDistance: distances[start],
+      endDistance: distances[end],
+      length,
+      gain,
+      averageGradient,
+      maxGradient: steepestGradient(elevations, distances, start, end),
+      score,
+      category
+    });
+  };
+
+  let low = 0;
+  let high = 0;
+  for (let index = 1; index < elevations.length; index++) {
+    const elevation = elevations[index];
+    if (elevation > elevations[high]) {
+      high = index;
+    } else if (elevations[high] - elevation > CLIMB_DESCENT_TOLERANCE) {
+      addClimb(low, high);
+      low = index;
+      high = index;
+    }
+    // Before the profile rises, the start follows it down (to the last point of a flat floor)
+    if (elevation <= elevations[low]) {
+      low = index;
+      high = index;
+    }
+  }
+  if (high > low) {
+    addClimb(low, high);
+  }
+
+  return climbs;
+};
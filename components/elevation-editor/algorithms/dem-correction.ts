@@ -0,0 +1,88 @@
+/**
+ * Algorithms for replacing elevations with terrain (DEM) data
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { ElevationPatchResult } from './elevation-patch';
+
+/**
+ * Result of a terrain correction
+ */
+export interface DemCorrectionResult extends ElevationPatchResult {
+  /** Points in the range that no DEM covers; they keep their elevation */
+  uncoveredCount: number;
+}
+
+/**
+ * Replaces elevations with the sampled terrain elevations
+ *
+ * @param points - Track points to correct
+ * @param demElevations - Terrain elevation per point, null where no DEM covers it
+ * @param range - Optional [start, end] distance range in meters; the whole track when omitted
+ * @returns Corrected points, changed indices and the number of uncovered points
+ */
+export const applyDemElevations = (
+  points: TrackPoint[],
+  demElevations: Array<number | null>,
+  range?: [number, number]
+): DemCorrectionResult => {
+  const [start, end] = range ? [Math.min(...range), Math.max(...range)] : [-Infinity, Infinity];
+  const changedIndices: number[] = [];
+  let uncoveredCount = 0;
+
+  const corrected = points.map((point, index) => {
+    const distance = point.distance ?? 0;
+    if (distance < start || distance > end) {
+      return point;
+    }
+
+    const ele = demElevations[index];
+    if (ele === null || ele === undefined) {
+      uncoveredCount++;
+      return point;
+    }
+    if (ele === point.ele) {
+      return point;
+    }
+
+    changedIndices.push(index);
+    return { ...point, ele };
+  });
+
+  return { points: corrected, changedIndices, uncoveredCount };
+};
+
+/**
+ * Finds the stretches of the track that no DEM covers
+ *
+ * Each range spans from halfway to the previous point to halfway to the next
+ * one, so a single uncovered point still gets a visible band on the chart.
+ *
+ * @param points - Track points
+ * @param demElevations - Terrain elevation per point, null where no DEM covers it
+ * @returns [start, end] distance ranges in meters
+ */
+export const findUncoveredRanges = (
+  points: TrackPoint[],
+  demElevations: Array<number | null>
+): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  const distanceAt = (index: number) => points[index].distance ?? 0;
+  let startIndex: number | null = null;
+
+  points.forEach((_, index) => {
+    const uncovered = demElevations[index] === null || demElevations[index] === undefined;
+    if (uncovered && startIndex === null) {
+      startIndex = index;
+    }
+    if (startIndex !== null && (!uncovered || index === points.length - 1)) {
+      const endIndex = uncovered ? index : index - 1;
+      const start = startIndex > 0 ? (distanceAt(startIndex - 1) + distanceAt(startIndex)) / 2 : distanceAt(startIndex);
+      const end = endIndex < points.length - 1 ? (distanceAt(endIndex) + distanceAt(endIndex + 1)) / 2 : distanceAt(endIndex);
+      ranges.push([start, end]);
+      startIndex = null;
+    }
+  });
+
+  return ranges;
+};
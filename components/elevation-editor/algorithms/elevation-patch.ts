@@ -0,0 +1,104 @@
+/**
+ * Algorithms for patching imported elevations onto the loaded track
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { CSVProfileRow } from '@/lib/csv';
+
+/**
+ * Result of a patch: the new points and the indices whose elevation changed
+ */
+export interface ElevationPatchResult {
+  points: TrackPoint[];
+  changedIndices: number[];
+}
+
+const applyElevations = (points: TrackPoint[], elevations: Map<number, number>): ElevationPatchResult => {
+  const changedIndices: number[] = [];
+  const patched = points.map((point, index) => {
+    const ele = elevations.get(index);
+    if (ele === undefined || ele === point.ele) {
+      return point;
+    }
+    changedIndices.push(index);
+    return { ...point, ele };
+  });
+  return { points: patched, changedIndices };
+};
+
+/**
+ * Sets elevations by point index
+ *
+ * Rows without an index are matched by their position in the file, so a file
+ * exported from this editor maps back one-to-one.
+ *
+ * @param points - Track points to patch
+ * @param profile - Imported rows
+ * @returns Patched points and changed indices
+ */
+export const patchElevationsByIndex = (
+  points: TrackPoint[],
+  profile: CSVProfileRow[]
+): ElevationPatchResult => {
+  const elevations = new Map<number, number>();
+  profile.forEach((row, rowIndex) => {
+    const index = row.index !== undefined ? Math.round(row.index) : rowIndex;
+    if (index >= 0 && index < points.length) {
+      elevations.set(index, row.ele);
+    }
+  });
+  return applyElevations(points, elevations);
+};
+
+/**
+ * Sets every point's elevation from the imported row nearest in distance
+ *
+ * Only points within the distance range covered by the rows are changed, so a
+ * profile of part of the track leaves the rest untouched.
+ *
+ * @param points - Track points to patch (distances in meters)
+ * @param profile - Imported rows; rows without a distance are ignored
+ * @returns Patched points and changed indices
+ */
+export const patchElevationsByDistance = (
+  points: TrackPoint[],
+  profile: CSVProfileRow[]
+): ElevationPatchResult => {
+  const rows = profile
+    .filter(row => row.distance !== undefined)
+    .sort((a, b) => a.distance! - b.distance!);
+
+  const elevations = new Map<number, number>();
+  if (rows.length === 0) {
+    return { points, changedIndices: [] };
+  }
+
+  const minDistance = rows[0].distance!;
+  const maxDistance = rows[rows.length - 1].distance!;
+
+  points.forEach((point, index) => {
+    const distance = point.distance ?? 0;
+    if (distance < minDistance || distance > maxDistance) {
+      return;
+    }
+
+    // Binary search for the first row at or beyond the point
+    let low = 0;
+    let high = rows.length - 1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (rows[mid].distance! < distance) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const next = rows[low];
+    const previous = rows[Math.max(0, low - 1)];
+    const nearest = distance - previous.distance! <= next.distance! - distance ? previous : next;
+    elevations.set(index, nearest.ele);
+  });
+
+  return applyElevations(points, elevations);
+};
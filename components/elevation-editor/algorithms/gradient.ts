@@ -0,0 +1,77 @@
+/**
+ * Gradient calculation for elevation profiles
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+
+/**
+ * Computes the gradient around every point, averaged over a distance window
+ *
+ * Each point's gradient is the rise over the run between the first and last
+ * points within half the window on either side, so a single noisy elevation
+ * does not show up as a steep ramp. Near the track ends the window is cut
+ * short, and points without a neighbour within the window fall back to their
+ * nearest neighbours.
+ *
+ * @param trackPoints - Array of track points with elevation and distance data
+ * @param window - Distance in meters the gradient is averaged over
+ * @returns Gradient per point in meters per meter (positive uphill)
+ */
+export const computeGradients = (trackPoints: TrackPoint[], window: number): number[] => {
+  const count = trackPoints.length;
+  if (count < 2) {
+    return trackPoints.map(() => 0);
+  }
+
+  const distances = trackPoints.map(point => point.distance ?? 0);
+  const halfWindow = Math.max(window, 0) / 2;
+  let behind = 0;
+  let ahead = 0;
+
+  return trackPoints.map((_, index) => {
+    while (distances[index] - distances[behind] > halfWindow) behind++;
+    if (ahead < index) ahead = index;
+    while (ahead < count - 1 && distances[ahead + 1] - distances[index] <= halfWindow) ahead++;
+
+    let first = Math.min(behind, Math.max(index - 1, 0));
+    let last = Math.max(ahead, Math.min(index + 1, count - 1));
+    // Coincident points give no run to divide by; widen until there is one
+    while (distances[last] - distances[first] <= 0 && (first > 0 || last < count - 1)) {
+      if (first > 0) first--;
+      if (last < count - 1) last++;
+    }
+
+    const run = distances[last] - distances[first];
+    return run > 0 ? (trackPoints[last].ele - trackPoints[first].ele) / run : 0;
+  });
+};
+
+const toPercent = (gradient: number) => Number((gradient * 100).toFixed(1));
+
+/**
+ * Describes the gradient range of each colour bucket
+ *
+ * @param thresholds - Ascending bucket boundaries in meters per meter
+ * @returns One label per bucket, e.g. "<3%", "3–6%" and ">12%"
+ */
+export const describeGradientBuckets = (thresholds: number[]): string[] =>
+  thresholds.length === 0
+    ? ['All']
+    : [
+        `<${toPercent(thresholds[0])}%`,
+        ...thresholds.slice(1).map((threshold, index) => `${toPercent(thresholds[index])}–${toPercent(threshold)}%`),
+        `>${toPercent(thresholds[thresholds.length - 1])}%`
+      ];
+
+/**
+ * Finds the colour bucket of a gradient
+ *
+ * @param gradient - Gradient in meters per meter; uphill and downhill share buckets
+ * @param thresholds - Ascending bucket boundaries in meters per meter
+ * @returns Index of the bucket, from 0 (gentler than the first threshold) to thresholds.length
+ */
+export const findGradientBucket = (gradient: number, thresholds: number[]): number => {
+  const steepness = Math.abs(gradient);
+  const bucket = thresholds.findIndex(threshold => steepness < threshold);
+  return bucket < 0 ? thresholds.length : bucket;
+};
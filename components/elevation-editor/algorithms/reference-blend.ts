@@ -0,0 +1,156 @@
+/**
+ * Algorithms for blending elevations from a second recording of the same route
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { ReferenceBlendMode } from '../types';
+import { ElevationPatchResult } from './elevation-patch';
+
+/**
+ * Result of blending reference elevations into a track
+ */
+export interface ReferenceBlendResult extends ElevationPatchResult {
+  /** Points in the range with no reference position nearby; they keep their elevation */
+  unmatchedCount: number;
+}
+
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+/**
+ * Aligns a reference recording to the track by position rather than by index
+ *
+ * Every point is matched to the nearest position on the reference track - on
+ * the line between two reference points, not just the nearest point - and the
+ * reference elevation is interpolated there. Points farther than `maxOffset`
+ * from the reference (detours, missing stretches) are left unmatched.
+ *
+ * @param points - Track points to align
+ * @param reference - Points of the reference recording
+ * @param maxOffset - Largest distance in meters between a point and the reference
+ * @returns Reference elevation per point, null where the reference is too far away
+ */
+export const alignReferenceElevations = (
+  points: TrackPoint[],
+  reference: TrackPoint[],
+  maxOffset: number = 30
+): Array<number | null> => {
+  if (reference.length === 0) {
+    return points.map(() => null);
+  }
+
+  // Local planar coordinates in meters; accurate enough over the extent of a ride
+  const cosLat = Math.cos((reference[0].lat * Math.PI) / 180);
+  const toXY = (point: TrackPoint): [number, number] => [
+    point.lon * METERS_PER_DEGREE * cosLat,
+    point.lat * METERS_PER_DEGREE
+  ];
+  const referenceXY = reference.map(toXY);
+
+  // Bucket reference segments into a grid of cells at least `maxOffset` wide, so
+  // only segments in the 3×3 cells around a point need to be checked
+  const cellSize = Math.max(maxOffset, 1);
+  const cellKey = (column: number, row: number) => `${column},${row}`;
+  const grid = new Map<string, number[]>();
+  const segmentCount = Math.max(reference.length - 1, 1);
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const [ax, ay] = referenceXY[segment];
+    const [bx, by] = referenceXY[Math.min(segment + 1, reference.length - 1)];
+    for (let column = Math.floor(Math.min(ax, bx) / cellSize); column <= Math.floor(Math.max(ax, bx) / cellSize); column++) {
+      for (let row = Math.floor(Math.min(ay, by) / cellSize); row <= Math.floor(Math.max(ay, by) / cellSize); row++) {
+        const key = cellKey(column, row);
+        const bucket = grid.get(key);
+        if (bucket) {
+          bucket.push(segment);
+        } else {
+          grid.set(key, [segment]);
+        }
+      }
+    }
+  }
+
+  return points.map(point => {
+    const [px, py] = toXY(point);
+    const column = Math.floor(px / cellSize);
+    const row = Math.floor(py / cellSize);
+    let bestOffset = maxOffset;
+    let bestElevation: number | null = null;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(cellKey(column + dx, row + dy))?.forEach(segment => {
+          const next = Math.min(segment + 1, reference.length - 1);
+          const [ax, ay] = referenceXY[segment];
+          const [bx, by] = referenceXY[next];
+          const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+          const t = lengthSquared > 0
+            ? Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared))
+            : 0;
+          const offset = Math.hypot(px - (ax + t * (bx - ax)), py - (ay + t * (by - ay)));
+          if (offset <= bestOffset) {
+            bestOffset = offset;
+            bestElevation = reference[segment].ele + t * (reference[next].ele - reference[segment].ele);
+          }
+        });
+      }
+    }
+
+    return bestElevation;
+  });
+};
+
+/**
+ * Transfers or averages aligned reference elevations into the track
+ *
+ * @param points - Track points to change
+ * @param referenceElevations - Aligned reference elevation per point, null where unmatched
+ * @param mode - 'transfer' replaces elevations, 'average' takes the mean of both recordings
+ * @param range - Optional [start, end] distance range in meters; the whole track when omitted
+ * @returns Blended points, changed indices and the number of unmatched points
+ */
+export const blendReferenceElevations = (
+  points: TrackPoint[],
+  referenceElevations: Array<number | null>,
+  mode: ReferenceBlendMode,
+  range?: [number, number]
+): ReferenceBlendResult => {
+  const [start, end] = range ? [Math.min(...range), Math.max(...range)] : [-Infinity, Infinity];
+  const changedIndices: number[] = [];
+  let unmatchedCount = 0;
+
+  const blended = points.map((point, index) => {
+    const distance = point.distance ?? 0;
+    if (distance < start || distance > end) {
+      return point;
+    }
+
+    const reference = referenceElevations[index];
+    if (reference === null || reference === undefined) {
+      unmatchedCount++;
+      return point;
+    }
+
+    const ele = mode === 'average' ? (point.ele + reference) / 2 : reference;
+    if (ele === point.ele) {
+      return point;
+    }
+
+    changedIndices.push(index);
+    return { ...point, ele };
+  });
+
+  return { points: blended, changedIndices, unmatchedCount };
+};
+
+/**
+ * Differences between the track and the aligned reference
+ *
+ * @returns Track minus reference elevation per point, null where unmatched
+ */
+export const computeElevationResiduals = (
+  points: TrackPoint[],
+  referenceElevations: Array<number | null>
+): Array<number | null> =>
+  points.map((point, index) => {
+    const reference = referenceElevations[index];
+    return reference === null || reference === undefined ? null : point.ele - reference;
+  });
@@ -3,18 +3,24 @@
  */
 
 import { TrackPoint } from '@/lib/gpx-parser';
+import { ElevationLimits, SmoothingAlgorithm, SmoothingParams } from '../types';
+import { KALMAN_PROCESS_NOISE, NO_ELEVATION_LIMITS } from '../constants';
+import { clampElevation, computeRollingMedian } from '../utils/math';
 
 /**
  * Applies a smooth transition when dragging a point to change elevation
  *
  * This algorithm modifies the target point and applies a gradual blend effect
- * to neighboring points based on distance (radius) and strength parameters.
+ * to neighboring points based on their distance along the track (radius) and
+ * strength parameters. Using distance rather than point count keeps the
+ * affected stretch the same on dense recordings and sparse planned routes.
  *
  * @param sourcePoints - Original array of track points
  * @param targetIndex - Index of the point being edited
  * @param newElevation - New elevation value for the target point
- * @param radius - Number of points on each side to affect
+ * @param radius - Distance in meters on each side to affect
  * @param strength - Strength of the smoothing effect (0-1)
+ * @param limits - Floor and ceiling the edited elevations are kept within
  * @returns New array of track points with smoothed elevations
  */
 export const applySmoothTransition = (
@@ -22,11 +28,12 @@ export const applySmoothTransition = (
   targetIndex: number,
   newElevation: number,
   radius: number,
-  strength: number
+  strength: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
 ): TrackPoint[] => {
-  const effectiveRadius = Math.max(0, Math.round(radius));
+  const effectiveRadius = Math.max(0, radius);
   const clampedStrength = Math.min(Math.max(strength, 0), 1);
-  const clampedElevation = Math.max(0, newElevation);
+  const clampedElevation = clampElevation(newElevation, limits);
   const newPoints = sourcePoints.map((point, index) =>
     index === targetIndex ? { ...point, ele: clampedElevation } : { ...point }
   );
@@ -35,28 +42,25 @@ export const applySmoothTransition = (
     return newPoints;
   }
 
-  const denominator = effectiveRadius + 1;
-
-  for (let offset = 1; offset <= effectiveRadius; offset++) {
-    const distanceFactor = Math.max(0, 1 - offset / denominator);
-    const influence = clampedStrength * distanceFactor;
-    if (influence <= 0) {
-      continue;
-    }
-
-    const leftIndex = targetIndex - offset;
-    if (leftIndex >= 0) {
-      const baseline = sourcePoints[leftIndex].ele;
-      const blended = baseline + (clampedElevation - baseline) * influence;
-      newPoints[leftIndex] = { ...newPoints[leftIndex], ele: Math.max(0, blended) };
+  const center = sourcePoints[targetIndex]?.distance ?? 0;
+  const blend = (index: number): boolean => {
+    const offset = Math.abs((sourcePoints[index].distance ?? 0) - center);
+    if (offset >= effectiveRadius) {
+      return false;
     }
+    const influence = clampedStrength * (1 - offset / effectiveRadius);
+    const baseline = sourcePoints[index].ele;
+    const blended = baseline + (clampedElevation - baseline) * influence;
+    newPoints[index] = { ...newPoints[index], ele: clampElevation(blended, limits) };
+    return true;
+  };
 
-    const rightIndex = targetIndex + offset;
-    if (rightIndex < sourcePoints.length) {
-      const baseline = sourcePoints[rightIndex].ele;
-      const blended = baseline + (clampedElevation - baseline) * influence;
-      newPoints[rightIndex] = { ...newPoints[rightIndex], ele: Math.max(0, blended) };
-    }
+  // Walk outwards on each side until the radius is exceeded
+  for (let index = targetIndex - 1; index >= 0; index--) {
+    if (!blend(index)) break;
+  }
+  for (let index = targetIndex + 1; index < sourcePoints.length; index++) {
+    if (!blend(index)) break;
   }
 
   return newPoints;
@@ -65,47 +69,50 @@ export const applySmoothTransition = (
 /**
  * Applies click-based smoothing by averaging elevations within a radius
  *
- * This algorithm computes the average elevation within the radius and blends
- * each point toward that average based on its distance from the target.
+ * This algorithm computes the average elevation of the points within the
+ * radius (measured along the track) and blends each point toward that average
+ * based on its distance from the target.
  *
  * @param sourcePoints - Original array of track points
  * @param targetIndex - Index of the clicked point
- * @param radius - Number of points on each side to affect
+ * @param radius - Distance in meters on each side to affect
  * @param strength - Strength of the smoothing effect (0-1)
+ * @param limits - Floor and ceiling the edited elevations are kept within
  * @returns New array of track points with smoothed elevations
  */
 export const applyClickSmoothing = (
   sourcePoints: TrackPoint[],
   targetIndex: number,
   radius: number,
-  strength: number
+  strength: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
 ): TrackPoint[] => {
-  const effectiveRadius = Math.max(0, Math.round(radius));
+  const effectiveRadius = Math.max(0, radius);
   const clampedStrength = Math.min(Math.max(strength, 0), 1);
-  if (clampedStrength === 0) {
+  if (clampedStrength === 0 || !sourcePoints[targetIndex]) {
     return sourcePoints.map(point => ({ ...point }));
   }
 
-  const start = Math.max(0, targetIndex - effectiveRadius);
-  const end = Math.min(sourcePoints.length - 1, targetIndex + effectiveRadius);
-  const window = sourcePoints.slice(start, end + 1);
-  if (window.length === 0) {
-    return sourcePoints.map(point => ({ ...point }));
+  const center = sourcePoints[targetIndex].distance ?? 0;
+  const offsetAt = (index: number) => Math.abs((sourcePoints[index].distance ?? 0) - center);
+
+  let start = targetIndex;
+  while (start > 0 && offsetAt(start - 1) <= effectiveRadius) {
+    start--;
+  }
+  let end = targetIndex;
+  while (end < sourcePoints.length - 1 && offsetAt(end + 1) <= effectiveRadius) {
+    end++;
   }
 
+  const window = sourcePoints.slice(start, end + 1);
   const average = window.reduce((sum, point) => sum + point.ele, 0) / window.length;
   const newPoints = sourcePoints.map(point => ({ ...point }));
 
   for (let index = start; index <= end; index++) {
-    const distance = Math.abs(index - targetIndex);
-    let influence = 0;
-
-    if (effectiveRadius === 0) {
-      influence = distance === 0 ? clampedStrength : 0;
-    } else {
-      const distanceFactor = Math.max(0, 1 - distance / (effectiveRadius + 1));
-      influence = clampedStrength * distanceFactor;
-    }
+    const influence = effectiveRadius === 0
+      ? clampedStrength
+      : clampedStrength * Math.max(0, 1 - offsetAt(index) / effectiveRadius);
 
     if (influence <= 0) {
       continue;
@@ -113,8 +120,411 @@ export const applyClickSmoothing = (
 
     const currentEle = sourcePoints[index].ele;
     const smoothedEle = currentEle + (average - currentEle) * influence;
-    newPoints[index] = { ...newPoints[index], ele: Math.max(0, smoothedEle) };
+    newPoints[index] = { ...newPoints[index], ele: clampElevation(smoothedEle, limits) };
+  }
+
+  return newPoints;
+};
+
+/**
+ * Replaces a range with a straight line between its endpoints
+ *
+ * Interior points are interpolated by distance, so uneven sampling still
+ * yields a constant gradient. Useful for tunnels and bridges, where the
+ * recorded elevation follows the terrain above or below the route.
+ *
+ * @param sourcePoints - Original array of track points
+ * @param startIndex - Index of the first point in the range
+ * @param endIndex - Index of the last point in the range
+ * @param limits - Floor and ceiling the edited elevations are kept within
+ * @returns New array of track points with the range interpolated
+ */
+export const interpolateRange = (
+  sourcePoints: TrackPoint[],
+  startIndex: number,
+  endIndex: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): TrackPoint[] => {
+  const newPoints = sourcePoints.map(point => ({ ...point }));
+  const start = sourcePoints[startIndex];
+  const end = sourcePoints[endIndex];
+  if (!start || !end || endIndex - startIndex < 2) {
+    return newPoints;
+  }
+
+  const distanceAt = (index: number) => sourcePoints[index].distance ?? 0;
+  const span = distanceAt(endIndex) - distanceAt(startIndex);
+  for (let index = startIndex + 1; index < endIndex; index++) {
+    const fraction = span > 0
+      ? (distanceAt(index) - distanceAt(startIndex)) / span
+      : (index - startIndex) / (endIndex - startIndex);
+    newPoints[index].ele = clampElevation(start.ele + (end.ele - start.ele) * fraction, limits);
   }
 
   return newPoints;
 };
+
+/**
+ * Sets every point in a range to the same elevation
+ *
+ * @param sourcePoints - Original array of track points
+ * @param startIndex - Index of the first point in the range
+ * @param endIndex - Index of the last point in the range
+ * @param elevation - Elevation to assign
+ * @param limits - Floor and ceiling the edited elevations are kept within
+ * @returns New array of track points with the range flattened
+ */
+export const flattenRange = (
+  sourcePoints: TrackPoint[],
+  startIndex: number,
+  endIndex: number,
+  elevation: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): TrackPoint[] => {
+  const clampedElevation = clampElevation(elevation, limits);
+  return sourcePoints.map((point, index) =>
+    index >= startIndex && index <= endIndex ? { ...point, ele: clampedElevation } : { ...point }
+  );
+};
+
+/**
+ * Shifts every point in a range by a fixed amount
+ *
+ * @param sourcePoints - Original array of track points
+ * @param startIndex - Index of the first point in the range
+ * @param endIndex - Index of the last point in the range
+ * @param offset - Meters to add (negative to lower)
+ * @param limits - Floor and ceiling the edited elevations are kept within
+ * @returns New array of track points with the range shifted
+ */
+export const offsetRange = (
+  sourcePoints: TrackPoint[],
+  startIndex: number,
+  endIndex: number,
+  offset: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): TrackPoint[] =>
+  sourcePoints.map((point, index) =>
+    index >= startIndex && index <= endIndex
+      ? { ...point, ele: clampElevation(point.ele + offset, limits) }
+      : { ...point }
+  );
+
+/**
+ * Scales the deviations of a range around its mean elevation
+ *
+ * A factor below 1 damps noise and exaggerated bumps, a factor above 1
+ * emphasizes them; 0 is equivalent to flattening at the mean.
+ *
+ * @param sourcePoints - Original array of track points
+ * @param startIndex - Index of the first point in the range
+ * @param endIndex - Index of the last point in the range
+ * @param factor - Multiplier applied to each point's deviation from the mean
+ * @param limits - Floor and ceiling the edited elevations are kept within
+ * @returns New array of track points with the range scaled
+ */
+export const scaleRange = (
+  sourcePoints: TrackPoint[],
+  startIndex: number,
+  endIndex: number,
+  factor: number,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): TrackPoint[] => {
+  const range = sourcePoints.slice(Math.max(0, startIndex), endIndex + 1);
+  if (range.length === 0) {
+    return sourcePoints.map(point => ({ ...point }));
+  }
+
+  const mean = range.reduce((sum, point) => sum + point.ele, 0) / range.length;
+  return sourcePoints.map((point, index) =>
+    index >= startIndex && index <= endIndex
+      ? { ...point, ele: clampElevation(mean + (point.ele - mean) * factor, limits) }
+      : { ...point }
+  );
+};
+
+/**
+ * Smooths elevations with a Gaussian kernel over distance
+ *
+ * Weights depend on the distance between points rather than their index, so
+ * densely sampled stretches are not smoothed less than sparse ones. The kernel
+ * is truncated at three standard deviations.
+ *
+ * @param points - Track points (distances in meters)
+ * @param sigma - Standard deviation of the kernel in meters
+ * @returns Smoothed elevation per point
+ */
+export const gaussianSmooth = (points: TrackPoint[], sigma: number): number[] => {
+  if (sigma <= 0) {
+    return points.map(point => point.ele);
+  }
+
+  const reach = 3 * sigma;
+  const distanceAt = (index: number) => points[index].distance ?? 0;
+  let windowStart = 0;
+
+  return points.map((point, index) => {
+    const center = distanceAt(index);
+    while (center - distanceAt(windowStart) > reach) {
+      windowStart++;
+    }
+
+    let weightSum = 0;
+    let valueSum = 0;
+    for (let j = windowStart; j < points.length && distanceAt(j) - center <= reach; j++) {
+      const offset = distanceAt(j) - center;
+      const weight = Math.exp(-(offset * offset) / (2 * sigma * sigma));
+      weightSum += weight;
+      valueSum += weight * points[j].ele;
+    }
+    return valueSum / weightSum;
+  });
+};
+
+/**
+ * Solves a small dense linear system by Gaussian elimination with partial pivoting
+ *
+ * @returns Solution vector, or null when the system is singular
+ */
+const solveLinearSystem = (matrix: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+};
+
+/**
+ * Smooths elevations with a Savitzky–Golay filter
+ *
+ * Each point is replaced by the value at that point of a polynomial fitted by
+ * least squares to the surrounding window. Unlike a moving average this keeps
+ * the height of summits and the shape of slope changes. The fit uses the actual
+ * distances, so uneven sampling is handled, and windows are shifted inwards at
+ * the ends of the track instead of being truncated.
+ *
+ * @param points - Track points (distances in meters)
+ * @param windowSize - Window length in points (rounded up to odd)
+ * @param order - Polynomial degree (reduced if the window is too short)
+ * @returns Smoothed elevation per point
+ */
+export const savitzkyGolaySmooth = (points: TrackPoint[], windowSize: number, order: number): number[] => {
+  const oddWindow = Math.max(1, Math.round(windowSize) % 2 === 0 ? Math.round(windowSize) + 1 : Math.round(windowSize));
+  const window = Math.min(oddWindow, points.length);
+  const degree = Math.max(0, Math.min(Math.round(order), window - 1));
+  const halfWindow = Math.floor(oddWindow / 2);
+
+  return points.map((point, index) => {
+    const start = Math.max(0, Math.min(index - halfWindow, points.length - window));
+    const center = point.distance ?? 0;
+    const offsets = points.slice(start, start + window).map(p => (p.distance ?? 0) - center);
+    const scale = Math.max(...offsets.map(Math.abs)) || 1;
+
+    // Normal equations (AᵀA) c = Aᵀy with A[j][k] = tⱼᵏ on scaled offsets
+    const normal = Array.from({ length: degree + 1 }, () => new Array<number>(degree + 1).fill(0));
+    const rhs = new Array<number>(degree + 1).fill(0);
+    offsets.forEach((offset, j) => {
+      const t = offset / scale;
+      const powers = [1];
+      for (let k = 1; k <= 2 * degree; k++) {
+        powers.push(powers[k - 1] * t);
+      }
+      for (let row = 0; row <= degree; row++) {
+        rhs[row] += powers[row] * points[start + j].ele;
+        for (let col = 0; col <= degree; col++) {
+          normal[row][col] += powers[row + col];
+        }
+      }
+    });
+
+    // Coincident points cannot be fitted; fall back to the window mean
+    const coefficients = solveLinearSystem(normal, rhs);
+    return coefficients ? coefficients[0] : rhs[0] / window;
+  });
+};
+
+/**
+ * Smooths elevations with a rolling median
+ *
+ * Removes isolated spikes completely while keeping steps sharp.
+ *
+ * @param points - Track points
+ * @param windowSize - Window length in points (rounded up to odd)
+ * @returns Smoothed elevation per point
+ */
+export const medianSmooth = (points: TrackPoint[], windowSize: number): number[] =>
+  computeRollingMedian(points.map(point => point.ele), Math.round(windowSize));
+
+/**
+ * Smooths elevations with a Kalman filter and Rauch–Tung–Striebel smoother
+ *
+ * The state is elevation and gradient, advanced by the distance between
+ * points, so the result follows steady climbs without lag. The forward pass
+ * filters the recording; the backward pass combines it with what comes after
+ * each point.
+ *
+ * @param points - Track points (distances in meters)
+ * @param measurementNoise - Expected noise of the recorded elevations in meters
+ * @returns Smoothed elevation per point
+ */
+export const kalmanSmooth = (points: TrackPoint[], measurementNoise: number): number[] => {
+  const n = points.length;
+  if (n === 0) {
+    return [];
+  }
+
+  const r = Math.max(measurementNoise, 1e-3) ** 2;
+  const q = KALMAN_PROCESS_NOISE;
+  // Filtered and predicted states [elevation, gradient] and covariances [p00, p01, p11]
+  const filtered: Array<[number, number]> = [];
+  const filteredCov: Array<[number, number, number]> = [];
+  const predicted: Array<[number, number]> = [];
+  const predictedCov: Array<[number, number, number]> = [];
+  const steps: number[] = [];
+
+  let x: [number, number] = [points[0].ele, 0];
+  let p: [number, number, number] = [r, 0, 1];
+  filtered.push(x);
+  filteredCov.push(p);
+  predicted.push(x);
+  predictedCov.push(p);
+  steps.push(0);
+
+  for (let k = 1; k < n; k++) {
+    const dt = Math.max(0, (points[k].distance ?? 0) - (points[k - 1].distance ?? 0));
+    const xp: [number, number] = [x[0] + dt * x[1], x[1]];
+    const pp: [number, number, number] = [
+      p[0] + 2 * dt * p[1] + dt * dt * p[2] + (q * dt ** 3) / 3,
+      p[1] + dt * p[2] + (q * dt * dt) / 2,
+      p[2] + q * dt
+    ];
+
+    const innovation = points[k].ele - xp[0];
+    const s = pp[0] + r;
+    const k0 = pp[0] / s;
+    const k1 = pp[1] / s;
+    x = [xp[0] + k0 * innovation, xp[1] + k1 * innovation];
+    p = [(1 - k0) * pp[0], (1 - k0) * pp[1], pp[2] - k1 * pp[1]];
+
+    filtered.push(x);
+    filteredCov.push(p);
+    predicted.push(xp);
+    predictedCov.push(pp);
+    steps.push(dt);
+  }
+
+  const smoothed = new Array<number>(n);
+  let next = filtered[n - 1];
+  smoothed[n - 1] = next[0];
+
+  for (let k = n - 2; k >= 0; k--) {
+    const dt = steps[k + 1];
+    const [f00, f01, f11] = filteredCov[k];
+    const [p00, p01, p11] = predictedCov[k + 1];
+    const det = p00 * p11 - p01 * p01;
+    if (Math.abs(det) < 1e-18) {
+      next = filtered[k];
+      smoothed[k] = next[0];
+      continue;
+    }
+
+    // Gain C = Pf Fᵀ Pp⁻¹, with Pf Fᵀ = [[f00 + dt f01, f01], [f01 + dt f11, f11]]
+    const a00 = f00 + dt * f01;
+    const a01 = f01;
+    const a10 = f01 + dt * f11;
+    const a11 = f11;
+    const c00 = (a00 * p11 - a01 * p01) / det;
+    const c01 = (a01 * p00 - a00 * p01) / det;
+    const c10 = (a10 * p11 - a11 * p01) / det;
+    const c11 = (a11 * p00 - a10 * p01) / det;
+
+    const d0 = next[0] - predicted[k + 1][0];
+    const d1 = next[1] - predicted[k + 1][1];
+    next = [filtered[k][0] + c00 * d0 + c01 * d1, filtered[k][1] + c10 * d0 + c11 * d1];
+    smoothed[k] = next[0];
+  }
+
+  return smoothed;
+};
+
+/**
+ * Smooths elevations with the chosen algorithm
+ *
+ * @param points - Track points (distances in meters)
+ * @param algorithm - Algorithm to apply
+ * @param params - Parameters of all algorithms; only the chosen one's are used
+ * @returns Smoothed elevation per point (not clamped)
+ */
+export const smoothElevations = (
+  points: TrackPoint[],
+  algorithm: SmoothingAlgorithm,
+  params: SmoothingParams
+): number[] => {
+  switch (algorithm) {
+    case 'gaussian':
+      return gaussianSmooth(points, params.gaussianSigma);
+    case 'savitzky-golay':
+      return savitzkyGolaySmooth(points, params.savitzkyGolayWindow, params.savitzkyGolayOrder);
+    case 'median':
+      return medianSmooth(points, params.medianWindow);
+    case 'kalman':
+      return kalmanSmooth(points, params.kalmanNoise);
+  }
+};
+
+/**
+ * Applies the chosen smoothing algorithm to a range of points
+ *
+ * The whole track is smoothed so that points near the range ends are
+ * computed from their real neighbours, then only the range is replaced.
+ *
+ * @param sourcePoints - Original array of track points
+ * @param algorithm - Algorithm to apply
+ * @param params - Parameters of all algorithms
+ * @param startIndex - Index of the first point to change (defaults to the start)
+ * @param endIndex - Index of the last point to change (defaults to the end)
+ * @param limits - Floor and ceiling the edited elevations are kept within
+ * @returns New array of track points with the range smoothed
+ */
+export const applySmoothing = (
+  sourcePoints: TrackPoint[],
+  algorithm: SmoothingAlgorithm,
+  params: SmoothingParams,
+  startIndex: number = 0,
+  endIndex: number = sourcePoints.length - 1,
+  limits: ElevationLimits = NO_ELEVATION_LIMITS
+): TrackPoint[] => {
+  const smoothed = smoothElevations(sourcePoints, algorithm, params);
+  return sourcePoints.map((point, index) =>
+    index >= startIndex && index <= endIndex
+      ? { ...point, ele: clampElevation(smoothed[index], limits) }
+      : { ...point }
+  );
+};
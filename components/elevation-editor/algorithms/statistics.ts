@@ -2,17 +2,27 @@
  * Statistics calculation for elevation profiles
  */
 
-import { TrackPoint } from '@/lib/gpx-parser';
+import { SensorChannel, TrackPoint } from '@/lib/gpx-parser';
 import { ElevationStats } from '../types';
 import { computeRollingMedian } from '../utils/math';
 import { parseTimestamp } from '../utils/date-time';
 import { MEDIAN_WINDOW_SIZE, ELEVATION_STEP_THRESHOLD } from '../constants';
 
+// Readings of one sensor channel; zero cadence (coasting) is left out of the average
+const collectReadings = (trackPoints: TrackPoint[], channel: SensorChannel): number[] =>
+  trackPoints
+    .map(point => point[channel])
+    .filter((value): value is number => value !== undefined && (channel !== 'cadence' || value > 0));
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
 /**
  * Calculates comprehensive statistics for an elevation profile
  *
  * Computes min/max elevation, total ascent/descent (with median smoothing to reduce GPS noise),
- * duration, average speed, and max speed from the track points.
+ * duration, average speed, and max speed from the track points, plus heart rate, power
+ * and cadence summaries where the points carry sensor readings.
  *
  * @param trackPoints - Array of track points with elevation, distance, and time data
  * @param totalDistance - Total distance of the route (from GPX metadata)
@@ -27,8 +37,9 @@ export const calculateElevationStats = (
   const rawElevations = trackPoints.map(point => point.ele);
   const smoothedElevations = computeRollingMedian(rawElevations, MEDIAN_WINDOW_SIZE);
 
-  const minEle = Math.min(...rawElevations);
-  const maxEle = Math.max(...rawElevations);
+  // Reduced rather than spread: long tracks exceed the argument limit of Math.min/max
+  const minEle = rawElevations.reduce((min, elevation) => Math.min(min, elevation), Infinity);
+  const maxEle = rawElevations.reduce((max, elevation) => Math.max(max, elevation), -Infinity);
   const totals = smoothedElevations.reduce(
     (acc, elevation, index) => {
       if (index === 0) {
@@ -97,6 +108,8 @@ export const calculateElevationStats = (
   const averageSpeed = totalDurationSeconds > 0 ? distanceForSpeed / totalDurationSeconds : null;
   const maxSegmentSpeed = maxSpeed > 0 ? maxSpeed : null;
 
+  const heartRates = collectReadings(trackPoints, 'heartRate');
+
   return {
     minElevation: minEle,
     maxElevation: maxEle,
@@ -106,6 +119,10 @@ export const calculateElevationStats = (
     editedCount,
     totalDurationMs,
     averageSpeed,
-    maxSpeed: maxSegmentSpeed
+    maxSpeed: maxSegmentSpeed,
+    averageHeartRate: average(heartRates),
+    maxHeartRate: heartRates.length > 0 ? heartRates.reduce((max, rate) => Math.max(max, rate), -Infinity) : null,
+    averagePower: average(collectReadings(trackPoints, 'power')),
+    averageCadence: average(collectReadings(trackPoints, 'cadence'))
   };
 };
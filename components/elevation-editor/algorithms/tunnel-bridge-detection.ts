@@ -0,0 +1,332 @@
+/**
+ * Tunnel and bridge detection for elevation profiles
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { StructureCandidate, StructureDetectionParams } from '../types';
+import { DEFAULT_STRUCTURE_DETECTION_PARAMS } from '../constants';
+import { parseTimestamp } from '../utils/date-time';
+
+/**
+ * Shortest distance (in meters) a flank is measured over, so that GPS noise
+ * between closely spaced points does not read as a steep flank
+ */
+const FLANK_BASE = 20;
+
+/**
+ * Gradient relative to the chord that only terrain, not a road or railway, has;
+ * a flank must climb to half the peak deviation at least this steeply
+ */
+const MIN_FLANK_GRADIENT = 0.2;
+
+/**
+ * Gradient relative to the chord steeper than the terrain above a tunnel or
+ * below a bridge; a flank this abrupt is a jump between bad readings
+ */
+const MAX_FLANK_GRADIENT = 1;
+
+/**
+ * Steepest chord a road or railway through a tunnel or over a bridge is built at
+ */
+const MAX_CHORD_GRADIENT = 0.15;
+
+/**
+ * Share of the points in a stretch that must lie on the same side of the chord
+ */
+const MIN_ONE_SIDED_SHARE = 0.8;
+
+/**
+ * Fewest points that must lie above half the peak deviation; narrower spikes
+ * are single bad readings, which the anomaly detectors deal with
+ */
+const MIN_CREST_POINTS = 3;
+
+/**
+ * Spacing (in meters) of the points tried as the ends of a stretch, which
+ * bounds the number of pairs on densely recorded tracks
+ */
+const ANCHOR_SPACING = 10;
+
+/**
+ * Signed distance of each point in a stretch from the chord between its ends
+ */
+const chordDeviations = (elevations: number[], distances: number[], start: number, end: number): number[] => {
+  const span = distances[end] - distances[start];
+  const deviations: number[] = [];
+  for (let index = start; index <= end; index++) {
+    const fraction = span > 0 ? (distances[index] - distances[start]) / span : (index - start) / (end - start);
+    deviations.push(elevations[index] - (elevations[start] + (elevations[end] - elevations[start]) * fraction));
+  }
+  return deviations;
+};
+
+/**
+ * Steepest gradient of the deviations from the chord, measured over at least FLANK_BASE meters
+ */
+const steepestGradient = (deviations: number[], distances: number[], start: number): number => {
+  let steepest = 0;
+  let ahead = 0;
+  for (let offset = 0; offset < deviations.length; offset++) {
+    ahead = Math.max(ahead, offset + 1);
+    while (ahead < deviations.length && distances[start + ahead] - distances[start + offset] < FLANK_BASE) {
+      ahead++;
+    }
+    // Near the end of the stretch the last point is as far as it goes
+    const reach = Math.min(ahead, deviations.length - 1);
+    const run = Math.max(distances[start + reach] - distances[start + offset], FLANK_BASE);
+    steepest = Math.max(steepest, Math.abs(deviations[reach] - deviations[offset]) / run);
+    if (ahead >= deviations.length) {
+      break;
+    }
+  }
+  return steepest;
+};
+
+/**
+ * Mean gradients at which the deviations from the chord climb from each end of
+ * a stretch to half their peak, measured over at least FLANK_BASE meters
+ */
+const flankGradients = (deviations: number[], distances: number[], start: number, peak: number): [number, number] => {
+  const half = deviations[peak] / 2;
+  let rise = 0;
+  while (deviations[rise] < half) rise++;
+  let fall = deviations.length - 1;
+  while (deviations[fall] < half) fall--;
+
+  const last = deviations.length - 1;
+  const riseRun = Math.max(distances[start + rise] - distances[start], FLANK_BASE);
+  const fallRun = Math.max(distances[start + last] - distances[start + fall], FLANK_BASE);
+  return [half / riseRun, half / fallRun];
+};
+
+/**
+ * Whether the points just outside a stretch continue the chord between its
+ * ends, as the road or railway leading to a portal or abutment does; ends at
+ * the start or end of the track pass
+ */
+const hasLevelApproaches = (
+  elevations: number[],
+  distances: number[],
+  start: number,
+  end: number,
+  tolerance: number
+): boolean => {
+  const span = distances[end] - distances[start];
+  const slope = span > 0 ? (elevations[end] - elevations[start]) / span : 0;
+  const offChord = (index: number, from: number) =>
+    Math.abs(elevations[index] - (elevations[from] + slope * (distances[index] - distances[from])));
+
+  return (start === 0 || offChord(start - 1, start) <= tolerance) &&
+    (end === elevations.length - 1 || offChord(end + 1, end) <= tolerance);
+};
+
+/**
+ * Whether the speed along a stretch is steady; stretches without timestamps pass
+ */
+const hasSteadySpeed = (trackPoints: TrackPoint[], start: number, end: number, maxVariation: number): boolean => {
+  const speeds: number[] = [];
+  for (let index = start + 1; index <= end; index++) {
+    const previousTime = parseTimestamp(trackPoints[index - 1].time);
+    const time = parseTimestamp(trackPoints[index].time);
+    if (previousTime === null || time === null) {
+      return true;
+    }
+    const seconds = (time - previousTime) / 1000;
+    if (seconds > 0) {
+      speeds.push(((trackPoints[index].distance ?? 0) - (trackPoints[index - 1].distance ?? 0)) / seconds);
+    }
+  }
+
+  if (speeds.length < 2) {
+    return true;
+  }
+
+  const mean = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
+  if (mean <= 0) {
+    return false;
+  }
+  const variance = speeds.reduce((sum, speed) => sum + Math.pow(speed - mean, 2), 0) / speeds.length;
+  return Math.sqrt(variance) / mean <= maxVariation;
+};
+
+/**
+ * Detects stretches that are likely tunnels or bridges
+ *
+ * The recorded elevation in a tunnel follows the hill above it and on a bridge
+ * the valley below, while the real path runs nearly straight between the
+ * portals or abutments. A stretch qualifies when the chord between its ends is
+ * no steeper than such a path is built and is continued by the approaches
+ * beyond them, and its elevation departs from the chord by at least the
+ * minimum deviation, stays on one side of it, is wider than a spike, and
+ * leaves and rejoins it more steeply than a road or railway would but not as
+ * abruptly as a bad reading (reaching half its peak deviation from either end
+ * at terrain gradients). When the points have timestamps it must also have
+ * been travelled at a steady speed, which real climbs and descents are not.
+ * A hump above the chord is labelled as a tunnel and a dip below it as a bridge.
+ *
+ * Candidate stretches are ranked by their mean deviation from the chord, which
+ * running sums make cheap to compute for every pair of ends; only points about
+ * ANCHOR_SPACING apart are tried as ends. The best stretch of each length class
+ * per start point, unless a nearby start point has a better one, is then
+ * checked in that order, skipping those overlapping a stretch already found.
+ * Ranking by the mean rather than the enclosed area keeps a long chord from
+ * one foot of a hump to its top from outranking the hump itself.
+ *
+ * @param trackPoints - Array of track points with elevation and distance data
+ * @param params - Length limits and thresholds
+ * @returns Likely tunnels and bridges in order of distance
+ */
+export const detectTunnelsAndBridges = (
+  trackPoints: TrackPoint[],
+  params: StructureDetectionParams = DEFAULT_STRUCTURE_DETECTION_PARAMS
+): StructureCandidate[] => {
+  const count = trackPoints.length;
+  if (count < 3) {
+    return [];
+  }
+
+  const elevations = trackPoints.map(point => point.ele);
+  const distances = trackPoints.map(point => point.distance ?? 0);
+
+  // Running integral of elevation over distance (trapezoids)
+  const integral = [0];
+  for (let index = 1; index < count; index++) {
+    const run = distances[index] - distances[index - 1];
+    integral.push(integral[index - 1] + ((elevations[index - 1] + elevations[index]) / 2) * run);
+  }
+
+  // Points tried as the ends of a stretch; trimming below moves them inwards onto the portals
+  const anchors = [0];
+  for (let index = 1; index < count; index++) {
+    if (distances[index] - distances[anchors[anchors.length - 1]] >= ANCHOR_SPACING || index === count - 1) {
+      anchors.push(index);
+    }
+  }
+
+  // Best stretch per start point in each length class (doubling from the minimum)
+  const minLength = Math.max(params.minLength, 1);
+  const classCount = Math.max(Math.floor(Math.log(params.maxLength / minLength) / Math.LN2) + 1, 1);
+  const classLimits = Array.from({ length: classCount }, (_, lengthClass) => minLength * Math.pow(2, lengthClass + 1));
+  const { maxLength, minDeviation, minDeviationRatio } = params;
+  const bestEnd = new Int32Array(anchors.length * classCount).fill(-1);
+  const bestMean = new Float64Array(anchors.length * classCount);
+  for (let first = 0; first < anchors.length - 1; first++) {
+    const start = anchors[first];
+    let lengthClass = 0;
+    for (let last = first + 1; last < anchors.length; last++) {
+      const end = anchors[last];
+      const span = distances[end] - distances[start];
+      if (span > maxLength) break;
+      if (span < minLength || end - start < 2) continue;
+      if (Math.abs(elevations[end] - elevations[start]) > span * MAX_CHORD_GRADIENT) continue;
+
+      const area = integral[end] - integral[start] - ((elevations[start] + elevations[end]) / 2) * span;
+      const meanDeviation = area / span;
+      // A hump or dip reaching the minimum deviation (absolute and relative to its
+      // length) departs by at least a third of it on average
+      if (Math.abs(meanDeviation) * 3 < Math.max(minDeviation, minDeviationRatio * span)) continue;
+
+      while (lengthClass < classCount - 1 && span >= classLimits[lengthClass]) lengthClass++;
+      const slot = first * classCount + lengthClass;
+      if (bestEnd[slot] < 0 || Math.abs(meanDeviation) > Math.abs(bestMean[slot])) {
+        bestEnd[slot] = end;
+        bestMean[slot] = meanDeviation;
+      }
+    }
+  }
+
+  // Stretches of a length class starting within half its shortest length of
+  // each other mostly describe the same hump or dip, so only the one departing
+  // furthest on average is kept
+  const candidates: Array<{ start: number; end: number; meanDeviation: number }> = [];
+  for (let first = 0; first < anchors.length - 1; first++) {
+    for (let lengthClass = 0; lengthClass < classCount; lengthClass++) {
+      const slot = first * classCount + lengthClass;
+      if (bestEnd[slot] < 0) continue;
+
+      const mean = Math.abs(bestMean[slot]);
+      const reach = minLength * Math.pow(2, lengthClass) / 2;
+      let isBest = true;
+      for (let other = first - 1; isBest && other >= 0 && distances[anchors[first]] - distances[anchors[other]] <= reach; other--) {
+        isBest = Math.abs(bestMean[other * classCount + lengthClass]) < mean;
+      }
+      for (let other = first + 1; isBest && other < anchors.length && distances[anchors[other]] - distances[anchors[first]] <= reach; other++) {
+        isBest = Math.abs(bestMean[other * classCount + lengthClass]) <= mean;
+      }
+      if (isBest) {
+        candidates.push({ start: anchors[first], end: bestEnd[slot], meanDeviation: bestMean[slot] });
+      }
+    }
+  }
+
+  candidates.sort((a, b) =>
+    Math.abs(b.meanDeviation) - Math.abs(a.meanDeviation) ||
+    (distances[a.end] - distances[a.start]) - (distances[b.end] - distances[b.start])
+  );
+
+  const used: boolean[] = trackPoints.map(() => false);
+  const structures: StructureCandidate[] = [];
+
+  candidates.forEach(candidate => {
+    const sign = candidate.meanDeviation > 0 ? 1 : -1;
+    let start = candidate.start;
+    let end = candidate.end;
+
+    // Trim ends that still lie on the chord; they belong to the approaches
+    const initial = chordDeviations(elevations, distances, start, end).map(value => value * sign);
+    const approachLevel = Math.max(...initial) * 0.05;
+    while (end - start > 2 && initial[start + 1 - candidate.start] < approachLevel) start++;
+    while (end - start > 2 && initial[end - 1 - candidate.start] < approachLevel) end--;
+
+    const span = distances[end] - distances[start];
+    if (span < params.minLength || Math.abs(elevations[end] - elevations[start]) > span * MAX_CHORD_GRADIENT) {
+      return;
+    }
+    for (let index = start; index <= end; index++) {
+      if (used[index]) return;
+    }
+
+    // Cheapest checks first; most candidates are noise that fails on the deviation
+    const deviations = chordDeviations(elevations, distances, start, end).map(value => value * sign);
+    const deviation = Math.max(...deviations);
+    if (deviation < params.minDeviation || deviation / span < params.minDeviationRatio) {
+      return;
+    }
+
+    const peak = deviations.indexOf(deviation);
+    const interior = deviations.slice(1, -1);
+    const oneSided = interior.filter(value => value > 0).length >= interior.length * MIN_ONE_SIDED_SHARE;
+    const crestPoints = deviations.filter(value => value >= deviation / 2).length;
+    if (!oneSided || crestPoints < MIN_CREST_POINTS) {
+      return;
+    }
+
+    const [riseGradient, fallGradient] = flankGradients(deviations, distances, start, peak);
+    if (
+      riseGradient < MIN_FLANK_GRADIENT ||
+      fallGradient < MIN_FLANK_GRADIENT ||
+      steepestGradient(deviations, distances, start) > MAX_FLANK_GRADIENT ||
+      !hasLevelApproaches(elevations, distances, start, end, params.minDeviation / 2)
+    ) {
+      return;
+    }
+
+    // Share the end points with neighbouring stretches, but nothing in between
+    for (let index = start + 1; index < end; index++) {
+      used[index] = true;
+    }
+
+    // A hump or dip travelled at an uneven speed is real terrain, and so are its parts
+    if (!hasSteadySpeed(trackPoints, start, end, params.maxSpeedVariation)) {
+      return;
+    }
+    structures.push({
+      startDistance: distances[start],
+      endDistance: distances[end],
+      kind: sign > 0 ? 'tunnel' : 'bridge',
+      deviation
+    });
+  });
+
+  return structures.sort((a, b) => a.startDistance - b.startDistance);
+};
@@ -1,8 +1,10 @@
 /**
- * Anomaly close buttons overlay component
+ * Anomaly close and fix buttons overlay component
  */
 
+import { Wrench } from 'lucide-react';
 import { AnomalyRegion, AnomalyButtonOffset } from '../types';
+import { ANOMALY_BUTTON_PADDING, ANOMALY_BUTTON_SIZE } from '../constants';
 
 interface AnomalyCloseButtonsProps {
   show: boolean;
@@ -12,12 +14,13 @@ interface AnomalyCloseButtonsProps {
   hoveredAnomalyKey: string | null;
   getAnomalyKey: (region: { startDistance: number; endDistance: number }) => string;
   onIgnoreAnomaly: (key: string) => void;
+  onFixAnomaly: (region: AnomalyRegion) => void;
   onHoverChange: (key: string | null) => void;
   gridBounds: { top: number; left: number; width: number; height: number } | null;
 }
 
 /**
- * Renders close buttons positioned over anomaly regions on the chart
+ * Renders close (ignore) and fix buttons positioned over anomaly regions on the chart
  */
 export function AnomalyCloseButtons({
   show,
@@ -27,6 +30,7 @@ export function AnomalyCloseButtons({
   hoveredAnomalyKey,
   getAnomalyKey,
   onIgnoreAnomaly,
+  onFixAnomaly,
   onHoverChange,
   gridBounds
 }: AnomalyCloseButtonsProps) {
@@ -59,20 +63,35 @@ export function AnomalyCloseButtons({
         }
 
         return (
-          <button
-            key={`close-${anomalyKey}`}
-            onClick={() => onIgnoreAnomaly(anomalyKey)}
-            onMouseEnter={() => onHoverChange(anomalyKey)}
-            onMouseLeave={() => onHoverChange(null)}
-            className="absolute pointer-events-auto bg-red-300 hover:bg-red-400 dark:bg-red-600 dark:hover:bg-red-700 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-bold shadow-md transition-colors"
-            style={{
-              top: 0,
-              right: offsets.right
-            }}
-            title="Ignore this anomaly"
-          >
-            ×
-          </button>
+          <div key={`buttons-${anomalyKey}`}>
+            <button
+              onClick={() => onIgnoreAnomaly(anomalyKey)}
+              onMouseEnter={() => onHoverChange(anomalyKey)}
+              onMouseLeave={() => onHoverChange(null)}
+              className="absolute pointer-events-auto bg-red-300 hover:bg-red-400 dark:bg-red-600 dark:hover:bg-red-700 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-bold shadow-md transition-colors"
+              style={{
+                top: 0,
+                right: offsets.right
+              }}
+              title="Ignore this anomaly"
+            >
+              ×
+            </button>
+            <button
+              onClick={() => onFixAnomaly(region)}
+              onMouseEnter={() => onHoverChange(anomalyKey)}
+              onMouseLeave={() => onHoverChange(null)}
+              className="absolute pointer-events-auto bg-emerald-400 hover:bg-emerald-500 dark:bg-emerald-600 dark:hover:bg-emerald-700 text-white rounded-full w-5 h-5 flex items-center justify-center shadow-md transition-colors"
+              style={{
+                top: ANOMALY_BUTTON_SIZE + ANOMALY_BUTTON_PADDING,
+                right: offsets.right
+              }}
+              title="Fix this anomaly"
+              aria-label="Fix this anomaly"
+            >
+              <Wrench className="h-3 w-3" />
+            </button>
+          </div>
         );
       })}
     </div>
@@ -0,0 +1,187 @@
+/**
+ * Anomaly list card component for working through detected anomalies
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { AnomalyListItem } from '../types';
+import { cn } from '@/lib/utils';
+
+interface AnomalyListCardProps {
+  /** Anomalies in order of distance */
+  items: AnomalyListItem[];
+  activeKey: string | null;
+  convertDistance: (meters: number) => number;
+  convertElevation: (meters: number) => number;
+  distanceUnitLabel: string;
+  elevationUnitLabel: string;
+  onSelect: (key: string) => void;
+  onStep: (direction: 1 | -1) => void;
+}
+
+type SortKey = 'distance' | 'jump' | 'severity';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'distance', label: 'Distance' },
+  { key: 'jump', label: 'Jump' },
+  { key: 'severity', label: 'Severity' }
+];
+
+const SORT_VALUES: Record<SortKey, (item: AnomalyListItem) => number> = {
+  distance: item => item.region.startDistance,
+  jump: item => item.elevationJump,
+  severity: item => item.region.severity
+};
+
+/**
+ * Card listing every anomaly; clicking one zooms the chart to it and
+ * highlights it on the map
+ */
+export function AnomalyListCard({
+  items,
+  activeKey,
+  convertDistance,
+  convertElevation,
+  distanceUnitLabel,
+  elevationUnitLabel,
+  onSelect,
+  onStep
+}: AnomalyListCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('anomaly-list-card-open', true);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'distance', descending: false });
+
+  // Numbers follow the track so an anomaly keeps its number when the list is re-sorted
+  const sortedItems = useMemo(() => {
+    const value = SORT_VALUES[sort.key];
+    return items
+      .map((item, index) => ({ item, number: index + 1 }))
+      .sort((a, b) => (sort.descending ? value(b.item) - value(a.item) : value(a.item) - value(b.item)));
+  }, [items, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    // Distance reads best ascending, the figures largest first
+    setSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'distance' }));
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Anomalies</CardTitle>
+                <Badge variant="secondary" className="pointer-events-none">
+                  {items.length}
+                </Badge>
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-2">
+            {items.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No anomalies detected.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1">
+                    {COLUMNS.map(column => {
+                      const SortIcon = sort.key !== column.key ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+                      return (
+                        <Button
+                          key={column.key}
+                          variant={sort.key === column.key ? 'secondary' : 'ghost'}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => toggleSort(column.key)}
+                        >
+                          {column.label}
+                          <SortIcon className="h-3 w-3 ml-1" />
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onStep(-1)}
+                      aria-label="Previous anomaly (P)"
+                      title="Previous anomaly (P)"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onStep(1)}
+                      aria-label="Next anomaly (N)"
+                      title="Next anomaly (N)"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <ol className="max-h-96 overflow-y-auto space-y-1">
+                  {sortedItems.map(({ item, number }) => {
+                    const isActive = item.key === activeKey;
+
+                    return (
+                      <li key={item.key}>
+                        <button
+                          type="button"
+                          onClick={() => onSelect(item.key)}
+                          className={cn(
+                            "w-full grid grid-cols-[2rem_1fr_auto_auto] items-center gap-3 rounded-md px-3 py-2 text-left text-sm transition-colors",
+                            isActive
+                              ? "bg-red-600 text-white dark:bg-red-500"
+                              : "hover:bg-slate-100 dark:hover:bg-slate-800"
+                          )}
+                        >
+                          <span className="font-mono text-xs opacity-75">#{number}</span>
+                          <span>
+                            {convertDistance(item.region.startDistance).toFixed(2)}–
+                            {convertDistance(item.region.endDistance).toFixed(2)} {distanceUnitLabel}
+                          </span>
+                          <span className="font-mono text-xs">
+                            {Math.round(convertElevation(item.elevationJump))} {elevationUnitLabel}
+                          </span>
+                          <span className="font-mono text-xs opacity-75">×{item.region.severity.toFixed(1)}</span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Jump is the elevation range across the anomaly and its neighbouring points; severity
+              is how far it exceeds the detector&apos;s threshold. Press N and P to step through
+              the anomalies along the track.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -4,15 +4,32 @@
 
 import dynamic from 'next/dynamic';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { TrackPoint } from '@/lib/gpx-parser';
-import { ChartDataPoint, AnomalyRegion, ElevationStats, AnomalyButtonOffset, UnitSystem } from '../types';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SensorChannel, TrackPoint } from '@/lib/gpx-parser';
+import {
+  ChartDataPoint,
+  AnomalyRegion,
+  Climb,
+  ElevationStats,
+  AnomalyButtonOffset,
+  GradientColoring,
+  MapColorMode,
+  RouteColoring,
+  UnitSystem
+} from '../types';
 import { ChartControls } from './ChartControls';
 import { MobileWarning } from './MobileWarning';
 import { ElevationChart } from './ElevationChart';
+import { ResidualChart } from './ResidualChart';
 
 const ElevationMap = dynamic<{
   points: Array<{ lat: number; lon: number }>;
   hoveredPointIndex?: number | null;
+  selectedIndices?: [number, number] | null;
+  anomalyIndices?: [number, number] | null;
+  segmentColors?: string[];
+  legend?: Array<{ label: string; color: string }>;
 }>(
   () => import('@/components/elevation-map').then((mod) => mod.ElevationMap),
   {
@@ -23,10 +40,29 @@ const ElevationMap = dynamic<{
   }
 );
 
+const MAP_COLOR_MODES: Array<{ value: MapColorMode; label: string }> = [
+  { value: 'plain', label: 'Plain' },
+  { value: 'gradient', label: 'Gradient' },
+  { value: 'elevation', label: 'Elevation' },
+  { value: 'edited', label: 'Edited vs. original' },
+  { value: 'anomalies', label: 'Anomalies' }
+];
+
 interface ChartCardProps {
   // Data
   chartData: ChartDataPoint[];
   originalChartData: ChartDataPoint[];
+  terrainChartData: ChartDataPoint[] | null;
+  uncoveredRanges: Array<[number, number]>;
+  climbs: Climb[];
+  referenceChartData: ChartDataPoint[] | null;
+  smoothingPreviewData: ChartDataPoint[] | null;
+  residualChartData: ChartDataPoint[] | null;
+  selectedRange: [number, number] | null;
+  pendingSelectionStart: number | null;
+  selectedIndices: [number, number] | null;
+  /** First and last index of the anomaly picked in the anomaly list */
+  activeAnomalyIndices: [number, number] | null;
   trackPoints: TrackPoint[];
   stats: ElevationStats;
   editedPoints: Set<number>;
@@ -34,9 +70,22 @@ interface ChartCardProps {
   // State
   isMobile: boolean;
   unitSystem: UnitSystem;
+  trackNames: string[];
+  selectedTrackIndex: number;
+  hasSegmentBreaks: boolean;
+  countSegmentGaps: boolean;
   showOriginal: boolean;
+  showTerrain: boolean;
+  showClimbs: boolean;
   showAnomalies: boolean;
+  /** Gradient buckets to colour the profile by, or null for a single colour */
+  gradientColoring: GradientColoring | null;
   showMap: boolean;
+  mapColorMode: MapColorMode;
+  /** Route colours for the map colouring mode; null while the map is hidden */
+  routeColoring: RouteColoring | null;
+  availableSensors: SensorChannel[];
+  visibleSensors: SensorChannel[];
   showMobileWarning: boolean;
   zoomDomain: [number, number] | null;
   anomalyRegions: AnomalyRegion[];
@@ -57,15 +106,21 @@ interface ChartCardProps {
 
   // Event handlers
   onUnitSystemChange: (system: UnitSystem) => void;
+  onSelectTrack: (index: number) => void;
+  onToggleSegmentGaps?: () => void;
   onToggleOriginal: () => void;
   onToggleAnomalies: () => void;
   onToggleMap: () => void;
+  onToggleSensor: (channel: SensorChannel) => void;
+  onMapColorModeChange: (mode: MapColorMode) => void;
   onDismissMobileWarning: () => void;
-  onChartMouseDown: (e: any) => void;
+  onChartMouseDown: (e: any, event?: React.MouseEvent) => void;
   onChartMouseMove: (e: any) => void;
   onChartMouseUp: () => void;
   onChartMouseLeave: () => void;
   onIgnoreAnomaly: (key: string) => void;
+  onFixAnomaly: (region: AnomalyRegion) => void;
+  onFixAllAnomalies: () => void;
   onHoverAnomalyChange: (key: string | null) => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
@@ -80,14 +135,35 @@ interface ChartCardProps {
 export function ChartCard({
   chartData,
   originalChartData,
+  terrainChartData,
+  uncoveredRanges,
+  climbs,
+  referenceChartData,
+  smoothingPreviewData,
+  residualChartData,
+  selectedRange,
+  pendingSelectionStart,
+  selectedIndices,
+  activeAnomalyIndices,
   trackPoints,
   stats,
   editedPoints,
   isMobile,
   unitSystem,
+  trackNames,
+  selectedTrackIndex,
+  hasSegmentBreaks,
+  countSegmentGaps,
   showOriginal,
+  showTerrain,
+  showClimbs,
   showAnomalies,
+  gradientColoring,
   showMap,
+  mapColorMode,
+  routeColoring,
+  availableSensors,
+  visibleSensors,
   showMobileWarning,
   zoomDomain,
   anomalyRegions,
@@ -104,15 +180,21 @@ export function ChartCard({
   elevationUnitLabel,
   getAnomalyKey,
   onUnitSystemChange,
+  onSelectTrack,
+  onToggleSegmentGaps,
   onToggleOriginal,
   onToggleAnomalies,
   onToggleMap,
+  onToggleSensor,
+  onMapColorModeChange,
   onDismissMobileWarning,
   onChartMouseDown,
   onChartMouseMove,
   onChartMouseUp,
   onChartMouseLeave,
   onIgnoreAnomaly,
+  onFixAnomaly,
+  onFixAllAnomalies,
   onHoverAnomalyChange,
   onZoomIn,
   onZoomOut,
@@ -125,15 +207,25 @@ export function ChartCard({
       <CardHeader>
         <ChartControls
           unitSystem={unitSystem}
+          trackNames={trackNames}
+          selectedTrackIndex={selectedTrackIndex}
+          hasSegmentBreaks={hasSegmentBreaks}
+          countSegmentGaps={countSegmentGaps}
           showOriginal={showOriginal}
           showAnomalies={showAnomalies}
           showMap={showMap}
+          availableSensors={availableSensors}
+          visibleSensors={visibleSensors}
           anomalyCount={anomalyRegions.length}
           editedCount={stats.editedCount}
           onUnitSystemChange={onUnitSystemChange}
+          onSelectTrack={onSelectTrack}
+          onToggleSegmentGaps={onToggleSegmentGaps}
           onToggleOriginal={onToggleOriginal}
           onToggleAnomalies={onToggleAnomalies}
           onToggleMap={onToggleMap}
+          onToggleSensor={onToggleSensor}
+          onFixAllAnomalies={onFixAllAnomalies}
         />
       </CardHeader>
 
@@ -143,39 +235,64 @@ export function ChartCard({
 
       <CardContent>
         <div className={showMap ? 'grid gap-4 lg:grid-cols-2' : ''}>
-          <ElevationChart
-            chartData={chartData}
-            originalChartData={originalChartData}
-            trackPoints={trackPoints}
-            stats={stats}
-            editedPoints={editedPoints}
-            isMobile={isMobile}
-            zoomDomain={zoomDomain}
-            showOriginal={showOriginal}
-            showAnomalies={showAnomalies}
-            anomalyRegions={anomalyRegions}
-            anomalyButtonOffsets={anomalyButtonOffsets}
-            gridBounds={gridBounds}
-            hoveredAnomalyKey={hoveredAnomalyKey}
-            chartContainerRef={chartContainerRef}
-            isPanningMode={isPanningMode}
-            convertDistance={convertDistance}
-            convertElevation={convertElevation}
-            distanceUnitLabel={distanceUnitLabel}
-            elevationUnitLabel={elevationUnitLabel}
-            getAnomalyKey={getAnomalyKey}
-            onChartMouseDown={onChartMouseDown}
-            onChartMouseMove={onChartMouseMove}
-            onChartMouseUp={onChartMouseUp}
-            onChartMouseLeave={onChartMouseLeave}
-            onIgnoreAnomaly={onIgnoreAnomaly}
-            onHoverAnomalyChange={onHoverAnomalyChange}
-            onZoomIn={onZoomIn}
-            onZoomOut={onZoomOut}
-            onResetZoom={onResetZoom}
-            onPanLeft={onPanLeft}
-            onPanRight={onPanRight}
-          />
+          <div>
+            <ElevationChart
+              chartData={chartData}
+              originalChartData={originalChartData}
+              terrainChartData={terrainChartData}
+              uncoveredRanges={uncoveredRanges}
+              climbs={climbs}
+              referenceChartData={referenceChartData}
+              smoothingPreviewData={smoothingPreviewData}
+              selectedRange={selectedRange}
+              pendingSelectionStart={pendingSelectionStart}
+              trackPoints={trackPoints}
+              stats={stats}
+              editedPoints={editedPoints}
+              isMobile={isMobile}
+              zoomDomain={zoomDomain}
+              showOriginal={showOriginal}
+              showTerrain={showTerrain}
+              showClimbs={showClimbs}
+              gradientColoring={gradientColoring}
+              showAnomalies={showAnomalies}
+              visibleSensors={visibleSensors}
+              anomalyRegions={anomalyRegions}
+              anomalyButtonOffsets={anomalyButtonOffsets}
+              gridBounds={gridBounds}
+              hoveredAnomalyKey={hoveredAnomalyKey}
+              chartContainerRef={chartContainerRef}
+              isPanningMode={isPanningMode}
+              convertDistance={convertDistance}
+              convertElevation={convertElevation}
+              distanceUnitLabel={distanceUnitLabel}
+              elevationUnitLabel={elevationUnitLabel}
+              getAnomalyKey={getAnomalyKey}
+              onChartMouseDown={onChartMouseDown}
+              onChartMouseMove={onChartMouseMove}
+              onChartMouseUp={onChartMouseUp}
+              onChartMouseLeave={onChartMouseLeave}
+              onIgnoreAnomaly={onIgnoreAnomaly}
+              onFixAnomaly={onFixAnomaly}
+              onHoverAnomalyChange={onHoverAnomalyChange}
+              onZoomIn={onZoomIn}
+              onZoomOut={onZoomOut}
+              onResetZoom={onResetZoom}
+              onPanLeft={onPanLeft}
+              onPanRight={onPanRight}
+            />
+            {residualChartData && (
+              <ResidualChart
+                residualChartData={residualChartData}
+                isMobile={isMobile}
+                zoomDomain={zoomDomain}
+                convertDistance={convertDistance}
+                convertElevation={convertElevation}
+                distanceUnitLabel={distanceUnitLabel}
+                elevationUnitLabel={elevationUnitLabel}
+              />
+            )}
+          </div>
 
           {showMap && (
             <div
@@ -183,10 +300,31 @@ export function ChartCard({
               key={`map-container-${mapKey}`}
               style={{ isolation: 'isolate' }}
             >
+              <div className="flex items-center justify-end gap-2">
+                <Label htmlFor="map-color-mode" className="text-sm text-slate-600 dark:text-slate-400">
+                  Colour route by
+                </Label>
+                <Select value={mapColorMode} onValueChange={(value) => onMapColorModeChange(value as MapColorMode)}>
+                  <SelectTrigger id="map-color-mode" className="h-8 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAP_COLOR_MODES.map(mode => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <ElevationMap
                 key={`elevation-map-${mapKey}`}
                 points={trackPoints}
                 hoveredPointIndex={hoveredPointIndex}
+                selectedIndices={selectedIndices}
+                anomalyIndices={activeAnomalyIndices}
+                segmentColors={routeColoring?.segmentColors}
+                legend={routeColoring?.legend}
               />
             </div>
           )}
@@ -2,23 +2,36 @@
  * Chart control buttons component
  */
 
-import { Eye, EyeOff, MapIcon } from 'lucide-react';
+import { Eye, EyeOff, MapIcon, Unlink, Wrench } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SensorChannel } from '@/lib/gpx-parser';
 import { UnitSystem } from '../types';
+import { SENSOR_SERIES } from '../constants';
 
 interface ChartControlsProps {
   unitSystem: UnitSystem;
+  trackNames: string[];
+  selectedTrackIndex: number;
+  hasSegmentBreaks: boolean;
+  countSegmentGaps: boolean;
   showOriginal: boolean;
   showAnomalies: boolean;
   showMap: boolean;
+  availableSensors: SensorChannel[];
+  visibleSensors: SensorChannel[];
   anomalyCount: number;
   editedCount: number;
   onUnitSystemChange: (system: UnitSystem) => void;
+  onSelectTrack: (index: number) => void;
+  onToggleSegmentGaps?: () => void;
   onToggleOriginal: () => void;
   onToggleAnomalies: () => void;
   onToggleMap: () => void;
+  onToggleSensor: (channel: SensorChannel) => void;
+  onFixAllAnomalies: () => void;
 }
 
 /**
@@ -26,20 +39,47 @@ interface ChartControlsProps {
  */
 export function ChartControls({
   unitSystem,
+  trackNames,
+  selectedTrackIndex,
+  hasSegmentBreaks,
+  countSegmentGaps,
   showOriginal,
   showAnomalies,
   showMap,
+  availableSensors,
+  visibleSensors,
   anomalyCount,
   editedCount,
   onUnitSystemChange,
+  onSelectTrack,
+  onToggleSegmentGaps,
   onToggleOriginal,
   onToggleAnomalies,
-  onToggleMap
+  onToggleMap,
+  onToggleSensor,
+  onFixAllAnomalies
 }: ChartControlsProps) {
   return (
     <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
       <div className="flex items-center gap-2 flex-wrap">
         <CardTitle>Elevation Profile</CardTitle>
+        {trackNames.length > 1 && (
+          <Select
+            value={String(selectedTrackIndex)}
+            onValueChange={(value) => onSelectTrack(Number(value))}
+          >
+            <SelectTrigger className="h-7 w-auto max-w-[220px] text-xs md:h-9 md:text-sm" aria-label="Select track">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {trackNames.map((name, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         {showAnomalies && anomalyCount > 0 && (
           <Badge
             variant="outline"
@@ -48,6 +88,12 @@ export function ChartControls({
             {anomalyCount} elevation {anomalyCount === 1 ? 'anomaly' : 'anomalies'} detected
           </Badge>
         )}
+        {showAnomalies && anomalyCount > 0 && (
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onFixAllAnomalies}>
+            <Wrench className="h-3 w-3 mr-1" />
+            Fix all
+          </Button>
+        )}
         {editedCount > 0 && (
           <Badge className="bg-amber-100 text-amber-800 border-transparent pointer-events-none">
             {editedCount} points modified
@@ -85,6 +131,24 @@ export function ChartControls({
           </Button>
         </div>
 
+        {/* Count/Skip Segment Gaps Button */}
+        {hasSegmentBreaks && onToggleSegmentGaps && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-7 px-2 text-xs md:h-9 md:px-3 md:text-sm ${
+              countSegmentGaps
+                ? 'bg-slate-900 !text-white hover:bg-slate-800 focus-visible:!text-white active:!text-white'
+                : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+            }`}
+            onClick={onToggleSegmentGaps}
+            title="Count the straight-line distance between track segments"
+          >
+            <Unlink className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
+            {countSegmentGaps ? 'Skip segment gaps' : 'Count segment gaps'}
+          </Button>
+        )}
+
         {/* Show/Hide Original Button */}
         <Button
           variant="ghost"
@@ -133,6 +197,32 @@ export function ChartControls({
           )}
         </Button>
 
+        {/* Sensor Series Toggles */}
+        {availableSensors.map(channel => {
+          const visible = visibleSensors.includes(channel);
+          return (
+            <Button
+              key={channel}
+              variant="ghost"
+              size="sm"
+              className={`h-7 px-2 text-xs md:h-9 md:px-3 md:text-sm ${
+                visible
+                  ? 'bg-slate-900 !text-white hover:bg-slate-800 focus-visible:!text-white active:!text-white'
+                  : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+              }`}
+              onClick={() => onToggleSensor(channel)}
+              aria-pressed={visible}
+              title={`${visible ? 'Hide' : 'Show'} ${SENSOR_SERIES[channel].label.toLowerCase()}`}
+            >
+              <span
+                className="h-2 w-2 rounded-full mr-1 md:mr-2"
+                style={{ backgroundColor: SENSOR_SERIES[channel].color }}
+              />
+              {SENSOR_SERIES[channel].label}
+            </Button>
+          );
+        })}
+
         {/* Show/Hide Map Button */}
         <Button
           variant="ghost"
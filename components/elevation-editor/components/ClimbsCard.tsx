@@ -0,0 +1,147 @@
+/**
+ * Climbs card component listing the categorized climbs along the track
+ */
+
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Eye, EyeOff } from 'lucide-react';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { Climb } from '../types';
+import { CLIMB_CATEGORY_STYLES } from '../constants';
+import { cn } from '@/lib/utils';
+
+interface ClimbsCardProps {
+  /** Climbs in order of distance */
+  climbs: Climb[];
+  showClimbs: boolean;
+  selectedRange: [number, number] | null;
+  convertDistance: (meters: number) => number;
+  convertElevation: (meters: number) => number;
+  distanceUnitLabel: string;
+  elevationUnitLabel: string;
+  onSelectRange: (range: [number, number] | null) => void;
+  onToggleClimbs: () => void;
+}
+
+const formatGradient = (gradient: number) => `${(gradient * 100).toFixed(1)}%`;
+
+/**
+ * Card with the length, gain and gradients of each climb; clicking one
+ * selects its range
+ */
+export function ClimbsCard({
+  climbs,
+  showClimbs,
+  selectedRange,
+  convertDistance,
+  convertElevation,
+  distanceUnitLabel,
+  elevationUnitLabel,
+  onSelectRange,
+  onToggleClimbs
+}: ClimbsCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('climbs-card-open', false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Climbs</CardTitle>
+                <Badge variant="secondary" className="pointer-events-none">
+                  {climbs.length}
+                </Badge>
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            {climbs.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No categorized climbs found.</p>
+            ) : (
+              <>
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={onToggleClimbs}>
+                    {showClimbs ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                    {showClimbs ? 'Hide on chart' : 'Show on chart'}
+                  </Button>
+                </div>
+
+                <div className="max-h-96 overflow-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                        <th className="px-2 py-1 font-medium">Category</th>
+                        <th className="px-2 py-1 font-medium">Distance ({distanceUnitLabel})</th>
+                        <th className="px-2 py-1 font-medium text-right">Length</th>
+                        <th className="px-2 py-1 font-medium text-right">Gain</th>
+                        <th className="px-2 py-1 font-medium text-right">Avg</th>
+                        <th className="px-2 py-1 font-medium text-right">Max</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {climbs.map(climb => {
+                        const style = CLIMB_CATEGORY_STYLES[climb.category];
+                        const isSelected =
+                          selectedRange?.[0] === climb.startDistance && selectedRange?.[1] === climb.endDistance;
+
+                        return (
+                          <tr
+                            key={`${climb.startDistance}-${climb.endDistance}`}
+                            onClick={() => onSelectRange([climb.startDistance, climb.endDistance])}
+                            className={cn(
+                              "cursor-pointer transition-colors",
+                              isSelected ? "bg-slate-100 dark:bg-slate-800" : "hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                            )}
+                          >
+                            <td className="px-2 py-1.5">
+                              <Badge className="text-white" style={{ backgroundColor: style.color }}>
+                                {style.label}
+                              </Badge>
+                            </td>
+                            <td className="px-2 py-1.5">
+                              {convertDistance(climb.startDistance).toFixed(2)}–{convertDistance(climb.endDistance).toFixed(2)}
+                            </td>
+                            <td className="px-2 py-1.5 text-right font-mono text-xs">
+                              {convertDistance(climb.length).toFixed(2)} {distanceUnitLabel}
+                            </td>
+                            <td className="px-2 py-1.5 text-right font-mono text-xs">
+                              {Math.round(convertElevation(climb.gain))} {elevationUnitLabel}
+                            </td>
+                            <td className="px-2 py-1.5 text-right font-mono text-xs">{formatGradient(climb.averageGradient)}</td>
+                            <td className="px-2 py-1.5 text-right font-mono text-xs">{formatGradient(climb.maxGradient)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Climbs average at least 3% and are categorized by length times average gradient,
+              from Cat 4 up to HC. Max is the steepest 100 m. The list follows your edits as you
+              make them; click a climb to select it.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -4,12 +4,24 @@
 
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, Eye, EyeOff } from 'lucide-react';
 import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import {
+  AnomalyDetector,
+  AnomalyRepairMode,
+  ElevationLimits,
+  HampelParams,
+  SmoothingAlgorithm,
+  SmoothingParams
+} from '../types';
 import { cn } from '@/lib/utils';
 
 interface ControlsCardProps {
@@ -17,11 +29,82 @@ interface ControlsCardProps {
   smoothingStrength: number;
   anomalyThreshold: number;
   maxSmoothingRadius: number;
+  convertShortDistance: (meters: number) => number;
+  shortDistanceUnitLabel: string;
   onSmoothingRadiusChange: (value: number) => void;
   onSmoothingStrengthChange: (value: number) => void;
   onAnomalyThresholdChange: (value: number) => void;
+  elevationLimits: ElevationLimits;
+  convertElevation: (meters: number) => number;
+  elevationUnitLabel: string;
+  onElevationLimitsChange: (limits: ElevationLimits) => void;
+  anomalyDetector: AnomalyDetector;
+  hampelParams: HampelParams;
+  onAnomalyDetectorChange: (detector: AnomalyDetector) => void;
+  onHampelParamsChange: (params: HampelParams) => void;
+  anomalyRepairMode: AnomalyRepairMode;
+  anomalyRepairStrength: number;
+  onAnomalyRepairModeChange: (mode: AnomalyRepairMode) => void;
+  onAnomalyRepairStrengthChange: (value: number) => void;
+  smoothingAlgorithm: SmoothingAlgorithm;
+  smoothingParams: SmoothingParams;
+  showSmoothingPreview: boolean;
+  hasSelection: boolean;
+  onSmoothingAlgorithmChange: (algorithm: SmoothingAlgorithm) => void;
+  onSmoothingParamsChange: (params: SmoothingParams) => void;
+  onToggleSmoothingPreview: () => void;
+  onApplySmoothing: (selectionOnly: boolean) => void;
 }
 
+const ALGORITHMS: Array<{ value: SmoothingAlgorithm; label: string; description: string }> = [
+  {
+    value: 'gaussian',
+    label: 'Gaussian',
+    description: 'Weighted average over a distance, independent of how densely the track was sampled.'
+  },
+  {
+    value: 'savitzky-golay',
+    label: 'Savitzky–Golay',
+    description: 'Fits a polynomial around each point, removing noise while keeping summits and valleys.'
+  },
+  {
+    value: 'median',
+    label: 'Rolling median',
+    description: 'Takes the middle value of each window, removing isolated spikes completely.'
+  },
+  {
+    value: 'kalman',
+    label: 'Kalman (RTS)',
+    description: 'Tracks elevation and gradient, so steady climbs are followed without lag.'
+  }
+];
+
+// Parameters measured along the track or in height are kept in meters and shown in display units
+interface SmoothingParameter {
+  key: keyof SmoothingParams;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  quantity?: 'distance' | 'elevation';
+}
+
+const PARAMETERS: Record<SmoothingAlgorithm, SmoothingParameter[]> = {
+  gaussian: [{ key: 'gaussianSigma', label: 'Kernel width (σ)', min: 5, max: 200, step: 5, unit: 'm', quantity: 'distance' }],
+  'savitzky-golay': [
+    { key: 'savitzkyGolayWindow', label: 'Window', min: 5, max: 51, step: 2, unit: 'pts' },
+    { key: 'savitzkyGolayOrder', label: 'Polynomial order', min: 1, max: 4, step: 1, unit: '' }
+  ],
+  median: [{ key: 'medianWindow', label: 'Window', min: 3, max: 21, step: 2, unit: 'pts' }],
+  kalman: [{ key: 'kalmanNoise', label: 'Measurement noise', min: 1, max: 20, step: 1, unit: 'm', quantity: 'elevation' }]
+};
+
+const HAMPEL_PARAMETERS: Array<{ key: keyof HampelParams; label: string; min: number; max: number; step: number; unit: string }> = [
+  { key: 'halfWindow', label: 'Window (each side)', min: 2, max: 25, step: 1, unit: 'pts' },
+  { key: 'sigmas', label: 'Outlier cut-off', min: 1, max: 10, step: 0.5, unit: '× MAD' }
+];
+
 /**
  * Card containing sliders for smoothing and anomaly detection settings
  */
@@ -30,12 +113,75 @@ export function ControlsCard({
   smoothingStrength,
   anomalyThreshold,
   maxSmoothingRadius,
+  convertShortDistance,
+  shortDistanceUnitLabel,
   onSmoothingRadiusChange,
   onSmoothingStrengthChange,
-  onAnomalyThresholdChange
+  onAnomalyThresholdChange,
+  elevationLimits,
+  convertElevation,
+  elevationUnitLabel,
+  onElevationLimitsChange,
+  anomalyDetector,
+  hampelParams,
+  onAnomalyDetectorChange,
+  onHampelParamsChange,
+  anomalyRepairMode,
+  anomalyRepairStrength,
+  onAnomalyRepairModeChange,
+  onAnomalyRepairStrengthChange,
+  smoothingAlgorithm,
+  smoothingParams,
+  showSmoothingPreview,
+  hasSelection,
+  onSmoothingAlgorithmChange,
+  onSmoothingParamsChange,
+  onToggleSmoothingPreview,
+  onApplySmoothing
 }: ControlsCardProps) {
   const [isOpen, setIsOpen] = useLocalStorageState('controls-card-open', true);
 
+  // The radius is kept in meters and shown in m or ft
+  const displayRadius = Math.round(convertShortDistance(smoothingRadius));
+  const displayMaxRadius = Math.floor(convertShortDistance(maxSmoothingRadius));
+
+  const toDisplayUnits = (param: SmoothingParameter, meters: number) => {
+    if (param.quantity === 'distance') return convertShortDistance(meters);
+    if (param.quantity === 'elevation') return convertElevation(meters);
+    return meters;
+  };
+  const displayUnit = (param: SmoothingParameter) => {
+    if (param.quantity === 'distance') return shortDistanceUnitLabel;
+    if (param.quantity === 'elevation') return elevationUnitLabel;
+    return param.unit;
+  };
+
+  // Limits are typed in display units and applied once the input loses focus
+  const [limitText, setLimitText] = useState<[string, string]>(['', '']);
+  useEffect(() => {
+    const format = (meters: number | null) =>
+      meters === null ? '' : String(Number(convertElevation(meters).toFixed(1)));
+    setLimitText([format(elevationLimits.floor), format(elevationLimits.ceiling)]);
+  }, [elevationLimits, convertElevation]);
+
+  const commitLimits = () => {
+    const metersPerUnit = 1 / convertElevation(1);
+    const parse = (text: string) => {
+      const value = parseFloat(text);
+      return Number.isFinite(value) ? value * metersPerUnit : null;
+    };
+    const floor = parse(limitText[0]);
+    const ceiling = parse(limitText[1]);
+    if (floor !== null && ceiling !== null && floor > ceiling) {
+      // Reject a floor above the ceiling and show the current limits again
+      onElevationLimitsChange({ ...elevationLimits });
+      return;
+    }
+    if (floor !== elevationLimits.floor || ceiling !== elevationLimits.ceiling) {
+      onElevationLimitsChange({ floor, ceiling });
+    }
+  };
+
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
       <Card>
@@ -62,19 +208,21 @@ export function ControlsCard({
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="smoothing-radius" className="text-sm text-slate-600 dark:text-slate-400">
-                Smoothing affected points (each side)
+                Smoothing radius (each side)
               </Label>
-              <span className="text-sm text-slate-600 dark:text-slate-400">{Math.round(smoothingRadius)} pts</span>
+              <span className="text-sm text-slate-600 dark:text-slate-400">
+                {displayRadius} {shortDistanceUnitLabel}
+              </span>
             </div>
             <Slider
               id="smoothing-radius"
               min={0}
-              max={Math.max(0, maxSmoothingRadius)}
-              step={1}
-              value={[Math.max(0, Math.min(Math.round(smoothingRadius), maxSmoothingRadius))]}
+              max={Math.max(0, displayMaxRadius)}
+              step={5}
+              value={[Math.max(0, Math.min(displayRadius, displayMaxRadius))]}
               onValueChange={(value: number[]) => {
-                const raw = value[0] ?? 0;
-                onSmoothingRadiusChange(Math.max(0, Math.min(raw, maxSmoothingRadius)));
+                const meters = (value[0] ?? 0) / convertShortDistance(1);
+                onSmoothingRadiusChange(Math.max(0, Math.min(meters, maxSmoothingRadius)));
               }}
             />
           </div>
@@ -124,11 +272,222 @@ export function ControlsCard({
           </div>
         </div>
         <p className="text-xs text-slate-500 dark:text-slate-400">
-          Dragging uses smoothing settings to blend the selected point with its neighbours.
-          Clicking without moving applies a gentle average using the same radius and intensity.
+          Dragging uses smoothing settings to blend the selected point with its neighbours within
+          the radius, measured along the track. Clicking without moving applies a gentle average
+          using the same radius and intensity.
           Anomaly threshold controls the minimum elevation change (in meters) required to detect
-          elevation anomalies.
+          elevation anomalies; for the Hampel detector it is the minimum distance from the rolling median.
         </p>
+
+        {/* Elevation limits */}
+        <div className="space-y-2 border-t border-slate-200 dark:border-slate-800 pt-4">
+          <div className="flex flex-wrap items-end gap-2">
+            {(['Floor', 'Ceiling'] as const).map((label, index) => (
+              <div key={label} className="space-y-1">
+                <Label htmlFor={`elevation-${label.toLowerCase()}`} className="text-sm text-slate-600 dark:text-slate-400">
+                  {label} ({elevationUnitLabel})
+                </Label>
+                <Input
+                  id={`elevation-${label.toLowerCase()}`}
+                  type="number"
+                  step="any"
+                  placeholder="None"
+                  value={limitText[index]}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setLimitText(prev => (index === 0 ? [value, prev[1]] : [prev[0], value]));
+                  }}
+                  onBlur={commitLimits}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitLimits();
+                  }}
+                  className="h-9 w-28"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Dragging, smoothing, range tools and anomaly repair keep elevations between these
+            limits. Leave them empty for none, so tracks below sea level are edited as recorded.
+          </p>
+        </div>
+
+        {/* Anomaly detector */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border-t border-slate-200 dark:border-slate-800 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="anomaly-detector" className="text-sm text-slate-600 dark:text-slate-400">
+              Anomaly detector
+            </Label>
+            <Select
+              value={anomalyDetector}
+              onValueChange={(value) => onAnomalyDetectorChange(value as AnomalyDetector)}
+            >
+              <SelectTrigger id="anomaly-detector" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="gradient">Steep gradients</SelectItem>
+                <SelectItem value="hampel">Hampel (median / MAD)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {anomalyDetector === 'hampel' && HAMPEL_PARAMETERS.map(param => (
+            <div key={param.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`hampel-${param.key}`} className="text-sm text-slate-600 dark:text-slate-400">
+                  {param.label}
+                </Label>
+                <span className="text-sm text-slate-600 dark:text-slate-400">
+                  {hampelParams[param.key]} {param.unit}
+                </span>
+              </div>
+              <Slider
+                id={`hampel-${param.key}`}
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                value={[hampelParams[param.key]]}
+                onValueChange={(value: number[]) => {
+                  const next = Math.min(Math.max(value[0] ?? param.min, param.min), param.max);
+                  onHampelParamsChange({ ...hampelParams, [param.key]: next });
+                }}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-slate-500 dark:text-slate-400 md:col-span-3">
+            {anomalyDetector === 'hampel'
+              ? 'Flags points that stand out from the median of their neighbours by more than the cut-off times the median absolute deviation. Catches single-point spikes and leaves steady steep climbs alone, but misses errors longer than the window.'
+              : 'Flags runs of gradients well above the track average. Finds long plateaus and steps, but ignores single-point spikes and can flag genuinely steep trails.'}
+          </p>
+        </div>
+
+        {/* Anomaly repair */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border-t border-slate-200 dark:border-slate-800 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="anomaly-repair-mode" className="text-sm text-slate-600 dark:text-slate-400">
+              Anomaly repair
+            </Label>
+            <Select
+              value={anomalyRepairMode}
+              onValueChange={(value) => onAnomalyRepairModeChange(value as AnomalyRepairMode)}
+            >
+              <SelectTrigger id="anomaly-repair-mode" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="interpolate">Interpolate across region</SelectItem>
+                <SelectItem value="smooth">Smooth toward surroundings</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {anomalyRepairMode === 'smooth' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="anomaly-repair-strength" className="text-sm text-slate-600 dark:text-slate-400">
+                  Repair strength
+                </Label>
+                <span className="text-sm text-slate-600 dark:text-slate-400">
+                  {Math.round(anomalyRepairStrength * 100)}%
+                </span>
+              </div>
+              <Slider
+                id="anomaly-repair-strength"
+                min={10}
+                max={100}
+                step={5}
+                value={[Math.round(anomalyRepairStrength * 100)]}
+                onValueChange={(value: number[]) => {
+                  const next = (value[0] ?? 100) / 100;
+                  onAnomalyRepairStrengthChange(Math.min(Math.max(next, 0.1), 1));
+                }}
+              />
+            </div>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400 md:col-span-3">
+            Used by the fix button on each anomaly and by Fix all. Interpolation draws a straight
+            line across the region; smoothing pulls it toward the median of the surrounding profile.
+          </p>
+        </div>
+
+        {/* Smoothing algorithms */}
+        <div className="space-y-3 border-t border-slate-200 dark:border-slate-800 pt-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Label htmlFor="smoothing-algorithm" className="text-sm text-slate-600 dark:text-slate-400">
+              Smoothing algorithm
+            </Label>
+            <Select
+              value={smoothingAlgorithm}
+              onValueChange={(value) => onSmoothingAlgorithmChange(value as SmoothingAlgorithm)}
+            >
+              <SelectTrigger id="smoothing-algorithm" className="h-9 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALGORITHMS.map(item => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {ALGORITHMS.find(item => item.value === smoothingAlgorithm)?.description}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {PARAMETERS[smoothingAlgorithm].map(param => {
+              const isConverted = param.quantity !== undefined;
+              const displayValue = isConverted
+                ? Math.round(toDisplayUnits(param, smoothingParams[param.key]))
+                : smoothingParams[param.key];
+              const displayMin = isConverted ? Math.ceil(toDisplayUnits(param, param.min)) : param.min;
+              const displayMax = isConverted ? Math.floor(toDisplayUnits(param, param.max)) : param.max;
+
+              return (
+                <div key={param.key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`smoothing-${param.key}`} className="text-sm text-slate-600 dark:text-slate-400">
+                      {param.label}
+                    </Label>
+                    <span className="text-sm text-slate-600 dark:text-slate-400">
+                      {displayValue} {displayUnit(param)}
+                    </span>
+                  </div>
+                  <Slider
+                    id={`smoothing-${param.key}`}
+                    min={displayMin}
+                    max={displayMax}
+                    step={param.step}
+                    value={[Math.min(Math.max(displayValue, displayMin), displayMax)]}
+                    onValueChange={(value: number[]) => {
+                      const next = value[0] === undefined
+                        ? smoothingParams[param.key]
+                        : value[0] / toDisplayUnits(param, 1);
+                      onSmoothingParamsChange({
+                        ...smoothingParams,
+                        [param.key]: Math.min(Math.max(next, param.min), param.max)
+                      });
+                    }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={onToggleSmoothingPreview}>
+              {showSmoothingPreview ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+              {showSmoothingPreview ? 'Hide preview' : 'Preview'}
+            </Button>
+            <Button size="sm" variant="outline" disabled={!hasSelection} onClick={() => onApplySmoothing(true)}>
+              Smooth selection
+            </Button>
+            <Button size="sm" onClick={() => onApplySmoothing(false)}>
+              Smooth whole track
+            </Button>
+          </div>
+        </div>
           </CardContent>
         </CollapsibleContent>
       </Card>
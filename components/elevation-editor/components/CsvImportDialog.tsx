@@ -0,0 +1,205 @@
+/**
+ * CSV import dialog component with column mapping
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CSVColumnMapping,
+  CSVField,
+  CSVProfileRow,
+  CSVTable,
+  guessCSVColumnMapping,
+  readCSVProfile
+} from '@/lib/csv';
+import { CsvImportMode } from '../types';
+
+interface CsvImportDialogProps {
+  table: CSVTable | null;
+  filename: string;
+  onCancel: () => void;
+  onImport: (profile: CSVProfileRow[], mode: CsvImportMode) => void;
+}
+
+const FIELD_LABELS: Record<CSVField, string> = {
+  index: 'Point index',
+  lat: 'Latitude',
+  lon: 'Longitude',
+  ele: 'Elevation',
+  distance: 'Distance',
+  time: 'Time'
+};
+
+const MODES: Array<{ value: CsvImportMode; label: string; description: string; required: CSVField[] }> = [
+  {
+    value: 'patch-index',
+    label: 'Patch elevations by index',
+    description: 'Row index (or row order) selects the point of the loaded file',
+    required: ['ele']
+  },
+  {
+    value: 'patch-distance',
+    label: 'Patch elevations by nearest distance',
+    description: 'Each point of the selected track takes the elevation of the nearest row',
+    required: ['ele', 'distance']
+  },
+  {
+    value: 'create',
+    label: 'Create a new track',
+    description: 'Replaces the loaded file with a track built from the CSV',
+    required: ['lat', 'lon', 'ele']
+  }
+];
+
+const DISTANCE_UNITS: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, ft: 0.3048 };
+const ELEVATION_UNITS: Record<string, number> = { m: 1, ft: 0.3048 };
+
+const NONE = 'none';
+
+/**
+ * Dialog for mapping CSV columns to profile fields and choosing how to import them
+ */
+export function CsvImportDialog({ table, filename, onCancel, onImport }: CsvImportDialogProps) {
+  // The dialog is remounted for every file, so the guessed mapping is computed once
+  const [mapping, setMapping] = useState<CSVColumnMapping>(() => guessCSVColumnMapping(table?.headers ?? []));
+  const [mode, setMode] = useState<CsvImportMode>('patch-index');
+  const [distanceUnit, setDistanceUnit] = useState('m');
+  const [elevationUnit, setElevationUnit] = useState('m');
+
+  const selectedMode = MODES.find(item => item.value === mode)!;
+  const missingFields = selectedMode.required.filter(field => mapping[field] === undefined);
+
+  const profile = useMemo(
+    () =>
+      table && missingFields.length === 0
+        ? readCSVProfile(table, mapping, {
+            distanceToMeters: DISTANCE_UNITS[distanceUnit],
+            elevationToMeters: ELEVATION_UNITS[elevationUnit]
+          })
+        : [],
+    [table, mapping, missingFields.length, distanceUnit, elevationUnit]
+  );
+
+  const setFieldColumn = (field: CSVField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NONE) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={table !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>
+            {filename} · {table?.rows.length ?? 0} rows
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(FIELD_LABELS) as CSVField[]).map(field => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">{FIELD_LABELS[field]}</Label>
+                <Select
+                  value={mapping[field] !== undefined ? String(mapping[field]) : NONE}
+                  onValueChange={(value) => setFieldColumn(field, value)}
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label={`${FIELD_LABELS[field]} column`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>—</SelectItem>
+                    {table?.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Distance unit</Label>
+              <Select value={distanceUnit} onValueChange={setDistanceUnit}>
+                <SelectTrigger className="h-8 text-xs" aria-label="Distance unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(DISTANCE_UNITS).map(unit => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Elevation unit</Label>
+              <Select value={elevationUnit} onValueChange={setElevationUnit}>
+                <SelectTrigger className="h-8 text-xs" aria-label="Elevation unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(ELEVATION_UNITS).map(unit => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as CsvImportMode)} className="space-y-2">
+            {MODES.map(item => (
+              <div key={item.value} className="flex items-start gap-2">
+                <RadioGroupItem value={item.value} id={`csv-mode-${item.value}`} className="mt-0.5" />
+                <Label htmlFor={`csv-mode-${item.value}`} className="space-y-0.5 font-normal">
+                  <span className="block text-sm font-medium">{item.label}</span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">{item.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {missingFields.length > 0
+              ? `Map ${missingFields.map(field => FIELD_LABELS[field].toLowerCase()).join(', ')} to continue.`
+              : `${profile.length} rows with a valid elevation will be imported.`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onImport(profile, mode)}
+            disabled={missingFields.length > 0 || profile.length === 0}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@
  */
 
 import { TooltipProps } from 'recharts';
+import { SensorChannel } from '@/lib/gpx-parser';
+import { SENSOR_SERIES } from '../constants';
 
 interface CustomTooltipProps extends TooltipProps<number, string> {
   isMobile: boolean;
@@ -31,6 +33,7 @@ export function CustomTooltip({
 
   const numericLabel = typeof label === 'number' ? label : Number(label);
   const formattedDistance = convertDistance(numericLabel);
+  const gradient = payload[0]?.payload?.gradient;
 
   return (
     <div
@@ -49,10 +52,27 @@ export function CustomTooltip({
       >
         Distance: {formattedDistance.toFixed(2)} {distanceUnitLabel}
       </div>
+      {typeof gradient === 'number' && (
+        <div
+          style={{
+            fontSize: isMobile ? '10px' : '13px',
+            padding: isMobile ? '1px 0' : '2px 0'
+          }}
+        >
+          Gradient: {(gradient * 100).toFixed(1)}%
+        </div>
+      )}
       {payload.map((entry, index) => {
+        // Segment gaps have no elevation
+        if (entry.value === null || entry.value === undefined) {
+          return null;
+        }
+
         const numericValue = typeof entry.value === 'number' ? entry.value : Number(entry.value);
-        const formatted = convertElevation(numericValue);
-        const displayName = entry.name === 'Original' ? 'Original' : 'Edited';
+        const sensor = SENSOR_SERIES[entry.dataKey as SensorChannel];
+        const text = sensor
+          ? `${sensor.label}: ${Math.round(numericValue)} ${sensor.unit}`
+          : `${entry.name ?? 'Edited'}: ${convertElevation(numericValue).toFixed(1)} ${elevationUnitLabel}`;
 
         return (
           <div
@@ -63,7 +83,7 @@ export function CustomTooltip({
               color: entry.color
             }}
           >
-            {displayName}: {formatted.toFixed(1)} {elevationUnitLabel}
+            {text}
           </div>
         );
       })}
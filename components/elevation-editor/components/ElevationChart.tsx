@@ -2,8 +2,10 @@
  * Elevation chart component with Recharts
  */
 
+import { useMemo } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -13,23 +15,46 @@ import {
   ReferenceLine,
   ReferenceArea
 } from 'recharts';
-import { TrackPoint } from '@/lib/gpx-parser';
-import { ChartDataPoint, AnomalyRegion, ElevationStats, AnomalyButtonOffset } from '../types';
-import { CHART_MARGINS_DESKTOP, CHART_MARGINS_MOBILE } from '../constants';
+import { SensorChannel, TrackPoint } from '@/lib/gpx-parser';
+import { ChartDataPoint, AnomalyRegion, Climb, ElevationStats, AnomalyButtonOffset, GradientColoring } from '../types';
+import {
+  CHART_MARGINS_DESKTOP,
+  CHART_MARGINS_MOBILE,
+  CLIMB_CATEGORY_STYLES,
+  GRADIENT_BUCKET_COLORS,
+  SENSOR_SERIES
+} from '../constants';
+import { buildGradientStops, computeElevationDomain } from '../utils/chart-data';
 import { ZoomControls } from './ZoomControls';
 import { AnomalyCloseButtons } from './AnomalyCloseButtons';
 import { CustomTooltip } from './CustomTooltip';
+import { GradientLegend } from './GradientLegend';
+
+/** Id of the SVG gradient that colours the profile by steepness */
+const GRADIENT_FILL_ID = 'elevation-gradient-colors';
 
 interface ElevationChartProps {
   chartData: ChartDataPoint[];
   originalChartData: ChartDataPoint[];
+  terrainChartData: ChartDataPoint[] | null;
+  uncoveredRanges: Array<[number, number]>;
+  climbs: Climb[];
+  referenceChartData: ChartDataPoint[] | null;
+  smoothingPreviewData: ChartDataPoint[] | null;
+  selectedRange: [number, number] | null;
+  pendingSelectionStart: number | null;
   trackPoints: TrackPoint[];
   stats: ElevationStats;
   editedPoints: Set<number>;
   isMobile: boolean;
   zoomDomain: [number, number] | null;
   showOriginal: boolean;
+  showTerrain: boolean;
+  showClimbs: boolean;
   showAnomalies: boolean;
+  /** Gradient buckets to colour the profile by, or null for a single colour */
+  gradientColoring: GradientColoring | null;
+  visibleSensors: SensorChannel[];
   anomalyRegions: AnomalyRegion[];
   anomalyButtonOffsets: Record<number, AnomalyButtonOffset>;
   gridBounds: { top: number; left: number; width: number; height: number } | null;
@@ -41,11 +66,12 @@ interface ElevationChartProps {
   distanceUnitLabel: string;
   elevationUnitLabel: string;
   getAnomalyKey: (region: { startDistance: number; endDistance: number }) => string;
-  onChartMouseDown: (e: any) => void;
+  onChartMouseDown: (e: any, event?: React.MouseEvent) => void;
   onChartMouseMove: (e: any) => void;
   onChartMouseUp: () => void;
   onChartMouseLeave: () => void;
   onIgnoreAnomaly: (key: string) => void;
+  onFixAnomaly: (region: AnomalyRegion) => void;
   onHoverAnomalyChange: (key: string | null) => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
@@ -60,13 +86,24 @@ interface ElevationChartProps {
 export function ElevationChart({
   chartData,
   originalChartData,
+  terrainChartData,
+  uncoveredRanges,
+  climbs,
+  referenceChartData,
+  smoothingPreviewData,
+  selectedRange,
+  pendingSelectionStart,
   trackPoints,
   stats,
   editedPoints,
   isMobile,
   zoomDomain,
   showOriginal,
+  showTerrain,
+  showClimbs,
   showAnomalies,
+  gradientColoring,
+  visibleSensors,
   anomalyRegions,
   anomalyButtonOffsets,
   gridBounds,
@@ -83,6 +120,7 @@ export function ElevationChart({
   onChartMouseUp,
   onChartMouseLeave,
   onIgnoreAnomaly,
+  onFixAnomaly,
   onHoverAnomalyChange,
   onZoomIn,
   onZoomOut,
@@ -101,6 +139,15 @@ export function ElevationChart({
       })
     : anomalyRegions;
 
+  const gradientStops = useMemo(
+    () => (gradientColoring ? buildGradientStops(chartData, gradientColoring.thresholds, GRADIENT_BUCKET_COLORS) : []),
+    [chartData, gradientColoring]
+  );
+  // A one-colour profile is painted directly, as a flat line has no box for the SVG gradient to span
+  const profileColor = gradientStops.length > 1
+    ? `url(#${GRADIENT_FILL_ID})`
+    : gradientStops[0]?.color ?? '#2563eb';
+
   return (
     <div className="select-none relative">
       {/* Zoom and Pan controls overlay */}
@@ -128,12 +175,13 @@ export function ElevationChart({
           hoveredAnomalyKey={hoveredAnomalyKey}
           getAnomalyKey={getAnomalyKey}
           onIgnoreAnomaly={onIgnoreAnomaly}
+          onFixAnomaly={onFixAnomaly}
           onHoverChange={onHoverAnomalyChange}
           gridBounds={gridBounds}
         />
 
         <ResponsiveContainer width="100%" height="100%" debounce={50}>
-          <LineChart
+          <ComposedChart
             data={chartData}
             margin={isMobile ? CHART_MARGINS_MOBILE : CHART_MARGINS_DESKTOP}
             onMouseDown={onChartMouseDown}
@@ -157,7 +205,7 @@ export function ElevationChart({
               tick={{ fontSize: isMobile ? 10 : 12 }}
             />
             <YAxis
-              domain={[stats.minElevation - 100, stats.maxElevation + 100]}
+              domain={computeElevationDomain(stats.minElevation, stats.maxElevation)}
               allowDataOverflow={true}
               tickCount={10}
               tickFormatter={(value) => {
@@ -168,6 +216,10 @@ export function ElevationChart({
               tick={{ fontSize: isMobile ? 10 : 12 }}
               width={isMobile ? 35 : 60}
             />
+            {/* Each sensor series gets its own hidden axis so it fills the chart height */}
+            {visibleSensors.map(channel => (
+              <YAxis key={`sensor-axis-${channel}`} yAxisId={channel} hide domain={['auto', 'auto']} />
+            ))}
             <Tooltip
               content={
                 <CustomTooltip
@@ -200,10 +252,87 @@ export function ElevationChart({
                 );
               })}
 
+            {/* Categorized climbs - bands in the category colour, labelled at the top */}
+            {showClimbs &&
+              climbs.map((climb) => (
+                <ReferenceArea
+                  key={`climb-${climb.startDistance}-${climb.endDistance}`}
+                  x1={climb.startDistance}
+                  x2={climb.endDistance}
+                  fill={CLIMB_CATEGORY_STYLES[climb.category].color}
+                  fillOpacity={0.12}
+                  ifOverflow="hidden"
+                  label={{
+                    value: CLIMB_CATEGORY_STYLES[climb.category].label,
+                    position: 'insideTop',
+                    fill: CLIMB_CATEGORY_STYLES[climb.category].color,
+                    fontSize: isMobile ? 10 : 12,
+                    fontWeight: 600
+                  }}
+                />
+              ))}
+
+            {/* Stretches outside the loaded terrain coverage - grey background */}
+            {showTerrain &&
+              uncoveredRanges.map(([start, end]) => (
+                <ReferenceArea
+                  key={`uncovered-${start}-${end}`}
+                  x1={start}
+                  x2={end}
+                  fill="#64748b"
+                  fillOpacity={0.15}
+                  ifOverflow="hidden"
+                />
+              ))}
+
+            {/* Selected distance range (shift-drag or two shift-clicks) */}
+            {selectedRange && (
+              <ReferenceArea
+                x1={selectedRange[0]}
+                x2={selectedRange[1]}
+                fill="#3b82f6"
+                fillOpacity={0.15}
+                stroke="#2563eb"
+                strokeOpacity={0.5}
+                ifOverflow="hidden"
+              />
+            )}
+            {pendingSelectionStart !== null && (
+              <ReferenceLine
+                x={pendingSelectionStart}
+                stroke="#2563eb"
+                strokeDasharray="4 4"
+                ifOverflow="hidden"
+              />
+            )}
+
+            {gradientStops.length > 1 && (
+              <defs>
+                <linearGradient id={GRADIENT_FILL_ID} x1="0" y1="0" x2="1" y2="0">
+                  {gradientStops.map((stop, index) => (
+                    <stop key={index} offset={stop.offset} stopColor={stop.color} />
+                  ))}
+                </linearGradient>
+              </defs>
+            )}
+            {gradientColoring && (
+              <Area
+                type="monotone"
+                dataKey="elevation"
+                stroke="none"
+                fill={profileColor}
+                fillOpacity={0.2}
+                baseValue="dataMin"
+                activeDot={false}
+                isAnimationActive={false}
+                tooltipType="none"
+              />
+            )}
+
             <Line
               type="monotone"
               dataKey="elevation"
-              stroke="#2563eb"
+              stroke={profileColor}
               strokeWidth={2}
               dot={false}
               name="Edited"
@@ -217,6 +346,22 @@ export function ElevationChart({
               }}
             />
 
+            {visibleSensors.map(channel => (
+              <Line
+                key={`sensor-${channel}`}
+                yAxisId={channel}
+                type="monotone"
+                dataKey={channel}
+                stroke={SENSOR_SERIES[channel].color}
+                strokeWidth={1}
+                strokeOpacity={0.7}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+                name={SENSOR_SERIES[channel].label}
+              />
+            ))}
+
             {showOriginal && (
               <Line
                 type="monotone"
@@ -230,12 +375,58 @@ export function ElevationChart({
                 name="Original"
               />
             )}
-          </LineChart>
+
+            {showTerrain && terrainChartData && (
+              <Line
+                type="monotone"
+                data={terrainChartData}
+                dataKey="elevation"
+                stroke="#16a34a"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+                strokeDasharray="2 3"
+                name="Terrain"
+              />
+            )}
+
+            {referenceChartData && (
+              <Line
+                type="monotone"
+                data={referenceChartData}
+                dataKey="elevation"
+                stroke="#9333ea"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+                strokeDasharray="6 3"
+                name="Reference"
+              />
+            )}
+            {smoothingPreviewData && (
+              <Line
+                type="monotone"
+                data={smoothingPreviewData}
+                dataKey="elevation"
+                stroke="#db2777"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+                strokeDasharray="4 2"
+                name="Smoothing preview"
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
       <div className="mt-2 text-center text-xs text-slate-500">
         Distance ({distanceUnitLabel})
       </div>
+      {gradientColoring && (
+        <div className="mt-2">
+          <GradientLegend thresholds={gradientColoring.thresholds} />
+        </div>
+      )}
     </div>
   );
 }
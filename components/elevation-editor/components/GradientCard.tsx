@@ -0,0 +1,170 @@
+/**
+ * Gradient card component for colouring the profile by gradient
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { GradientColoring } from '../types';
+import { DEFAULT_GRADIENT_COLORING, GRADIENT_BUCKET_COLORS } from '../constants';
+import { GradientLegend } from './GradientLegend';
+import { cn } from '@/lib/utils';
+
+interface GradientCardProps {
+  gradientColoring: GradientColoring;
+  showGradientColors: boolean;
+  convertShortDistance: (meters: number) => number;
+  shortDistanceUnitLabel: string;
+  onGradientColoringChange: (coloring: GradientColoring) => void;
+  onToggleGradientColors: () => void;
+}
+
+const MIN_WINDOW = 10;
+const MAX_WINDOW = 500;
+
+const formatThreshold = (gradient: number) => String(Number((gradient * 100).toFixed(1)));
+
+/**
+ * Card with the gradient buckets and averaging window of the coloured profile
+ */
+export function GradientCard({
+  gradientColoring,
+  showGradientColors,
+  convertShortDistance,
+  shortDistanceUnitLabel,
+  onGradientColoringChange,
+  onToggleGradientColors
+}: GradientCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('gradient-card-open', false);
+
+  // Thresholds are typed in percent and applied once the input loses focus
+  const [thresholdText, setThresholdText] = useState<string[]>(gradientColoring.thresholds.map(formatThreshold));
+  useEffect(() => {
+    setThresholdText(gradientColoring.thresholds.map(formatThreshold));
+  }, [gradientColoring.thresholds]);
+
+  const commitThresholds = () => {
+    const thresholds = thresholdText.map(text => parseFloat(text) / 100);
+    const ascending = thresholds.every(
+      (threshold, index) => Number.isFinite(threshold) && threshold > 0 && (index === 0 || threshold > thresholds[index - 1])
+    );
+    if (!ascending) {
+      // Reject thresholds out of order and show the current ones again
+      setThresholdText(gradientColoring.thresholds.map(formatThreshold));
+      return;
+    }
+    if (thresholds.some((threshold, index) => threshold !== gradientColoring.thresholds[index])) {
+      onGradientColoringChange({ ...gradientColoring, thresholds });
+    }
+  };
+
+  const displayWindow = Math.round(convertShortDistance(gradientColoring.window));
+  const displayMinWindow = Math.ceil(convertShortDistance(MIN_WINDOW));
+  const displayMaxWindow = Math.floor(convertShortDistance(MAX_WINDOW));
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Gradient Colours</CardTitle>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={onToggleGradientColors}>
+                {showGradientColors ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                {showGradientColors ? 'Hide gradient colours' : 'Colour profile by gradient'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onGradientColoringChange(DEFAULT_GRADIENT_COLORING)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              {thresholdText.map((text, index) => (
+                <div key={index} className="space-y-1">
+                  <Label htmlFor={`gradient-threshold-${index}`} className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-400">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-sm"
+                      style={{ backgroundColor: GRADIENT_BUCKET_COLORS[index + 1] }}
+                    />
+                    From (%)
+                  </Label>
+                  <Input
+                    id={`gradient-threshold-${index}`}
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={text}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setThresholdText(prev => prev.map((entry, entryIndex) => (entryIndex === index ? value : entry)));
+                    }}
+                    onBlur={commitThresholds}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitThresholds();
+                    }}
+                    className="h-9 w-20"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="gradient-window" className="text-sm text-slate-600 dark:text-slate-400">
+                  Averaging window
+                </Label>
+                <span className="text-sm text-slate-600 dark:text-slate-400">
+                  {displayWindow} {shortDistanceUnitLabel}
+                </span>
+              </div>
+              <Slider
+                id="gradient-window"
+                min={displayMinWindow}
+                max={displayMaxWindow}
+                step={10}
+                value={[Math.max(displayMinWindow, Math.min(displayWindow, displayMaxWindow))]}
+                onValueChange={(value: number[]) => {
+                  const meters = value[0] === undefined ? MIN_WINDOW : value[0] / convertShortDistance(1);
+                  const window = Math.min(Math.max(meters, MIN_WINDOW), MAX_WINDOW);
+                  onGradientColoringChange({ ...gradientColoring, window });
+                }}
+              />
+            </div>
+
+            <GradientLegend thresholds={gradientColoring.thresholds} />
+
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Colours the profile by how steep it is, uphill or downhill. Each point&apos;s gradient
+              is averaged over the window so GPS noise does not show up as short steep ramps; the
+              chart tooltip shows the same gradient.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
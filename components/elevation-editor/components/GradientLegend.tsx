@@ -0,0 +1,30 @@
+/**
+ * Legend component for gradient colours
+ */
+
+import { GRADIENT_BUCKET_COLORS } from '../constants';
+import { describeGradientBuckets } from '../algorithms/gradient';
+
+interface GradientLegendProps {
+  /** Ascending bucket boundaries in meters per meter */
+  thresholds: number[];
+}
+
+/**
+ * Row of colour swatches labelled with the gradient range each stands for
+ */
+export function GradientLegend({ thresholds }: GradientLegendProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+      {describeGradientBuckets(thresholds).map((label, index) => (
+        <span key={label} className="flex items-center gap-1">
+          <span
+            className="inline-block h-2.5 w-4 rounded-sm"
+            style={{ backgroundColor: GRADIENT_BUCKET_COLORS[index] }}
+          />
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
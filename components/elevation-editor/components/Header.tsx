@@ -4,31 +4,65 @@
 
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Undo2, RotateCcw, Upload, Download } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Undo2, Redo2, RotateCcw, Upload, Download, ChevronDown } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { GPXPointSource } from '@/lib/gpx-parser';
+import { CONVERSION_FORMATS, ConversionFormat, TrackFileFormat, getTrackFileFormat } from '@/lib/track-formats';
 
 interface HeaderProps {
   filename: string;
   gpxName?: string;
+  source: GPXPointSource;
+  waypointCount: number;
   canUndo: boolean;
+  canRedo: boolean;
   onUndo: () => void;
+  onRedo: () => void;
   onReset: () => void;
   onLoadNewFile: () => void;
   onDownload: () => void;
+  onExport: (format: ConversionFormat) => void;
+  onExportCsv: () => void;
 }
 
+const FORMAT_LABELS: Record<TrackFileFormat, string> = {
+  gpx: 'GPX',
+  tcx: 'TCX',
+  fit: 'FIT',
+  kml: 'KML',
+  kmz: 'KMZ',
+  geojson: 'GeoJSON'
+};
+
 /**
  * Sticky header with logo, file info, and action buttons
  */
 export function Header({
   filename,
   gpxName,
+  source,
+  waypointCount,
   canUndo,
+  canRedo,
   onUndo,
+  onRedo,
   onReset,
   onLoadNewFile,
-  onDownload
+  onDownload,
+  onExport,
+  onExportCsv
 }: HeaderProps) {
+  const fileFormat = getTrackFileFormat(filename) ?? 'gpx';
+
   return (
     <div
       className="sticky top-0 z-50 bg-gray-50 dark:bg-gray-900 pt-[10px] pb-4 shadow-sm flex flex-col gap-4 md:flex-row md:items-center md:justify-between -mx-6 px-6"
@@ -46,7 +80,7 @@ export function Header({
           </h1>
         </div>
         <div className="mt-1 md:mt-2 flex items-center gap-1 md:gap-2 flex-wrap">
-          <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Loaded GPX file:</span>
+          <span className="text-xs md:text-sm text-slate-600 dark:text-slate-400">Loaded file:</span>
           <Badge variant="secondary" className="font-mono text-xs md:text-sm">
             {filename}
           </Badge>
@@ -58,6 +92,16 @@ export function Header({
               </Badge>
             </>
           )}
+          {source === 'route' && (
+            <Badge variant="outline" className="text-xs md:text-sm">
+              Route
+            </Badge>
+          )}
+          {waypointCount > 0 && (
+            <Badge variant="outline" className="text-xs md:text-sm hidden md:inline-flex">
+              {waypointCount} {waypointCount === 1 ? 'waypoint' : 'waypoints'}
+            </Badge>
+          )}
         </div>
       </div>
       <div className="flex gap-2 flex-wrap relative">
@@ -74,6 +118,15 @@ export function Header({
           <Undo2 className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
           Undo
         </Button>
+        <Button
+          variant="outline"
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="h-8 px-2 text-xs md:h-10 md:px-4 md:text-sm"
+        >
+          <Redo2 className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
+          Redo
+        </Button>
         <Button
           variant="outline"
           onClick={onReset}
@@ -87,15 +140,36 @@ export function Header({
           onClick={onLoadNewFile}
         >
           <Upload className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
-          Load GPX
-        </Button>
-        <Button
-          onClick={onDownload}
-          className="h-8 px-2 text-xs md:h-10 md:px-4 md:text-sm"
-        >
-          <Download className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
-          Download
+          Load File
         </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button className="h-8 px-2 text-xs md:h-10 md:px-4 md:text-sm">
+              <Download className="h-3 w-3 mr-1 md:h-4 md:w-4 md:mr-2" />
+              Download
+              <ChevronDown className="h-3 w-3 ml-1 md:h-4 md:w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuItem onSelect={onDownload}>
+              Modified {FORMAT_LABELS[fileFormat]} file
+              <DropdownMenuShortcut>⌘D</DropdownMenuShortcut>
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-slate-500 dark:text-slate-400">
+              Convert to
+            </DropdownMenuLabel>
+            {CONVERSION_FORMATS.map(format => (
+              <DropdownMenuItem key={format} onSelect={() => onExport(format)}>
+                {FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={onExportCsv}>
+              Elevation profile (CSV)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </div>
   );
@@ -35,7 +35,8 @@ export function HelpCard({ show, onDismiss }: HelpCardProps) {
           <div className="text-sm text-blue-800">
             <strong>How to edit:</strong> Drag a point up or down to reshape the profile. Nearby
             samples follow according to the smoothing radius and intensity sliders. Clicking once
-            without dragging runs the click-smoothing blend with your current settings.
+            without dragging runs the click-smoothing blend with your current settings. Hold Shift
+            while dragging, or shift-click two points, to select a distance range instead.
           </div>
         </div>
       </CardContent>
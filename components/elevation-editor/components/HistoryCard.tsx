@@ -0,0 +1,150 @@
+/**
+ * History card component with a timeline of editing operations
+ */
+
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, History } from 'lucide-react';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { HistoryAction, HistoryTimelineItem } from '../types';
+import { cn } from '@/lib/utils';
+
+interface HistoryCardProps {
+  timeline: HistoryTimelineItem[];
+  currentPosition: number;
+  isTruncated: boolean;
+  convertDistance: (meters: number) => number;
+  convertShortDistance: (meters: number) => number;
+  distanceUnitLabel: string;
+  shortDistanceUnitLabel: string;
+  onJumpTo: (position: number) => void;
+}
+
+const ACTION_NAMES: Record<HistoryAction['type'], string> = {
+  edit: 'Edit',
+  drag: 'Drag',
+  'click-smooth': 'Click smooth',
+  reset: 'Reset',
+  'csv-import': 'CSV import',
+  terrain: 'Replace from terrain',
+  'reference-blend': 'Blend from reference',
+  smooth: 'Smooth',
+  'anomaly-fix': 'Fix anomalies',
+  'structure-fix': 'Straighten tunnel/bridge',
+  interpolate: 'Interpolate range',
+  flatten: 'Flatten range',
+  offset: 'Offset range',
+  scale: 'Scale range'
+};
+
+/**
+ * Builds a human-readable label such as "Drag at 12.4 km, radius 50 m"
+ */
+const describeAction = (
+  action: HistoryAction,
+  convertDistance: (meters: number) => number,
+  distanceUnitLabel: string,
+  convertShortDistance: (meters: number) => number,
+  shortDistanceUnitLabel: string
+): string => {
+  let label = ACTION_NAMES[action.type];
+  if (action.distance !== undefined) {
+    label += ` at ${convertDistance(action.distance).toFixed(1)} ${distanceUnitLabel}`;
+  }
+  if (action.radius !== undefined) {
+    label += `, radius ${Math.round(convertShortDistance(action.radius))} ${shortDistanceUnitLabel}`;
+  }
+  return label;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Card listing every history step; clicking a step restores the state after it
+ */
+export function HistoryCard({
+  timeline,
+  currentPosition,
+  isTruncated,
+  convertDistance,
+  convertShortDistance,
+  distanceUnitLabel,
+  shortDistanceUnitLabel,
+  onJumpTo
+}: HistoryCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('history-card-open', false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">History</CardTitle>
+                {timeline.length > 0 && (
+                  <Badge variant="secondary" className="pointer-events-none">
+                    {currentPosition}/{timeline.length}
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-2">
+            <ol className="max-h-64 overflow-y-auto space-y-1">
+              {[null, ...timeline].map((item) => {
+                const position = item ? item.position : 0;
+                const isCurrent = position === currentPosition;
+                const isUndone = position > currentPosition;
+
+                return (
+                  <li key={position}>
+                    <button
+                      type="button"
+                      onClick={() => onJumpTo(position)}
+                      disabled={isCurrent}
+                      className={cn(
+                        "w-full flex items-center justify-between gap-4 rounded-md px-3 py-2 text-left text-sm transition-colors",
+                        isCurrent
+                          ? "bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 cursor-default"
+                          : "hover:bg-slate-100 dark:hover:bg-slate-800",
+                        isUndone && "text-slate-400 dark:text-slate-500"
+                      )}
+                    >
+                      <span className="flex items-center gap-2">
+                        <History className="h-3 w-3 flex-shrink-0" />
+                        {item ? describeAction(item.action, convertDistance, distanceUnitLabel, convertShortDistance, shortDistanceUnitLabel) : isTruncated ? 'Oldest kept state' : 'Loaded file'}
+                      </span>
+                      {item && (
+                        <span className="font-mono text-xs opacity-75">{formatTime(item.timestamp)}</span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Click any step to restore the profile as it was right after that step. Undone steps
+              stay listed until a new edit is made.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
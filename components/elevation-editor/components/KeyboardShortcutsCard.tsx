@@ -18,14 +18,20 @@ interface Shortcut {
 
 const shortcuts: Shortcut[] = [
   { keys: ['⌘', 'Z'], description: 'Undo last change' },
-  { keys: ['⌘', 'O'], description: 'Load GPX file' },
-  { keys: ['⌘', 'D'], description: 'Download modified GPX' },
+  { keys: ['⌘', '⇧', 'Z'], description: 'Redo undone change' },
+  { keys: ['⌘', 'O'], description: 'Load track file' },
+  { keys: ['⌘', 'D'], description: 'Download modified file' },
   { keys: ['⌘', 'S'], description: 'Toggle original elevation' },
   { keys: ['⌘', 'M'], description: 'Toggle map view' },
   { keys: ['⌘', 'A'], description: 'Toggle anomaly detection' },
   { keys: ['⌘', 'I'], description: 'Toggle metric/imperial units' },
   { keys: ['⌘', 'Mouse Wheel'], description: 'Zoom in/out' },
   { keys: ['⌘', 'Mouse Drag'], description: 'Pan zoomed chart' },
+  { keys: ['⇧', 'Mouse Drag'], description: 'Select distance range' },
+  { keys: ['⇧', 'Click'], description: 'Pick range start, then end' },
+  { keys: ['Esc'], description: 'Clear selection' },
+  { keys: ['N'], description: 'Next anomaly' },
+  { keys: ['P'], description: 'Previous anomaly' },
 ];
 
 /**
@@ -0,0 +1,84 @@
+/**
+ * Range inputs component for typing the selected distance range
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { normalizeRange } from '../utils/range';
+
+interface RangeInputsProps {
+  id: string;
+  selectedRange: [number, number] | null;
+  convertDistance: (meters: number) => number;
+  distanceUnitLabel: string;
+  onSelectRange: (range: [number, number] | null) => void;
+}
+
+// Display value with up to three decimals, e.g. 12.1 rather than 12.100
+const formatDistance = (value: number) => String(Number(value.toFixed(3)));
+
+/**
+ * From/To inputs bound to the selection on the chart
+ *
+ * The inputs follow the selection as it is dragged, and a typed range becomes
+ * the selection once both ends are filled in and the input loses focus.
+ */
+export function RangeInputs({
+  id,
+  selectedRange,
+  convertDistance,
+  distanceUnitLabel,
+  onSelectRange
+}: RangeInputsProps) {
+  const [text, setText] = useState<[string, string]>(['', '']);
+
+  useEffect(() => {
+    setText(
+      selectedRange
+        ? [formatDistance(convertDistance(selectedRange[0])), formatDistance(convertDistance(selectedRange[1]))]
+        : ['', '']
+    );
+  }, [selectedRange, convertDistance]);
+
+  const commit = () => {
+    const metersPerUnit = 1 / convertDistance(1);
+    const start = parseFloat(text[0]);
+    const end = parseFloat(text[1]);
+    if (Number.isFinite(start) && Number.isFinite(end) && start !== end) {
+      onSelectRange(normalizeRange([start * metersPerUnit, end * metersPerUnit]));
+    } else if (text[0] === '' && text[1] === '') {
+      onSelectRange(null);
+    }
+  };
+
+  return (
+    <>
+      {(['From', 'To'] as const).map((label, index) => (
+        <div key={label} className="space-y-1">
+          <Label htmlFor={`${id}-${label.toLowerCase()}`} className="text-xs text-slate-600 dark:text-slate-400">
+            {label} ({distanceUnitLabel})
+          </Label>
+          <Input
+            id={`${id}-${label.toLowerCase()}`}
+            type="number"
+            min={0}
+            step="any"
+            value={text[index]}
+            onChange={(e) => {
+              const value = e.target.value;
+              setText(prev => (index === 0 ? [value, prev[1]] : [prev[0], value]));
+            }}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+            }}
+            className="h-9 w-28"
+          />
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Range tools card component for editing a whole distance range at once
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { RangeInputs } from './RangeInputs';
+import { RangeOperation } from '../types';
+import { cn } from '@/lib/utils';
+
+interface RangeToolsCardProps {
+  selectedRange: [number, number] | null;
+  convertDistance: (meters: number) => number;
+  convertElevation: (meters: number) => number;
+  distanceUnitLabel: string;
+  elevationUnitLabel: string;
+  onSelectRange: (range: [number, number] | null) => void;
+  /**
+   * Applies an operation to the selected range; the value is in meters for
+   * flatten (omitted to use the range mean) and offset, and a factor for scale
+   */
+  onApply: (operation: RangeOperation, value?: number) => void;
+}
+
+/**
+ * Card with one-click operations on the selected distance range
+ */
+export function RangeToolsCard({
+  selectedRange,
+  convertDistance,
+  convertElevation,
+  distanceUnitLabel,
+  elevationUnitLabel,
+  onSelectRange,
+  onApply
+}: RangeToolsCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('range-tools-card-open', false);
+  const [flattenText, setFlattenText] = useState('');
+  const [offsetText, setOffsetText] = useState('10');
+  const [scaleText, setScaleText] = useState('0.5');
+
+  const metersPerUnit = 1 / convertElevation(1);
+  const flattenValue = parseFloat(flattenText);
+  const offsetValue = parseFloat(offsetText);
+  const scaleValue = parseFloat(scaleText);
+  const disabled = !selectedRange;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Range Tools</CardTitle>
+                {selectedRange && (
+                  <Badge variant="secondary" className="pointer-events-none">
+                    {convertDistance(selectedRange[0]).toFixed(2)}–{convertDistance(selectedRange[1]).toFixed(2)} {distanceUnitLabel}
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <RangeInputs
+                id="range-tools"
+                selectedRange={selectedRange}
+                convertDistance={convertDistance}
+                distanceUnitLabel={distanceUnitLabel}
+                onSelectRange={onSelectRange}
+              />
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="flex items-end gap-2">
+                <Button size="sm" disabled={disabled} onClick={() => onApply('interpolate')}>
+                  Interpolate
+                </Button>
+                <span className="text-xs text-slate-500 dark:text-slate-400 pb-2">
+                  Straight line between the range ends
+                </span>
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="range-tools-flatten" className="text-xs text-slate-600 dark:text-slate-400">
+                    Elevation ({elevationUnitLabel})
+                  </Label>
+                  <Input
+                    id="range-tools-flatten"
+                    type="number"
+                    step="any"
+                    placeholder="Mean"
+                    value={flattenText}
+                    onChange={(e) => setFlattenText(e.target.value)}
+                    className="h-9 w-28"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  disabled={disabled}
+                  onClick={() =>
+                    onApply('flatten', Number.isFinite(flattenValue) ? flattenValue * metersPerUnit : undefined)
+                  }
+                >
+                  Flatten
+                </Button>
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="range-tools-offset" className="text-xs text-slate-600 dark:text-slate-400">
+                    Offset ({elevationUnitLabel})
+                  </Label>
+                  <Input
+                    id="range-tools-offset"
+                    type="number"
+                    step="any"
+                    value={offsetText}
+                    onChange={(e) => setOffsetText(e.target.value)}
+                    className="h-9 w-28"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  disabled={disabled || !Number.isFinite(offsetValue) || offsetValue === 0}
+                  onClick={() => onApply('offset', offsetValue * metersPerUnit)}
+                >
+                  Offset
+                </Button>
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="range-tools-scale" className="text-xs text-slate-600 dark:text-slate-400">
+                    Scale factor
+                  </Label>
+                  <Input
+                    id="range-tools-scale"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={scaleText}
+                    onChange={(e) => setScaleText(e.target.value)}
+                    className="h-9 w-28"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  disabled={disabled || !Number.isFinite(scaleValue) || scaleValue < 0}
+                  onClick={() => onApply('scale', scaleValue)}
+                >
+                  Scale
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Select a range by shift-dragging across the chart, shift-clicking its two ends, or
+              typing the distances above. Scale multiplies each point&apos;s difference from the
+              range mean, so values below 1 damp bumps and values above 1 exaggerate them.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Reference card component for blending elevations from a second recording
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, FileUp, Trash2 } from 'lucide-react';
+import { ACCEPTED_FILE_TYPES } from '@/lib/track-formats';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { RangeInputs } from './RangeInputs';
+import { ReferenceBlendMode } from '../types';
+import { cn } from '@/lib/utils';
+
+interface ReferenceCardProps {
+  referenceName: string | null;
+  matchedCount: number;
+  pointCount: number;
+  convertDistance: (meters: number) => number;
+  distanceUnitLabel: string;
+  selectedRange: [number, number] | null;
+  onSelectRange: (range: [number, number] | null) => void;
+  onLoadFile: (file: File) => void;
+  onClear: () => void;
+  onApply: (mode: ReferenceBlendMode, range?: [number, number]) => void;
+}
+
+const MODES: Array<{ value: ReferenceBlendMode; label: string; description: string }> = [
+  {
+    value: 'transfer',
+    label: 'Transfer elevations',
+    description: 'Each point takes the elevation of the reference at the same position'
+  },
+  {
+    value: 'average',
+    label: 'Average both recordings',
+    description: 'Each point takes the mean of its own and the reference elevation'
+  }
+];
+
+/**
+ * Card for loading a second recording of the route and blending its elevations in
+ */
+export function ReferenceCard({
+  referenceName,
+  matchedCount,
+  pointCount,
+  convertDistance,
+  distanceUnitLabel,
+  selectedRange,
+  onSelectRange,
+  onLoadFile,
+  onClear,
+  onApply
+}: ReferenceCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('reference-card-open', false);
+  const [mode, setMode] = useState<ReferenceBlendMode>('transfer');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canApply = referenceName !== null && matchedCount > 0;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Reference Recording</CardTitle>
+                {referenceName && (
+                  <Badge variant="secondary" className="pointer-events-none">
+                    {matchedCount}/{pointCount} points aligned
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              className="hidden"
+              aria-label="Load reference recording"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  onLoadFile(file);
+                }
+                e.target.value = '';
+              }}
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="h-4 w-4 mr-2" />
+                {referenceName ? 'Replace reference' : 'Load reference'}
+              </Button>
+              {referenceName && (
+                <>
+                  <Badge variant="outline" className="font-normal">
+                    {referenceName}
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={onClear}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ReferenceBlendMode)} className="space-y-2">
+              {MODES.map(item => (
+                <div key={item.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={item.value} id={`reference-mode-${item.value}`} className="mt-0.5" />
+                  <Label htmlFor={`reference-mode-${item.value}`} className="space-y-0.5 font-normal">
+                    <span className="block text-sm font-medium">{item.label}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">{item.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <RangeInputs
+                id="reference-range"
+                selectedRange={selectedRange}
+                convertDistance={convertDistance}
+                distanceUnitLabel={distanceUnitLabel}
+                onSelectRange={onSelectRange}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!canApply || !selectedRange}
+                onClick={() => selectedRange && onApply(mode, selectedRange)}
+              >
+                Apply to selection
+              </Button>
+              <Button size="sm" disabled={!canApply} onClick={() => onApply(mode)}>
+                Apply to whole track
+              </Button>
+            </div>
+
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Load another recording of the same route, e.g. from a device with a barometric
+              altimeter. Points are matched to the nearest position on the reference, so the two
+              recordings do not need the same sampling; points more than 30 m from the reference
+              keep their elevation. The differences are plotted below the chart.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Residual chart component plotting the track against a reference recording
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { ChartDataPoint } from '../types';
+import { CHART_MARGINS_DESKTOP, CHART_MARGINS_MOBILE } from '../constants';
+import { CustomTooltip } from './CustomTooltip';
+
+interface ResidualChartProps {
+  residualChartData: ChartDataPoint[];
+  isMobile: boolean;
+  zoomDomain: [number, number] | null;
+  convertDistance: (meters: number) => number;
+  convertElevation: (meters: number) => number;
+  distanceUnitLabel: string;
+  elevationUnitLabel: string;
+}
+
+/**
+ * Track minus reference elevation, on the same distance axis as the main chart
+ */
+export function ResidualChart({
+  residualChartData,
+  isMobile,
+  zoomDomain,
+  convertDistance,
+  convertElevation,
+  distanceUnitLabel,
+  elevationUnitLabel
+}: ResidualChartProps) {
+  // Symmetric around zero so the sign of the difference is obvious
+  const largest = residualChartData.reduce(
+    (max, entry) => (entry.elevation === null ? max : Math.max(max, Math.abs(entry.elevation))),
+    1
+  );
+  const margins = isMobile ? CHART_MARGINS_MOBILE : CHART_MARGINS_DESKTOP;
+
+  return (
+    <div className="mt-4">
+      <div className="text-xs font-medium text-slate-600 dark:text-slate-400">
+        Difference to reference ({elevationUnitLabel})
+      </div>
+      <div className="h-32 w-full select-none">
+        <ResponsiveContainer width="100%" height="100%" debounce={50}>
+          <LineChart data={residualChartData} margin={{ ...margins, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              dataKey="distance"
+              type="number"
+              domain={zoomDomain || [0, 'dataMax']}
+              allowDataOverflow={true}
+              tickCount={15}
+              interval="preserveStartEnd"
+              tickFormatter={(value) => {
+                const distance = convertDistance(value);
+                return distance >= 10 ? distance.toFixed(0) : distance.toFixed(1);
+              }}
+              stroke="#64748b"
+              tick={{ fontSize: isMobile ? 10 : 12 }}
+            />
+            <YAxis
+              domain={[-Math.ceil(largest), Math.ceil(largest)]}
+              tickCount={5}
+              tickFormatter={(value) => `${Math.round(convertElevation(value))}${elevationUnitLabel}`}
+              stroke="#64748b"
+              tick={{ fontSize: isMobile ? 10 : 12 }}
+              width={isMobile ? 35 : 60}
+            />
+            <Tooltip
+              content={
+                <CustomTooltip
+                  isMobile={isMobile}
+                  convertElevation={convertElevation}
+                  convertDistance={convertDistance}
+                  distanceUnitLabel={distanceUnitLabel}
+                  elevationUnitLabel={elevationUnitLabel}
+                />
+              }
+            />
+            <ReferenceLine y={0} stroke="#64748b" />
+            <Line
+              type="monotone"
+              dataKey="elevation"
+              stroke="#9333ea"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+              name="Difference"
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
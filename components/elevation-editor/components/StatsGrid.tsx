@@ -2,78 +2,167 @@
  * Statistics grid component
  */
 
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { ElevationStats } from '../types';
 import { formatDuration } from '../utils/date-time';
 import { StatsCard } from './StatsCard';
 
 interface StatsGridProps {
   stats: ElevationStats;
+  /** Statistics of the selected distance range, shown as a second row */
+  selection?: { range: [number, number]; stats: ElevationStats } | null;
   convertDistance: (meters: number) => number;
   convertElevation: (meters: number) => number;
   convertSpeed: (metersPerSecond: number) => number;
   distanceUnitLabel: string;
   elevationUnitLabel: string;
   speedUnitLabel: string;
+  onClearSelection?: () => void;
 }
 
+// Ties the selection row to the blue selection band on the chart
+const SELECTION_CARD_CLASS = 'border-blue-200 dark:border-blue-900';
+
 /**
  * Grid of statistics cards displaying GPX data metrics
  */
 export function StatsGrid({
   stats,
+  selection,
   convertDistance,
   convertElevation,
   convertSpeed,
   distanceUnitLabel,
   elevationUnitLabel,
-  speedUnitLabel
+  speedUnitLabel,
+  onClearSelection
 }: StatsGridProps) {
+  const formatDistance = (meters: number) => convertDistance(meters).toFixed(2);
+
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 md:gap-4">
-      <StatsCard
-        label="Distance"
-        value={`${convertDistance(stats.totalDistance).toFixed(1)} ${distanceUnitLabel}`}
-      />
-      <StatsCard
-        label="Lowest Point"
-        value={`${Math.round(convertElevation(stats.minElevation))} ${elevationUnitLabel}`}
-      />
-      <StatsCard
-        label="Highest Point"
-        value={`${Math.round(convertElevation(stats.maxElevation))} ${elevationUnitLabel}`}
-      />
-      <StatsCard
-        label="Total Ascent"
-        value={`${Math.round(convertElevation(stats.totalAscent))} ${elevationUnitLabel}`}
-      />
-      <StatsCard
-        label="Total Descent"
-        value={`${Math.round(convertElevation(stats.totalDescent))} ${elevationUnitLabel}`}
-      />
-      <StatsCard
-        label="Total Time"
-        value={
-          stats.totalDurationMs && stats.totalDurationMs > 0
-            ? formatDuration(stats.totalDurationMs)
-            : '—'
-        }
-      />
-      <StatsCard
-        label="Avg Speed"
-        value={
-          stats.averageSpeed != null
-            ? `${convertSpeed(stats.averageSpeed).toFixed(1)} ${speedUnitLabel}`
-            : '—'
-        }
-      />
-      <StatsCard
-        label="Max Speed"
-        value={
-          stats.maxSpeed != null
-            ? `${convertSpeed(stats.maxSpeed).toFixed(1)} ${speedUnitLabel}`
-            : '—'
-        }
-      />
+    <div className="space-y-2 md:space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 md:gap-4">
+        <StatsCard
+          label="Distance"
+          value={`${convertDistance(stats.totalDistance).toFixed(1)} ${distanceUnitLabel}`}
+        />
+        <StatsCard
+          label="Lowest Point"
+          value={`${Math.round(convertElevation(stats.minElevation))} ${elevationUnitLabel}`}
+        />
+        <StatsCard
+          label="Highest Point"
+          value={`${Math.round(convertElevation(stats.maxElevation))} ${elevationUnitLabel}`}
+        />
+        <StatsCard
+          label="Total Ascent"
+          value={`${Math.round(convertElevation(stats.totalAscent))} ${elevationUnitLabel}`}
+        />
+        <StatsCard
+          label="Total Descent"
+          value={`${Math.round(convertElevation(stats.totalDescent))} ${elevationUnitLabel}`}
+        />
+        <StatsCard
+          label="Total Time"
+          value={
+            stats.totalDurationMs && stats.totalDurationMs > 0
+              ? formatDuration(stats.totalDurationMs)
+              : '—'
+          }
+        />
+        <StatsCard
+          label="Avg Speed"
+          value={
+            stats.averageSpeed != null
+              ? `${convertSpeed(stats.averageSpeed).toFixed(1)} ${speedUnitLabel}`
+              : '—'
+          }
+        />
+        <StatsCard
+          label="Max Speed"
+          value={
+            stats.maxSpeed != null
+              ? `${convertSpeed(stats.maxSpeed).toFixed(1)} ${speedUnitLabel}`
+              : '—'
+          }
+        />
+        {/* Sensor summaries are only shown when the file recorded them */}
+        {stats.averageHeartRate != null && (
+          <StatsCard label="Avg Heart Rate" value={`${Math.round(stats.averageHeartRate)} bpm`} />
+        )}
+        {stats.maxHeartRate != null && (
+          <StatsCard label="Max Heart Rate" value={`${Math.round(stats.maxHeartRate)} bpm`} />
+        )}
+        {stats.averagePower != null && (
+          <StatsCard label="Avg Power" value={`${Math.round(stats.averagePower)} W`} />
+        )}
+        {stats.averageCadence != null && (
+          <StatsCard label="Avg Cadence" value={`${Math.round(stats.averageCadence)} rpm`} />
+        )}
+      </div>
+
+      {selection && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            <span className="font-medium">
+              Selection {formatDistance(selection.range[0])}–{formatDistance(selection.range[1])} {distanceUnitLabel}
+            </span>
+            {onClearSelection && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClearSelection}>
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 md:gap-4">
+            <StatsCard
+              label="Selection Distance"
+              value={`${convertDistance(selection.stats.totalDistance).toFixed(2)} ${distanceUnitLabel}`}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Lowest"
+              value={`${Math.round(convertElevation(selection.stats.minElevation))} ${elevationUnitLabel}`}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Highest"
+              value={`${Math.round(convertElevation(selection.stats.maxElevation))} ${elevationUnitLabel}`}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Ascent"
+              value={`${Math.round(convertElevation(selection.stats.totalAscent))} ${elevationUnitLabel}`}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Descent"
+              value={`${Math.round(convertElevation(selection.stats.totalDescent))} ${elevationUnitLabel}`}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Time"
+              value={selection.stats.totalDurationMs > 0 ? formatDuration(selection.stats.totalDurationMs) : '—'}
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Avg Speed"
+              value={
+                selection.stats.averageSpeed != null
+                  ? `${convertSpeed(selection.stats.averageSpeed).toFixed(1)} ${speedUnitLabel}`
+                  : '—'
+              }
+              className={SELECTION_CARD_CLASS}
+            />
+            <StatsCard
+              label="Selection Edited"
+              value={`${selection.stats.editedCount} points`}
+              className={SELECTION_CARD_CLASS}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,134 @@
+/**
+ * Structures card component for likely tunnels and bridges
+ */
+
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+import { StructureCandidate } from '../types';
+import { cn } from '@/lib/utils';
+
+interface StructuresCardProps {
+  /** Likely tunnels and bridges in order of distance; only detected while the card is open */
+  structures: StructureCandidate[];
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedRange: [number, number] | null;
+  convertDistance: (meters: number) => number;
+  convertElevation: (meters: number) => number;
+  distanceUnitLabel: string;
+  elevationUnitLabel: string;
+  onSelectRange: (range: [number, number] | null) => void;
+  /** Replaces the elevations of the given structures with the chord between their ends */
+  onStraighten: (structures: StructureCandidate[]) => void;
+}
+
+/**
+ * Card listing likely tunnels and bridges; clicking one selects its range
+ * and each can be replaced with a straight line in one click
+ */
+export function StructuresCard({
+  structures,
+  isOpen,
+  onOpenChange,
+  selectedRange,
+  convertDistance,
+  convertElevation,
+  distanceUnitLabel,
+  elevationUnitLabel,
+  onSelectRange,
+  onStraighten
+}: StructuresCardProps) {
+  return (
+    <Collapsible open={isOpen} onOpenChange={onOpenChange}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Tunnels &amp; Bridges</CardTitle>
+                {isOpen && (
+                  <Badge variant="secondary" className="pointer-events-none">
+                    {structures.length}
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            {structures.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No likely tunnels or bridges found.</p>
+            ) : (
+              <>
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={() => onStraighten(structures)}>
+                    Straighten all
+                  </Button>
+                </div>
+
+                <ul className="max-h-96 overflow-y-auto space-y-1">
+                  {structures.map(structure => {
+                    const isSelected =
+                      selectedRange?.[0] === structure.startDistance && selectedRange?.[1] === structure.endDistance;
+
+                    return (
+                      <li
+                        key={`${structure.startDistance}-${structure.endDistance}`}
+                        className={cn(
+                          "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
+                          isSelected ? "bg-slate-100 dark:bg-slate-800" : "hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                        )}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => onSelectRange([structure.startDistance, structure.endDistance])}
+                          className="flex flex-1 flex-wrap items-center gap-x-3 gap-y-1 text-left"
+                        >
+                          <Badge variant={structure.kind === 'tunnel' ? 'default' : 'outline'}>
+                            {structure.kind === 'tunnel' ? 'Likely tunnel' : 'Likely bridge'}
+                          </Badge>
+                          <span>
+                            {convertDistance(structure.startDistance).toFixed(2)}–
+                            {convertDistance(structure.endDistance).toFixed(2)} {distanceUnitLabel}
+                          </span>
+                          <span className="font-mono text-xs text-slate-500 dark:text-slate-400">
+                            {structure.kind === 'tunnel' ? '+' : '−'}
+                            {Math.round(convertElevation(structure.deviation))} {elevationUnitLabel}
+                          </span>
+                        </button>
+                        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onStraighten([structure])}>
+                          Straighten
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Inside a tunnel the recorded elevation follows the hill above, and on a bridge the
+              valley below. These are stretches that leave the straight line between their ends
+              steeply, stay on one side of it and were travelled at a steady speed. Straighten
+              replaces them with that line.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Terrain card component for correcting elevations from DEM files
+ */
+
+'use client';
+
+import { useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Eye, EyeOff, Mountain, Trash2 } from 'lucide-react';
+import { ACCEPTED_DEM_TYPES, DemSource } from '@/lib/dem';
+import { useLocalStorageState } from '../hooks/useLocalStorageState';
+import { RangeInputs } from './RangeInputs';
+import { cn } from '@/lib/utils';
+
+interface TerrainCardProps {
+  sources: DemSource[];
+  coveredCount: number;
+  pointCount: number;
+  showTerrain: boolean;
+  convertDistance: (meters: number) => number;
+  distanceUnitLabel: string;
+  selectedRange: [number, number] | null;
+  onSelectRange: (range: [number, number] | null) => void;
+  onLoadFiles: (files: File[]) => void;
+  onClearSources: () => void;
+  onToggleTerrain: () => void;
+  onApply: (range?: [number, number]) => void;
+}
+
+/**
+ * Card for loading DEM files and replacing the profile with terrain elevations
+ */
+export function TerrainCard({
+  sources,
+  coveredCount,
+  pointCount,
+  showTerrain,
+  convertDistance,
+  distanceUnitLabel,
+  selectedRange,
+  onSelectRange,
+  onLoadFiles,
+  onClearSources,
+  onToggleTerrain,
+  onApply
+}: TerrainCardProps) {
+  const [isOpen, setIsOpen] = useLocalStorageState('terrain-card-open', false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canApply = sources.length > 0 && coveredCount > 0;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className={cn(
+            "cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors",
+            !isOpen && "p-[15px]"
+          )}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Terrain Correction</CardTitle>
+                {sources.length > 0 && (
+                  <Badge variant="secondary" className="pointer-events-none">
+                    {coveredCount}/{pointCount} points covered
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown
+                className={cn(
+                  "h-5 w-5 text-slate-600 dark:text-slate-400 transition-transform duration-200",
+                  isOpen && "rotate-180"
+                )}
+              />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_DEM_TYPES}
+              className="hidden"
+              aria-label="Load DEM files"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) {
+                  onLoadFiles(files);
+                }
+                e.target.value = '';
+              }}
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Mountain className="h-4 w-4 mr-2" />
+                Load DEM files
+              </Button>
+              {sources.length > 0 && (
+                <>
+                  <Button variant="outline" size="sm" onClick={onToggleTerrain}>
+                    {showTerrain ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                    {showTerrain ? 'Hide terrain' : 'Show terrain'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={onClearSources}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {sources.length > 0 && (
+              <ul className="flex flex-wrap gap-1">
+                {sources.map((source, index) => (
+                  <li key={`${source.name}-${index}`}>
+                    <Badge variant="outline" className="font-normal" title={source.name}>
+                      {source.description}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2">
+              <RangeInputs
+                id="terrain-range"
+                selectedRange={selectedRange}
+                convertDistance={convertDistance}
+                distanceUnitLabel={distanceUnitLabel}
+                onSelectRange={onSelectRange}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!canApply || !selectedRange}
+                onClick={() => selectedRange && onApply(selectedRange)}
+              >
+                Replace in selection
+              </Button>
+              <Button size="sm" disabled={!canApply} onClick={() => onApply()}>
+                Replace elevation from terrain
+              </Button>
+            </div>
+
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Load SRTM <code>.hgt</code> tiles (1″ or 3″) or GeoTIFF rasters (WGS84, UTM or S-JTSK),
+              also zipped, covering the track. Terrain elevations are interpolated at every point and
+              replace the recorded ones in one undoable step; points outside the coverage, shaded grey
+              on the chart, keep their elevation.
+            </p>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
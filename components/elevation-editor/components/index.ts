@@ -8,6 +8,7 @@ export { StatsGrid } from './StatsGrid';
 export { HelpCard } from './HelpCard';
 export { MobileWarning } from './MobileWarning';
 export { ControlsCard } from './ControlsCard';
+export { HistoryCard } from './HistoryCard';
 export { ZoomControls } from './ZoomControls';
 export { PanControls } from './PanControls';
 export { ChartControls } from './ChartControls';
@@ -16,3 +17,14 @@ export { CustomTooltip } from './CustomTooltip';
 export { ElevationChart } from './ElevationChart';
 export { ChartCard } from './ChartCard';
 export { KeyboardShortcutsCard } from './KeyboardShortcutsCard';
+export { CsvImportDialog } from './CsvImportDialog';
+export { TerrainCard } from './TerrainCard';
+export { ReferenceCard } from './ReferenceCard';
+export { ResidualChart } from './ResidualChart';
+export { RangeInputs } from './RangeInputs';
+export { RangeToolsCard } from './RangeToolsCard';
+export { AnomalyListCard } from './AnomalyListCard';
+export { StructuresCard } from './StructuresCard';
+export { ClimbsCard } from './ClimbsCard';
+export { GradientLegend } from './GradientLegend';
+export { GradientCard } from './GradientCard';
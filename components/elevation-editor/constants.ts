@@ -2,6 +2,16 @@
  * Configuration constants for the Elevation Editor
  */
 
+import { SensorChannel } from '@/lib/gpx-parser';
+import {
+  ClimbCategory,
+  ElevationLimits,
+  GradientColoring,
+  HampelParams,
+  SmoothingParams,
+  StructureDetectionParams
+} from './types';
+
 /**
  * Maximum number of history entries to keep for undo/redo
  */
@@ -19,6 +29,130 @@ export const ELEVATION_STEP_THRESHOLD = 2;
  */
 export const MEDIAN_WINDOW_SIZE = 3;
 
+/**
+ * Default elevation limits: none, so tracks below sea level keep their values
+ */
+export const NO_ELEVATION_LIMITS: ElevationLimits = {
+  floor: null,
+  ceiling: null
+};
+
+/**
+ * Space (in meters) left above and below the profile on the elevation axis
+ */
+export const ELEVATION_AXIS_PADDING = 100;
+
+/**
+ * Default parameters of the smoothing algorithms
+ */
+export const DEFAULT_SMOOTHING_PARAMS: SmoothingParams = {
+  gaussianSigma: 25,
+  savitzkyGolayWindow: 11,
+  savitzkyGolayOrder: 2,
+  medianWindow: 5,
+  kalmanNoise: 5
+};
+
+/**
+ * Process noise of the Kalman smoother: how quickly the gradient may change,
+ * as variance per meter travelled
+ */
+export const KALMAN_PROCESS_NOISE = 1e-6;
+
+/**
+ * Default parameters of the Hampel anomaly detector
+ */
+export const DEFAULT_HAMPEL_PARAMS: HampelParams = {
+  halfWindow: 5,
+  sigmas: 3
+};
+
+/**
+ * Default parameters of the tunnel and bridge detector
+ */
+export const DEFAULT_STRUCTURE_DETECTION_PARAMS: StructureDetectionParams = {
+  minLength: 40,
+  maxLength: 1500,
+  minDeviation: 10,
+  minDeviationRatio: 0.04,
+  maxSpeedVariation: 0.3
+};
+
+/**
+ * Default gradient buckets of the coloured profile: under 3%, 3-6%, 6-9%,
+ * 9-12% and over 12%, averaged over 50 m
+ */
+export const DEFAULT_GRADIENT_COLORING: GradientColoring = {
+  thresholds: [0.03, 0.06, 0.09, 0.12],
+  window: 50
+};
+
+/**
+ * Colour of each gradient bucket, from the gentlest to the steepest; one more
+ * than the number of thresholds
+ */
+export const GRADIENT_BUCKET_COLORS = ['#16a34a', '#ca8a04', '#ea580c', '#dc2626', '#7f1d1d'];
+
+/**
+ * Route colours on the map for the plain, edited and anomaly colouring modes
+ */
+export const ROUTE_COLORS = {
+  plain: '#2563eb',
+  original: '#94a3b8',
+  edited: '#ea580c',
+  anomaly: '#dc2626'
+} as const;
+
+/**
+ * Colours of the elevation bands on the map, from the lowest to the highest
+ */
+export const ELEVATION_BAND_COLORS = ['#1d4ed8', '#0891b2', '#16a34a', '#ca8a04', '#dc2626'];
+
+/**
+ * Lowest average gradient of a climb
+ */
+export const CLIMB_MIN_GRADIENT = 0.03;
+
+/**
+ * Descent (in meters) below the highest point so far that ends a climb; smaller
+ * dips are ridden through as part of it
+ */
+export const CLIMB_DESCENT_TOLERANCE = 20;
+
+/**
+ * Distance (in meters) over which the maximum gradient of a climb is measured
+ */
+export const CLIMB_GRADIENT_WINDOW = 100;
+
+/**
+ * Smallest score of each climb category, hardest first; the score is the
+ * climb length in meters times its average gradient in percent
+ */
+export const CLIMB_CATEGORIES: Array<{ category: ClimbCategory; minScore: number }> = [
+  { category: 'HC', minScore: 80000 },
+  { category: '1', minScore: 64000 },
+  { category: '2', minScore: 32000 },
+  { category: '3', minScore: 16000 },
+  { category: '4', minScore: 8000 }
+];
+
+/**
+ * Label and band colour of each climb category on the chart
+ */
+export const CLIMB_CATEGORY_STYLES: Record<ClimbCategory, { label: string; color: string }> = {
+  '4': { label: 'Cat 4', color: '#16a34a' },
+  '3': { label: 'Cat 3', color: '#ca8a04' },
+  '2': { label: 'Cat 2', color: '#ea580c' },
+  '1': { label: 'Cat 1', color: '#dc2626' },
+  HC: { label: 'HC', color: '#7c3aed' }
+};
+
+/**
+ * Scale factor turning a median absolute deviation into an estimate of the
+ * standard deviation of normally distributed noise
+ */
+export const MAD_SCALE = 1.4826;
+
 /**
  * Chart margins for desktop view
  */
@@ -48,3 +182,13 @@ export const ANOMALY_BUTTON_SIZE = 20;
  * Padding around anomaly close buttons (in pixels)
  */
 export const ANOMALY_BUTTON_PADDING = 4;
+
+/**
+ * Label, unit and line colour of each sensor series on the chart
+ */
+export const SENSOR_SERIES: Record<SensorChannel, { label: string; unit: string; color: string }> = {
+  heartRate: { label: 'Heart rate', unit: 'bpm', color: '#dc2626' },
+  cadence: { label: 'Cadence', unit: 'rpm', color: '#7c3aed' },
+  power: { label: 'Power', unit: 'W', color: '#059669' },
+  temperature: { label: 'Temperature', unit: '°C', color: '#ea580c' }
+};
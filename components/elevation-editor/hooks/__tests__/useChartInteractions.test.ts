@@ -354,4 +354,199 @@ describe('useChartInteractions', () => {
     expect(result1.current.handleChartMouseDown).toBeDefined();
     expect(result2.current.handleChartMouseDown).toBeDefined();
   });
+  it('should record a click-smooth history entry when clicking without dragging', () => {
+    const { result } = renderHook(() =>
+      useChartInteractions(
+        mockTrackPoints,
+        setTrackPoints,
+        editedPoints,
+        setEditedPoints,
+        1,
+        0.5,
+        mockStats,
+        pushHistory,
+        dragSnapshotRef,
+        setDragState
+      )
+    );
+
+    act(() => {
+      result.current.handleChartMouseDown({
+        activePayload: [{ payload: { originalIndex: 1, elevation: 150 } }],
+        chartY: 100
+      });
+    });
+
+    act(() => {
+      result.current.handleChartMouseUp();
+    });
+
+    expect(pushHistory).toHaveBeenCalledWith({ type: 'click-smooth', distance: 1000, radius: 1 });
+  });
+
+  it('should mark points within the radius in meters as edited', () => {
+    const { result } = renderHook(() =>
+      useChartInteractions(
+        mockTrackPoints,
+        setTrackPoints,
+        editedPoints,
+        setEditedPoints,
+        1000,
+        0.5,
+        mockStats,
+        pushHistory,
+        dragSnapshotRef,
+        setDragState
+      )
+    );
+
+    act(() => {
+      result.current.handleChartMouseDown({
+        activePayload: [{ payload: { originalIndex: 2, elevation: 120 } }],
+        chartY: 100
+      });
+    });
+
+    act(() => {
+      result.current.handleChartMouseUp();
+    });
+
+    const updater = setEditedPoints.mock.calls[0][0] as (prev: Set<number>) => Set<number>;
+    expect(Array.from(updater(new Set())).sort()).toEqual([1, 2]);
+  });
+
+  it('should drag below sea level and stop at the configured floor', () => {
+    const belowSeaLevel = [createMockPoint(-400, 0), createMockPoint(-420, 1000), createMockPoint(-410, 2000)];
+    const stats: ElevationStats = { ...mockStats, minElevation: -420, maxElevation: -400 };
+
+    // Dragging 300 px down on a 300 px chart spanning 20 m lowers the point by 20 m
+    const dragDown = (floor: number | null) => {
+      setTrackPoints.mockClear();
+      const { result } = renderHook(() =>
+        useChartInteractions(
+          belowSeaLevel,
+          setTrackPoints,
+          editedPoints,
+          setEditedPoints,
+          0,
+          0.5,
+          stats,
+          pushHistory,
+          { current: null },
+          setDragState,
+          undefined,
+          { floor, ceiling: null }
+        )
+      );
+
+      act(() => {
+        result.current.handleChartMouseDown({
+          activePayload: [{ payload: { originalIndex: 1, elevation: -420 } }],
+          chartY: 100
+        });
+      });
+      act(() => {
+        result.current.handleChartMouseMove({
+          activePayload: [{ payload: { originalIndex: 1, elevation: -420 } }],
+          chartY: 400,
+          chartHeight: 300
+        });
+      });
+
+      const updated = setTrackPoints.mock.calls[0][0] as TrackPoint[];
+      return updated[1].ele;
+    };
+
+    expect(dragDown(null)).toBeCloseTo(-440, 6);
+    expect(dragDown(-430)).toBe(-430);
+  });
+
+  it('should select a distance range on shift-drag without editing', () => {
+    const setSelectedRange = vi.fn();
+    const { result } = renderHook(() =>
+      useChartInteractions(
+        mockTrackPoints,
+        setTrackPoints,
+        editedPoints,
+        setEditedPoints,
+        1,
+        0.5,
+        mockStats,
+        pushHistory,
+        dragSnapshotRef,
+        setDragState,
+        setSelectedRange
+      )
+    );
+
+    act(() => {
+      result.current.handleChartMouseDown(
+        { activePayload: [{ payload: { originalIndex: 2, distance: 2000, elevation: 120 } }], chartY: 100 },
+        { shiftKey: true } as React.MouseEvent
+      );
+    });
+
+    act(() => {
+      result.current.handleChartMouseMove({
+        activePayload: [{ payload: { originalIndex: 1, distance: 1000, elevation: 150 } }],
+        chartY: 50
+      });
+    });
+
+    act(() => {
+      result.current.handleChartMouseUp();
+    });
+
+    expect(setSelectedRange).toHaveBeenLastCalledWith([1000, 2000]);
+    expect(setTrackPoints).not.toHaveBeenCalled();
+    expect(pushHistory).not.toHaveBeenCalled();
+  });
+
+  it('should select between two shift-clicked points', () => {
+    const setSelectedRange = vi.fn();
+    const { result } = renderHook(() =>
+      useChartInteractions(
+        mockTrackPoints,
+        setTrackPoints,
+        editedPoints,
+        setEditedPoints,
+        1,
+        0.5,
+        mockStats,
+        pushHistory,
+        dragSnapshotRef,
+        setDragState,
+        setSelectedRange
+      )
+    );
+
+    act(() => {
+      result.current.handleChartMouseDown(
+        { activePayload: [{ payload: { originalIndex: 2, distance: 2000, elevation: 120 } }], chartY: 100 },
+        { shiftKey: true } as React.MouseEvent
+      );
+    });
+
+    act(() => {
+      result.current.handleChartMouseUp();
+    });
+
+    expect(setSelectedRange).toHaveBeenLastCalledWith(null);
+    expect(result.current.pendingSelectionStart).toBe(2000);
+
+    act(() => {
+      result.current.handleChartMouseDown(
+        { activePayload: [{ payload: { originalIndex: 0, distance: 0, elevation: 100 } }], chartY: 100 },
+        { shiftKey: true } as React.MouseEvent
+      );
+    });
+
+    act(() => {
+      result.current.handleChartMouseUp();
+    });
+
+    expect(setSelectedRange).toHaveBeenLastCalledWith([0, 2000]);
+    expect(result.current.pendingSelectionStart).toBeNull();
+    expect(pushHistory).not.toHaveBeenCalled();
+  });
 });
@@ -6,6 +6,7 @@ import { renderHook, act } from '@testing-library/react';
 import { vi } from 'vitest';
 import { useElevationHistory } from '../useElevationHistory';
 import { TrackPoint } from '@/lib/gpx-parser';
+import { HISTORY_LIMIT } from '../../constants';
 
 // Helper to create mock track points
 const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
@@ -239,6 +240,41 @@ describe('useElevationHistory', () => {
     expect(undoCount).toBeLessThanOrEqual(60);
   });
 
+  it('should report when the oldest entries have been dropped', () => {
+    const { result, rerender } = renderHook(
+      ({ points }) =>
+        useElevationHistory(
+          points,
+          mockEditedPoints,
+          setTrackPoints,
+          setEditedPoints,
+          setDragState,
+          dragSnapshotRef
+        ),
+      { initialProps: { points: mockTrackPoints } }
+    );
+
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      const newPoints = [...mockTrackPoints];
+      newPoints[0] = createMockPoint(100 + i, 0);
+      rerender({ points: newPoints });
+
+      act(() => {
+        result.current.pushHistory();
+      });
+    }
+
+    expect(result.current.timeline).toHaveLength(HISTORY_LIMIT);
+    expect(result.current.isTruncated).toBe(false);
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    expect(result.current.timeline).toHaveLength(HISTORY_LIMIT);
+    expect(result.current.isTruncated).toBe(true);
+  });
+
   it('should create deep copies of track points', () => {
     const { result } = renderHook(() =>
       useElevationHistory(
@@ -376,4 +412,449 @@ describe('useElevationHistory', () => {
 
     expect(setEditedPoints).toHaveBeenCalledWith(new Set([0, 1, 2]));
   });
+  it('should initialize with no redo capability', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should allow redo after undoing', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it('should restore undone state when redoing', () => {
+    const { result, rerender } = renderHook(
+      ({ points, edited }) =>
+        useElevationHistory(
+          points,
+          edited,
+          setTrackPoints,
+          setEditedPoints,
+          setDragState,
+          dragSnapshotRef
+        ),
+      {
+        initialProps: {
+          points: mockTrackPoints,
+          edited: mockEditedPoints
+        }
+      }
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    // Simulate an edit after the history push
+    const editedPoints = [...mockTrackPoints];
+    editedPoints[0] = createMockPoint(200, 0);
+    rerender({ points: editedPoints, edited: new Set([0, 1]) });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    // Simulate the parent applying the undone state
+    rerender({ points: mockTrackPoints, edited: mockEditedPoints });
+    setTrackPoints.mockClear();
+    setEditedPoints.mockClear();
+
+    act(() => {
+      result.current.handleRedo();
+    });
+
+    expect(setTrackPoints).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ ele: 200 })])
+    );
+    expect(setEditedPoints).toHaveBeenCalledWith(new Set([0, 1]));
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should not redo when redo history is empty', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.handleRedo();
+    });
+
+    expect(setTrackPoints).not.toHaveBeenCalled();
+    expect(setEditedPoints).not.toHaveBeenCalled();
+  });
+
+  it('should clear redo history when pushing a new entry', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should limit redo history to HISTORY_LIMIT entries', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      act(() => {
+        result.current.pushHistory();
+      });
+    }
+
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      act(() => {
+        result.current.handleUndo();
+      });
+    }
+
+    let redoCount = 0;
+    while (result.current.canRedo && redoCount < HISTORY_LIMIT * 2) {
+      act(() => {
+        result.current.handleRedo();
+      });
+      redoCount++;
+    }
+
+    expect(redoCount).toBe(HISTORY_LIMIT);
+  });
+
+  it('should handle keyboard shortcut Ctrl+Shift+Z', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    setTrackPoints.mockClear();
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true }));
+    });
+
+    expect(setTrackPoints).toHaveBeenCalledTimes(1);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should handle keyboard shortcut Ctrl+Y', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    setTrackPoints.mockClear();
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', ctrlKey: true }));
+    });
+
+    expect(setTrackPoints).toHaveBeenCalledTimes(1);
+    expect(result.current.canRedo).toBe(false);
+  });
+  it('should record the operation and time of each history entry', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory({ type: 'drag', distance: 12400, radius: 5 });
+    });
+
+    expect(result.current.timeline).toEqual([
+      {
+        action: { type: 'drag', distance: 12400, radius: 5 },
+        timestamp: expect.any(Number),
+        position: 1
+      }
+    ]);
+    expect(result.current.currentPosition).toBe(1);
+  });
+
+  it('should default to a generic edit action', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    expect(result.current.timeline[0].action).toEqual({ type: 'edit' });
+  });
+
+  it('should keep undone steps in the timeline', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory({ type: 'drag' });
+    });
+    act(() => {
+      result.current.pushHistory({ type: 'click-smooth' });
+    });
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    expect(result.current.timeline.map(item => item.action.type)).toEqual(['drag', 'click-smooth']);
+    expect(result.current.currentPosition).toBe(1);
+  });
+
+  it('should jump to any position in the timeline', () => {
+    const states = [100, 200, 300, 400].map(ele => [createMockPoint(ele, 0)]);
+    const { result, rerender } = renderHook(
+      ({ points }) =>
+        useElevationHistory(
+          points,
+          mockEditedPoints,
+          setTrackPoints,
+          setEditedPoints,
+          setDragState,
+          dragSnapshotRef
+        ),
+      { initialProps: { points: states[0] } }
+    );
+
+    // Three operations: 100 -> 200 -> 300 -> 400
+    for (let i = 1; i < states.length; i++) {
+      act(() => {
+        result.current.pushHistory({ type: 'drag', distance: i });
+      });
+      rerender({ points: states[i] });
+    }
+
+    act(() => {
+      result.current.jumpToHistory(0);
+    });
+
+    expect(setTrackPoints).toHaveBeenLastCalledWith([expect.objectContaining({ ele: 100 })]);
+    expect(result.current.currentPosition).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+    rerender({ points: states[0] });
+
+    act(() => {
+      result.current.jumpToHistory(2);
+    });
+
+    expect(setTrackPoints).toHaveBeenLastCalledWith([expect.objectContaining({ ele: 300 })]);
+    expect(result.current.currentPosition).toBe(2);
+    expect(result.current.timeline.map(item => item.action.distance)).toEqual([1, 2, 3]);
+    rerender({ points: states[2] });
+
+    act(() => {
+      result.current.handleRedo();
+    });
+
+    expect(setTrackPoints).toHaveBeenLastCalledWith([expect.objectContaining({ ele: 400 })]);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should ignore jumps outside the timeline', () => {
+    const { result } = renderHook(() =>
+      useElevationHistory(
+        mockTrackPoints,
+        mockEditedPoints,
+        setTrackPoints,
+        setEditedPoints,
+        setDragState,
+        dragSnapshotRef
+      )
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    act(() => {
+      result.current.jumpToHistory(5);
+      result.current.jumpToHistory(-1);
+      result.current.jumpToHistory(1);
+    });
+
+    expect(setTrackPoints).not.toHaveBeenCalled();
+  });
+  it('should reuse unchanged point objects when undoing', () => {
+    const { result, rerender } = renderHook(
+      ({ points }) =>
+        useElevationHistory(
+          points,
+          mockEditedPoints,
+          setTrackPoints,
+          setEditedPoints,
+          setDragState,
+          dragSnapshotRef
+        ),
+      { initialProps: { points: mockTrackPoints } }
+    );
+
+    act(() => {
+      result.current.pushHistory();
+    });
+
+    const editedPoints = [...mockTrackPoints];
+    editedPoints[1] = createMockPoint(175, 1000);
+    rerender({ points: editedPoints });
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    const restored = setTrackPoints.mock.calls[0][0] as TrackPoint[];
+    expect(restored[0]).toBe(editedPoints[0]);
+    expect(restored[1]).not.toBe(editedPoints[1]);
+    expect(restored[1].ele).toBe(150);
+    expect(restored[2]).toBe(editedPoints[2]);
+  });
+
+  it('should record all changes made after a push as a single step', () => {
+    const { result, rerender } = renderHook(
+      ({ points }) =>
+        useElevationHistory(
+          points,
+          mockEditedPoints,
+          setTrackPoints,
+          setEditedPoints,
+          setDragState,
+          dragSnapshotRef
+        ),
+      { initialProps: { points: mockTrackPoints } }
+    );
+
+    act(() => {
+      result.current.pushHistory({ type: 'drag' });
+    });
+
+    // Simulate a drag updating the points several times
+    for (const ele of [160, 170, 180]) {
+      const points = [...mockTrackPoints];
+      points[1] = createMockPoint(ele, 1000);
+      rerender({ points });
+    }
+
+    act(() => {
+      result.current.handleUndo();
+    });
+
+    expect(setTrackPoints).toHaveBeenCalledWith([
+      expect.objectContaining({ ele: 100 }),
+      expect.objectContaining({ ele: 150 }),
+      expect.objectContaining({ ele: 120 })
+    ]);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.timeline).toHaveLength(1);
+  });
 });
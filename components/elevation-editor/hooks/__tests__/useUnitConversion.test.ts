@@ -96,6 +96,20 @@ describe('useUnitConversion', () => {
     expect(converted).toBeCloseTo(22.369, 1); // ~22.4 mph
   });
 
+  it('should convert short distances to meters or feet', () => {
+    const { result } = renderHook(() => useUnitConversion());
+
+    expect(result.current.convertShortDistance(50)).toBe(50);
+    expect(result.current.shortDistanceUnitLabel).toBe('m');
+
+    act(() => {
+      result.current.setUnitSystem('imperial');
+    });
+
+    expect(result.current.convertShortDistance(100)).toBeCloseTo(328.084, 3);
+    expect(result.current.shortDistanceUnitLabel).toBe('ft');
+  });
+
   it('should handle zero values', () => {
     const { result } = renderHook(() => useUnitConversion());
 
@@ -1,37 +1,73 @@
 /**
- * Custom hook for managing chart mouse interactions (drag, click, hover)
+ * Custom hook for managing chart mouse interactions (drag, click, selection, hover)
  */
 
 import { useState, useCallback, useRef } from 'react';
 import { TrackPoint } from '@/lib/gpx-parser';
-import { DragState, ElevationStats } from '../types';
+import { DragState, ElevationLimits, ElevationStats, HistoryAction } from '../types';
+import { NO_ELEVATION_LIMITS } from '../constants';
 import { applySmoothTransition, applyClickSmoothing } from '../algorithms/smoothing';
+import { findIndexRange, normalizeRange } from '../utils/range';
 
 export interface UseChartInteractionsResult {
   hoveredPointIndex: number | null;
-  handleChartMouseDown: (e: any) => void;
+  /** Distance picked by a first shift-click, waiting for the second one */
+  pendingSelectionStart: number | null;
+  handleChartMouseDown: (e: any, event?: React.MouseEvent) => void;
   handleChartMouseMove: (e: any) => void;
   handleChartMouseUp: () => void;
   handleChartMouseLeave: () => void;
 }
 
+/**
+ * Adds every point within the smoothing radius of the target to the edited set
+ */
+const markPointsWithinRadius = (
+  points: TrackPoint[],
+  targetIndex: number,
+  radius: number,
+  prev: Set<number>
+): Set<number> => {
+  const next = new Set(prev);
+  const center = points[targetIndex]?.distance ?? 0;
+  const [first, last] = findIndexRange(points, [center - radius, center + radius]) ?? [targetIndex, targetIndex];
+  for (let index = first; index <= last; index++) {
+    next.add(index);
+  }
+  return next;
+};
+
+/**
+ * Range selection in progress
+ */
+interface SelectionAnchor {
+  distance: number;
+  /** Whether the mouse button is still held down */
+  active: boolean;
+  /** Whether the pointer has moved away from the anchor while held down */
+  moved: boolean;
+}
+
 /**
  * Manages all mouse interactions with the elevation chart
  *
- * This hook handles drag-to-edit functionality, click-to-smooth, and
- * hover state for the map marker. It coordinates with the smoothing
- * algorithms and history management.
+ * This hook handles drag-to-edit functionality, click-to-smooth, range
+ * selection (shift-drag, or shift-click on two points) and hover state for the
+ * map marker. It coordinates with the smoothing algorithms and history management.
  *
  * @param trackPoints - Current track points
  * @param setTrackPoints - Function to update track points
  * @param editedPoints - Set of edited point indices
  * @param setEditedPoints - Function to update edited points
- * @param smoothingRadius - Smoothing radius setting
+ * @param smoothingRadius - Smoothing radius in meters along the track
  * @param smoothingStrength - Smoothing strength setting
  * @param stats - Elevation statistics for elevation range calculation
- * @param pushHistory - Function to save current state to history
+ * @param pushHistory - Function to save current state to history, labelled with the operation
  * @param dragSnapshotRef - Ref to store snapshot during drag
  * @param setDragState - Function to update drag state (for external access)
+ * @param setSelectedRange - Function to update the selected distance range; shift
+ *   selects nothing when omitted
+ * @param elevationLimits - Floor and ceiling the edited elevations are kept within
  * @returns Object with event handlers and hover state
  */
 export function useChartInteractions(
@@ -42,11 +78,14 @@ export function useChartInteractions(
   smoothingRadius: number,
   smoothingStrength: number,
   stats: ElevationStats,
-  pushHistory: () => void,
+  pushHistory: (action?: HistoryAction) => void,
   dragSnapshotRef: React.MutableRefObject<TrackPoint[] | null>,
-  setDragState: (state: DragState | null) => void
+  setDragState: (state: DragState | null) => void,
+  setSelectedRange?: (range: [number, number] | null) => void,
+  elevationLimits: ElevationLimits = NO_ELEVATION_LIMITS
 ): UseChartInteractionsResult {
   const [dragState, setDragStateInternal] = useState<DragState | null>(null);
+  const [selectionAnchor, setSelectionAnchor] = useState<SelectionAnchor | null>(null);
   const [hoveredPointIndex, setHoveredPointIndex] = useState<number | null>(null);
 
   // Wrapper to keep both internal and external drag state in sync
@@ -55,13 +94,31 @@ export function useChartInteractions(
     setDragState(state);
   }, [setDragState]);
 
-  const handleChartMouseDown = useCallback((e: any) => {
+  const handleChartMouseDown = useCallback((e: any, event?: React.MouseEvent) => {
     const activePoint = e?.activePayload?.[0]?.payload;
 
     if (!activePoint) {
       return;
     }
 
+    // Shift starts a range selection instead of an edit; a second shift-click
+    // after a click without dragging completes it
+    if (event?.shiftKey && setSelectedRange) {
+      if (typeof window !== 'undefined') {
+        window.getSelection()?.removeAllRanges();
+      }
+      if (selectionAnchor && !selectionAnchor.active && selectionAnchor.distance !== activePoint.distance) {
+        setSelectedRange(normalizeRange([selectionAnchor.distance, activePoint.distance]));
+        setSelectionAnchor(null);
+        return;
+      }
+      setSelectionAnchor({ distance: activePoint.distance, active: true, moved: false });
+      setSelectedRange(null);
+      return;
+    }
+
+    setSelectionAnchor(null);
+
     const targetIndex = activePoint.originalIndex;
     if (typeof targetIndex !== 'number' || targetIndex < 0 || targetIndex >= trackPoints.length) {
       return;
@@ -81,7 +138,7 @@ export function useChartInteractions(
       startElevation: currentElevation,
       hasMoved: false
     });
-  }, [trackPoints, dragSnapshotRef, updateDragState]);
+  }, [trackPoints, selectionAnchor, dragSnapshotRef, updateDragState, setSelectedRange]);
 
   const handleChartMouseMove = useCallback(
     (e: any) => {
@@ -91,6 +148,16 @@ export function useChartInteractions(
         setHoveredPointIndex(activePoint.originalIndex);
       }
 
+      if (selectionAnchor?.active) {
+        if (activePoint && activePoint.distance !== selectionAnchor.distance) {
+          setSelectedRange?.(normalizeRange([selectionAnchor.distance, activePoint.distance]));
+          if (!selectionAnchor.moved) {
+            setSelectionAnchor({ ...selectionAnchor, moved: true });
+          }
+        }
+        return;
+      }
+
       if (!dragState || !e || typeof e.chartY !== 'number') {
         return;
       }
@@ -114,11 +181,15 @@ export function useChartInteractions(
       const metersPerPixel = elevationRange / Math.max(chartHeight, 1);
       const elevationChange = pixelDelta * metersPerPixel;
 
-      const effectiveRadius = Math.max(0, Math.round(smoothingRadius));
+      const effectiveRadius = Math.max(0, smoothingRadius);
       const newElevation = dragState.startElevation + elevationChange;
 
       if (!dragState.hasMoved) {
-        pushHistory();
+        pushHistory({
+          type: 'drag',
+          distance: snapshot[dragState.index]?.distance ?? 0,
+          radius: effectiveRadius
+        });
       }
 
       const updatedPoints = applySmoothTransition(
@@ -126,21 +197,13 @@ export function useChartInteractions(
         dragState.index,
         newElevation,
         effectiveRadius,
-        smoothingStrength
+        smoothingStrength,
+        elevationLimits
       );
 
       setTrackPoints(updatedPoints);
       dragSnapshotRef.current = updatedPoints;
-      setEditedPoints(prev => {
-        const next = new Set(prev);
-        for (let offset = -effectiveRadius; offset <= effectiveRadius; offset++) {
-          const affectedIndex = dragState.index + offset;
-          if (affectedIndex >= 0 && affectedIndex < updatedPoints.length) {
-            next.add(affectedIndex);
-          }
-        }
-        return next;
-      });
+      setEditedPoints(prev => markPointsWithinRadius(updatedPoints, dragState.index, effectiveRadius, prev));
 
       if (!dragState.hasMoved) {
         updateDragState({ ...dragState, hasMoved: true });
@@ -148,47 +211,53 @@ export function useChartInteractions(
     },
     [
       dragState,
+      selectionAnchor,
       stats,
       smoothingRadius,
       smoothingStrength,
+      elevationLimits,
       trackPoints,
       pushHistory,
       dragSnapshotRef,
       setTrackPoints,
       setEditedPoints,
+      setSelectedRange,
       updateDragState
     ]
   );
 
   const completeDrag = useCallback(
     (allowClickSmoothing: boolean) => {
+      if (selectionAnchor !== null) {
+        // A shift-click without dragging keeps the anchor for a second click
+        const keepAnchor = selectionAnchor.active && !selectionAnchor.moved && allowClickSmoothing;
+        setSelectionAnchor(keepAnchor ? { ...selectionAnchor, active: false } : null);
+        return;
+      }
+
       if (!dragState) {
         return;
       }
 
-      const effectiveRadius = Math.max(0, Math.round(smoothingRadius));
+      const effectiveRadius = Math.max(0, smoothingRadius);
 
       if (!dragState.hasMoved && allowClickSmoothing && smoothingStrength > 0) {
         const snapshot = dragSnapshotRef.current ?? trackPoints;
-        pushHistory();
+        pushHistory({
+          type: 'click-smooth',
+          distance: snapshot[dragState.index]?.distance ?? 0,
+          radius: effectiveRadius
+        });
         const smoothedPoints = applyClickSmoothing(
           snapshot,
           dragState.index,
           effectiveRadius,
-          smoothingStrength
+          smoothingStrength,
+          elevationLimits
         );
 
         setTrackPoints(smoothedPoints);
-        setEditedPoints(prev => {
-          const next = new Set(prev);
-          for (let offset = -effectiveRadius; offset <= effectiveRadius; offset++) {
-            const affectedIndex = dragState.index + offset;
-            if (affectedIndex >= 0 && affectedIndex < smoothedPoints.length) {
-              next.add(affectedIndex);
-            }
-          }
-          return next;
-        });
+        setEditedPoints(prev => markPointsWithinRadius(smoothedPoints, dragState.index, effectiveRadius, prev));
       }
 
       updateDragState(null);
@@ -196,9 +265,11 @@ export function useChartInteractions(
     },
     [
       dragState,
+      selectionAnchor,
       trackPoints,
       smoothingRadius,
       smoothingStrength,
+      elevationLimits,
       pushHistory,
       dragSnapshotRef,
       setTrackPoints,
@@ -218,6 +289,7 @@ export function useChartInteractions(
 
   return {
     hoveredPointIndex,
+    pendingSelectionStart: selectionAnchor && !selectionAnchor.active ? selectionAnchor.distance : null,
     handleChartMouseDown,
     handleChartMouseMove,
     handleChartMouseUp,
@@ -2,23 +2,131 @@
  * Custom hook for managing elevation editing history (undo/redo)
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { TrackPoint } from '@/lib/gpx-parser';
-import { HistoryEntry } from '../types';
+import { DragState, HistoryAction, HistoryEntry, HistoryTimelineItem } from '../types';
 import { HISTORY_LIMIT } from '../constants';
 
 export interface UseElevationHistoryResult {
   canUndo: boolean;
-  pushHistory: () => void;
+  canRedo: boolean;
+  timeline: HistoryTimelineItem[];
+  currentPosition: number;
+  isTruncated: boolean;
+  pushHistory: (action?: HistoryAction) => void;
   handleUndo: () => void;
+  handleRedo: () => void;
+  jumpToHistory: (position: number) => void;
 }
 
+/**
+ * State captured when an operation starts; turned into a patch once the operation is finished
+ */
+interface PendingEntry {
+  elevations: number[];
+  editedPoints: Set<number>;
+  action: HistoryAction;
+  timestamp: number;
+}
+
+const DEFAULT_ACTION: HistoryAction = { type: 'edit' };
+
+/**
+ * Appends an entry to a history stack, dropping the oldest entries above the limit
+ */
+const appendLimited = (stack: HistoryEntry[], entry: HistoryEntry, limit: number): HistoryEntry[] => {
+  const next = [...stack, entry];
+  return next.length > limit ? next.slice(next.length - limit) : next;
+};
+
+/**
+ * Computes the sparse patch between the state captured at the start of an
+ * operation and the current state
+ */
+const createPatch = (
+  pending: PendingEntry,
+  points: TrackPoint[],
+  editedPoints: Set<number>
+): HistoryEntry => {
+  const changedIndices: number[] = [];
+  const previousElevations: number[] = [];
+  const nextElevations: number[] = [];
+
+  const length = Math.min(pending.elevations.length, points.length);
+  for (let index = 0; index < length; index++) {
+    const previous = pending.elevations[index];
+    const next = points[index].ele;
+    if (previous !== next) {
+      changedIndices.push(index);
+      previousElevations.push(previous);
+      nextElevations.push(next);
+    }
+  }
+
+  const addedEditedIndices: number[] = [];
+  editedPoints.forEach(index => {
+    if (!pending.editedPoints.has(index)) {
+      addedEditedIndices.push(index);
+    }
+  });
+
+  const removedEditedIndices: number[] = [];
+  pending.editedPoints.forEach(index => {
+    if (!editedPoints.has(index)) {
+      removedEditedIndices.push(index);
+    }
+  });
+
+  return {
+    changedIndices,
+    previousElevations,
+    nextElevations,
+    addedEditedIndices,
+    removedEditedIndices,
+    action: pending.action,
+    timestamp: pending.timestamp
+  };
+};
+
+/**
+ * Applies a patch in place to working copies of the track points and edited set
+ *
+ * Only the changed points are copied; untouched points are shared with the
+ * previous state.
+ */
+const applyPatch = (
+  points: TrackPoint[],
+  editedPoints: Set<number>,
+  entry: HistoryEntry,
+  direction: 'forward' | 'backward'
+) => {
+  const elevations = direction === 'forward' ? entry.nextElevations : entry.previousElevations;
+  entry.changedIndices.forEach((pointIndex, index) => {
+    if (pointIndex < points.length) {
+      points[pointIndex] = { ...points[pointIndex], ele: elevations[index] };
+    }
+  });
+
+  const toAdd = direction === 'forward' ? entry.addedEditedIndices : entry.removedEditedIndices;
+  const toRemove = direction === 'forward' ? entry.removedEditedIndices : entry.addedEditedIndices;
+  toRemove.forEach(index => editedPoints.delete(index));
+  toAdd.forEach(index => editedPoints.add(index));
+};
+
 /**
  * Manages undo/redo history for elevation edits
  *
- * This hook maintains a stack of previous states and provides functions
- * to push new history entries and undo changes. It also sets up a keyboard
- * shortcut for Ctrl+Z / Cmd+Z.
+ * This hook maintains an undo stack of applied operations and a redo stack of
+ * undone operations. Each operation is stored as a sparse patch of the
+ * elevations it changed rather than a copy of the whole track, so long tracks
+ * stay cheap to edit. The latest operation stays open until the next history
+ * call so that a continuous drag is recorded as one step. Every entry records
+ * the operation it describes, so the history can be presented as a timeline
+ * and any step of it restored directly. Once entries beyond HISTORY_LIMIT have
+ * been dropped, position 0 is the oldest kept state rather than the loaded
+ * file. Pushing a new entry clears the redo stack. It also sets up keyboard
+ * shortcuts for Ctrl+Z / Cmd+Z (undo) and Ctrl+Shift+Z / Cmd+Shift+Z or
+ * Ctrl+Y / Cmd+Y (redo).
  *
  * @param trackPoints - Current track points state
  * @param editedPoints - Set of edited point indices
@@ -26,50 +134,123 @@ export interface UseElevationHistoryResult {
  * @param setEditedPoints - Function to update edited points set
  * @param setDragState - Function to reset drag state
  * @param dragSnapshotRef - Ref to current drag snapshot
- * @returns Object with undo capability flag and history manipulation functions
+ * @returns Object with undo/redo capability flags, timeline, truncation flag and history manipulation functions
  */
 export function useElevationHistory(
   trackPoints: TrackPoint[],
   editedPoints: Set<number>,
   setTrackPoints: (points: TrackPoint[]) => void,
   setEditedPoints: (points: Set<number>) => void,
-  setDragState: (state: any) => void,
+  setDragState: (state: DragState | null) => void,
   dragSnapshotRef: React.MutableRefObject<TrackPoint[] | null>
 ): UseElevationHistoryResult {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [pending, setPending] = useState<PendingEntry | null>(null);
+  const [redoHistory, setRedoHistory] = useState<HistoryEntry[]>([]);
+  const [isTruncated, setIsTruncated] = useState(false);
 
-  const pushHistory = useCallback(() => {
-    setHistory(prev => {
-      const snapshot: HistoryEntry = {
-        points: trackPoints.map(point => ({ ...point })),
-        editedIndices: Array.from(editedPoints)
-      };
-      if (prev.length >= HISTORY_LIMIT) {
-        return [...prev.slice(1), snapshot];
+  const pushHistory = useCallback((action: HistoryAction = DEFAULT_ACTION) => {
+    if (pending) {
+      const closed = createPatch(pending, trackPoints, editedPoints);
+      // Leave room for the entry that is about to be opened
+      setHistory(prev => appendLimited(prev, closed, HISTORY_LIMIT - 1));
+      if (history.length >= HISTORY_LIMIT - 1) {
+        setIsTruncated(true);
       }
-      return [...prev, snapshot];
+    }
+    setPending({
+      elevations: trackPoints.map(point => point.ele),
+      editedPoints: new Set(editedPoints),
+      action,
+      timestamp: Date.now()
     });
-  }, [trackPoints, editedPoints]);
+    setRedoHistory([]);
+  }, [pending, history.length, trackPoints, editedPoints]);
 
-  const handleUndo = useCallback(() => {
-    setHistory(prev => {
-      if (prev.length === 0) {
-        return prev;
+  const currentPosition = history.length + (pending ? 1 : 0);
+
+  // Operations in chronological order; operation k leads from position k to position k + 1
+  const timeline = useMemo<HistoryTimelineItem[]>(() => {
+    const applied: Array<{ action: HistoryAction; timestamp: number }> = pending
+      ? [...history, pending]
+      : history;
+    return [...applied, ...[...redoHistory].reverse()].map((entry, index) => ({
+      action: entry.action,
+      timestamp: entry.timestamp,
+      position: index + 1
+    }));
+  }, [history, pending, redoHistory]);
+
+  const jumpToHistory = useCallback((position: number) => {
+    const lastPosition = currentPosition + redoHistory.length;
+    if (position === currentPosition || position < 0 || position > lastPosition) {
+      return;
+    }
+
+    const operations = [
+      ...history,
+      ...(pending ? [createPatch(pending, trackPoints, editedPoints)] : []),
+      ...[...redoHistory].reverse()
+    ];
+
+    const nextPoints = trackPoints.slice();
+    const nextEdited = new Set(editedPoints);
+    if (position < currentPosition) {
+      for (let index = currentPosition - 1; index >= position; index--) {
+        applyPatch(nextPoints, nextEdited, operations[index], 'backward');
       }
-      const nextHistory = prev.slice(0, -1);
-      const last = prev[prev.length - 1];
-      setTrackPoints(last.points.map(point => ({ ...point })));
-      setEditedPoints(new Set(last.editedIndices));
-      dragSnapshotRef.current = null;
-      setDragState(null);
-      return nextHistory;
-    });
-  }, [setTrackPoints, setEditedPoints, setDragState, dragSnapshotRef]);
+    } else {
+      for (let index = currentPosition; index < position; index++) {
+        applyPatch(nextPoints, nextEdited, operations[index], 'forward');
+      }
+    }
+
+    setHistory(operations.slice(0, position).slice(-HISTORY_LIMIT));
+    setPending(null);
+    setRedoHistory(operations.slice(position).reverse().slice(-HISTORY_LIMIT));
+    setTrackPoints(nextPoints);
+    setEditedPoints(nextEdited);
+    dragSnapshotRef.current = null;
+    setDragState(null);
+  }, [
+    currentPosition,
+    history,
+    pending,
+    redoHistory,
+    trackPoints,
+    editedPoints,
+    setTrackPoints,
+    setEditedPoints,
+    setDragState,
+    dragSnapshotRef
+  ]);
+
+  const handleUndo = useCallback(() => {
+    if (currentPosition === 0) {
+      return;
+    }
+    jumpToHistory(currentPosition - 1);
+  }, [currentPosition, jumpToHistory]);
 
-  // Keyboard shortcut for undo (Ctrl+Z / Cmd+Z)
+  const handleRedo = useCallback(() => {
+    if (redoHistory.length === 0) {
+      return;
+    }
+    jumpToHistory(currentPosition + 1);
+  }, [currentPosition, redoHistory.length, jumpToHistory]);
+
+  // Keyboard shortcuts for undo (Ctrl+Z / Cmd+Z) and redo (Ctrl+Shift+Z / Ctrl+Y)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+      if (!e.ctrlKey && !e.metaKey) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'z') {
         e.preventDefault();
         handleUndo();
       }
@@ -79,11 +260,17 @@ export function useElevationHistory(
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [handleUndo]);
+  }, [handleUndo, handleRedo]);
 
   return {
-    canUndo: history.length > 0,
+    canUndo: currentPosition > 0,
+    canRedo: redoHistory.length > 0,
+    timeline,
+    currentPosition,
+    isTruncated,
     pushHistory,
-    handleUndo
+    handleUndo,
+    handleRedo,
+    jumpToHistory
   };
 }
@@ -12,16 +12,20 @@ export interface UseUnitConversionResult {
   convertDistance: (meters: number) => number;
   convertElevation: (meters: number) => number;
   convertSpeed: (metersPerSecond: number) => number;
+  /** Converts short horizontal distances such as the smoothing radius (m or ft) */
+  convertShortDistance: (meters: number) => number;
   distanceUnitLabel: string;
   elevationUnitLabel: string;
   speedUnitLabel: string;
+  shortDistanceUnitLabel: string;
 }
 
 /**
  * Manages unit system (metric/imperial) and provides conversion functions
  *
  * This hook persists the user's unit preference to localStorage and provides
- * memoized conversion functions for distance, elevation, and speed.
+ * memoized conversion functions for distance, elevation, speed and short
+ * distances.
  *
  * @returns Object containing unit system state, conversion functions, and unit labels
  */
@@ -34,6 +38,7 @@ export function useUnitConversion(): UseUnitConversionResult {
   const distanceUnitLabel = unitSystem === 'metric' ? 'km' : 'mi';
   const elevationUnitLabel = unitSystem === 'metric' ? 'm' : 'ft';
   const speedUnitLabel = unitSystem === 'metric' ? 'km/h' : 'mph';
+  const shortDistanceUnitLabel = unitSystem === 'metric' ? 'm' : 'ft';
 
   const convertDistance = useCallback(
     (meters: number) => {
@@ -65,14 +70,26 @@ export function useUnitConversion(): UseUnitConversionResult {
     [unitSystem]
   );
 
+  const convertShortDistance = useCallback(
+    (meters: number) => {
+      if (unitSystem === 'metric') {
+        return meters;
+      }
+      return meters * 3.28084; // meters to feet
+    },
+    [unitSystem]
+  );
+
   return {
     unitSystem,
     setUnitSystem,
     convertDistance,
     convertElevation,
     convertSpeed,
+    convertShortDistance,
     distanceUnitLabel,
     elevationUnitLabel,
-    speedUnitLabel
+    speedUnitLabel,
+    shortDistanceUnitLabel
   };
 }
@@ -1,23 +1,30 @@
-import { GPXData, TrackPoint } from '@/lib/gpx-parser';
+import { GPXData, SensorReadings } from '@/lib/gpx-parser';
+import { TrackFileContent } from '@/lib/track-formats';
 
 /**
  * Props for the ElevationEditor component
  */
 export interface ElevationEditorProps {
   gpxData: GPXData;
-  originalContent: string;
+  originalContent: TrackFileContent;
   filename: string;
-  onLoadNewFile?: (content: string, filename: string) => void;
+  onLoadNewFile?: (content: TrackFileContent, filename: string) => void;
+  countSegmentGaps?: boolean;
+  onCountSegmentGapsChange?: (countSegmentGaps: boolean) => void;
 }
 
 /**
  * Data point for the elevation chart
+ *
+ * A null elevation marks a gap between track segments.
  */
-export interface ChartDataPoint {
+export interface ChartDataPoint extends SensorReadings {
   distance: number;
-  elevation: number;
+  elevation: number | null;
   originalIndex: number;
   isEdited?: boolean;
+  /** Gradient around the point in meters per meter, averaged over the gradient window */
+  gradient?: number;
 }
 
 /**
@@ -29,6 +36,128 @@ export interface AnomalyRegion {
   severity: number;
 }
 
+/**
+ * Bounds kept by edited elevations, in meters; null leaves that side open
+ */
+export interface ElevationLimits {
+  floor: number | null;
+  ceiling: number | null;
+}
+
+/**
+ * Anomaly region with the figures shown in the anomaly list
+ */
+export interface AnomalyListItem {
+  key: string;
+  region: AnomalyRegion;
+  /** Elevation range across the region and its neighbouring points, in meters */
+  elevationJump: number;
+}
+
+/**
+ * How anomalies are found: runs of steep gradients, or a Hampel filter that
+ * flags points far from the rolling median of their neighbours
+ */
+export type AnomalyDetector = 'gradient' | 'hampel';
+
+/**
+ * Tuning parameters of the Hampel detector
+ */
+export interface HampelParams {
+  /** Points on each side of the rolling window */
+  halfWindow: number;
+  /** Distance from the rolling median, in scaled MADs, beyond which a point is an outlier */
+  sigmas: number;
+}
+
+/**
+ * Structure that bends the recorded elevation away from the real path: a
+ * tunnel, whose recorded profile follows the hill above, or a bridge, whose
+ * profile follows the valley below
+ */
+export type StructureKind = 'tunnel' | 'bridge';
+
+/**
+ * Stretch of track that is likely a tunnel or bridge
+ */
+export interface StructureCandidate {
+  startDistance: number;
+  endDistance: number;
+  kind: StructureKind;
+  /** Largest distance of the recorded elevation from the chord, in meters */
+  deviation: number;
+}
+
+/**
+ * Tuning parameters of the tunnel and bridge detector
+ */
+export interface StructureDetectionParams {
+  /** Shortest stretch considered, in meters */
+  minLength: number;
+  /** Longest stretch considered, in meters */
+  maxLength: number;
+  /** Smallest distance from the chord that counts, in meters */
+  minDeviation: number;
+  /** Smallest distance from the chord relative to the stretch length */
+  minDeviationRatio: number;
+  /** Largest coefficient of variation of the speed along the stretch */
+  maxSpeedVariation: number;
+}
+
+/**
+ * How the profile is coloured by gradient: bucket boundaries in meters per
+ * meter (ascending, compared with the gradient's magnitude) and the distance
+ * in meters each point's gradient is averaged over
+ */
+export interface GradientColoring {
+  thresholds: number[];
+  window: number;
+}
+
+/**
+ * How the route on the map is coloured: one colour, by gradient bucket, by
+ * elevation band, edited against original points, or with anomalies in red
+ */
+export type MapColorMode = 'plain' | 'gradient' | 'elevation' | 'edited' | 'anomalies';
+
+/**
+ * Colours of the route on the map and the legend explaining them
+ */
+export interface RouteColoring {
+  /** Colour of the segment from each point to the next */
+  segmentColors: string[];
+  legend: Array<{ label: string; color: string }>;
+}
+
+/**
+ * Cycling-style climb category, from the easiest (4) to hors catégorie
+ */
+export type ClimbCategory = '4' | '3' | '2' | '1' | 'HC';
+
+/**
+ * Sustained climb found along the track; gradients are in meters per meter
+ */
+export interface Climb {
+  startDistance: number;
+  endDistance: number;
+  /** Length along the track, in meters */
+  length: number;
+  /** Elevation gained from the start to the top, in meters */
+  gain: number;
+  averageGradient: number;
+  /** Steepest gradient over any stretch of CLIMB_GRADIENT_WINDOW meters */
+  maxGradient: number;
+  /** Length in meters times the average gradient in percent */
+  score: number;
+  category: ClimbCategory;
+}
+
+/**
+ * How an anomaly region is repaired: a straight line across it, or a blend
+ * toward the robust (median) profile of its surroundings
+ */
+export type AnomalyRepairMode = 'interpolate' | 'smooth';
+
 /**
  * State for tracking drag operations on the chart
  */
@@ -39,14 +168,98 @@ export interface DragState {
   hasMoved: boolean;
 }
 
+/**
+ * Smoothing algorithm applied from the controls card
+ */
+export type SmoothingAlgorithm = 'gaussian' | 'savitzky-golay' | 'median' | 'kalman';
+
+/**
+ * Parameters of every smoothing algorithm, persisted together
+ */
+export interface SmoothingParams {
+  /** Standard deviation of the Gaussian kernel, in meters */
+  gaussianSigma: number;
+  /** Savitzky–Golay window length in points (odd) */
+  savitzkyGolayWindow: number;
+  /** Degree of the Savitzky–Golay polynomial */
+  savitzkyGolayOrder: number;
+  /** Rolling median window length in points (odd) */
+  medianWindow: number;
+  /** Expected elevation noise of the recording for the Kalman filter, in meters */
+  kalmanNoise: number;
+}
+
+/**
+ * Operation applied to every point in a selected distance range
+ */
+export type RangeOperation = 'interpolate' | 'flatten' | 'offset' | 'scale';
+
+/**
+ * Kind of editing operation recorded in the history
+ */
+export type HistoryActionType =
+  | 'edit'
+  | 'drag'
+  | 'click-smooth'
+  | 'reset'
+  | 'csv-import'
+  | 'terrain'
+  | 'reference-blend'
+  | 'smooth'
+  | 'anomaly-fix'
+  | 'structure-fix'
+  | RangeOperation;
+
+/**
+ * Describes the editing operation that produced a history step
+ */
+export interface HistoryAction {
+  type: HistoryActionType;
+  /** Distance (in meters) at which the operation was anchored */
+  distance?: number;
+  /** Smoothing radius used by the operation */
+  radius?: number;
+}
+
 /**
  * Entry in the undo/redo history
+ *
+ * Stores one operation as a sparse patch: only the indices whose elevation
+ * changed, with their elevations before and after the operation, and the
+ * edited-point markers the operation added or removed.
  */
 export interface HistoryEntry {
-  points: TrackPoint[];
-  editedIndices: number[];
+  changedIndices: number[];
+  previousElevations: number[];
+  nextElevations: number[];
+  addedEditedIndices: number[];
+  removedEditedIndices: number[];
+  action: HistoryAction;
+  timestamp: number;
 }
 
+/**
+ * Single step in the history timeline, as shown in the history panel
+ */
+export interface HistoryTimelineItem {
+  action: HistoryAction;
+  timestamp: number;
+  /** Timeline position reached after applying this step (1-based, 0 is the loaded file) */
+  position: number;
+}
+
+/**
+ * How an imported CSV profile is applied: as a new track, or as elevations
+ * patched onto the loaded track by point index or by nearest distance
+ */
+export type CsvImportMode = 'create' | 'patch-index' | 'patch-distance';
+
+/**
+ * How elevations of a reference recording are blended into the track: copied
+ * over, or averaged with the track's own elevations
+ */
+export type ReferenceBlendMode = 'transfer' | 'average';
+
 /**
  * Unit system for measurements
  */
@@ -73,4 +286,8 @@ export interface ElevationStats {
   totalDurationMs: number;
   averageSpeed: number | null;
   maxSpeed: number | null;
+  averageHeartRate: number | null;
+  maxHeartRate: number | null;
+  averagePower: number | null;
+  averageCadence: number | null;
 }
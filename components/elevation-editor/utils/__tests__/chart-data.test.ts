@@ -0,0 +1,129 @@
+/**
+ * Unit tests for chart data helpers
+ */
+
+import { buildChartData, buildGradientStops, buildOverlayChartData, computeElevationDomain } from '../chart-data';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('buildChartData', () => {
+  const points: TrackPoint[] = [
+    createMockPoint(100, 0),
+    createMockPoint(110, 100),
+    createMockPoint(150, 100),
+    createMockPoint(155, 200)
+  ];
+
+  it('should map points to chart data without segment breaks', () => {
+    const data = buildChartData(points, [0]);
+
+    expect(data).toEqual([
+      { distance: 0, elevation: 100, originalIndex: 0 },
+      { distance: 100, elevation: 110, originalIndex: 1 },
+      { distance: 100, elevation: 150, originalIndex: 2 },
+      { distance: 200, elevation: 155, originalIndex: 3 }
+    ]);
+  });
+
+  it('should insert a gap before each segment start', () => {
+    const data = buildChartData(points, [0, 2]);
+
+    expect(data).toHaveLength(5);
+    expect(data[2]).toEqual({ distance: 100, elevation: null, originalIndex: -1 });
+    expect(data[3]).toEqual({ distance: 100, elevation: 150, originalIndex: 2 });
+  });
+
+  it('should flag edited points when an edited set is given', () => {
+    const data = buildChartData(points, [0], new Set([1]));
+
+    expect(data.map(point => point.isEdited)).toEqual([false, true, false, false]);
+  });
+
+  it('should attach gradients when given', () => {
+    const data = buildChartData(points, [0, 2], undefined, [0.1, 0.2, 0.3, 0.4]);
+
+    expect(data.map(point => point.gradient)).toEqual([0.1, 0.2, undefined, 0.3, 0.4]);
+  });
+
+  it('should handle empty input', () => {
+    expect(buildChartData([], [])).toEqual([]);
+  });
+});
+
+describe('buildGradientStops', () => {
+  const thresholds = [0.05];
+  const colors = ['green', 'red'];
+  const entry = (distance: number, gradient: number) => ({ distance, elevation: 100, originalIndex: 0, gradient });
+
+  it('should return a single stop for a profile of one colour', () => {
+    expect(buildGradientStops([entry(0, 0.01), entry(100, -0.02)], thresholds, colors)).toEqual([
+      { offset: 0, color: 'green' }
+    ]);
+  });
+
+  it('should switch colours sharply halfway between points', () => {
+    const stops = buildGradientStops(
+      [entry(0, 0.01), entry(100, 0.01), entry(200, 0.1), entry(300, 0.1), entry(400, 0)],
+      thresholds,
+      colors
+    );
+
+    expect(stops).toEqual([
+      { offset: 0, color: 'green' },
+      { offset: 0.375, color: 'green' },
+      { offset: 0.375, color: 'red' },
+      { offset: 0.875, color: 'red' },
+      { offset: 0.875, color: 'green' },
+      { offset: 1, color: 'green' }
+    ]);
+  });
+
+  it('should skip segment gaps', () => {
+    const stops = buildGradientStops(
+      [entry(0, 0.1), { distance: 100, elevation: null, originalIndex: -1 }, entry(100, 0.1), entry(200, 0.1)],
+      thresholds,
+      colors
+    );
+
+    expect(stops).toEqual([{ offset: 0, color: 'red' }]);
+  });
+
+  it('should handle empty input', () => {
+    expect(buildGradientStops([], thresholds, colors)).toEqual([]);
+  });
+});
+
+describe('buildOverlayChartData', () => {
+  it('should align overlay elevations and keep gaps', () => {
+    const points = [createMockPoint(100, 0), createMockPoint(110, 100), createMockPoint(120, 200)];
+    const chartData = buildChartData(points, [0, 2]);
+
+    const overlay = buildOverlayChartData(chartData, [95, null, 125]);
+
+    expect(overlay.map(entry => entry.elevation)).toEqual([95, null, null, 125]);
+    expect(overlay.map(entry => entry.distance)).toEqual(chartData.map(entry => entry.distance));
+  });
+});
+
+describe('computeElevationDomain', () => {
+  it('should pad the profile and round outwards', () => {
+    expect(computeElevationDomain(123, 456)).toEqual([20, 560]);
+  });
+
+  it('should handle profiles below sea level', () => {
+    expect(computeElevationDomain(-432, -395)).toEqual([-540, -290]);
+    expect(computeElevationDomain(-6, 3)).toEqual([-110, 110]);
+  });
+
+  it('should fall back to a default domain without points', () => {
+    expect(computeElevationDomain(Infinity, -Infinity)).toEqual([0, 100]);
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for math utility functions
  */
 
-import { computeRollingMedian } from '../math';
+import { clampElevation, computeRollingMedian } from '../math';
 
 describe('computeRollingMedian', () => {
   it('should return empty array for empty input', () => {
@@ -91,3 +91,18 @@ describe('computeRollingMedian', () => {
     expect(result[500]).toBeCloseTo(500);
   });
 });
+
+describe('clampElevation', () => {
+  it('should leave elevations unchanged without limits', () => {
+    expect(clampElevation(-430, { floor: null, ceiling: null })).toBe(-430);
+    expect(clampElevation(8848, { floor: null, ceiling: null })).toBe(8848);
+  });
+
+  it('should move elevations onto the floor or ceiling', () => {
+    const limits = { floor: -100, ceiling: 500 };
+
+    expect(clampElevation(-120, limits)).toBe(-100);
+    expect(clampElevation(520, limits)).toBe(500);
+    expect(clampElevation(-50, limits)).toBe(-50);
+  });
+});
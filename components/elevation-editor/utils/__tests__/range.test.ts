@@ -0,0 +1,39 @@
+/**
+ * Unit tests for distance range helpers
+ */
+
+import { findIndexRange, normalizeRange } from '../range';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('normalizeRange', () => {
+  it('should order the range endpoints', () => {
+    expect(normalizeRange([300, 100])).toEqual([100, 300]);
+    expect(normalizeRange([100, 300])).toEqual([100, 300]);
+  });
+});
+
+describe('findIndexRange', () => {
+  const points = [0, 100, 200, 300, 400].map(distance => createMockPoint(100, distance));
+
+  it('should find the first and last point inside the range', () => {
+    expect(findIndexRange(points, [50, 320])).toEqual([1, 3]);
+    expect(findIndexRange(points, [320, 50])).toEqual([1, 3]);
+  });
+
+  it('should include points on the range boundary', () => {
+    expect(findIndexRange(points, [100, 300])).toEqual([1, 3]);
+  });
+
+  it('should return null when no point lies inside the range', () => {
+    expect(findIndexRange(points, [120, 180])).toBeNull();
+  });
+});
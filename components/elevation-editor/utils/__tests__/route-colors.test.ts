@@ -0,0 +1,129 @@
+/**
+ * Unit tests for route colouring helpers
+ */
+
+import { buildRouteColoring, groupRouteSegments, RouteColorOptions } from '../route-colors';
+import { ELEVATION_BAND_COLORS, GRADIENT_BUCKET_COLORS, ROUTE_COLORS } from '../../constants';
+import { TrackPoint } from '@/lib/gpx-parser';
+
+// Helper to create mock track points
+const createMockPoint = (ele: number, distance: number = 0): TrackPoint => ({
+  lat: 0,
+  lon: 0,
+  ele,
+  distance,
+  originalIndex: 0
+});
+
+describe('buildRouteColoring', () => {
+  const points = [
+    createMockPoint(100, 0),
+    createMockPoint(100, 100),
+    createMockPoint(110, 200),
+    createMockPoint(150, 300),
+    createMockPoint(200, 400)
+  ];
+  const options: RouteColorOptions = {
+    gradients: [0, 0.05, 0.25, 0.45, 0.5],
+    gradientThresholds: [0.03, 0.06, 0.09, 0.12],
+    editedPoints: new Set([3]),
+    anomalyRegions: [{ startDistance: 150, endDistance: 250, severity: 1 }],
+    formatElevation: meters => `${Math.round(meters)} m`
+  };
+
+  it('should colour a plain route in one colour without a legend', () => {
+    const coloring = buildRouteColoring('plain', points, options);
+
+    expect(coloring.segmentColors).toEqual([ROUTE_COLORS.plain, ROUTE_COLORS.plain, ROUTE_COLORS.plain, ROUTE_COLORS.plain]);
+    expect(coloring.legend).toEqual([]);
+  });
+
+  it('should colour segments by the bucket of their mean gradient', () => {
+    const coloring = buildRouteColoring('gradient', points, options);
+
+    expect(coloring.segmentColors).toEqual([
+      GRADIENT_BUCKET_COLORS[0],
+      GRADIENT_BUCKET_COLORS[4],
+      GRADIENT_BUCKET_COLORS[4],
+      GRADIENT_BUCKET_COLORS[4]
+    ]);
+    expect(coloring.legend.map(item => item.label)).toEqual(['<3%', '3–6%', '6–9%', '9–12%', '>12%']);
+  });
+
+  it('should colour segments by elevation band', () => {
+    const coloring = buildRouteColoring('elevation', points, options);
+
+    expect(coloring.segmentColors).toEqual([
+      ELEVATION_BAND_COLORS[0],
+      ELEVATION_BAND_COLORS[0],
+      ELEVATION_BAND_COLORS[1],
+      ELEVATION_BAND_COLORS[3]
+    ]);
+    expect(coloring.legend[0]).toEqual({ label: '100 m–120 m', color: ELEVATION_BAND_COLORS[0] });
+    expect(coloring.legend[4].label).toBe('180 m–200 m');
+  });
+
+  it('should use the lowest band on a flat route', () => {
+    const flat = [createMockPoint(50, 0), createMockPoint(50, 100), createMockPoint(50, 200)];
+
+    expect(buildRouteColoring('elevation', flat, options).segmentColors).toEqual([
+      ELEVATION_BAND_COLORS[0],
+      ELEVATION_BAND_COLORS[0]
+    ]);
+  });
+
+  it('should find the elevation bands of a long track', () => {
+    const long = Array.from({ length: 200000 }, (_, index) => createMockPoint(100 + (index % 1000) / 10, index));
+
+    const coloring = buildRouteColoring('elevation', long, options);
+
+    expect(coloring.segmentColors).toHaveLength(199999);
+    expect(coloring.legend[0].label).toBe('100 m–120 m');
+  });
+
+  it('should mark segments touching an edited point', () => {
+    expect(buildRouteColoring('edited', points, options).segmentColors).toEqual([
+      ROUTE_COLORS.original,
+      ROUTE_COLORS.original,
+      ROUTE_COLORS.edited,
+      ROUTE_COLORS.edited
+    ]);
+  });
+
+  it('should mark segments touching an anomaly region', () => {
+    expect(buildRouteColoring('anomalies', points, options).segmentColors).toEqual([
+      ROUTE_COLORS.plain,
+      ROUTE_COLORS.anomaly,
+      ROUTE_COLORS.anomaly,
+      ROUTE_COLORS.plain
+    ]);
+  });
+
+  it('should handle routes without segments', () => {
+    expect(buildRouteColoring('gradient', [], options).segmentColors).toEqual([]);
+    expect(buildRouteColoring('elevation', [createMockPoint(100, 0)], options).segmentColors).toEqual([]);
+  });
+});
+
+describe('groupRouteSegments', () => {
+  const positions: Array<[number, number]> = [[0, 0], [0, 1], [0, 2], [0, 3], [0, 4]];
+
+  it('should join segments of the same colour into runs sharing their ends', () => {
+    expect(groupRouteSegments(positions, ['a', 'a', 'b', 'a'])).toEqual([
+      { color: 'a', positions: [[0, 0], [0, 1], [0, 2]] },
+      { color: 'b', positions: [[0, 2], [0, 3]] },
+      { color: 'a', positions: [[0, 3], [0, 4]] }
+    ]);
+  });
+
+  it('should ignore colours beyond the last position', () => {
+    expect(groupRouteSegments(positions.slice(0, 2), ['a', 'b', 'c'])).toEqual([
+      { color: 'a', positions: [[0, 0], [0, 1]] }
+    ]);
+  });
+
+  it('should return no runs for fewer than two positions', () => {
+    expect(groupRouteSegments([[0, 0]], [])).toEqual([]);
+    expect(groupRouteSegments([], [])).toEqual([]);
+  });
+});
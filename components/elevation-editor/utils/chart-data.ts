@@ -0,0 +1,137 @@
+/**
+ * Helpers for building elevation chart data
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { pickSensorReadings } from '@/lib/track-builder';
+import { ChartDataPoint } from '../types';
+import { ELEVATION_AXIS_PADDING } from '../constants';
+import { findGradientBucket } from '../algorithms/gradient';
+
+/**
+ * Converts track points to chart data, inserting a gap before every segment break
+ *
+ * Gap entries have a null elevation (so Recharts breaks the line there) and an
+ * `originalIndex` of -1 so they are ignored by chart interactions. Sensor
+ * readings are copied so they can be plotted as secondary series.
+ *
+ * @param points - Track points to display
+ * @param segmentStarts - Indices (into `points`) at which a new segment begins
+ * @param editedPoints - Optional set of edited point indices (into `points`)
+ * @param gradients - Optional gradient per point (indexed like `points`) for the tooltip and colouring
+ * @returns Chart data points, with gap entries at segment breaks
+ */
+export const buildChartData = (
+  points: TrackPoint[],
+  segmentStarts: number[],
+  editedPoints?: Set<number>,
+  gradients?: number[]
+): ChartDataPoint[] => {
+  const breaks = new Set(segmentStarts.filter(index => index > 0));
+  const data: ChartDataPoint[] = [];
+
+  points.forEach((point, index) => {
+    const distance = point.distance || 0;
+
+    if (breaks.has(index)) {
+      data.push({ distance, elevation: null, originalIndex: -1 });
+    }
+
+    data.push({
+      distance,
+      elevation: point.ele,
+      originalIndex: index,
+      ...pickSensorReadings(point),
+      ...(editedPoints ? { isEdited: editedPoints.has(index) } : {}),
+      ...(gradients ? { gradient: gradients[index] } : {})
+    });
+  });
+
+  return data;
+};
+
+/**
+ * Builds an overlay profile (e.g. terrain) on the distances of existing chart data
+ *
+ * Segment gaps stay gaps, and points without an overlay elevation become gaps
+ * too, so uncovered stretches are not drawn.
+ *
+ * @param chartData - Chart data the overlay is aligned with
+ * @param elevations - Overlay elevation per point (indexed by `originalIndex`), null where missing
+ * @returns Chart data points of the overlay
+ */
+export const buildOverlayChartData = (
+  chartData: ChartDataPoint[],
+  elevations: Array<number | null>
+): ChartDataPoint[] =>
+  chartData.map(entry => ({
+    distance: entry.distance,
+    elevation: entry.originalIndex >= 0 ? elevations[entry.originalIndex] ?? null : null,
+    originalIndex: entry.originalIndex
+  }));
+
+/**
+ * Builds the colour stops of a horizontal SVG gradient that colours the
+ * profile by gradient bucket
+ *
+ * Offsets run from 0 at the first chart entry to 1 at the last, matching the
+ * bounding box of the drawn line. The colour switches halfway between two
+ * points in different buckets, with two stops at the same offset so the
+ * change is sharp rather than blended.
+ *
+ * @param chartData - Chart data carrying a gradient per point
+ * @param thresholds - Ascending bucket boundaries in meters per meter
+ * @param colors - Colour of each bucket, one more than the thresholds
+ * @returns Stops in order of offset; a single stop when the whole profile is one colour
+ */
+export const buildGradientStops = (
+  chartData: ChartDataPoint[],
+  thresholds: number[],
+  colors: string[]
+): Array<{ offset: number; color: string }> => {
+  const points = chartData.filter(entry => entry.elevation !== null && entry.gradient !== undefined);
+  if (chartData.length === 0 || points.length === 0) {
+    return [];
+  }
+
+  const start = chartData[0].distance;
+  const span = chartData[chartData.length - 1].distance - start;
+  const colorOf = (entry: ChartDataPoint) => colors[findGradientBucket(entry.gradient ?? 0, thresholds)];
+
+  const stops = [{ offset: 0, color: colorOf(points[0]) }];
+  for (let index = 1; index < points.length; index++) {
+    const color = colorOf(points[index]);
+    const previousColor = stops[stops.length - 1].color;
+    if (color !== previousColor && span > 0) {
+      const offset = ((points[index - 1].distance + points[index].distance) / 2 - start) / span;
+      stops.push({ offset, color: previousColor }, { offset, color });
+    }
+  }
+  if (stops.length > 1) {
+    stops.push({ offset: 1, color: stops[stops.length - 1].color });
+  }
+
+  return stops;
+};
+
+/**
+ * Computes the elevation axis domain for a profile
+ *
+ * The profile is padded on both sides and the ends are rounded outwards to
+ * whole tens of meters, so profiles below sea level get the same treatment as
+ * those above it.
+ *
+ * @param minElevation - Lowest elevation in meters
+ * @param maxElevation - Highest elevation in meters
+ * @returns [min, max] elevation axis domain in meters
+ */
+export const computeElevationDomain = (minElevation: number, maxElevation: number): [number, number] => {
+  if (!Number.isFinite(minElevation) || !Number.isFinite(maxElevation)) {
+    return [0, ELEVATION_AXIS_PADDING];
+  }
+
+  return [
+    Math.floor((minElevation - ELEVATION_AXIS_PADDING) / 10) * 10,
+    Math.ceil((maxElevation + ELEVATION_AXIS_PADDING) / 10) * 10
+  ];
+};
@@ -0,0 +1,19 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Saves generated content as a file through a temporary object URL
+ * @param file - File content, MIME type and download name
+ */
+export const downloadFile = (file: { content: string | Uint8Array; mimeType: string; filename: string }): void => {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = file.filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -2,6 +2,8 @@
  * Mathematical utility functions
  */
 
+import { ElevationLimits } from '../types';
+
 /**
  * Computes a rolling median over an array of values
  * @param values - Array of numbers to process
@@ -29,3 +31,20 @@ export const computeRollingMedian = (values: number[], windowSize: number): numb
     return windowValues[mid];
   });
 };
+
+/**
+ * Keeps an elevation within the configured floor and ceiling
+ * @param elevation - Elevation in meters
+ * @param limits - Floor and ceiling in meters; null sides are not limited
+ * @returns The elevation, moved onto the nearest limit when outside them
+ */
+export const clampElevation = (elevation: number, limits: ElevationLimits): number => {
+  let clamped = elevation;
+  if (limits.ceiling !== null && clamped > limits.ceiling) {
+    clamped = limits.ceiling;
+  }
+  if (limits.floor !== null && clamped < limits.floor) {
+    clamped = limits.floor;
+  }
+  return clamped;
+};
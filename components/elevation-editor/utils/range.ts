@@ -0,0 +1,37 @@
+/**
+ * Helpers for distance ranges on the elevation profile
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+
+/**
+ * Orders a range picked in either direction
+ */
+export const normalizeRange = ([a, b]: [number, number]): [number, number] =>
+  a <= b ? [a, b] : [b, a];
+
+/**
+ * Finds the points that lie within a distance range
+ *
+ * @param points - Track points ordered by distance
+ * @param range - [start, end] distance range in meters, in either order
+ * @returns Indices of the first and last point inside the range, or null when none is
+ */
+export const findIndexRange = (
+  points: TrackPoint[],
+  range: [number, number]
+): [number, number] | null => {
+  const [start, end] = normalizeRange(range);
+  let first = -1;
+  let last = -1;
+
+  points.forEach((point, index) => {
+    const distance = point.distance ?? 0;
+    if (distance >= start && distance <= end) {
+      if (first < 0) first = index;
+      last = index;
+    }
+  });
+
+  return first < 0 ? null : [first, last];
+};
@@ -0,0 +1,140 @@
+/**
+ * Helpers for colouring the route on the map
+ */
+
+import { TrackPoint } from '@/lib/gpx-parser';
+import { AnomalyRegion, MapColorMode, RouteColoring } from '../types';
+import { ELEVATION_BAND_COLORS, GRADIENT_BUCKET_COLORS, ROUTE_COLORS } from '../constants';
+import { describeGradientBuckets, findGradientBucket } from '../algorithms/gradient';
+import { findIndexRange } from './range';
+
+export interface RouteColorOptions {
+  /** Gradient per point in meters per meter */
+  gradients: number[];
+  /** Ascending gradient bucket boundaries in meters per meter */
+  gradientThresholds: number[];
+  editedPoints: Set<number>;
+  anomalyRegions: AnomalyRegion[];
+  /** Formats an elevation in meters for the legend, in display units */
+  formatElevation: (meters: number) => string;
+}
+
+/**
+ * Colours each segment of the route for a map colouring mode
+ *
+ * A segment runs from a point to the next one. By gradient it takes the
+ * bucket of its ends' mean gradient, by elevation the band (of equal height
+ * between the lowest and highest point) of its mean elevation; it counts as
+ * edited, or as part of an anomaly, when either end does.
+ *
+ * @param mode - How the route is coloured
+ * @param trackPoints - Points of the route
+ * @param options - Gradients, edits and anomalies the colours are taken from
+ * @returns A colour per segment and the legend; plain routes have no legend
+ */
+export const buildRouteColoring = (
+  mode: MapColorMode,
+  trackPoints: TrackPoint[],
+  options: RouteColorOptions
+): RouteColoring => {
+  const segmentCount = Math.max(trackPoints.length - 1, 0);
+  const colorSegments = (colorOf: (first: number, second: number) => string) =>
+    Array.from({ length: segmentCount }, (_, index) => colorOf(index, index + 1));
+
+  switch (mode) {
+    case 'gradient': {
+      const { gradients, gradientThresholds } = options;
+      const labels = describeGradientBuckets(gradientThresholds);
+      return {
+        segmentColors: colorSegments((first, second) =>
+          GRADIENT_BUCKET_COLORS[findGradientBucket(((gradients[first] ?? 0) + (gradients[second] ?? 0)) / 2, gradientThresholds)]
+        ),
+        legend: labels.map((label, index) => ({ label, color: GRADIENT_BUCKET_COLORS[index] }))
+      };
+    }
+    case 'elevation': {
+      const elevations = trackPoints.map(point => point.ele);
+      // One pass rather than spreading every point into Math.min/max
+      let min = elevations.length > 0 ? elevations[0] : 0;
+      let max = min;
+      elevations.forEach(elevation => {
+        if (elevation < min) min = elevation;
+        if (elevation > max) max = elevation;
+      });
+      const bands = ELEVATION_BAND_COLORS.length;
+      const bandHeight = (max - min) / bands;
+      const bandOf = (elevation: number) =>
+        bandHeight > 0 ? Math.min(Math.floor((elevation - min) / bandHeight), bands - 1) : 0;
+      return {
+        segmentColors: colorSegments((first, second) =>
+          ELEVATION_BAND_COLORS[bandOf((elevations[first] + elevations[second]) / 2)]
+        ),
+        legend: ELEVATION_BAND_COLORS.map((color, index) => ({
+          label: `${options.formatElevation(min + bandHeight * index)}–${options.formatElevation(min + bandHeight * (index + 1))}`,
+          color
+        }))
+      };
+    }
+    case 'edited': {
+      const { editedPoints } = options;
+      return {
+        segmentColors: colorSegments((first, second) =>
+          editedPoints.has(first) || editedPoints.has(second) ? ROUTE_COLORS.edited : ROUTE_COLORS.original
+        ),
+        legend: [
+          { label: 'Original', color: ROUTE_COLORS.original },
+          { label: 'Edited', color: ROUTE_COLORS.edited }
+        ]
+      };
+    }
+    case 'anomalies': {
+      const inAnomaly = trackPoints.map(() => false);
+      options.anomalyRegions.forEach(region => {
+        const indices = findIndexRange(trackPoints, [region.startDistance, region.endDistance]);
+        if (!indices) return;
+        for (let index = indices[0]; index <= indices[1]; index++) {
+          inAnomaly[index] = true;
+        }
+      });
+      return {
+        segmentColors: colorSegments((first, second) =>
+          inAnomaly[first] || inAnomaly[second] ? ROUTE_COLORS.anomaly : ROUTE_COLORS.plain
+        ),
+        legend: [
+          { label: 'Route', color: ROUTE_COLORS.plain },
+          { label: 'Anomaly', color: ROUTE_COLORS.anomaly }
+        ]
+      };
+    }
+    case 'plain':
+      return { segmentColors: colorSegments(() => ROUTE_COLORS.plain), legend: [] };
+  }
+};
+
+/**
+ * Joins consecutive route segments of the same colour into runs, so the map
+ * draws one polyline per run rather than one per segment
+ *
+ * @param positions - Route positions as [lat, lon]
+ * @param segmentColors - Colour of the segment from each position to the next
+ * @returns Runs in route order; neighbouring runs share their end position
+ */
+export const groupRouteSegments = (
+  positions: Array<[number, number]>,
+  segmentColors: string[]
+): Array<{ color: string; positions: Array<[number, number]> }> => {
+  const runs: Array<{ color: string; positions: Array<[number, number]> }> = [];
+  const segmentCount = Math.min(positions.length - 1, segmentColors.length);
+
+  for (let index = 0; index < segmentCount; index++) {
+    const color = segmentColors[index];
+    const run = runs[runs.length - 1];
+    if (run && run.color === color) {
+      run.positions.push(positions[index + 1]);
+    } else {
+      runs.push({ color, positions: [positions[index], positions[index + 1]] });
+    }
+  }
+
+  return runs;
+};
@@ -2,17 +2,60 @@
 
 import { useEffect, useRef, useMemo } from 'react';
 import 'leaflet/dist/leaflet.css';
+import { groupRouteSegments } from './elevation-editor/utils/route-colors';
+
+const ROUTE_COLOR = '#2563eb';
 
 interface ElevationMapProps {
   points: Array<{ lat: number; lon: number }>;
   hoveredPointIndex?: number | null;
+  /** First and last index of the selected range, highlighted on the route */
+  selectedIndices?: [number, number] | null;
+  /** First and last index of the anomaly picked in the anomaly list */
+  anomalyIndices?: [number, number] | null;
+  /** Colour of the segment from each point to the next; one colour when omitted */
+  segmentColors?: string[];
+  /** Colours shown in a legend over the map */
+  legend?: Array<{ label: string; color: string }>;
 }
 
-export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
+type RouteRun = { color: string; positions: Array<[number, number]> };
+
+/**
+ * Draws the route as one polyline per run of equally coloured segments,
+ * reusing the polylines already on the map so edits do not rebuild them all
+ */
+const syncRouteRuns = (L: any, layer: any, polylines: any[], runs: RouteRun[]) => {
+  runs.forEach((run, index) => {
+    const polyline = polylines[index];
+    if (!polyline) {
+      polylines.push(L.polyline(run.positions, { color: run.color, weight: 4, opacity: 0.75 }).addTo(layer));
+      return;
+    }
+    polyline.setLatLngs(run.positions);
+    if (polyline.options.color !== run.color) {
+      polyline.setStyle({ color: run.color });
+    }
+  });
+  polylines.splice(runs.length).forEach(polyline => polyline.remove());
+};
+
+export function ElevationMap({
+  points,
+  hoveredPointIndex,
+  selectedIndices,
+  anomalyIndices,
+  segmentColors,
+  legend
+}: ElevationMapProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<any>(null);
   const markerRef = useRef<any>(null);
-  const polylineRef = useRef<any>(null);
+  const routeLayerRef = useRef<any>(null);
+  const routePolylinesRef = useRef<any[]>([]);
+  const selectionRef = useRef<any>(null);
+  const anomalyRef = useRef<any>(null);
+  const fittedAnomalyRef = useRef<string | null>(null);
 
   const polylinePositions = useMemo(() => {
     return points
@@ -20,6 +63,17 @@ export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
       .map(point => [point.lat, point.lon] as [number, number]);
   }, [points]);
 
+  const routeRuns = useMemo(
+    () =>
+      segmentColors
+        ? groupRouteSegments(polylinePositions, segmentColors)
+        : polylinePositions.length > 1 ? [{ color: ROUTE_COLOR, positions: polylinePositions }] : [],
+    [polylinePositions, segmentColors]
+  );
+  // Latest runs for the map initialisation, which finishes asynchronously
+  const routeRunsRef = useRef<RouteRun[]>(routeRuns);
+  routeRunsRef.current = routeRuns;
+
   // Initialize map only once
   useEffect(() => {
     const initMap = async () => {
@@ -64,16 +118,12 @@ export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
         attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
       }).addTo(map);
 
-      // Add polyline
-      const polyline = L.polyline(initialPositions, {
-        color: '#2563eb',
-        weight: 4,
-        opacity: 0.75
-      }).addTo(map);
-      polylineRef.current = polyline;
+      // Add the route, one polyline per colour run
+      routeLayerRef.current = L.layerGroup().addTo(map);
+      syncRouteRuns(L, routeLayerRef.current, routePolylinesRef.current, routeRunsRef.current);
 
       // Fit bounds to show entire route
-      map.fitBounds(polyline.getBounds());
+      map.fitBounds(L.latLngBounds(initialPositions));
     };
 
     initMap();
@@ -84,9 +134,18 @@ export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
         markerRef.current.remove();
         markerRef.current = null;
       }
-      if (polylineRef.current) {
-        polylineRef.current.remove();
-        polylineRef.current = null;
+      if (routeLayerRef.current) {
+        routeLayerRef.current.remove();
+        routeLayerRef.current = null;
+      }
+      routePolylinesRef.current = [];
+      if (selectionRef.current) {
+        selectionRef.current.remove();
+        selectionRef.current = null;
+      }
+      if (anomalyRef.current) {
+        anomalyRef.current.remove();
+        anomalyRef.current = null;
       }
       if (mapRef.current) {
         mapRef.current.remove();
@@ -99,17 +158,101 @@ export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
     };
   }, []); // Empty dependency - initialize only once
 
-  // Update polyline when points change
+  // Update the route when points or colours change
   useEffect(() => {
-    const updatePolyline = async () => {
-      if (!mapRef.current || !polylineRef.current) return;
+    const updateRoute = async () => {
+      if (!mapRef.current || !routeLayerRef.current) return;
+
+      const L = (await import('leaflet')).default;
+
+      syncRouteRuns(L, routeLayerRef.current, routePolylinesRef.current, routeRuns);
+      // Runs added on top of the highlights must not hide them
+      selectionRef.current?.bringToFront();
+      anomalyRef.current?.bringToFront();
+    };
+
+    updateRoute();
+  }, [routeRuns]);
+
+  // Highlight the selected range on top of the route
+  useEffect(() => {
+    const updateSelection = async () => {
+      if (!mapRef.current) return;
+
+      const L = (await import('leaflet')).default;
+
+      const positions = selectedIndices
+        ? polylinePositions.slice(selectedIndices[0], selectedIndices[1] + 1)
+        : [];
+
+      if (positions.length < 2) {
+        if (selectionRef.current) {
+          selectionRef.current.remove();
+          selectionRef.current = null;
+        }
+        return;
+      }
 
-      // Update polyline positions
-      polylineRef.current.setLatLngs(polylinePositions);
+      if (selectionRef.current) {
+        selectionRef.current.setLatLngs(positions);
+      } else {
+        selectionRef.current = L.polyline(positions, {
+          color: '#f59e0b',
+          weight: 6,
+          opacity: 0.9
+        }).addTo(mapRef.current);
+      }
+    };
+
+    updateSelection();
+  }, [selectedIndices, polylinePositions]);
+
+  // Highlight the picked anomaly, widened by a point on either side so that
+  // single-point anomalies are visible too
+  const [anomalyFirst, anomalyLast] = anomalyIndices ?? [-1, -1];
+  const anomalyPositions = useMemo(
+    () =>
+      anomalyFirst >= 0
+        ? polylinePositions.slice(Math.max(0, anomalyFirst - 1), anomalyLast + 2)
+        : [],
+    [anomalyFirst, anomalyLast, polylinePositions]
+  );
+
+  useEffect(() => {
+    const updateAnomaly = async () => {
+      if (!mapRef.current) return;
+
+      const L = (await import('leaflet')).default;
+
+      if (anomalyPositions.length < 2) {
+        if (anomalyRef.current) {
+          anomalyRef.current.remove();
+          anomalyRef.current = null;
+        }
+        fittedAnomalyRef.current = null;
+        return;
+      }
+
+      if (anomalyRef.current) {
+        anomalyRef.current.setLatLngs(anomalyPositions);
+      } else {
+        anomalyRef.current = L.polyline(anomalyPositions, {
+          color: '#dc2626',
+          weight: 7,
+          opacity: 0.9
+        }).addTo(mapRef.current);
+      }
+
+      // Bring a newly picked anomaly into view, but not again after each edit
+      const anomalyKey = `${anomalyFirst}-${anomalyLast}`;
+      if (fittedAnomalyRef.current !== anomalyKey) {
+        fittedAnomalyRef.current = anomalyKey;
+        mapRef.current.fitBounds(anomalyRef.current.getBounds(), { maxZoom: 16, padding: [40, 40] });
+      }
     };
 
-    updatePolyline();
-  }, [polylinePositions]);
+    updateAnomaly();
+  }, [anomalyPositions, anomalyFirst, anomalyLast]);
 
   // Update marker position when hoveredPointIndex changes
   useEffect(() => {
@@ -150,17 +293,29 @@ export function ElevationMap({ points, hoveredPointIndex }: ElevationMapProps) {
   }, [hoveredPointIndex, polylinePositions]);
 
   return (
-    <div
-      ref={containerRef}
-      className="h-96 w-full rounded-md"
-      style={{ position: 'relative', zIndex: 1, cursor: 'grab' }}
-      onMouseDown={(e) => e.stopPropagation()}
-      onMouseMove={(e) => e.stopPropagation()}
-      onMouseUp={(e) => e.stopPropagation()}
-      onMouseLeave={(e) => e.stopPropagation()}
-      onClick={(e) => e.stopPropagation()}
-      onDoubleClick={(e) => e.stopPropagation()}
-      onWheel={(e) => e.stopPropagation()}
-    />
+    <div className="relative w-full">
+      <div
+        ref={containerRef}
+        className="h-96 w-full rounded-md"
+        style={{ position: 'relative', zIndex: 1, cursor: 'grab' }}
+        onMouseDown={(e) => e.stopPropagation()}
+        onMouseMove={(e) => e.stopPropagation()}
+        onMouseUp={(e) => e.stopPropagation()}
+        onMouseLeave={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+      />
+      {legend && legend.length > 0 && (
+        <div className="pointer-events-none absolute bottom-6 left-2 z-10 space-y-0.5 rounded-md bg-white/90 px-2 py-1.5 text-xs text-slate-700 shadow dark:bg-slate-900/90 dark:text-slate-200">
+          {legend.map(item => (
+            <div key={item.label} className="flex items-center gap-1.5">
+              <span className="inline-block h-1 w-4 rounded-full" style={{ backgroundColor: item.color }} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
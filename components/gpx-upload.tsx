@@ -5,9 +5,10 @@ import { Upload, FileText, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ACCEPTED_FILE_TYPES, TrackFileContent, getTrackFileFormat, readTrackFile } from '@/lib/track-formats';
 
 interface GPXUploadProps {
-  onFileUpload: (content: string, filename: string) => void;
+  onFileUpload: (content: TrackFileContent, filename: string) => void;
 }
 
 export function GPXUpload({ onFileUpload }: GPXUploadProps) {
@@ -17,21 +18,17 @@ export function GPXUpload({ onFileUpload }: GPXUploadProps) {
   const handleFile = useCallback((file: File) => {
     setError(null);
 
-    if (!file.name.toLowerCase().endsWith('.gpx')) {
-      setError('Please select a valid GPX file');
+    if (!getTrackFileFormat(file.name)) {
+      setError('Please select a GPX, TCX, FIT, KML, KMZ or GeoJSON file');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      onFileUpload(content, file.name);
-    };
-    reader.onerror = () => {
-      console.error('Error reading file');
-      setError('Error reading file');
-    };
-    reader.readAsText(file);
+    readTrackFile(file)
+      .then(content => onFileUpload(content, file.name))
+      .catch(() => {
+        console.error('Error reading file');
+        setError('Error reading file');
+      });
   }, [onFileUpload]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -68,7 +65,7 @@ export function GPXUpload({ onFileUpload }: GPXUploadProps) {
           GPX Elevation Editor
         </h1>
         <p className="text-slate-600">
-          Upload your GPX file to edit and smooth elevation profiles
+          Upload your GPS track file to edit and smooth elevation profiles
         </p>
       </div>
 
@@ -91,7 +88,7 @@ export function GPXUpload({ onFileUpload }: GPXUploadProps) {
           >
             <input
               type="file"
-              accept=".gpx"
+              accept={ACCEPTED_FILE_TYPES}
               onChange={handleFileInput}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             />
@@ -105,19 +102,19 @@ export function GPXUpload({ onFileUpload }: GPXUploadProps) {
               
               <div>
                 <h3 className="text-lg font-semibold text-slate-900 mb-2">
-                  Drop your GPX file here
+                  Drop your track file here
                 </h3>
                 <p className="text-slate-600 mb-4">
                   or click to browse files
                 </p>
                 <Button variant="outline" className="pointer-events-none">
                   <FileText className="h-4 w-4 mr-2" />
-                  Choose GPX File
+                  Choose File
                 </Button>
               </div>
               
               <p className="text-sm text-slate-500">
-                Supports GPX files from GPS devices and fitness trackers
+                Supports GPX, TCX, FIT, KML, KMZ and GeoJSON files from GPS devices, fitness trackers and mapping tools
               </p>
             </div>
           </div>
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for CSV profile import and export
+ */
+
+import { parseCSV, guessCSVColumnMapping, readCSVProfile, buildGPXDataFromCSV, buildProfileCSV } from '../csv';
+import { TrackPoint } from '../gpx-parser';
+
+describe('parseCSV', () => {
+  it('should parse quoted fields and strip the byte order mark', () => {
+    const table = parseCSV('\uFEFFname,ele\r\n"Peak, north",1200\n"Say ""hi""",900\n\n');
+
+    expect(table.headers).toEqual(['name', 'ele']);
+    expect(table.rows).toEqual([['Peak, north', '1200'], ['Say "hi"', '900']]);
+  });
+
+  it('should detect semicolon and tab delimiters', () => {
+    expect(parseCSV('lat;lon;ele\n50,1;14,2;300').rows[0]).toEqual(['50,1', '14,2', '300']);
+    expect(parseCSV('lat\tlon\n50\t14').headers).toEqual(['lat', 'lon']);
+  });
+
+  it('should throw without data rows', () => {
+    expect(() => parseCSV('lat,lon,ele\n')).toThrow('Expected a header row and at least one data row');
+  });
+});
+
+describe('guessCSVColumnMapping', () => {
+  it('should map common header names', () => {
+    expect(guessCSVColumnMapping(['index', 'Latitude', 'lng', 'ele_m', 'Distance (km)', 'time', 'edited'])).toEqual({
+      index: 0,
+      lat: 1,
+      lon: 2,
+      ele: 3,
+      distance: 4,
+      time: 5
+    });
+  });
+});
+
+describe('readCSVProfile', () => {
+  it('should convert units, accept decimal commas and skip rows without elevation', () => {
+    const table = parseCSV('dist;alt\n0,5;1000\n1;\n1,5;3280,84');
+
+    const profile = readCSVProfile(table, { distance: 0, ele: 1 }, { distanceToMeters: 1000, elevationToMeters: 0.3048 });
+
+    expect(profile).toHaveLength(2);
+    expect(profile[0].distance).toBe(500);
+    expect(profile[0].ele).toBeCloseTo(304.8);
+    expect(profile[1].ele).toBeCloseTo(1000, 2);
+  });
+});
+
+describe('buildGPXDataFromCSV', () => {
+  it('should build a track from rows with coordinates', () => {
+    const profile = readCSVProfile(
+      parseCSV('lat,lon,ele,time\n50,14,200,2025-01-01T10:00:00Z\n50.001,14,210,\n,,220,'),
+      { lat: 0, lon: 1, ele: 2, time: 3 }
+    );
+
+    const data = buildGPXDataFromCSV(profile, 'Survey');
+
+    expect(data.name).toBe('Survey');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210]);
+    expect(data.trackPoints[0].time).toBe('2025-01-01T10:00:00Z');
+    expect(data.totalDistance).toBeCloseTo(111.2, 0);
+    expect(data.elevationGain).toBe(10);
+  });
+
+  it('should throw without coordinates', () => {
+    expect(() => buildGPXDataFromCSV([{ ele: 100 }], 'Survey')).toThrow('No rows with latitude, longitude and elevation found');
+  });
+});
+
+describe('buildProfileCSV', () => {
+  const point = (ele: number, distance: number, time?: string): TrackPoint => ({
+    lat: 50,
+    lon: 14,
+    ele,
+    distance,
+    time,
+    originalIndex: 0
+  });
+
+  it('should write one row per point with original elevation, edited flag and gradient', () => {
+    const csv = buildProfileCSV(
+      [point(100, 0, '2025-01-01T10:00:00Z'), point(105, 100), point(105, 100)],
+      [point(100, 0), point(110, 100), point(105, 100)],
+      new Set([1])
+    );
+
+    expect(csv.split('\n')).toEqual([
+      'index,lat,lon,ele_m,original_ele_m,distance_m,time,edited,gradient_pct',
+      '0,50,14,100.00,100.00,0.00,2025-01-01T10:00:00Z,0,',
+      '1,50,14,105.00,110.00,100.00,,1,5.00',
+      '2,50,14,105.00,105.00,100.00,,0,',
+      ''
+    ]);
+  });
+
+  it('should round-trip through the importer', () => {
+    const csv = buildProfileCSV([point(100, 0), point(112.5, 250)], [point(100, 0), point(112.5, 250)], new Set());
+    const table = parseCSV(csv);
+
+    expect(readCSVProfile(table, guessCSVColumnMapping(table.headers))).toEqual([
+      { index: 0, lat: 50, lon: 14, ele: 100, distance: 0, time: undefined },
+      { index: 1, lat: 50, lon: 14, ele: 112.5, distance: 250, time: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for DEM sampling
+ */
+
+import { DemSource, sampleDem, sampleDemProfile } from '../dem';
+
+const source = (name: string, minLat: number, elevation: number): DemSource => ({
+  name,
+  description: name,
+  sample: (lat) => (lat >= minLat && lat < minLat + 1 ? elevation : null)
+});
+
+describe('sampleDem', () => {
+  it('should use the first source covering the position', () => {
+    const sources = [source('a', 50, 100), source('b', 50, 200), source('c', 51, 300)];
+
+    expect(sampleDem(sources, 50.5, 14)).toBe(100);
+    expect(sampleDem(sources, 51.5, 14)).toBe(300);
+    expect(sampleDem(sources, 52.5, 14)).toBeNull();
+  });
+});
+
+describe('sampleDemProfile', () => {
+  it('should sample every point', () => {
+    expect(sampleDemProfile([source('a', 50, 100)], [{ lat: 50.1, lon: 14 }, { lat: 49, lon: 14 }])).toEqual([100, null]);
+  });
+});
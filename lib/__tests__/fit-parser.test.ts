@@ -0,0 +1,317 @@
+/**
+ * Unit tests for FIT decoding and encoding
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseFIT, exportFIT, calculateFitCrc } from '../fit-parser';
+
+// FIT base types used by the fixtures
+const ENUM = 0x00;
+const SINT8 = 0x01;
+const UINT16 = 0x84;
+const SINT32 = 0x85;
+const UINT32 = 0x86;
+
+const SIZES: Record<number, number> = { [ENUM]: 1, [SINT8]: 1, [UINT16]: 2, [SINT32]: 4, [UINT32]: 4 };
+
+type FieldDefinition = [fieldNumber: number, baseType: number];
+
+/**
+ * Minimal FIT writer for building fixtures
+ */
+class FitFixture {
+  private bytes: number[] = [];
+  private definitions = new Map<number, { fields: FieldDefinition[]; littleEndian: boolean; developerSize: number }>();
+
+  define(localType: number, globalNumber: number, fields: FieldDefinition[], littleEndian = true, developerSizes: number[] = []) {
+    const hasDeveloperFields = developerSizes.length > 0;
+    this.bytes.push(0x40 | (hasDeveloperFields ? 0x20 : 0) | localType, 0, littleEndian ? 0 : 1);
+    this.bytes.push(...this.encode(UINT16, globalNumber, littleEndian), fields.length);
+    fields.forEach(([fieldNumber, baseType]) => this.bytes.push(fieldNumber, SIZES[baseType], baseType));
+    if (hasDeveloperFields) {
+      this.bytes.push(developerSizes.length);
+      developerSizes.forEach((size, index) => this.bytes.push(index, size, 0));
+    }
+    this.definitions.set(localType, {
+      fields,
+      littleEndian,
+      developerSize: developerSizes.reduce((sum, size) => sum + size, 0)
+    });
+    return this;
+  }
+
+  data(localType: number, values: number[], compressedTimeOffset?: number) {
+    const definition = this.definitions.get(localType)!;
+    this.bytes.push(
+      compressedTimeOffset !== undefined ? 0x80 | (localType << 5) | compressedTimeOffset : localType
+    );
+    definition.fields.forEach(([, baseType], index) => {
+      this.bytes.push(...this.encode(baseType, values[index], definition.littleEndian));
+    });
+    this.bytes.push(...new Array(definition.developerSize).fill(0xab));
+    return this;
+  }
+
+  build(): Uint8Array {
+    const file = new Uint8Array(14 + this.bytes.length + 2);
+    const view = new DataView(file.buffer);
+    file.set([14, 0x20], 0);
+    view.setUint16(2, 2132, true);
+    view.setUint32(4, this.bytes.length, true);
+    file.set(Array.from('.FIT').map(char => char.charCodeAt(0)), 8);
+    view.setUint16(12, calculateFitCrc(file, 0, 12), true);
+    file.set(this.bytes, 14);
+    view.setUint16(file.length - 2, calculateFitCrc(file, 0, file.length - 2), true);
+    return file;
+  }
+
+  private encode(baseType: number, value: number, littleEndian: boolean): number[] {
+    const view = new DataView(new ArrayBuffer(SIZES[baseType]));
+    if (baseType === ENUM) view.setUint8(0, value);
+    if (baseType === SINT8) view.setInt8(0, value);
+    if (baseType === UINT16) view.setUint16(0, value, littleEndian);
+    if (baseType === SINT32) view.setInt32(0, value, littleEndian);
+    if (baseType === UINT32) view.setUint32(0, value, littleEndian);
+    return Array.from(new Uint8Array(view.buffer));
+  }
+}
+
+const semicircles = (degrees: number) => Math.round(degrees * (2 ** 31 / 180));
+const altitude = (meters: number) => (meters + 500) * 5;
+// 2025-01-01T10:00:00Z in FIT time
+const START = 1104660000;
+
+const RECORD_FIELDS: FieldDefinition[] = [
+  [253, UINT32], [0, SINT32], [1, SINT32], [2, UINT16], [5, UINT32], [78, UINT32]
+];
+const EVENT_FIELDS: FieldDefinition[] = [[253, UINT32], [0, ENUM], [1, ENUM]];
+
+const record = (offset: number, lat: number, ele: number, distance: number) => [
+  START + offset, semicircles(lat), semicircles(14), altitude(ele), distance * 100, altitude(ele)
+];
+
+const SAMPLE_RIDE = new FitFixture()
+  .define(0, 0, [[0, ENUM]])
+  .data(0, [4])
+  .define(1, 20, RECORD_FIELDS, true, [2])
+  .define(2, 21, EVENT_FIELDS)
+  .data(1, record(0, 50.0, 200, 0))
+  .data(1, [START + 5, 0x7fffffff, 0x7fffffff, 0xffff, 0xffffffff, 0xffffffff])
+  .data(1, record(30, 50.001, 210.4, 115.5))
+  .data(2, [START + 40, 0, 4])
+  .data(2, [START + 100, 0, 0])
+  .data(1, record(100, 50.002, 205.2, 230))
+  .build();
+
+const COMPRESSED_BIG_ENDIAN = new FitFixture()
+  .define(0, 20, [[253, UINT32], [0, SINT32], [1, SINT32], [2, UINT16]], false)
+  .data(0, [START, semicircles(50.0), semicircles(14), altitude(300)])
+  .define(1, 20, [[0, SINT32], [1, SINT32], [2, UINT16]], false)
+  .data(1, [semicircles(50.001), semicircles(14), altitude(310)], (START + 20) & 0x1f)
+  .data(1, [semicircles(50.002), semicircles(14), altitude(305)], (START + 40) & 0x1f)
+  .build();
+
+// Pool swim recorded by a Garmin Swim watch (see fixtures/README.md)
+const GARMIN_SWIM = new Uint8Array(fs.readFileSync(path.join(process.cwd(), 'lib/__tests__/fixtures/garmin-swim.fit')));
+
+// Run recorded by a Garmin watch with GPS and barometer (see fixtures/README.md)
+const GARMIN_RUN = new Uint8Array(fs.readFileSync(path.join(process.cwd(), 'lib/__tests__/fixtures/garmin-run.fit')));
+
+// Positions without a barometer: both altitude fields hold the "invalid" marker
+const NO_BAROMETER = new FitFixture()
+  .define(0, 20, [[0, SINT32], [1, SINT32], [2, UINT16], [78, UINT32]])
+  .data(0, [semicircles(50.0), semicircles(14), 0xffff, 0xffffffff])
+  .data(0, [semicircles(50.001), semicircles(14), 0xffff, 0xffffffff])
+  .build();
+
+describe('calculateFitCrc', () => {
+  it('should compute the CRC-16 used by FIT', () => {
+    const check = new Uint8Array(Array.from('123456789').map(char => char.charCodeAt(0)));
+
+    expect(calculateFitCrc(check)).toBe(0xbb3d);
+  });
+});
+
+describe('parseFIT', () => {
+  it('should map record messages onto track points', () => {
+    const data = parseFIT(SAMPLE_RIDE);
+
+    expect(data.source).toBe('track');
+    expect(data.trackPoints).toHaveLength(3);
+    expect(data.trackPoints[0].lat).toBeCloseTo(50.0, 6);
+    expect(data.trackPoints[0].lon).toBeCloseTo(14.0, 6);
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210.4, 205.2]);
+    expect(data.trackPoints.map(p => p.time)).toEqual([
+      '2025-01-01T10:00:00Z',
+      '2025-01-01T10:00:30Z',
+      '2025-01-01T10:01:40Z'
+    ]);
+    expect(data.trackPoints.slice(0, 2).map(p => p.distance)).toEqual([0, 115.5]);
+  });
+
+  it('should split segments at timer stop events', () => {
+    const data = parseFIT(SAMPLE_RIDE);
+
+    expect(data.tracks[0].segments).toEqual([
+      { startIndex: 0, endIndex: 1 },
+      { startIndex: 2, endIndex: 2 }
+    ]);
+    expect(data.trackPoints[2].distance).toBe(115.5);
+    expect(parseFIT(SAMPLE_RIDE, { countSegmentGaps: true }).trackPoints[2].distance).toBe(230);
+  });
+
+  it('should read big-endian messages and compressed timestamps', () => {
+    const data = parseFIT(COMPRESSED_BIG_ENDIAN);
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual([300, 310, 305]);
+    expect(data.trackPoints.map(p => p.time)).toEqual([
+      '2025-01-01T10:00:00Z',
+      '2025-01-01T10:00:20Z',
+      '2025-01-01T10:00:40Z'
+    ]);
+    // No recorded distance, so the straight-line distance is used
+    expect(data.trackPoints[1].distance).toBeCloseTo(111.2, 0);
+  });
+
+  it('should read heart rate, cadence, power and temperature', () => {
+    const sensors = new FitFixture()
+      .define(0, 20, [[0, SINT32], [1, SINT32], [2, UINT16], [3, ENUM], [4, ENUM], [7, UINT16], [13, SINT8]])
+      .data(0, [semicircles(50.0), semicircles(14), altitude(300), 142, 88, 251, -3])
+      .data(0, [semicircles(50.001), semicircles(14), altitude(310), 0xff, 0xff, 0xffff, 0x7f])
+      .build();
+
+    const [first, second] = parseFIT(sensors).trackPoints;
+
+    expect(first).toMatchObject({ heartRate: 142, cadence: 88, power: 251, temperature: -3 });
+    expect(Object.keys(second)).not.toContain('heartRate');
+    expect(Object.keys(second)).not.toContain('temperature');
+  });
+
+  it('should accept an ArrayBuffer', () => {
+    expect(parseFIT(SAMPLE_RIDE.slice().buffer).trackPoints).toHaveLength(3);
+  });
+
+  it('should reject files with a bad header or CRC', () => {
+    expect(() => parseFIT(new TextEncoder().encode('<gpx></gpx>'))).toThrow('No FIT file header found');
+
+    const corrupted = SAMPLE_RIDE.slice();
+    corrupted[30] ^= 0xff;
+    expect(() => parseFIT(corrupted)).toThrow('CRC mismatch');
+  });
+
+  it('should read a real GPS recording', () => {
+    const data = parseFIT(GARMIN_RUN);
+
+    expect(data.trackPoints).toHaveLength(380);
+    expect(data.trackPoints[0]).toMatchObject({ ele: 237, time: '2017-10-11T16:48:25Z', heartRate: 144, cadence: 87 });
+    expect(data.trackPoints[0].lat).toBeCloseTo(45.20987, 5);
+    expect(data.trackPoints[0].lon).toBeCloseTo(5.78155, 5);
+    expect(data.trackPoints[379].time).toBe('2017-10-11T17:17:48Z');
+    expect(data.trackPoints[379].distance).toBeCloseTo(3227.1, 1);
+  });
+
+  it('should reject a real device file without positions', () => {
+    // The recording is valid, CRC included, but has no positions to edit
+    expect(() => parseFIT(GARMIN_SWIM)).toThrow('No record messages with position found');
+  });
+
+  it('should reject files without positions', () => {
+    const indoor = new FitFixture()
+      .define(0, 20, [[253, UINT32], [2, UINT16]])
+      .data(0, [START, altitude(100)])
+      .build();
+
+    expect(() => parseFIT(indoor)).toThrow('No record messages with position found');
+  });
+});
+
+describe('exportFIT', () => {
+  it('should round-trip unchanged data byte for byte', () => {
+    const exported = exportFIT(parseFIT(SAMPLE_RIDE), SAMPLE_RIDE);
+
+    expect(Array.from(exported)).toEqual(Array.from(SAMPLE_RIDE));
+  });
+
+  it('should write corrected altitude and a valid CRC', () => {
+    const data = parseFIT(SAMPLE_RIDE);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: 150 + index * 10 }));
+
+    const exported = exportFIT(data, SAMPLE_RIDE);
+    const view = new DataView(exported.buffer, exported.byteOffset, exported.byteLength);
+
+    expect(view.getUint16(exported.length - 2, true)).toBe(calculateFitCrc(exported, 0, exported.length - 2));
+    expect(parseFIT(exported).trackPoints.map(p => p.ele)).toEqual([150, 160, 170]);
+    expect(exported.length).toBe(SAMPLE_RIDE.length);
+  });
+
+  it('should only change altitude and CRC bytes', () => {
+    const data = parseFIT(SAMPLE_RIDE);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: point.ele + 1 }));
+
+    const exported = exportFIT(data, SAMPLE_RIDE);
+    const changed = Array.from(exported).filter((byte, index) => byte !== SAMPLE_RIDE[index]).length;
+
+    // At most 2 altitude + 4 enhanced altitude bytes per point, plus the CRC
+    expect(changed).toBeGreaterThan(0);
+    expect(changed).toBeLessThanOrEqual(3 * 6 + 2);
+    expect(parseFIT(exported).trackPoints.map(p => p.time)).toEqual(data.trackPoints.map(p => p.time));
+  });
+
+  it('should round-trip an unchanged real GPS recording byte for byte', () => {
+    const exported = exportFIT(parseFIT(GARMIN_RUN), GARMIN_RUN);
+
+    expect(Array.from(exported)).toEqual(Array.from(GARMIN_RUN));
+  });
+
+  it('should write corrected altitude into a real GPS recording', () => {
+    const original = parseFIT(GARMIN_RUN);
+    const data = parseFIT(GARMIN_RUN);
+    data.trackPoints = data.trackPoints.map((point, index) =>
+      index >= 100 && index < 200 ? { ...point, ele: point.ele + 12.4 } : point
+    );
+
+    const exported = exportFIT(data, GARMIN_RUN);
+    const view = new DataView(exported.buffer, exported.byteOffset, exported.byteLength);
+
+    expect(exported.length).toBe(GARMIN_RUN.length);
+    expect(view.getUint16(exported.length - 2, true)).toBe(calculateFitCrc(exported, 0, exported.length - 2));
+
+    const reparsed = parseFIT(exported).trackPoints;
+    reparsed.forEach((point, index) => {
+      const expected = index >= 100 && index < 200 ? original.trackPoints[index].ele + 12.4 : original.trackPoints[index].ele;
+      expect(point.ele).toBeCloseTo(expected, 5);
+      expect(point.lat).toBe(original.trackPoints[index].lat);
+      expect(point.lon).toBe(original.trackPoints[index].lon);
+      expect(point.time).toBe(original.trackPoints[index].time);
+    });
+  });
+
+  it('should keep invalid altitude fields of points that were not edited', () => {
+    const data = parseFIT(NO_BAROMETER);
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual([0, 0]);
+    expect(Array.from(exportFIT(data, NO_BAROMETER))).toEqual(Array.from(NO_BAROMETER));
+  });
+
+  it('should write altitude fields that were invalid once the point is edited', () => {
+    const data = parseFIT(NO_BAROMETER);
+    data.trackPoints[1] = { ...data.trackPoints[1], ele: 320 };
+
+    const exported = exportFIT(data, NO_BAROMETER);
+    const view = new DataView(exported.buffer, exported.byteOffset, exported.byteLength);
+    // File header, definition message (header, 5 bytes, 4 fields) and record header
+    const firstRecord = 14 + 1 + 5 + 4 * 3 + 1;
+
+    expect(view.getUint16(firstRecord + 8, true)).toBe(0xffff);
+    expect(view.getUint32(firstRecord + 10, true)).toBe(0xffffffff);
+    expect(parseFIT(exported).trackPoints.map(p => p.ele)).toEqual([0, 320]);
+  });
+
+  it('should write big-endian altitude fields', () => {
+    const data = parseFIT(COMPRESSED_BIG_ENDIAN);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: -10.4 }));
+
+    expect(parseFIT(exportFIT(data, COMPRESSED_BIG_ENDIAN)).trackPoints.map(p => p.ele)).toEqual([-10.4, -10.4, -10.4]);
+  });
+});
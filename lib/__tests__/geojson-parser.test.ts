@@ -0,0 +1,111 @@
+/**
+ * Unit tests for GeoJSON parsing and export
+ */
+
+import { parseGeoJSON, exportGeoJSON, buildGeoJSON } from '../geojson-parser';
+import { parseGPX } from '../gpx-parser';
+
+const FEATURE_COLLECTION = JSON.stringify({
+  type: 'FeatureCollection',
+  name: 'Survey',
+  features: [
+    {
+      type: 'Feature',
+      properties: {
+        name: 'Ridge',
+        stroke: '#ff0000',
+        coordinateProperties: { times: ['2025-01-01T10:00:00Z', '2025-01-01T10:00:30Z', '2025-01-01T10:01:00Z'] }
+      },
+      geometry: { type: 'LineString', coordinates: [[14.0, 50.0, 200], [14.0, 50.001, 210], [14.0, 50.002, 205]] }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Spring' },
+      geometry: { type: 'Point', coordinates: [14.0, 50.0015, 190] }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Valley' },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: [
+          [[14.1, 50.0], [14.1, 50.001]],
+          [[14.1, 50.01, 120], [14.1, 50.011, 125]]
+        ]
+      }
+    }
+  ]
+});
+
+describe('parseGeoJSON', () => {
+  it('should parse LineString and MultiLineString features as tracks', () => {
+    const data = parseGeoJSON(FEATURE_COLLECTION);
+
+    expect(data.name).toBe('Survey');
+    expect(data.tracks.map(t => t.name)).toEqual(['Ridge', 'Valley']);
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 205, 0, 0, 120, 125]);
+    expect(data.tracks[1].segments).toEqual([
+      { startIndex: 3, endIndex: 4 },
+      { startIndex: 5, endIndex: 6 }
+    ]);
+    expect(data.trackPoints[2].distance).toBeCloseTo(222.4, 0);
+  });
+
+  it('should read times from coordinateProperties', () => {
+    const data = parseGeoJSON(FEATURE_COLLECTION);
+
+    expect(data.trackPoints[1].time).toBe('2025-01-01T10:00:30Z');
+    expect(data.trackPoints[3].time).toBeUndefined();
+  });
+
+  it('should parse point features as waypoints', () => {
+    expect(parseGeoJSON(FEATURE_COLLECTION).waypoints).toEqual([
+      { lat: 50.0015, lon: 14, ele: 190, name: 'Spring', time: undefined }
+    ]);
+  });
+
+  it('should accept a bare geometry', () => {
+    const data = parseGeoJSON(JSON.stringify({ type: 'LineString', coordinates: [[14, 50, 1], [14, 50.001, 2]] }));
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual([1, 2]);
+  });
+
+  it('should throw on invalid content', () => {
+    expect(() => parseGeoJSON('<gpx/>')).toThrow('Content is not valid JSON');
+    expect(() => parseGeoJSON(JSON.stringify({ type: 'Point', coordinates: [1, 2] }))).toThrow('No LineString data found');
+  });
+});
+
+describe('exportGeoJSON', () => {
+  it('should write elevations and keep properties', () => {
+    const data = parseGeoJSON(FEATURE_COLLECTION);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: 100 + index + 0.004 }));
+
+    const exported = JSON.parse(exportGeoJSON(data, FEATURE_COLLECTION));
+
+    expect(exported.features[0].geometry.coordinates[1]).toEqual([14.0, 50.001, 101]);
+    expect(exported.features[0].properties.stroke).toBe('#ff0000');
+    expect(exported.features[1].geometry.coordinates).toEqual([14.0, 50.0015, 190]);
+    expect(exported.features[2].geometry.coordinates[0][0]).toEqual([14.1, 50.0, 103]);
+  });
+});
+
+describe('buildGeoJSON', () => {
+  it('should convert GPX data with segments, times and waypoints', () => {
+    const gpx = parseGPX(`<gpx version="1.1">
+      <wpt lat="50.0005" lon="14.0"><name>Spring</name></wpt>
+      <trk><name>Ride</name>
+        <trkseg><trkpt lat="50.0" lon="14.0"><ele>200</ele><time>2025-01-01T10:00:00Z</time></trkpt>
+          <trkpt lat="50.001" lon="14.0"><ele>210</ele><time>2025-01-01T10:00:30Z</time></trkpt></trkseg>
+        <trkseg><trkpt lat="50.002" lon="14.0"><ele>220</ele><time>2025-01-01T10:05:00Z</time></trkpt></trkseg>
+      </trk></gpx>`);
+
+    const data = parseGeoJSON(buildGeoJSON(gpx));
+
+    expect(data.tracks[0].name).toBe('Ride');
+    expect(data.tracks[0].segments).toHaveLength(2);
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 220]);
+    expect(data.trackPoints.map(p => p.time)).toEqual(gpx.trackPoints.map(p => p.time));
+    expect(data.waypoints.map(w => w.name)).toEqual(['Spring']);
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Unit tests for GeoTIFF DEM reading
+ */
+
+import { deflateSync } from 'zlib';
+import { decodeLZW, decodePackBits, parseGeoTIFF } from '../geotiff';
+import { utm } from '../projection';
+
+interface TiffOptions {
+  width: number;
+  height: number;
+  value: (column: number, row: number) => number;
+  sampleFormat?: keyof typeof SAMPLE_FORMATS;
+  compression?: number;
+  predictor?: number;
+  rowsPerStrip?: number;
+  tileSize?: number;
+  nodata?: string;
+  /** EPSG code; geographic for 4326 */
+  epsg?: number;
+  /** Model coordinates of the top-left corner and pixel size */
+  origin?: [number, number];
+  pixelSize?: number;
+  pixelIsPoint?: boolean;
+}
+
+// BitsPerSample and SampleFormat tag values of the supported fixture samples
+const SAMPLE_FORMATS = {
+  uint8: { bits: 8, format: 1 },
+  int16: { bits: 16, format: 2 },
+  int32: { bits: 32, format: 2 },
+  int64: { bits: 64, format: 2 },
+  float32: { bits: 32, format: 3 }
+};
+
+// Writes one little-endian sample; integer differences wrap as in the file
+const writeSample = (view: DataView, index: number, value: number, sampleFormat: TiffOptions['sampleFormat']) => {
+  switch (sampleFormat ?? 'int16') {
+    case 'uint8': view.setUint8(index, value); break;
+    case 'int16': view.setInt16(index * 2, value, true); break;
+    case 'int32': view.setInt32(index * 4, value, true); break;
+    case 'int64': view.setBigInt64(index * 8, BigInt(value), true); break;
+    case 'float32': view.setFloat32(index * 4, value, true); break;
+  }
+};
+
+// Minimal TIFF LZW encoder (MSB-first, early code-width change)
+const encodeLZW = (input: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let width = 9;
+  let dictionary = new Map<string, number>();
+  let nextCode = 258;
+
+  const emit = (code: number) => {
+    buffer = (buffer << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      output.push((buffer >> bits) & 0xff);
+    }
+    buffer &= (1 << bits) - 1;
+  };
+  const codeOf = (text: string) => (text.length === 1 ? text.charCodeAt(0) : dictionary.get(text)!);
+
+  emit(256);
+  let current = String.fromCharCode(input[0]);
+  for (let index = 1; index < input.length; index++) {
+    const joined = current + String.fromCharCode(input[index]);
+    if (dictionary.has(joined)) {
+      current = joined;
+      continue;
+    }
+    emit(codeOf(current));
+    dictionary.set(joined, nextCode++);
+    if (nextCode >= 1 << width) {
+      width++;
+    }
+    if (nextCode === 4093) {
+      emit(256);
+      dictionary = new Map();
+      nextCode = 258;
+      width = 9;
+    }
+    current = String.fromCharCode(input[index]);
+  }
+  emit(codeOf(current));
+  emit(257);
+  if (bits > 0) {
+    output.push((buffer << (8 - bits)) & 0xff);
+  }
+  return new Uint8Array(output);
+};
+
+// PackBits encoder using only literal runs and repeats of equal bytes
+const encodePackBits = (input: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  let index = 0;
+  while (index < input.length) {
+    let run = 1;
+    while (run < 128 && index + run < input.length && input[index + run] === input[index]) run++;
+    if (run > 1) {
+      output.push(257 - run, input[index]);
+      index += run;
+    } else {
+      output.push(0, input[index]);
+      index++;
+    }
+  }
+  return new Uint8Array(output);
+};
+
+// Encodes one strip or tile, applying the predictor and compression
+const encodeBlock = (values: number[], blockWidth: number, options: TiffOptions): Uint8Array => {
+  const bytesPerSample = SAMPLE_FORMATS[options.sampleFormat ?? 'int16'].bits / 8;
+  const rows = values.length / blockWidth;
+  let bytes: Uint8Array = new Uint8Array(values.length * bytesPerSample);
+  const view = new DataView(bytes.buffer);
+
+  if (options.predictor === 3) {
+    // Big-endian byte planes per row, then byte differencing
+    for (let row = 0; row < rows; row++) {
+      const rowBytes = new Uint8Array(blockWidth * 4);
+      const rowView = new DataView(rowBytes.buffer);
+      for (let column = 0; column < blockWidth; column++) {
+        rowView.setFloat32(column * 4, values[row * blockWidth + column], false);
+      }
+      const start = row * blockWidth * 4;
+      for (let column = 0; column < blockWidth; column++) {
+        for (let byte = 0; byte < 4; byte++) {
+          bytes[start + byte * blockWidth + column] = rowBytes[column * 4 + byte];
+        }
+      }
+      for (let index = blockWidth * 4 - 1; index > 0; index--) {
+        bytes[start + index] = (bytes[start + index] - bytes[start + index - 1]) & 0xff;
+      }
+    }
+  } else {
+    values.forEach((value, index) => {
+      const column = index % blockWidth;
+      const stored = options.predictor === 2 && column > 0 ? value - values[index - 1] : value;
+      writeSample(view, index, stored, options.sampleFormat);
+    });
+  }
+
+  switch (options.compression ?? 1) {
+    case 5: bytes = encodeLZW(bytes); break;
+    case 8: bytes = new Uint8Array(deflateSync(bytes)); break;
+    case 32773: bytes = encodePackBits(bytes); break;
+  }
+  return bytes;
+};
+
+// Writes a little-endian classic TIFF with the GeoTIFF tags of the options
+const createGeoTIFF = (options: TiffOptions): ArrayBuffer => {
+  const { width, height, value, tileSize } = options;
+  const blockWidth = tileSize ?? width;
+  const blockHeight = tileSize ?? options.rowsPerStrip ?? height;
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const blocksDown = Math.ceil(height / blockHeight);
+
+  const blocks: Uint8Array[] = [];
+  for (let blockRow = 0; blockRow < blocksDown; blockRow++) {
+    for (let blockColumn = 0; blockColumn < blocksAcross; blockColumn++) {
+      const rows = tileSize ? blockHeight : Math.min(blockHeight, height - blockRow * blockHeight);
+      const values: number[] = [];
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < blockWidth; column++) {
+          const x = blockColumn * blockWidth + column;
+          const y = blockRow * blockHeight + row;
+          values.push(x < width && y < height ? value(x, y) : 0);
+        }
+      }
+      blocks.push(encodeBlock(values, blockWidth, options));
+    }
+  }
+
+  const epsg = options.epsg ?? 4326;
+  const geographic = epsg === 4326;
+  const geoKeys = [
+    1, 1, 0, 3,
+    1024, 0, 1, geographic ? 2 : 1,
+    1025, 0, 1, options.pixelIsPoint ? 2 : 1,
+    geographic ? 2048 : 3072, 0, 1, epsg
+  ];
+  const [originX, originY] = options.origin ?? [14, 51];
+  const pixelSize = options.pixelSize ?? 0.01;
+  const sampleFormat = SAMPLE_FORMATS[options.sampleFormat ?? 'int16'];
+
+  // [tag, type, values]; type 3 SHORT, 4 LONG, 12 DOUBLE, 2 ASCII
+  const entries: Array<[number, number, number[] | string]> = [
+    [256, 4, [width]],
+    [257, 4, [height]],
+    [258, 3, [sampleFormat.bits]],
+    [259, 3, [options.compression ?? 1]],
+    [277, 3, [1]],
+    [317, 3, [options.predictor ?? 1]],
+    [339, 3, [sampleFormat.format]],
+    [33550, 12, [pixelSize, pixelSize, 0]],
+    [33922, 12, [0, 0, 0, originX, originY, 0]],
+    [34735, 3, geoKeys]
+  ];
+  if (tileSize) {
+    entries.push([322, 4, [tileSize]], [323, 4, [tileSize]], [324, 4, []], [325, 4, blocks.map(b => b.length)]);
+  } else {
+    entries.push([273, 4, []], [278, 4, [blockHeight]], [279, 4, blocks.map(b => b.length)]);
+  }
+  if (options.nodata !== undefined) {
+    entries.push([42113, 2, options.nodata]);
+  }
+  entries.sort((a, b) => a[0] - b[0]);
+
+  const typeSize = (type: number) => (type === 12 ? 8 : type === 4 ? 4 : type === 3 ? 2 : 1);
+  const count = (entry: [number, number, number[] | string]) =>
+    typeof entry[2] === 'string' ? entry[2].length + 1 : entry[0] === 273 || entry[0] === 324 ? blocks.length : entry[2].length;
+
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extraSize = 0;
+  entries.forEach(entry => {
+    const size = count(entry) * typeSize(entry[1]);
+    if (size > 4) extraSize += size;
+  });
+  const dataStart = 8 + ifdSize + extraSize;
+  const blockOffsets: number[] = [];
+  let position = dataStart;
+  blocks.forEach(block => {
+    blockOffsets.push(position);
+    position += block.length;
+  });
+
+  const buffer = new ArrayBuffer(position);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+
+  let extraOffset = 8 + ifdSize;
+  entries.forEach((entry, index) => {
+    const [tag, type] = entry;
+    const values = tag === 273 || tag === 324 ? blockOffsets : entry[2];
+    const entryOffset = 10 + index * 12;
+    const size = count(entry) * typeSize(type);
+    const valueOffset = size > 4 ? extraOffset : entryOffset + 8;
+    view.setUint16(entryOffset, tag, true);
+    view.setUint16(entryOffset + 2, type, true);
+    view.setUint32(entryOffset + 4, count(entry), true);
+    if (size > 4) {
+      view.setUint32(entryOffset + 8, extraOffset, true);
+      extraOffset += size;
+    }
+    if (typeof values === 'string') {
+      bytes.set(Array.from(values).map(char => char.charCodeAt(0)), valueOffset);
+      return;
+    }
+    values.forEach((item, itemIndex) => {
+      const offset = valueOffset + itemIndex * typeSize(type);
+      if (type === 12) view.setFloat64(offset, item, true);
+      else if (type === 4) view.setUint32(offset, item, true);
+      else view.setUint16(offset, item, true);
+    });
+  });
+
+  blocks.forEach((block, index) => bytes.set(block, blockOffsets[index]));
+  return buffer;
+};
+
+// Elevation 1000 + row + 2 * column; pixel centres lie half a pixel in from the corner
+const ramp = (column: number, row: number) => 1000 + row + 2 * column;
+const centre = (column: number, row: number): [number, number] => [51 - (row + 0.5) * 0.01, 14 + (column + 0.5) * 0.01];
+
+describe('parseGeoTIFF', () => {
+  it('should describe the raster', () => {
+    const source = parseGeoTIFF(createGeoTIFF({ width: 20, height: 10, value: ramp }), 'dem.tif');
+
+    expect(source.name).toBe('dem.tif');
+    expect(source.description).toBe('GeoTIFF 20×10 EPSG:4326');
+  });
+
+  it('should sample pixel centres exactly and interpolate between them', () => {
+    const source = parseGeoTIFF(createGeoTIFF({ width: 20, height: 10, value: ramp }), 'dem.tif');
+
+    expect(source.sample(...centre(0, 0))).toBeCloseTo(1000, 6);
+    expect(source.sample(...centre(19, 9))).toBeCloseTo(1000 + 9 + 38, 6);
+    expect(source.sample(51 - 0.035, 14 + 0.055)).toBeCloseTo(1000 + 3 + 2 * 5, 6);
+  });
+
+  it('should return null outside the raster', () => {
+    const source = parseGeoTIFF(createGeoTIFF({ width: 20, height: 10, value: ramp }), 'dem.tif');
+
+    expect(source.sample(51.1, 14.1)).toBeNull();
+    expect(source.sample(50.95, 13.9)).toBeNull();
+  });
+
+  it.each([
+    ['Deflate with horizontal predictor', { compression: 8, predictor: 2 }],
+    ['LZW', { compression: 5 }],
+    ['LZW with horizontal predictor', { compression: 5, predictor: 2 }],
+    ['PackBits', { compression: 32773 }],
+    ['multiple strips', { rowsPerStrip: 3 }],
+    ['tiles', { tileSize: 16, compression: 8 }]
+  ])('should decode %s', (_: string, options: Partial<TiffOptions>) => {
+    const source = parseGeoTIFF(createGeoTIFF({ width: 40, height: 30, value: ramp, ...options }), 'dem.tif');
+
+    [[0, 0], [39, 0], [17, 16], [39, 29], [5, 22]].forEach(([column, row]) => {
+      expect(source.sample(...centre(column, row))).toBeCloseTo(ramp(column, row), 6);
+    });
+  });
+
+  it.each([
+    // Falling values make the stored differences wrap around
+    ['8-bit', 'uint8', (column: number, row: number) => 220 - 5 * column + row],
+    ['16-bit', 'int16', ramp],
+    ['32-bit', 'int32', (column: number, row: number) => -70000 + 5000 * column - row],
+    // Crosses 2^32, so the low words carry into the high words
+    ['64-bit', 'int64', (column: number, row: number) => 2 ** 32 - 50 + 7 * column + row]
+  ])('should decode %s integers with the horizontal predictor', (
+    _: string,
+    sampleFormat: TiffOptions['sampleFormat'],
+    value: (column: number, row: number) => number
+  ) => {
+    const source = parseGeoTIFF(
+      createGeoTIFF({ width: 40, height: 30, value, sampleFormat, compression: 8, predictor: 2 }),
+      'dem.tif'
+    );
+
+    [[0, 0], [6, 3], [7, 3], [39, 0], [17, 16], [39, 29]].forEach(([column, row]) => {
+      expect(source.sample(...centre(column, row))).toBeCloseTo(value(column, row), 6);
+    });
+  });
+
+  it('should decode float samples with the floating point predictor', () => {
+    const value = (column: number, row: number) => 250.25 + column * 0.5 - row * 0.125;
+    const source = parseGeoTIFF(
+      createGeoTIFF({ width: 24, height: 12, value, sampleFormat: 'float32', compression: 8, predictor: 3 }),
+      'dem.tif'
+    );
+
+    expect(source.sample(...centre(0, 0))).toBeCloseTo(250.25, 4);
+    expect(source.sample(...centre(23, 11))).toBeCloseTo(value(23, 11), 4);
+  });
+
+  it('should leave nodata pixels out of the interpolation', () => {
+    // 3×3 block of nodata around pixel (5, 5)
+    const value = (column: number, row: number) => (Math.abs(column - 5) <= 1 && Math.abs(row - 5) <= 1 ? -9999 : 500);
+    const source = parseGeoTIFF(createGeoTIFF({ width: 10, height: 10, value, nodata: '-9999' }), 'dem.tif');
+
+    expect(source.sample(...centre(5, 5))).toBeNull();
+    expect(source.sample(...centre(3.7, 5))).toBeCloseTo(500, 6);
+  });
+
+  it('should reproject positions into a UTM raster', () => {
+    // 100 m pixels around 50°N 15°E, elevation = metres south of the top edge / 10
+    const project = utm(33, false);
+    const origin = project(50, 15);
+    const left = Math.floor(origin.x / 100) * 100 - 5000;
+    const top = Math.floor(origin.y / 100) * 100 + 5000;
+    const value = (_: number, row: number) => (row + 0.5) * 10;
+    const source = parseGeoTIFF(
+      createGeoTIFF({
+        width: 100,
+        height: 100,
+        value,
+        sampleFormat: 'float32',
+        epsg: 32633,
+        origin: [left, top],
+        pixelSize: 100
+      }),
+      'utm.tif'
+    );
+
+    expect(source.description).toBe('GeoTIFF 100×100 EPSG:32633');
+    expect(source.sample(50, 15)).toBeCloseTo((top - origin.y) / 10, 6);
+  });
+
+  it('should treat PixelIsPoint rasters as sampled at the tiepoint', () => {
+    const source = parseGeoTIFF(
+      createGeoTIFF({ width: 20, height: 10, value: ramp, pixelIsPoint: true }),
+      'dem.tif'
+    );
+
+    expect(source.sample(51, 14)).toBeCloseTo(1000, 6);
+    expect(source.sample(50.99, 14.01)).toBeCloseTo(1003, 6);
+  });
+
+  it('should reject files that are not GeoTIFFs', () => {
+    expect(() => parseGeoTIFF(new ArrayBuffer(64), 'dem.tif')).toThrow('Invalid GeoTIFF file: No TIFF header found');
+  });
+
+  it('should reject unsupported reference systems and compressions', () => {
+    expect(() => parseGeoTIFF(createGeoTIFF({ width: 4, height: 4, value: ramp, epsg: 3857 }), 'dem.tif'))
+      .toThrow('Unsupported coordinate reference system EPSG:3857');
+
+    const jpeg = parseGeoTIFF(createGeoTIFF({ width: 4, height: 4, value: ramp, compression: 7 }), 'dem.tif');
+    expect(() => jpeg.sample(...centre(1, 1))).toThrow('Invalid GeoTIFF file: Unsupported compression 7');
+  });
+});
+
+describe('decodeLZW', () => {
+  it('should round-trip repetitive data across code width changes', () => {
+    const input = new Uint8Array(20000).map((_, index) => ((index * 7) % 251) ^ (index >> 6));
+
+    expect(decodeLZW(encodeLZW(input), input.length)).toEqual(input);
+  });
+});
+
+describe('decodePackBits', () => {
+  it('should expand literal and repeated runs', () => {
+    const encoded = new Uint8Array([0xfe, 0xaa, 0x02, 0x80, 0x00, 0x2a, 0xfd, 0xaa]);
+
+    expect(Array.from(decodePackBits(encoded, 10))).toEqual([0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0xaa, 0xaa, 0xaa, 0xaa]);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Unit tests for GPX parsing and export
+ */
+
+import { parseGPX, exportGPX, buildGPX } from '../gpx-parser';
+
+const wrapGPX = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+${body}
+</gpx>`;
+
+const TRACK_GPX = wrapGPX(`
+  <trk>
+    <name>Morning ride</name>
+    <trkseg>
+      <trkpt lat="50.0" lon="14.0"><ele>200</ele><time>2025-01-01T10:00:00Z</time></trkpt>
+      <trkpt lat="50.001" lon="14.0"><ele>210</ele><time>2025-01-01T10:00:30Z</time></trkpt>
+      <trkpt lat="50.002" lon="14.0"><ele>205</ele><time>2025-01-01T10:01:00Z</time></trkpt>
+    </trkseg>
+  </trk>`);
+
+const ROUTE_GPX = wrapGPX(`
+  <wpt lat="50.0005" lon="14.0"><ele>250</ele><name>Viewpoint</name></wpt>
+  <wpt lat="50.0015" lon="14.0"><name>Spring</name></wpt>
+  <rte>
+    <name>Planned loop</name>
+    <rtept lat="50.0" lon="14.0"><ele>300</ele></rtept>
+    <rtept lat="50.001" lon="14.0"><ele>320</ele></rtept>
+    <rtept lat="50.002" lon="14.0"><ele>310</ele></rtept>
+  </rte>`);
+
+const MULTI_TRACK_GPX = wrapGPX(`
+  <trk>
+    <name>Outbound</name>
+    <trkseg>
+      <trkpt lat="50.0" lon="14.0"><ele>200</ele></trkpt>
+      <trkpt lat="50.001" lon="14.0"><ele>210</ele></trkpt>
+    </trkseg>
+    <trkseg>
+      <trkpt lat="50.01" lon="14.0"><ele>260</ele></trkpt>
+      <trkpt lat="50.011" lon="14.0"><ele>265</ele></trkpt>
+    </trkseg>
+  </trk>
+  <trk>
+    <name>Return</name>
+    <trkseg>
+      <trkpt lat="50.011" lon="14.0"><ele>265</ele></trkpt>
+      <trkpt lat="50.012" lon="14.0"><ele>255</ele></trkpt>
+    </trkseg>
+  </trk>`);
+const SENSOR_GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <trk>
+    <trkseg>
+      <trkpt lat="50.0" lon="14.0"><ele>200</ele><extensions><power>0250</power><gpxtpx:TrackPointExtension><gpxtpx:atemp>20.0</gpxtpx:atemp><gpxtpx:hr>093</gpxtpx:hr><gpxtpx:cad>85</gpxtpx:cad></gpxtpx:TrackPointExtension></extensions></trkpt>
+      <trkpt lat="50.001" lon="14.0"><ele>210</ele></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('parseGPX', () => {
+  it('should parse track points with cumulative distance', () => {
+    const data = parseGPX(TRACK_GPX);
+
+    expect(data.source).toBe('track');
+    expect(data.name).toBe('Morning ride');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 205]);
+    expect(data.trackPoints[0].distance).toBe(0);
+    expect(data.trackPoints[2].distance).toBeCloseTo(222.4, 0);
+    expect(data.totalDistance).toBeCloseTo(222.4, 0);
+    expect(data.elevationGain).toBe(10);
+    expect(data.elevationLoss).toBe(5);
+  });
+
+  it('should throw when the root element is missing', () => {
+    expect(() => parseGPX('<kml></kml>')).toThrow('No GPX root element found');
+  });
+
+  it('should throw when there is neither track nor route data', () => {
+    expect(() => parseGPX(wrapGPX('<wpt lat="1" lon="2"></wpt>'))).toThrow('No track or route data found');
+  });
+
+  it('should use route points when the file has no tracks', () => {
+    const data = parseGPX(ROUTE_GPX);
+
+    expect(data.source).toBe('route');
+    expect(data.name).toBe('Planned loop');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([300, 320, 310]);
+    expect(data.trackPoints.map(p => p.originalIndex)).toEqual([0, 1, 2]);
+  });
+
+  it('should parse routes and waypoints', () => {
+    const data = parseGPX(ROUTE_GPX);
+
+    expect(data.routes).toHaveLength(1);
+    expect(data.routes[0].name).toBe('Planned loop');
+    expect(data.routes[0].points).toHaveLength(3);
+    expect(data.routes[0].totalDistance).toBeCloseTo(222.4, 0);
+
+    expect(data.waypoints).toEqual([
+      { lat: 50.0005, lon: 14, ele: 250, name: 'Viewpoint', time: undefined },
+      { lat: 50.0015, lon: 14, ele: undefined, name: 'Spring', time: undefined }
+    ]);
+  });
+
+  it('should edit routes as further tracks when the file also has tracks', () => {
+    const data = parseGPX(TRACK_GPX.replace('</gpx>', '<rte><rtept lat="1" lon="1"><ele>5</ele></rtept></rte></gpx>'));
+
+    expect(data.source).toBe('track');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 205, 5]);
+    expect(data.tracks.map(t => [t.startIndex, t.endIndex, t.source])).toEqual([[0, 2, undefined], [3, 3, 'route']]);
+    expect(data.trackPoints[3].distance).toBe(0);
+    expect(data.routes).toHaveLength(1);
+  });
+});
+
+describe('parseGPX sensor extensions', () => {
+  it('should read heart rate, cadence, temperature and power', () => {
+    const [first, second] = parseGPX(SENSOR_GPX).trackPoints;
+
+    expect(first).toMatchObject({ heartRate: 93, cadence: 85, temperature: 20, power: 250 });
+    expect(Object.keys(second)).not.toContain('heartRate');
+  });
+
+  it('should read extensions under any namespace prefix', () => {
+    const data = parseGPX(wrapGPX(`<trk><trkseg><trkpt lat="50" lon="14"><extensions>
+      <ns3:TrackPointExtension><ns3:hr>150</ns3:hr></ns3:TrackPointExtension>
+      <gpxpx:PowerExtension><gpxpx:PowerInWatts>310</gpxpx:PowerInWatts></gpxpx:PowerExtension>
+    </extensions></trkpt></trkseg></trk>`));
+
+    expect(data.trackPoints[0]).toMatchObject({ heartRate: 150, power: 310 });
+  });
+});
+
+describe('parseGPX tracks and segments', () => {
+  it('should expose tracks and segments as index ranges', () => {
+    const data = parseGPX(MULTI_TRACK_GPX);
+
+    expect(data.trackPoints).toHaveLength(6);
+    expect(data.tracks).toEqual([
+      {
+        name: 'Outbound',
+        startIndex: 0,
+        endIndex: 3,
+        totalDistance: expect.any(Number),
+        segments: [
+          { startIndex: 0, endIndex: 1 },
+          { startIndex: 2, endIndex: 3 }
+        ]
+      },
+      {
+        name: 'Return',
+        startIndex: 4,
+        endIndex: 5,
+        totalDistance: expect.any(Number),
+        segments: [{ startIndex: 4, endIndex: 5 }]
+      }
+    ]);
+  });
+
+  it('should not accumulate distance or elevation across segment breaks by default', () => {
+    const data = parseGPX(MULTI_TRACK_GPX);
+
+    // Segment break between index 1 and 2 adds no distance
+    expect(data.trackPoints[2].distance).toBe(data.trackPoints[1].distance);
+    expect(data.tracks[0].totalDistance).toBeCloseTo(222.4, 0);
+    expect(data.elevationGain).toBe(15);
+  });
+
+  it('should count segment gaps when configured', () => {
+    const data = parseGPX(MULTI_TRACK_GPX, { countSegmentGaps: true });
+
+    expect(data.trackPoints[2].distance! - data.trackPoints[1].distance!).toBeCloseTo(1000.8, 0);
+    expect(data.tracks[0].totalDistance).toBeCloseTo(1223.2, 0);
+    expect(data.elevationGain).toBe(65);
+  });
+
+  it('should restart distance for every track', () => {
+    const data = parseGPX(MULTI_TRACK_GPX);
+
+    expect(data.trackPoints[4].distance).toBe(0);
+    expect(data.tracks[1].totalDistance).toBeCloseTo(111.2, 0);
+    expect(data.totalDistance).toBeCloseTo(data.tracks[0].totalDistance + data.tracks[1].totalDistance);
+  });
+
+  it('should skip empty segments', () => {
+    const data = parseGPX(TRACK_GPX.replace('<trkseg>', '<trkseg></trkseg><trkseg>'));
+
+    expect(data.tracks[0].segments).toEqual([{ startIndex: 0, endIndex: 2 }]);
+  });
+});
+
+describe('exportGPX', () => {
+  it('should write edited track elevations back', () => {
+    const data = parseGPX(TRACK_GPX);
+    data.trackPoints[1] = { ...data.trackPoints[1], ele: 215.5 };
+
+    const reparsed = parseGPX(exportGPX(data, TRACK_GPX));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([200, 215.5, 205]);
+    expect(reparsed.trackPoints[0].time).toBe('2025-01-01T10:00:00Z');
+  });
+
+  it('should write elevations back across tracks and segments', () => {
+    const data = parseGPX(MULTI_TRACK_GPX);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: index }));
+
+    const reparsed = parseGPX(exportGPX(data, MULTI_TRACK_GPX));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(reparsed.tracks.map(t => t.segments.length)).toEqual([2, 1]);
+  });
+
+  it('should preserve extension values exactly', () => {
+    const data = parseGPX(SENSOR_GPX);
+    data.trackPoints[0] = { ...data.trackPoints[0], ele: 201 };
+
+    const exported = exportGPX(data, SENSOR_GPX);
+
+    expect(exported).toContain('<power>0250</power>');
+    expect(exported).toContain('<gpxtpx:atemp>20.0</gpxtpx:atemp>');
+    expect(exported).toContain('<gpxtpx:hr>093</gpxtpx:hr>');
+    expect(parseGPX(exported).trackPoints[0].ele).toBe(201);
+  });
+
+  it('should write route elevations back in files that also have tracks', () => {
+    const content = MULTI_TRACK_GPX.replace('</gpx>', ROUTE_GPX.slice(ROUTE_GPX.indexOf('<rte>')));
+    const data = parseGPX(content);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: index }));
+
+    const reparsed = parseGPX(exportGPX(data, content));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(reparsed.routes[0].points.map(p => p.ele)).toEqual([6, 7, 8]);
+  });
+
+  it('should write edited route elevations back and preserve waypoints', () => {
+    const data = parseGPX(ROUTE_GPX);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: point.ele + 1 }));
+
+    const reparsed = parseGPX(exportGPX(data, ROUTE_GPX));
+
+    expect(reparsed.source).toBe('route');
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([301, 321, 311]);
+    expect(reparsed.waypoints.map(w => w.name)).toEqual(['Viewpoint', 'Spring']);
+  });
+});
+
+describe('buildGPX', () => {
+  it('should write tracks, segments, times and waypoints', () => {
+    const data = parseGPX(MULTI_TRACK_GPX);
+    data.waypoints = [{ lat: 50.0005, lon: 14, name: 'Spring & well' }];
+
+    const reparsed = parseGPX(buildGPX(data));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual(data.trackPoints.map(p => p.ele));
+    expect(reparsed.tracks.map(t => t.name)).toEqual(['Outbound', 'Return']);
+    expect(reparsed.tracks.map(t => t.segments.length)).toEqual([2, 1]);
+    expect(reparsed.waypoints[0].name).toBe('Spring & well');
+    expect(parseGPX(buildGPX(parseGPX(TRACK_GPX))).trackPoints[2].time).toBe('2025-01-01T10:01:00Z');
+  });
+
+  it('should write sensor readings as TrackPointExtension data', () => {
+    const [first, second] = parseGPX(buildGPX(parseGPX(SENSOR_GPX))).trackPoints;
+
+    expect(first).toMatchObject({ heartRate: 93, cadence: 85, temperature: 20, power: 250 });
+    expect(Object.keys(second)).not.toContain('power');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for SRTM tile reading
+ */
+
+import { parseHGT, parseHGTFilename } from '../hgt';
+
+const SIZE = 1201;
+
+// 3″ tile whose elevation is 1000 + row + 2 * column, with one void cell
+const createTile = (): ArrayBuffer => {
+  const buffer = new ArrayBuffer(SIZE * SIZE * 2);
+  const view = new DataView(buffer);
+  for (let row = 0; row < SIZE; row++) {
+    for (let column = 0; column < SIZE; column++) {
+      view.setInt16((row * SIZE + column) * 2, 1000 + row + 2 * column, false);
+    }
+  }
+  view.setInt16((600 * SIZE + 600) * 2, -32768, false);
+  return buffer;
+};
+
+describe('parseHGTFilename', () => {
+  it('should read the south-west corner', () => {
+    expect(parseHGTFilename('N50E014.hgt')).toEqual({ lat: 50, lon: 14 });
+    expect(parseHGTFilename('tiles/S12W077.HGT')).toEqual({ lat: -12, lon: -77 });
+    expect(parseHGTFilename('dem.hgt')).toBeNull();
+  });
+});
+
+describe('parseHGT', () => {
+  const tile = parseHGT(createTile(), 'N50E014.hgt');
+
+  it('should describe the tile', () => {
+    expect(tile.description).toBe('SRTM 3″ N50E014');
+  });
+
+  it('should sample grid nodes exactly, north row first', () => {
+    expect(tile.sample(51, 14)).toBe(1000);
+    expect(tile.sample(50, 14)).toBe(1000 + 1200);
+    expect(tile.sample(51, 15)).toBe(1000 + 2400);
+  });
+
+  it('should interpolate bilinearly between nodes', () => {
+    // Half a cell east and a quarter cell south of the node at row 10, column 20
+    const lat = 51 - (10 + 0.25) / 1200;
+    const lon = 14 + (20 + 0.5) / 1200;
+
+    expect(tile.sample(lat, lon)).toBeCloseTo(1000 + 10.25 + 2 * 20.5, 6);
+  });
+
+  it('should leave void cells out of the interpolation', () => {
+    const lat = 51 - 600.5 / 1200;
+    const lon = 14 + 600.5 / 1200;
+
+    // Mean of the three valid neighbours, weighted equally at the cell centre
+    expect(tile.sample(lat, lon)).toBeCloseTo(((1000 + 600 + 1202) + (1000 + 601 + 1200) + (1000 + 601 + 1202)) / 3, 6);
+    expect(tile.sample(51 - 600 / 1200, 14 + 600 / 1200)).toBeNull();
+  });
+
+  it('should return null outside the tile', () => {
+    expect(tile.sample(49.99, 14.5)).toBeNull();
+    expect(tile.sample(50.5, 15.01)).toBeNull();
+  });
+
+  it('should reject files with an unexpected size or name', () => {
+    expect(() => parseHGT(new ArrayBuffer(100), 'N50E014.hgt')).toThrow('Unexpected file size');
+    expect(() => parseHGT(createTile(), 'terrain.hgt')).toThrow('Cannot read the tile position');
+  });
+});
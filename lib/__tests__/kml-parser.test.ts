@@ -0,0 +1,199 @@
+/**
+ * Unit tests for KML/KMZ parsing and export
+ */
+
+import { deflateRawSync } from 'zlib';
+import { parseKML, exportKML, buildKML, parseKMZ, exportKMZ, buildKMZ } from '../kml-parser';
+import { parseGPX } from '../gpx-parser';
+import { createZipEntry, extractZipEntry, readZipEntries, writeZip, calculateCrc32 } from '../zip';
+
+const wrapKML = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>Survey</name>
+${body}
+  </Document>
+</kml>`;
+
+const LINE_KML = wrapKML(`
+    <Style id="red"><LineStyle><color>ff0000ff</color></LineStyle></Style>
+    <Placemark>
+      <name>Ridge</name>
+      <styleUrl>#red</styleUrl>
+      <LineString>
+        <coordinates>
+          14.0,50.0,200 14.0,50.001,210
+          14.0,50.002,205
+        </coordinates>
+      </LineString>
+    </Placemark>
+    <Folder>
+      <Placemark>
+        <name>Spring</name>
+        <Point><coordinates>14.0,50.0015,190</coordinates></Point>
+      </Placemark>
+      <Placemark>
+        <name>Valley</name>
+        <MultiGeometry>
+          <LineString><coordinates>14.1,50.0 14.1,50.001</coordinates></LineString>
+          <LineString><coordinates>14.1,50.01,120 14.1,50.011,125</coordinates></LineString>
+        </MultiGeometry>
+      </Placemark>
+    </Folder>`);
+
+const TRACK_KML = wrapKML(`
+    <Placemark>
+      <name>Recorded</name>
+      <gx:Track>
+        <when>2025-01-01T10:00:00Z</when>
+        <when>2025-01-01T10:00:30Z</when>
+        <gx:coord>14.0 50.0 200</gx:coord>
+        <gx:coord>14.0 50.001 210</gx:coord>
+      </gx:Track>
+    </Placemark>`);
+
+describe('parseKML', () => {
+  it('should parse LineString placemarks as tracks', () => {
+    const data = parseKML(LINE_KML);
+
+    expect(data.name).toBe('Survey');
+    expect(data.tracks.map(t => t.name)).toEqual(['Ridge', 'Valley']);
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 205, 0, 0, 120, 125]);
+    expect(data.trackPoints[2].distance).toBeCloseTo(222.4, 0);
+    expect(data.trackPoints[3].distance).toBe(0);
+  });
+
+  it('should turn MultiGeometry lines into segments', () => {
+    const data = parseKML(LINE_KML);
+
+    expect(data.tracks[1].segments).toEqual([
+      { startIndex: 3, endIndex: 4 },
+      { startIndex: 5, endIndex: 6 }
+    ]);
+  });
+
+  it('should parse point placemarks as waypoints', () => {
+    expect(parseKML(LINE_KML).waypoints).toEqual([
+      { lat: 50.0015, lon: 14, ele: 190, name: 'Spring', time: undefined }
+    ]);
+  });
+
+  it('should parse gx:Track with timestamps', () => {
+    const data = parseKML(TRACK_KML);
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210]);
+    expect(data.trackPoints.map(p => p.time)).toEqual(['2025-01-01T10:00:00Z', '2025-01-01T10:00:30Z']);
+    expect(data.trackPoints[1].lat).toBe(50.001);
+  });
+
+  it('should throw without line data', () => {
+    expect(() => parseKML('<gpx></gpx>')).toThrow('No kml root element found');
+    expect(() => parseKML(wrapKML('<Placemark><Point><coordinates>1,2</coordinates></Point></Placemark>')))
+      .toThrow('No LineString or gx:Track data found');
+  });
+});
+
+describe('exportKML', () => {
+  it('should write altitudes and keep coordinates, styles and names', () => {
+    const data = parseKML(LINE_KML);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: 100 + index }));
+
+    const exported = exportKML(data, LINE_KML);
+    const reparsed = parseKML(exported);
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([100, 101, 102, 103, 104, 105, 106]);
+    expect(reparsed.tracks[1].segments).toHaveLength(2);
+    expect(exported).toContain('14.0,50.001,101.00');
+    expect(exported).toContain('<color>ff0000ff</color>');
+    expect(exported).toContain('<styleUrl>#red</styleUrl>');
+    expect(exported.match(/<\?xml/g)).toHaveLength(1);
+  });
+
+  it('should write altitudes into gx:Track coordinates', () => {
+    const data = parseKML(TRACK_KML);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: point.ele - 5 }));
+
+    const reparsed = parseKML(exportKML(data, TRACK_KML));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([195, 205]);
+    expect(reparsed.trackPoints[1].time).toBe('2025-01-01T10:00:30Z');
+  });
+});
+
+describe('buildKML', () => {
+  it('should convert GPX data with times to gx:Track', () => {
+    const gpx = parseGPX(`<gpx version="1.1"><trk><name>Ride</name><trkseg>
+      <trkpt lat="50.0" lon="14.0"><ele>200</ele><time>2025-01-01T10:00:00Z</time></trkpt>
+      <trkpt lat="50.001" lon="14.0"><ele>210.5</ele><time>2025-01-01T10:00:30Z</time></trkpt>
+    </trkseg></trk></gpx>`);
+
+    const kml = buildKML(gpx);
+    const data = parseKML(kml);
+
+    expect(kml).toContain('<gx:Track>');
+    expect(data.tracks.map(t => t.name)).toEqual(['Ride']);
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210.5]);
+    expect(data.trackPoints.map(p => p.time)).toEqual(['2025-01-01T10:00:00Z', '2025-01-01T10:00:30Z']);
+  });
+
+  it('should keep segments and waypoints when converting', () => {
+    const source = parseKML(LINE_KML);
+    const data = parseKML(buildKML(source));
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual(source.trackPoints.map(p => p.ele));
+    expect(data.tracks.map(t => t.segments.length)).toEqual([1, 2]);
+    expect(data.waypoints.map(w => w.name)).toEqual(['Spring']);
+  });
+});
+
+describe('KMZ', () => {
+  const icon = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+  // KMZ with a deflated document and a stored icon, like Google Earth writes
+  const createKMZ = (kml: string) => {
+    const kmlBytes = new TextEncoder().encode(kml);
+    return writeZip([
+      {
+        name: 'doc.kml',
+        method: 8,
+        crc32: calculateCrc32(kmlBytes),
+        uncompressedSize: kmlBytes.length,
+        modTime: 0,
+        modDate: 0x0021,
+        data: new Uint8Array(deflateRawSync(kmlBytes))
+      },
+      createZipEntry('files/icon.png', icon)
+    ]);
+  };
+
+  it('should parse the zipped KML document', () => {
+    const data = parseKMZ(createKMZ(LINE_KML));
+
+    expect(data.name).toBe('Survey');
+    expect(data.trackPoints).toHaveLength(7);
+  });
+
+  it('should export into the archive and keep other files', () => {
+    const kmz = createKMZ(TRACK_KML);
+    const data = parseKMZ(kmz.slice().buffer);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: 300 }));
+
+    const exported = exportKMZ(data, kmz);
+    const entries = readZipEntries(exported);
+
+    expect(entries.map(e => e.name)).toEqual(['doc.kml', 'files/icon.png']);
+    expect(Array.from(extractZipEntry(entries[1]))).toEqual(Array.from(icon));
+    expect(parseKMZ(exported).trackPoints.map(p => p.ele)).toEqual([300, 300]);
+  });
+
+  it('should build a new KMZ archive', () => {
+    const data = parseKMZ(buildKMZ(parseKML(TRACK_KML)));
+
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210]);
+  });
+
+  it('should throw when the archive has no KML document', () => {
+    expect(() => parseKMZ(writeZip([createZipEntry('readme.txt', icon)]))).toThrow('No KML document found');
+  });
+});
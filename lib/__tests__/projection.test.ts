@@ -0,0 +1,70 @@
+/**
+ * Unit tests for coordinate reprojection
+ */
+
+import { getProjection, krovak, utm } from '../projection';
+
+describe('utm', () => {
+  const zone33 = utm(33, false);
+
+  it('should project the central meridian onto the false easting', () => {
+    const { x, y } = zone33(45, 15);
+
+    expect(x).toBeCloseTo(500000, 3);
+    expect(y).toBeCloseTo(4982950.4, 1);
+  });
+
+  it('should stay accurate up to the pole', () => {
+    // Scaled meridian quadrant
+    expect(zone33(90, 15).y).toBeCloseTo(9997964.94, 1);
+  });
+
+  it('should be symmetric around the central meridian', () => {
+    const west = zone33(50, 14);
+    const east = zone33(50, 16);
+
+    expect(west.x + east.x).toBeCloseTo(1000000, 3);
+    expect(west.y).toBeCloseTo(east.y, 3);
+  });
+
+  it('should add the false northing in the southern hemisphere', () => {
+    expect(utm(33, true)(-45, 15).y).toBeCloseTo(10000000 - 4982950.4, 1);
+  });
+});
+
+describe('krovak', () => {
+  it('should match the EPSG guidance note example', () => {
+    // 50°12'32.442"N 16°50'59.179"E on S-JTSK
+    const { southing, westing } = krovak(50 + 12 / 60 + 32.442 / 3600, 16 + 50 / 60 + 59.179 / 3600);
+
+    expect(southing).toBeCloseTo(1050538.63, 1);
+    expect(westing).toBeCloseTo(568991.0, 1);
+  });
+});
+
+describe('getProjection', () => {
+  it('should keep geographic coordinates as longitude and latitude', () => {
+    expect(getProjection(4326)(50, 14)).toEqual({ x: 14, y: 50 });
+  });
+
+  it('should select the UTM zone from the EPSG code', () => {
+    expect(getProjection(32633)(45, 15)).toEqual(utm(33, false)(45, 15));
+    expect(getProjection(25833)(45, 15)).toEqual(utm(33, false)(45, 15));
+    expect(getProjection(32733)(-45, 15)).toEqual(utm(33, true)(-45, 15));
+  });
+
+  it('should project into S-JTSK / Krovak East North', () => {
+    // Prague Old Town Square lies around X -742 800, Y -1 043 000
+    const { x, y } = getProjection(5514)(50.0875, 14.4213);
+
+    expect(x).toBeGreaterThan(-743000);
+    expect(x).toBeLessThan(-742600);
+    expect(y).toBeGreaterThan(-1043200);
+    expect(y).toBeLessThan(-1042800);
+    expect(getProjection(2065)(50.0875, 14.4213)).toEqual({ x: -x, y: -y });
+  });
+
+  it('should reject unsupported reference systems', () => {
+    expect(() => getProjection(3857)).toThrow('Unsupported coordinate reference system EPSG:3857');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for TCX parsing and export
+ */
+
+import { parseTCX, exportTCX } from '../tcx-parser';
+
+const wrapTCX = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+${body}
+</TrainingCenterDatabase>`;
+
+const trackpoint = (time: string, lat: number, ele: number, distance: number, hr: number) => `
+          <Trackpoint>
+            <Time>${time}</Time>
+            <Position><LatitudeDegrees>${lat.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>14.0000000</LongitudeDegrees></Position>
+            <AltitudeMeters>${ele}</AltitudeMeters>
+            <DistanceMeters>${distance}</DistanceMeters>
+            <HeartRateBpm><Value>${hr}</Value></HeartRateBpm>
+          </Trackpoint>`;
+
+const ACTIVITY_TCX = wrapTCX(`
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2025-01-01T10:00:00Z</Id>
+      <Lap StartTime="2025-01-01T10:00:00Z">
+        <TotalTimeSeconds>60.0</TotalTimeSeconds>
+        <DistanceMeters>230.0</DistanceMeters>
+        <Track>${trackpoint('2025-01-01T10:00:00Z', 50.0, 200, 0, 120)}${trackpoint('2025-01-01T10:00:30Z', 50.001, 210, 115.5, 130)}
+          <Trackpoint>
+            <Time>2025-01-01T10:00:45Z</Time>
+            <HeartRateBpm><Value>132</Value></HeartRateBpm>
+          </Trackpoint>
+        </Track>
+      </Lap>
+      <Lap StartTime="2025-01-01T10:01:00Z">
+        <TotalTimeSeconds>30.0</TotalTimeSeconds>
+        <Track>${trackpoint('2025-01-01T10:01:00Z', 50.002, 205, 230, 135)}</Track>
+        <Track>${trackpoint('2025-01-01T10:05:00Z', 50.003, 215, 345, 110)}</Track>
+      </Lap>
+    </Activity>
+  </Activities>`);
+
+const COURSE_TCX = wrapTCX(`
+  <Courses>
+    <Course>
+      <Name>Planned loop</Name>
+      <Track>
+        <Trackpoint>
+          <Time>2025-01-01T10:00:00Z</Time>
+          <Position><LatitudeDegrees>50.0</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position>
+          <DistanceMeters>0</DistanceMeters>
+        </Trackpoint>
+        <Trackpoint>
+          <Time>2025-01-01T10:01:00Z</Time>
+          <Position><LatitudeDegrees>50.001</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position>
+          <AltitudeMeters>320</AltitudeMeters>
+        </Trackpoint>
+      </Track>
+      <CoursePoint>
+        <Name>Summit</Name>
+        <Time>2025-01-01T10:01:00Z</Time>
+        <Position><LatitudeDegrees>50.001</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position>
+        <PointType>Summit</PointType>
+      </CoursePoint>
+    </Course>
+  </Courses>`);
+
+describe('parseTCX', () => {
+  it('should parse trackpoints with recorded distance and time', () => {
+    const data = parseTCX(ACTIVITY_TCX);
+
+    expect(data.source).toBe('track');
+    expect(data.name).toBe('2025-01-01T10:00:00Z');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([200, 210, 205, 215]);
+    expect(data.trackPoints.map(p => p.time)).toEqual([
+      '2025-01-01T10:00:00Z',
+      '2025-01-01T10:00:30Z',
+      '2025-01-01T10:01:00Z',
+      '2025-01-01T10:05:00Z'
+    ]);
+    expect(data.trackPoints.slice(0, 3).map(p => p.distance)).toEqual([0, 115.5, 230]);
+    expect(data.trackPoints.map(p => p.originalIndex)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should read heart rate, cadence and power', () => {
+    const data = parseTCX(wrapTCX(`
+      <Activities><Activity Sport="Biking"><Lap><Track>
+        <Trackpoint>
+          <Position><LatitudeDegrees>50.0</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position>
+          <HeartRateBpm><Value>141</Value></HeartRateBpm>
+          <Cadence>87</Cadence>
+          <Extensions><ns3:TPX xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"><ns3:Watts>230</ns3:Watts></ns3:TPX></Extensions>
+        </Trackpoint>
+      </Track></Lap></Activity></Activities>`));
+
+    expect(parseTCX(ACTIVITY_TCX).trackPoints.map(p => p.heartRate)).toEqual([120, 130, 135, 110]);
+    expect(data.trackPoints[0]).toMatchObject({ heartRate: 141, cadence: 87, power: 230 });
+  });
+
+  it('should skip trackpoints without a position', () => {
+    const data = parseTCX(ACTIVITY_TCX);
+
+    expect(data.trackPoints).toHaveLength(4);
+  });
+
+  it('should continue segments across laps and split them at extra tracks', () => {
+    const data = parseTCX(ACTIVITY_TCX);
+
+    expect(data.tracks).toHaveLength(1);
+    expect(data.tracks[0].segments).toEqual([
+      { startIndex: 0, endIndex: 2 },
+      { startIndex: 3, endIndex: 3 }
+    ]);
+    // The pause between the tracks adds no distance by default
+    expect(data.trackPoints[3].distance).toBe(230);
+    expect(parseTCX(ACTIVITY_TCX, { countSegmentGaps: true }).trackPoints[3].distance).toBe(345);
+  });
+
+  it('should fall back to straight-line distance and use courses as routes', () => {
+    const data = parseTCX(COURSE_TCX);
+
+    expect(data.source).toBe('route');
+    expect(data.name).toBe('Planned loop');
+    expect(data.trackPoints.map(p => p.ele)).toEqual([0, 320]);
+    expect(data.trackPoints[1].distance).toBeCloseTo(111.2, 0);
+    expect(data.waypoints).toEqual([
+      { lat: 50.001, lon: 14, ele: undefined, name: 'Summit', time: '2025-01-01T10:01:00Z' }
+    ]);
+  });
+
+  it('should throw when the root element is missing', () => {
+    expect(() => parseTCX('<gpx></gpx>')).toThrow('No TrainingCenterDatabase root element found');
+  });
+
+  it('should throw when there is neither activity nor course data', () => {
+    expect(() => parseTCX(wrapTCX('<Activities></Activities>'))).toThrow('No activity or course data found');
+  });
+});
+
+describe('exportTCX', () => {
+  it('should write edited altitudes back', () => {
+    const data = parseTCX(ACTIVITY_TCX);
+    data.trackPoints = data.trackPoints.map((point, index) => ({ ...point, ele: 300 + index }));
+
+    const reparsed = parseTCX(exportTCX(data, ACTIVITY_TCX));
+
+    expect(reparsed.trackPoints.map(p => p.ele)).toEqual([300, 301, 302, 303]);
+    expect(reparsed.trackPoints.map(p => p.distance)).toEqual(data.trackPoints.map(p => p.distance));
+  });
+
+  it('should preserve laps, heart rate and original values', () => {
+    const exported = exportTCX(parseTCX(ACTIVITY_TCX), ACTIVITY_TCX);
+
+    expect(exported.match(/<Lap /g)).toHaveLength(2);
+    expect(exported.match(/<HeartRateBpm>/g)).toHaveLength(5);
+    expect(exported).toContain('<TotalTimeSeconds>60.0</TotalTimeSeconds>');
+    expect(exported).toContain('<LatitudeDegrees>50.0010000</LatitudeDegrees>');
+    expect(exported).toContain('<AltitudeMeters>210.00</AltitudeMeters>');
+    expect(exported.match(/<\?xml/g)).toHaveLength(1);
+  });
+
+  it('should add missing altitudes right after the position', () => {
+    const data = parseTCX(COURSE_TCX);
+    data.trackPoints = data.trackPoints.map(point => ({ ...point, ele: 330 }));
+
+    const exported = exportTCX(data, COURSE_TCX);
+
+    expect(parseTCX(exported).trackPoints.map(p => p.ele)).toEqual([330, 330]);
+    expect(exported.indexOf('<AltitudeMeters>')).toBeGreaterThan(exported.indexOf('</Position>'));
+    expect(exported.indexOf('<AltitudeMeters>')).toBeLessThan(exported.indexOf('<DistanceMeters>'));
+  });
+});
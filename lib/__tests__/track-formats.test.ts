@@ -0,0 +1,71 @@
+/**
+ * Unit tests for file format detection and dispatch
+ */
+
+import {
+  ACCEPTED_FILE_TYPES,
+  CONVERSION_FORMATS,
+  getTrackFileFormat,
+  parseTrackFile,
+  exportTrackFile,
+  convertTrackFile
+} from '../track-formats';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test">
+  <trk><trkseg>
+    <trkpt lat="50.0" lon="14.0"><ele>200</ele></trkpt>
+    <trkpt lat="50.001" lon="14.0"><ele>210</ele></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase>
+  <Activities><Activity><Id>ride</Id><Lap><Track>
+    <Trackpoint><Position><LatitudeDegrees>50.0</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position><AltitudeMeters>200</AltitudeMeters></Trackpoint>
+    <Trackpoint><Position><LatitudeDegrees>50.001</LatitudeDegrees><LongitudeDegrees>14.0</LongitudeDegrees></Position><AltitudeMeters>210</AltitudeMeters></Trackpoint>
+  </Track></Lap></Activity></Activities>
+</TrainingCenterDatabase>`;
+
+describe('getTrackFileFormat', () => {
+  it('should detect formats case-insensitively', () => {
+    expect(getTrackFileFormat('ride.gpx')).toBe('gpx');
+    expect(getTrackFileFormat('RIDE.TCX')).toBe('tcx');
+    expect(getTrackFileFormat('notes.txt')).toBeNull();
+    expect(getTrackFileFormat('activity.fit')).toBe('fit');
+    expect(getTrackFileFormat('survey.GeoJSON')).toBe('geojson');
+    expect(ACCEPTED_FILE_TYPES).toBe('.gpx,.tcx,.fit,.kml,.kmz,.geojson');
+  });
+});
+
+describe('parseTrackFile / exportTrackFile', () => {
+  it('should dispatch on the file extension', () => {
+    expect(parseTrackFile(GPX, 'ride.gpx').trackPoints).toHaveLength(2);
+    expect(parseTrackFile(TCX, 'ride.tcx').trackPoints).toHaveLength(2);
+    expect(() => parseTrackFile(GPX, 'ride.tcx')).toThrow('Invalid TCX file');
+  });
+
+  it('should export in the original format with a modified file name', () => {
+    const data = parseTrackFile(TCX, 'Ride.TCX');
+    const exported = exportTrackFile(data, TCX, 'Ride.TCX');
+
+    expect(exported.filename).toBe('Ride_modified.tcx');
+    expect(exported.mimeType).toBe('application/vnd.garmin.tcx+xml');
+    expect(exported.content).toContain('<TrainingCenterDatabase>');
+    expect(exportTrackFile(parseTrackFile(GPX, 'ride.gpx'), GPX, 'ride.gpx').filename).toBe('ride_modified.gpx');
+  });
+});
+
+describe('convertTrackFile', () => {
+  it('should convert to every conversion format and parse back', () => {
+    const data = parseTrackFile(TCX, 'ride.tcx');
+
+    CONVERSION_FORMATS.forEach(format => {
+      const converted = convertTrackFile(data, format, 'ride.tcx');
+      const content = typeof converted.content === 'string' ? converted.content : converted.content.slice().buffer;
+
+      expect(converted.filename).toBe(`ride_modified.${format}`);
+      expect(parseTrackFile(content, converted.filename).trackPoints.map(p => p.ele)).toEqual([200, 210]);
+    });
+  });
+});
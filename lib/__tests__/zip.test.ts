@@ -0,0 +1,61 @@
+/**
+ * Unit tests for ZIP reading/writing and DEFLATE decoding
+ */
+
+import { deflateRawSync, constants } from 'zlib';
+import { calculateCrc32, createZipEntry, extractZipEntry, inflateRaw, readZipEntries, writeZip } from '../zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('calculateCrc32', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(calculateCrc32(encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('inflateRaw', () => {
+  const text = Array.from({ length: 200 }, (_, i) => `14.${i},50.${i % 7},${200 + (i % 13)}`).join(' ');
+
+  it('should decode dynamic Huffman blocks', () => {
+    const compressed = new Uint8Array(deflateRawSync(encode(text)));
+
+    expect(new TextDecoder().decode(inflateRaw(compressed))).toBe(text);
+  });
+
+  it('should decode fixed Huffman blocks', () => {
+    const compressed = new Uint8Array(deflateRawSync(encode(text), { strategy: constants.Z_FIXED }));
+
+    expect(new TextDecoder().decode(inflateRaw(compressed, 10))).toBe(text);
+  });
+
+  it('should decode stored blocks', () => {
+    const compressed = new Uint8Array(deflateRawSync(encode(text), { level: 0 }));
+
+    expect(new TextDecoder().decode(inflateRaw(compressed))).toBe(text);
+  });
+
+  it('should throw on truncated data', () => {
+    const compressed = new Uint8Array(deflateRawSync(encode(text)));
+
+    expect(() => inflateRaw(compressed.subarray(0, 20))).toThrow('Invalid DEFLATE data');
+  });
+});
+
+describe('writeZip / readZipEntries', () => {
+  it('should round-trip entries', () => {
+    const archive = writeZip([
+      createZipEntry('doc.kml', encode('<kml/>')),
+      createZipEntry('files/ikona.png', new Uint8Array([1, 2, 3]))
+    ]);
+
+    const entries = readZipEntries(archive);
+
+    expect(entries.map(e => e.name)).toEqual(['doc.kml', 'files/ikona.png']);
+    expect(new TextDecoder().decode(extractZipEntry(entries[0]))).toBe('<kml/>');
+    expect(entries[1].crc32).toBe(calculateCrc32(new Uint8Array([1, 2, 3])));
+  });
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readZipEntries(encode('not a zip file at all, just some text'))).toThrow('Invalid ZIP archive');
+  });
+});
@@ -0,0 +1,249 @@
+import { GPXData, TrackPoint } from './gpx-parser';
+import { RawTrackPoint, buildTrackPoints } from './track-builder';
+
+/**
+ * Parsed CSV file: header names and data rows as raw strings
+ */
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Profile fields a CSV column can be mapped to
+ */
+export type CSVField = 'index' | 'lat' | 'lon' | 'ele' | 'distance' | 'time';
+
+/**
+ * Column index for each profile field; unmapped fields are left out
+ */
+export type CSVColumnMapping = Partial<Record<CSVField, number>>;
+
+/**
+ * Row of an imported profile, with distance and elevation in meters
+ */
+export interface CSVProfileRow {
+  index?: number;
+  lat?: number;
+  lon?: number;
+  ele: number;
+  distance?: number;
+  time?: string;
+}
+
+/**
+ * Unit scale factors applied to imported distance and elevation columns
+ */
+export interface CSVUnits {
+  distanceToMeters: number;
+  elevationToMeters: number;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Picks the delimiter that appears most often in the header line
+function detectDelimiter(headerLine: string): string {
+  return DELIMITERS.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parses CSV text with quoted fields; the delimiter (comma, semicolon or tab)
+ * is detected from the header line
+ */
+export function parseCSV(content: string): CSVTable {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(row => row.some(value => value.trim() !== ''));
+  if (nonEmpty.length < 2) {
+    throw new Error('Invalid CSV file: Expected a header row and at least one data row');
+  }
+
+  return {
+    headers: nonEmpty[0].map(header => header.trim()),
+    rows: nonEmpty.slice(1)
+  };
+}
+
+const FIELD_PATTERNS: Record<CSVField, RegExp> = {
+  index: /^(#|index|idx|point|n)$/i,
+  lat: /^(lat|latitude)/i,
+  lon: /^(lon|lng|long|longitude)/i,
+  ele: /^(ele|elevation|alt|altitude|height)/i,
+  distance: /^(dist|distance)/i,
+  time: /^(time|timestamp|date)/i
+};
+
+/**
+ * Guesses the column mapping from header names such as "lat", "ele_m" or "Distance (m)"
+ */
+export function guessCSVColumnMapping(headers: string[]): CSVColumnMapping {
+  const mapping: CSVColumnMapping = {};
+  (Object.keys(FIELD_PATTERNS) as CSVField[]).forEach(field => {
+    const column = headers.findIndex(header => FIELD_PATTERNS[field].test(header.trim()));
+    if (column >= 0) {
+      mapping[field] = column;
+    }
+  });
+  return mapping;
+}
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  // Accept decimal commas from spreadsheets in European locales
+  const number = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Reads the mapped columns of every row; rows without a valid elevation are skipped
+ */
+export function readCSVProfile(
+  table: CSVTable,
+  mapping: CSVColumnMapping,
+  units: CSVUnits = { distanceToMeters: 1, elevationToMeters: 1 }
+): CSVProfileRow[] {
+  const column = (row: string[], field: CSVField) =>
+    mapping[field] !== undefined ? row[mapping[field]!] : undefined;
+
+  const profile: CSVProfileRow[] = [];
+  table.rows.forEach(row => {
+    const ele = parseNumber(column(row, 'ele'));
+    if (ele === undefined) {
+      return;
+    }
+    const distance = parseNumber(column(row, 'distance'));
+    const time = column(row, 'time')?.trim();
+    profile.push({
+      index: parseNumber(column(row, 'index')),
+      lat: parseNumber(column(row, 'lat')),
+      lon: parseNumber(column(row, 'lon')),
+      ele: ele * units.elevationToMeters,
+      distance: distance !== undefined ? distance * units.distanceToMeters : undefined,
+      time: time ? time : undefined
+    });
+  });
+  return profile;
+}
+
+/**
+ * Creates a new single-track profile from CSV rows that have coordinates
+ *
+ * A mapped distance column is used as the recorded distance.
+ */
+export function buildGPXDataFromCSV(profile: CSVProfileRow[], name: string): GPXData {
+  const points: RawTrackPoint[] = profile
+    .filter(row => row.lat !== undefined && row.lon !== undefined)
+    .map(row => ({
+      lat: row.lat!,
+      lon: row.lon!,
+      ele: row.ele,
+      time: row.time,
+      recordedDistance: row.distance
+    }));
+
+  if (points.length === 0) {
+    throw new Error('Invalid CSV file: No rows with latitude, longitude and elevation found');
+  }
+
+  const { trackPoints, tracks, totalDistance, elevationGain, elevationLoss } = buildTrackPoints(
+    [{ name, segments: [points] }],
+    false
+  );
+
+  return {
+    name,
+    trackPoints,
+    tracks,
+    totalDistance,
+    elevationGain,
+    elevationLoss,
+    source: 'track',
+    routes: [],
+    waypoints: []
+  };
+}
+
+const CSV_HEADERS = ['index', 'lat', 'lon', 'ele_m', 'original_ele_m', 'distance_m', 'time', 'edited', 'gradient_pct'];
+
+const escapeCSV = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes the profile as CSV, one row per point
+ *
+ * The gradient is the slope from the previous point in percent; it is empty
+ * where the distance does not increase (track starts and segment breaks).
+ *
+ * @param points - Current (edited) points
+ * @param originalPoints - Points as loaded, for the original elevation column
+ * @param editedPoints - Indices of edited points
+ */
+export function buildProfileCSV(
+  points: TrackPoint[],
+  originalPoints: TrackPoint[],
+  editedPoints: Set<number>
+): string {
+  const lines = points.map((point, index) => {
+    const previous = points[index - 1];
+    const run = previous ? (point.distance ?? 0) - (previous.distance ?? 0) : 0;
+    const gradient = run > 0 ? (((point.ele - previous.ele) / run) * 100).toFixed(2) : '';
+
+    return [
+      String(index),
+      String(point.lat),
+      String(point.lon),
+      point.ele.toFixed(2),
+      originalPoints[index] ? originalPoints[index].ele.toFixed(2) : '',
+      (point.distance ?? 0).toFixed(2),
+      point.time ?? '',
+      editedPoints.has(index) ? '1' : '0',
+      gradient
+    ].map(escapeCSV).join(',');
+  });
+
+  return [CSV_HEADERS.join(','), ...lines, ''].join('\n');
+}
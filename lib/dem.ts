@@ -0,0 +1,77 @@
+import { parseGeoTIFF } from './geotiff';
+import { parseHGT } from './hgt';
+import { extractZipEntry, readZipEntries } from './zip';
+
+/**
+ * Digital elevation model loaded from a local file
+ */
+export interface DemSource {
+  /** File the model was read from */
+  name: string;
+  /** Short description such as "SRTM 1″ N50E014" or "GeoTIFF 1000×1000 EPSG:32633" */
+  description: string;
+  /**
+   * Terrain elevation in meters at a WGS84 position, or null outside the
+   * model's coverage or where it has no data
+   */
+  sample: (lat: number, lon: number) => number | null;
+}
+
+/**
+ * File extensions accepted by the DEM file input
+ */
+export const ACCEPTED_DEM_TYPES = '.hgt,.tif,.tiff,.zip';
+
+/**
+ * Samples the first source that covers the position
+ */
+export function sampleDem(sources: DemSource[], lat: number, lon: number): number | null {
+  for (const source of sources) {
+    const elevation = source.sample(lat, lon);
+    if (elevation !== null) {
+      return elevation;
+    }
+  }
+  return null;
+}
+
+/**
+ * Samples the terrain elevation under every point
+ *
+ * @returns Elevation per point; null where no source covers the point
+ */
+export function sampleDemProfile(
+  sources: DemSource[],
+  points: Array<{ lat: number; lon: number }>
+): Array<number | null> {
+  return points.map(point => sampleDem(sources, point.lat, point.lon));
+}
+
+const DEM_ENTRY_PATTERN = /\.(hgt|tiff?)$/i;
+
+const parseDemContent = (content: ArrayBuffer, filename: string): DemSource =>
+  /\.tiff?$/i.test(filename) ? parseGeoTIFF(content, filename) : parseHGT(content, filename);
+
+/**
+ * Reads DEM files: SRTM `.hgt` tiles and GeoTIFF rasters, also inside `.zip`
+ * archives as they are usually distributed
+ *
+ * @returns One source per tile or raster
+ */
+export async function readDemFile(file: File): Promise<DemSource[]> {
+  const content = await file.arrayBuffer();
+
+  if (/\.zip$/i.test(file.name)) {
+    const entries = readZipEntries(new Uint8Array(content)).filter(entry => DEM_ENTRY_PATTERN.test(entry.name));
+    if (entries.length === 0) {
+      throw new Error('Invalid DEM archive: No .hgt or GeoTIFF files found');
+    }
+    return entries.map(entry => {
+      const data = extractZipEntry(entry);
+      const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+      return parseDemContent(buffer, entry.name.split('/').pop()!);
+    });
+  }
+
+  return [parseDemContent(content, file.name)];
+}
@@ -0,0 +1,382 @@
+import { GPXData, GPXParseOptions } from './gpx-parser';
+import { RawTrackPoint, buildTrackPoints, pickSensorReadings } from './track-builder';
+
+// Global message numbers and field numbers from the FIT profile
+const MESSAGE_RECORD = 20;
+const MESSAGE_EVENT = 21;
+const FIELD_TIMESTAMP = 253;
+const FIELD_POSITION_LAT = 0;
+const FIELD_POSITION_LONG = 1;
+const FIELD_ALTITUDE = 2;
+const FIELD_DISTANCE = 5;
+const FIELD_HEART_RATE = 3;
+const FIELD_CADENCE = 4;
+const FIELD_POWER = 7;
+const FIELD_TEMPERATURE = 13;
+const FIELD_ENHANCED_ALTITUDE = 78;
+const FIELD_EVENT = 0;
+const FIELD_EVENT_TYPE = 1;
+const EVENT_TIMER = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+const ALTITUDE_SCALE = 5;
+const ALTITUDE_OFFSET = 500;
+const DISTANCE_SCALE = 100;
+
+const INVALID_SINT8 = 0x7f;
+const INVALID_SINT32 = 0x7fffffff;
+const INVALID_UINT32 = 0xffffffff;
+const INVALID_UINT16 = 0xffff;
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400
+];
+
+/**
+ * Computes the FIT CRC-16 of `bytes[start, end)`
+ */
+export function calculateFitCrc(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let index = start; index < end; index++) {
+    const byte = bytes[index];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+interface FieldLocation {
+  offset: number;
+  size: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: Array<{ number: number; size: number }>;
+  developerSize: number;
+}
+
+/**
+ * Data message as seen while walking a FIT file
+ */
+interface FitMessage {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: Map<number, FieldLocation>;
+  // Timestamp from a compressed timestamp header, when the message has no timestamp field
+  compressedTimestamp?: number;
+}
+
+interface FitFileRange {
+  crcStart: number;
+  crcOffset: number;
+}
+
+/**
+ * Walks every data message of a (possibly chained) FIT file
+ *
+ * The visitor gets the byte location of each field so callers can both read
+ * and overwrite values in place.
+ *
+ * @returns Byte ranges covered by each file's CRC
+ */
+function walkFitFile(bytes: Uint8Array, visit: (message: FitMessage, view: DataView) => void): FitFileRange[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files: FitFileRange[] = [];
+  let fileStart = 0;
+
+  while (fileStart < bytes.length) {
+    const headerSize = bytes[fileStart];
+    if (
+      (headerSize !== 12 && headerSize !== 14) ||
+      fileStart + headerSize > bytes.length ||
+      String.fromCharCode(...Array.from(bytes.subarray(fileStart + 8, fileStart + 12))) !== '.FIT'
+    ) {
+      throw new Error('Invalid FIT file: No FIT file header found');
+    }
+
+    const dataSize = view.getUint32(fileStart + 4, true);
+    const dataEnd = fileStart + headerSize + dataSize;
+    if (dataEnd + 2 > bytes.length) {
+      throw new Error('Invalid FIT file: File is truncated');
+    }
+
+    const storedCrc = view.getUint16(dataEnd, true);
+    // A zero CRC means the writer did not compute one
+    if (storedCrc !== 0 && storedCrc !== calculateFitCrc(bytes, fileStart, dataEnd)) {
+      throw new Error('Invalid FIT file: CRC mismatch');
+    }
+
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = fileStart + headerSize;
+
+    while (offset < dataEnd) {
+      const recordHeader = bytes[offset++];
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: 2-bit local type, 5-bit time offset
+        const definition = definitions.get((recordHeader >> 5) & 0x03);
+        if (!definition) {
+          throw new Error('Invalid FIT file: Data message without definition');
+        }
+        const timeOffset = recordHeader & 0x1f;
+        lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+        offset = visitDataMessage(definition, offset, view, visit, lastTimestamp).end;
+        continue;
+      }
+
+      const localType = recordHeader & 0x0f;
+
+      if (recordHeader & 0x40) {
+        // Definition message
+        const littleEndian = bytes[offset + 1] === 0;
+        const globalNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = bytes[offset + 4];
+        offset += 5;
+
+        const fields: MessageDefinition['fields'] = [];
+        for (let index = 0; index < fieldCount; index++) {
+          fields.push({ number: bytes[offset], size: bytes[offset + 1] });
+          offset += 3;
+        }
+
+        let developerSize = 0;
+        if (recordHeader & 0x20) {
+          const developerCount = bytes[offset++];
+          for (let index = 0; index < developerCount; index++) {
+            developerSize += bytes[offset + 1];
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, { globalNumber, littleEndian, fields, developerSize });
+        continue;
+      }
+
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new Error('Invalid FIT file: Data message without definition');
+      }
+      const { end, message } = visitDataMessage(definition, offset, view, visit);
+      lastTimestamp = readField(message, view, FIELD_TIMESTAMP) ?? lastTimestamp;
+      offset = end;
+    }
+
+    files.push({ crcStart: fileStart, crcOffset: dataEnd });
+    fileStart = dataEnd + 2;
+  }
+
+  return files;
+}
+
+// Locates the fields of one data message and hands it to the visitor
+function visitDataMessage(
+  definition: MessageDefinition,
+  start: number,
+  view: DataView,
+  visit: (message: FitMessage, view: DataView) => void,
+  compressedTimestamp?: number
+): { end: number; message: FitMessage } {
+  const fields = new Map<number, FieldLocation>();
+  let offset = start;
+  definition.fields.forEach(field => {
+    fields.set(field.number, { offset, size: field.size });
+    offset += field.size;
+  });
+  offset += definition.developerSize;
+
+  if (offset > view.byteLength) {
+    throw new Error('Invalid FIT file: File is truncated');
+  }
+
+  const message: FitMessage = {
+    globalNumber: definition.globalNumber,
+    littleEndian: definition.littleEndian,
+    fields,
+    compressedTimestamp
+  };
+  visit(message, view);
+  return { end: offset, message };
+}
+
+// Reads an integer field, returning undefined for missing fields and FIT "invalid" values
+function readField(message: FitMessage, view: DataView, fieldNumber: number, signed = false): number | undefined {
+  const field = message.fields.get(fieldNumber);
+  if (!field) {
+    return undefined;
+  }
+
+  let value: number;
+  let invalid: number;
+  if (signed && field.size === 1) {
+    value = view.getInt8(field.offset);
+    invalid = INVALID_SINT8;
+  } else if (signed) {
+    if (field.size !== 4) return undefined;
+    value = view.getInt32(field.offset, message.littleEndian);
+    invalid = INVALID_SINT32;
+  } else if (field.size === 4) {
+    value = view.getUint32(field.offset, message.littleEndian);
+    invalid = INVALID_UINT32;
+  } else if (field.size === 2) {
+    value = view.getUint16(field.offset, message.littleEndian);
+    invalid = INVALID_UINT16;
+  } else if (field.size === 1) {
+    value = view.getUint8(field.offset);
+    invalid = 0xff;
+  } else {
+    return undefined;
+  }
+
+  return value === invalid ? undefined : value;
+}
+
+// Record messages without a position (e.g. indoor or before GPS lock) cannot be edited
+const isPositionRecord = (message: FitMessage, view: DataView): boolean =>
+  message.globalNumber === MESSAGE_RECORD &&
+  readField(message, view, FIELD_POSITION_LAT, true) !== undefined &&
+  readField(message, view, FIELD_POSITION_LONG, true) !== undefined;
+
+// Elevation of a record as parseFIT reads it; records without a valid altitude read as 0
+const readElevation = (message: FitMessage, view: DataView): number => readAltitude(message, view) ?? 0;
+
+const readAltitude = (message: FitMessage, view: DataView): number | undefined => {
+  const enhanced = readField(message, view, FIELD_ENHANCED_ALTITUDE);
+  const altitude = enhanced ?? readField(message, view, FIELD_ALTITUDE);
+  // Subtracting the offset before scaling keeps values such as -10.4 exact
+  return altitude !== undefined ? (altitude - ALTITUDE_OFFSET * ALTITUDE_SCALE) / ALTITUDE_SCALE : undefined;
+};
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date((timestamp + FIT_EPOCH_OFFSET) * 1000).toISOString().replace('.000Z', 'Z');
+
+const toBytes = (content: ArrayBuffer | Uint8Array): Uint8Array =>
+  content instanceof Uint8Array ? content : new Uint8Array(content);
+
+/**
+ * Decodes a binary FIT activity file into the same structure as `parseGPX`
+ *
+ * Record messages with a position become track points; `enhanced_altitude` is
+ * preferred over `altitude`, and the recorded `distance` is used where present.
+ * Heart rate, cadence, power and temperature are read as sensor readings.
+ * Timer stop events split the recording into segments.
+ */
+export function parseFIT(content: ArrayBuffer | Uint8Array, options: GPXParseOptions = {}): GPXData {
+  const bytes = toBytes(content);
+  const segments: RawTrackPoint[][] = [[]];
+
+  walkFitFile(bytes, (message, view) => {
+    if (message.globalNumber === MESSAGE_EVENT) {
+      const eventType = readField(message, view, FIELD_EVENT_TYPE);
+      if (
+        readField(message, view, FIELD_EVENT) === EVENT_TIMER &&
+        (eventType === EVENT_TYPE_STOP || eventType === EVENT_TYPE_STOP_ALL) &&
+        segments[segments.length - 1].length > 0
+      ) {
+        segments.push([]);
+      }
+      return;
+    }
+
+    if (!isPositionRecord(message, view)) {
+      return;
+    }
+
+    const timestamp = readField(message, view, FIELD_TIMESTAMP) ?? message.compressedTimestamp;
+    const distance = readField(message, view, FIELD_DISTANCE);
+
+    segments[segments.length - 1].push({
+      lat: readField(message, view, FIELD_POSITION_LAT, true)! * SEMICIRCLES_TO_DEGREES,
+      lon: readField(message, view, FIELD_POSITION_LONG, true)! * SEMICIRCLES_TO_DEGREES,
+      ele: readElevation(message, view),
+      time: timestamp !== undefined ? formatTimestamp(timestamp) : undefined,
+      recordedDistance: distance !== undefined ? distance / DISTANCE_SCALE : undefined,
+      ...pickSensorReadings({
+        heartRate: readField(message, view, FIELD_HEART_RATE),
+        cadence: readField(message, view, FIELD_CADENCE),
+        power: readField(message, view, FIELD_POWER),
+        temperature: readField(message, view, FIELD_TEMPERATURE, true)
+      })
+    });
+  });
+
+  const nonEmptySegments = segments.filter(segment => segment.length > 0);
+  if (nonEmptySegments.length === 0) {
+    throw new Error('Invalid FIT file: No record messages with position found');
+  }
+
+  const { trackPoints, tracks, totalDistance, elevationGain, elevationLoss } = buildTrackPoints(
+    [{ name: 'FIT Activity', segments: nonEmptySegments }],
+    options.countSegmentGaps ?? false
+  );
+
+  return {
+    name: 'FIT Activity',
+    trackPoints,
+    tracks,
+    totalDistance,
+    elevationGain,
+    elevationLoss,
+    source: 'track',
+    routes: [],
+    waypoints: []
+  };
+}
+
+// Scaled altitude value clamped to the range of the field's type (the maximum is the invalid marker)
+const encodeAltitude = (ele: number, max: number): number =>
+  Math.min(max - 1, Math.max(0, Math.round((ele + ALTITUDE_OFFSET) * ALTITUDE_SCALE)));
+
+/**
+ * Writes the edited elevations back into a copy of the original FIT file
+ *
+ * The `altitude` and `enhanced_altitude` fields of every record with a
+ * position whose elevation was edited are overwritten in place and the file
+ * CRC is recalculated; all other bytes are left untouched. Records whose
+ * elevation is still the one parseFIT read keep their original fields, so
+ * fields holding the "invalid" marker (e.g. from devices without a barometer)
+ * are not turned into a real 0 m altitude. Records that have no altitude field
+ * keep having none.
+ */
+export function exportFIT(gpxData: GPXData, originalContent: ArrayBuffer | Uint8Array): Uint8Array {
+  const bytes = toBytes(originalContent).slice();
+  let pointIndex = 0;
+
+  const files = walkFitFile(bytes, (message, view) => {
+    if (!isPositionRecord(message, view)) {
+      return;
+    }
+
+    const point = gpxData.trackPoints[pointIndex++];
+    if (!point || point.ele === readElevation(message, view)) {
+      return;
+    }
+
+    const altitude = message.fields.get(FIELD_ALTITUDE);
+    if (altitude?.size === 2) {
+      view.setUint16(altitude.offset, encodeAltitude(point.ele, INVALID_UINT16), message.littleEndian);
+    }
+    const enhancedAltitude = message.fields.get(FIELD_ENHANCED_ALTITUDE);
+    if (enhancedAltitude?.size === 4) {
+      view.setUint32(enhancedAltitude.offset, encodeAltitude(point.ele, INVALID_UINT32), message.littleEndian);
+    }
+  });
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  files.forEach(({ crcStart, crcOffset }) => {
+    view.setUint16(crcOffset, calculateFitCrc(bytes, crcStart, crcOffset), true);
+  });
+
+  return bytes;
+}
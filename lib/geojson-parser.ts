@@ -0,0 +1,198 @@
+import { GPXData, GPXParseOptions, GPXWaypoint } from './gpx-parser';
+import { RawPointGroup, buildTrackPoints, toArray } from './track-builder';
+
+/**
+ * Line geometry that holds editable points, with the times that belong to it
+ */
+interface LineParts {
+  name?: string;
+  lines: number[][][];
+  times: Array<Array<string | undefined>>;
+}
+
+// Features of a FeatureCollection, a single Feature, or a bare geometry wrapped as a feature
+function collectFeatures(geojson: any): any[] {
+  if (geojson?.type === 'FeatureCollection') {
+    return toArray(geojson.features);
+  }
+  if (geojson?.type === 'Feature') {
+    return [geojson];
+  }
+  return geojson?.type ? [{ type: 'Feature', geometry: geojson, properties: {} }] : [];
+}
+
+// Coordinate arrays of every line in a geometry (GeometryCollections are flattened)
+function collectLines(geometry: any): number[][][] {
+  switch (geometry?.type) {
+    case 'LineString':
+      return [toArray(geometry.coordinates)];
+    case 'MultiLineString':
+      return toArray(geometry.coordinates);
+    case 'GeometryCollection':
+      return toArray(geometry.geometries).flatMap(collectLines);
+    default:
+      return [];
+  }
+}
+
+// Times from `properties.coordinateProperties.times`, the convention used by togeojson
+function collectTimes(feature: any, lines: number[][][]): Array<Array<string | undefined>> {
+  const times = feature?.properties?.coordinateProperties?.times;
+  if (!Array.isArray(times)) {
+    return lines.map(line => line.map(() => undefined));
+  }
+  const perLine = Array.isArray(times[0]) ? times : [times];
+  return lines.map((line, lineIndex) => line.map((_, index) => perLine[lineIndex]?.[index] ?? undefined));
+}
+
+function collectLineParts(geojson: any): LineParts[] {
+  return collectFeatures(geojson)
+    .map(feature => {
+      const lines = collectLines(feature?.geometry).filter(line => line.length > 0);
+      const name = feature?.properties?.name;
+      return {
+        name: name !== undefined && name !== null ? String(name) : undefined,
+        lines,
+        times: collectTimes(feature, lines)
+      };
+    })
+    .filter(parts => parts.lines.length > 0);
+}
+
+const toRawGroups = (parts: LineParts[]): RawPointGroup[] =>
+  parts.map(({ name, lines, times }) => ({
+    name,
+    segments: lines.map((line, lineIndex) =>
+      line.map((position, index) => ({
+        lon: Number(position[0]),
+        lat: Number(position[1]),
+        ele: position[2] !== undefined && position[2] !== null ? Number(position[2]) : 0,
+        time: times[lineIndex][index]
+      }))
+    )
+  }));
+
+/**
+ * Parses GeoJSON into the same structure as `parseGPX`
+ *
+ * Every feature with `LineString` or `MultiLineString` geometry becomes a
+ * track, each line a segment; the optional third coordinate is the elevation.
+ * `Point` features become waypoints.
+ */
+export function parseGeoJSON(content: string, options: GPXParseOptions = {}): GPXData {
+  let geojson: any;
+  try {
+    geojson = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid GeoJSON file: Content is not valid JSON');
+  }
+
+  const parts = collectLineParts(geojson);
+
+  if (parts.length === 0) {
+    throw new Error('Invalid GeoJSON file: No LineString data found');
+  }
+
+  const { trackPoints, tracks, totalDistance, elevationGain, elevationLoss } = buildTrackPoints(
+    toRawGroups(parts),
+    options.countSegmentGaps ?? false
+  );
+
+  const waypoints: GPXWaypoint[] = collectFeatures(geojson)
+    .filter(feature => feature?.geometry?.type === 'Point')
+    .map(feature => {
+      const [lon, lat, ele] = feature.geometry.coordinates;
+      return {
+        lat: Number(lat),
+        lon: Number(lon),
+        ele: ele !== undefined ? Number(ele) : undefined,
+        name: feature.properties?.name ?? undefined,
+        time: feature.properties?.time ?? undefined
+      };
+    });
+
+  return {
+    name: typeof geojson.name === 'string' ? geojson.name : tracks[0]?.name || 'GeoJSON Track',
+    trackPoints,
+    tracks,
+    totalDistance,
+    elevationGain,
+    elevationLoss,
+    source: 'track',
+    routes: [],
+    waypoints
+  };
+}
+
+const roundElevation = (ele: number): number => Math.round(ele * 100) / 100;
+
+/**
+ * Writes the edited elevations back into the original GeoJSON content
+ *
+ * Sets the third coordinate of every line position; properties and all
+ * other features are kept.
+ */
+export function exportGeoJSON(gpxData: GPXData, originalContent: string): string {
+  const geojson = JSON.parse(originalContent);
+  let pointIndex = 0;
+
+  collectLineParts(geojson).forEach(parts => {
+    parts.lines.forEach(line => {
+      line.forEach(position => {
+        const point = gpxData.trackPoints[pointIndex++];
+        if (point) {
+          position[2] = roundElevation(point.ele);
+        }
+      });
+    });
+  });
+
+  return JSON.stringify(geojson, null, 2);
+}
+
+/**
+ * Creates a new GeoJSON FeatureCollection from the edited profile
+ *
+ * Times are stored in `properties.coordinateProperties.times`.
+ */
+export function buildGeoJSON(gpxData: GPXData): string {
+  const trackFeatures = gpxData.tracks.map((track, trackIndex) => {
+    const segments = track.segments.map(segment => gpxData.trackPoints.slice(segment.startIndex, segment.endIndex + 1));
+    const lines = segments.map(points => points.map(point => [point.lon, point.lat, roundElevation(point.ele)]));
+    const times = segments.map(points => points.map(point => point.time ?? null));
+    const hasTimes = times.some(line => line.some(time => time !== null));
+
+    return {
+      type: 'Feature',
+      properties: {
+        name: track.name || `Track ${trackIndex + 1}`,
+        ...(hasTimes ? { coordinateProperties: { times: lines.length === 1 ? times[0] : times } } : {})
+      },
+      geometry: lines.length === 1
+        ? { type: 'LineString', coordinates: lines[0] }
+        : { type: 'MultiLineString', coordinates: lines }
+    };
+  });
+
+  const waypointFeatures = gpxData.waypoints.map(waypoint => ({
+    type: 'Feature',
+    properties: {
+      ...(waypoint.name ? { name: waypoint.name } : {}),
+      ...(waypoint.time ? { time: waypoint.time } : {})
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [waypoint.lon, waypoint.lat, ...(waypoint.ele !== undefined ? [waypoint.ele] : [])]
+    }
+  }));
+
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      name: gpxData.name,
+      features: [...trackFeatures, ...waypointFeatures]
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,506 @@
+import type { DemSource } from './dem';
+import { getProjection } from './projection';
+import { inflateRaw } from './zip';
+
+// TIFF tags
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_MODEL_TRANSFORMATION = 34264;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+// GeoTIFF keys
+const KEY_MODEL_TYPE = 1024;
+const KEY_RASTER_TYPE = 1025;
+const KEY_GEOGRAPHIC_TYPE = 2048;
+const KEY_PROJECTED_CS_TYPE = 3072;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+const USER_DEFINED = 32767;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_OLD = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PREDICTOR_HORIZONTAL = 2;
+const PREDICTOR_FLOATING_POINT = 3;
+
+const SAMPLE_FORMAT_UINT = 1;
+const SAMPLE_FORMAT_INT = 2;
+const SAMPLE_FORMAT_FLOAT = 3;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8, 17: 8, 18: 8
+};
+
+type TagValue = number[] | string;
+
+/**
+ * Raster read from the first image of a GeoTIFF, decoded block by block on demand
+ */
+interface Raster {
+  width: number;
+  height: number;
+  /** Elevation at a pixel, or null for nodata */
+  read: (column: number, row: number) => number | null;
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid GeoTIFF file: ${message}`);
+};
+
+// Reads the tags of the first IFD of a classic TIFF or BigTIFF file
+function readTags(view: DataView): Map<number, TagValue> {
+  const byteOrder = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    fail('No TIFF header found');
+  }
+  const littleEndian = byteOrder === 'II';
+  const magic = view.getUint16(2, littleEndian);
+  if (magic !== 42 && magic !== 43) {
+    fail('No TIFF header found');
+  }
+
+  const big = magic === 43;
+  const readOffset = (offset: number) =>
+    big ? Number(view.getBigUint64(offset, littleEndian)) : view.getUint32(offset, littleEndian);
+
+  const ifdOffset = readOffset(big ? 8 : 4);
+  const entryCount = big ? readOffset(ifdOffset) : view.getUint16(ifdOffset, littleEndian);
+  const entrySize = big ? 20 : 12;
+  const inlineSize = big ? 8 : 4;
+  const entriesStart = ifdOffset + (big ? 8 : 2);
+
+  const tags = new Map<number, TagValue>();
+  for (let index = 0; index < entryCount; index++) {
+    const entry = entriesStart + index * entrySize;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = big ? readOffset(entry + 4) : view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) {
+      continue;
+    }
+    const valueOffset = count * size <= inlineSize ? entry + (big ? 12 : 8) : readOffset(entry + (big ? 12 : 8));
+
+    if (type === 2) {
+      let text = '';
+      for (let char = 0; char < count; char++) {
+        const code = view.getUint8(valueOffset + char);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let item = 0; item < count; item++) {
+      const offset = valueOffset + item * size;
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(offset)); break;
+        case 6: values.push(view.getInt8(offset)); break;
+        case 3: values.push(view.getUint16(offset, littleEndian)); break;
+        case 8: values.push(view.getInt16(offset, littleEndian)); break;
+        case 4: values.push(view.getUint32(offset, littleEndian)); break;
+        case 9: values.push(view.getInt32(offset, littleEndian)); break;
+        case 5: values.push(view.getUint32(offset, littleEndian) / view.getUint32(offset + 4, littleEndian)); break;
+        case 10: values.push(view.getInt32(offset, littleEndian) / view.getInt32(offset + 4, littleEndian)); break;
+        case 11: values.push(view.getFloat32(offset, littleEndian)); break;
+        case 12: values.push(view.getFloat64(offset, littleEndian)); break;
+        case 16: case 18: values.push(Number(view.getBigUint64(offset, littleEndian))); break;
+        case 17: values.push(Number(view.getBigInt64(offset, littleEndian))); break;
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+/**
+ * Decodes TIFF LZW data (MSB-first codes with the early code-width change)
+ */
+export function decodeLZW(input: Uint8Array, expectedSize: number): Uint8Array {
+  const output = new Uint8Array(expectedSize);
+  let outputLength = 0;
+  let bitPosition = 0;
+
+  const CLEAR = 256;
+  const END = 257;
+  let dictionary: Uint8Array[] = [];
+  let codeWidth = 9;
+  let previous: Uint8Array | null = null;
+
+  const reset = () => {
+    dictionary = [];
+    for (let code = 0; code < 256; code++) {
+      dictionary.push(new Uint8Array([code]));
+    }
+    dictionary.push(new Uint8Array(0), new Uint8Array(0));
+    codeWidth = 9;
+    previous = null;
+  };
+
+  const readCode = (): number => {
+    let code = 0;
+    for (let bit = 0; bit < codeWidth; bit++) {
+      const byte = input[(bitPosition + bit) >> 3];
+      if (byte === undefined) {
+        return END;
+      }
+      code = (code << 1) | ((byte >> (7 - ((bitPosition + bit) & 7))) & 1);
+    }
+    bitPosition += codeWidth;
+    return code;
+  };
+
+  const write = (bytes: Uint8Array) => {
+    const length = Math.min(bytes.length, expectedSize - outputLength);
+    output.set(bytes.subarray(0, length), outputLength);
+    outputLength += length;
+  };
+
+  reset();
+  while (outputLength < expectedSize) {
+    const code = readCode();
+    if (code === END) {
+      break;
+    }
+    if (code === CLEAR) {
+      reset();
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+      if (previous) {
+        const added = new Uint8Array(previous.length + 1);
+        added.set(previous);
+        added[previous.length] = entry[0];
+        dictionary.push(added);
+      }
+    } else if (previous && code === dictionary.length) {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0];
+      dictionary.push(entry);
+    } else {
+      return fail('Corrupt LZW data');
+    }
+
+    write(entry);
+    previous = entry;
+    if (dictionary.length + 1 >= 1 << codeWidth && codeWidth < 12) {
+      codeWidth++;
+    }
+  }
+  return output;
+}
+
+/**
+ * Decodes PackBits run-length encoded data
+ */
+export function decodePackBits(input: Uint8Array, expectedSize: number): Uint8Array {
+  const output = new Uint8Array(expectedSize);
+  let inputPosition = 0;
+  let outputPosition = 0;
+  while (inputPosition < input.length && outputPosition < expectedSize) {
+    const header = (input[inputPosition++] << 24) >> 24;
+    if (header >= 0) {
+      const length = Math.min(header + 1, expectedSize - outputPosition);
+      output.set(input.subarray(inputPosition, inputPosition + length), outputPosition);
+      inputPosition += header + 1;
+      outputPosition += length;
+    } else if (header !== -128) {
+      const length = Math.min(1 - header, expectedSize - outputPosition);
+      output.fill(input[inputPosition++], outputPosition, outputPosition + length);
+      outputPosition += length;
+    }
+  }
+  return output;
+}
+
+const decompress = (compression: number, data: Uint8Array, expectedSize: number): Uint8Array => {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return data;
+    case COMPRESSION_LZW:
+      return decodeLZW(data, expectedSize);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD:
+      // zlib stream: skip the two-byte header, the Adler-32 trailer is ignored
+      return inflateRaw(data.subarray(2), expectedSize);
+    case COMPRESSION_PACKBITS:
+      return decodePackBits(data, expectedSize);
+    default:
+      return fail(`Unsupported compression ${compression}`);
+  }
+};
+
+// Reverses horizontal differencing of integer samples, row by row
+const undoHorizontalPredictor = (
+  view: DataView,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+  bytesPerSample: number,
+  littleEndian: boolean
+) => {
+  const rowValues = width * samplesPerPixel;
+  for (let row = 0; row < height; row++) {
+    for (let index = samplesPerPixel; index < rowValues; index++) {
+      const offset = (row * rowValues + index) * bytesPerSample;
+      const previousOffset = offset - samplesPerPixel * bytesPerSample;
+      if (bytesPerSample === 1) {
+        view.setUint8(offset, view.getUint8(offset) + view.getUint8(previousOffset));
+      } else if (bytesPerSample === 2) {
+        view.setUint16(offset, view.getUint16(offset, littleEndian) + view.getUint16(previousOffset, littleEndian), littleEndian);
+      } else if (bytesPerSample === 4) {
+        view.setUint32(offset, view.getUint32(offset, littleEndian) + view.getUint32(previousOffset, littleEndian), littleEndian);
+      } else {
+        const sum = view.getBigUint64(offset, littleEndian) + view.getBigUint64(previousOffset, littleEndian);
+        view.setBigUint64(offset, BigInt.asUintN(64, sum), littleEndian);
+      }
+    }
+  }
+};
+
+// Reverses the floating point predictor: byte differencing over each row, whose
+// bytes are stored as planes from the most significant byte down
+const undoFloatingPointPredictor = (
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+  bytesPerSample: number
+): Uint8Array => {
+  const rowValues = width * samplesPerPixel;
+  const rowBytes = rowValues * bytesPerSample;
+  const output = new Uint8Array(bytes.length);
+  for (let row = 0; row < height; row++) {
+    const start = row * rowBytes;
+    for (let index = 1; index < rowBytes; index++) {
+      bytes[start + index] = (bytes[start + index] + bytes[start + index - 1]) & 0xff;
+    }
+    // Reassemble big-endian samples from the byte planes
+    for (let value = 0; value < rowValues; value++) {
+      for (let byte = 0; byte < bytesPerSample; byte++) {
+        output[start + value * bytesPerSample + byte] = bytes[start + byte * rowValues + value];
+      }
+    }
+  }
+  return output;
+};
+
+const numbers = (tags: Map<number, TagValue>, tag: number): number[] | undefined => {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : undefined;
+};
+
+// Reads the first image of a TIFF file, decoding strips or tiles only when sampled
+function readRaster(content: ArrayBuffer, tags: Map<number, TagValue>): Raster {
+  const view = new DataView(content);
+  const littleEndian = view.getUint8(0) === 0x49;
+
+  const width = numbers(tags, TAG_IMAGE_WIDTH)?.[0] ?? fail('Missing image width');
+  const height = numbers(tags, TAG_IMAGE_LENGTH)?.[0] ?? fail('Missing image height');
+  const bitsPerSample = numbers(tags, TAG_BITS_PER_SAMPLE)?.[0] ?? 1;
+  const sampleFormat = numbers(tags, TAG_SAMPLE_FORMAT)?.[0] ?? SAMPLE_FORMAT_UINT;
+  const samplesPerPixel = numbers(tags, TAG_SAMPLES_PER_PIXEL)?.[0] ?? 1;
+  const planar = (numbers(tags, TAG_PLANAR_CONFIGURATION)?.[0] ?? 1) === 2;
+  const compression = numbers(tags, TAG_COMPRESSION)?.[0] ?? COMPRESSION_NONE;
+  const predictor = numbers(tags, TAG_PREDICTOR)?.[0] ?? 1;
+  const bytesPerSample = bitsPerSample / 8;
+
+  if (![1, 2, 4, 8].includes(bytesPerSample) || (sampleFormat === SAMPLE_FORMAT_FLOAT && bytesPerSample < 4)) {
+    fail(`Unsupported sample type (${bitsPerSample}-bit, format ${sampleFormat})`);
+  }
+
+  const tiled = tags.has(TAG_TILE_OFFSETS);
+  const blockWidth = tiled ? numbers(tags, TAG_TILE_WIDTH)![0] : width;
+  const blockHeight = tiled
+    ? numbers(tags, TAG_TILE_LENGTH)![0]
+    : Math.min(numbers(tags, TAG_ROWS_PER_STRIP)?.[0] ?? height, height);
+  const offsets = numbers(tags, tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? fail('Missing image data');
+  const byteCounts = numbers(tags, tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? fail('Missing image data');
+  const blocksAcross = Math.ceil(width / blockWidth);
+  // Only the first band is read; with separate planes it is the first block set
+  const pixelStride = planar ? 1 : samplesPerPixel;
+
+  const nodataText = tags.get(TAG_GDAL_NODATA);
+  const nodata = typeof nodataText === 'string' && nodataText.trim() !== '' ? Number(nodataText) : undefined;
+
+  const readSample = (block: DataView, offset: number, littleEndian: boolean): number => {
+    if (sampleFormat === SAMPLE_FORMAT_FLOAT) {
+      return bytesPerSample === 4 ? block.getFloat32(offset, littleEndian) : block.getFloat64(offset, littleEndian);
+    }
+    const signed = sampleFormat === SAMPLE_FORMAT_INT;
+    switch (bytesPerSample) {
+      case 1: return signed ? block.getInt8(offset) : block.getUint8(offset);
+      case 2: return signed ? block.getInt16(offset, littleEndian) : block.getUint16(offset, littleEndian);
+      case 4: return signed ? block.getInt32(offset, littleEndian) : block.getUint32(offset, littleEndian);
+      default: return signed ? Number(block.getBigInt64(offset, littleEndian)) : Number(block.getBigUint64(offset, littleEndian));
+    }
+  };
+
+  const cache = new Map<number, { view: DataView; littleEndian: boolean }>();
+  const decodeBlock = (index: number) => {
+    const cached = cache.get(index);
+    if (cached) {
+      return cached;
+    }
+    const rows = tiled ? blockHeight : Math.min(blockHeight, height - Math.floor(index / blocksAcross) * blockHeight);
+    const expectedSize = blockWidth * rows * pixelStride * bytesPerSample;
+    const raw = new Uint8Array(content, offsets[index], byteCounts[index]);
+    let bytes: Uint8Array = decompress(compression, raw, expectedSize).slice(0, expectedSize);
+    let blockLittleEndian = littleEndian;
+
+    if (predictor === PREDICTOR_HORIZONTAL) {
+      undoHorizontalPredictor(new DataView(bytes.buffer), blockWidth, rows, pixelStride, bytesPerSample, littleEndian);
+    } else if (predictor === PREDICTOR_FLOATING_POINT) {
+      bytes = undoFloatingPointPredictor(bytes, blockWidth, rows, pixelStride, bytesPerSample);
+      blockLittleEndian = false;
+    }
+
+    const block = { view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), littleEndian: blockLittleEndian };
+    cache.set(index, block);
+    return block;
+  };
+
+  const read = (column: number, row: number): number | null => {
+    const blockRow = Math.floor(row / blockHeight);
+    const blockColumn = Math.floor(column / blockWidth);
+    const block = decodeBlock(blockRow * blocksAcross + blockColumn);
+    const offset = (((row - blockRow * blockHeight) * blockWidth + (column - blockColumn * blockWidth)) * pixelStride) * bytesPerSample;
+    if (offset + bytesPerSample > block.view.byteLength) {
+      return null;
+    }
+    const value = readSample(block.view, offset, block.littleEndian);
+    return Number.isNaN(value) || value === nodata ? null : value;
+  };
+
+  return { width, height, read };
+}
+
+// Reads the GeoKey directory into key → value (numeric keys only)
+function readGeoKeys(tags: Map<number, TagValue>): Map<number, number> {
+  const directory = numbers(tags, TAG_GEO_KEY_DIRECTORY) ?? [];
+  const keys = new Map<number, number>();
+  for (let index = 4; index + 3 < directory.length; index += 4) {
+    const [key, location, , value] = directory.slice(index, index + 4);
+    if (location === 0) {
+      keys.set(key, value);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Reads a single-band GeoTIFF elevation raster as a DEM source
+ *
+ * Uncompressed, LZW, Deflate and PackBits data with or without a predictor,
+ * in strips or tiles, classic TIFF or BigTIFF, are supported. The CRS is read
+ * from the EPSG code in the GeoKeys and WGS84 positions are reprojected into
+ * it (see `getProjection`). Pixels are sampled with bilinear interpolation
+ * between pixel centres; nodata pixels are left out.
+ *
+ * @param content - Raw file bytes
+ * @param filename - File name, used in the description
+ */
+export function parseGeoTIFF(content: ArrayBuffer, filename: string): DemSource {
+  if (content.byteLength < 16) {
+    fail('No TIFF header found');
+  }
+  const tags = readTags(new DataView(content));
+  const raster = readRaster(content, tags);
+  const geoKeys = readGeoKeys(tags);
+
+  const geographic = geoKeys.get(KEY_MODEL_TYPE) === MODEL_TYPE_GEOGRAPHIC;
+  const epsg = geographic
+    ? geoKeys.get(KEY_GEOGRAPHIC_TYPE) ?? 4326
+    : geoKeys.get(KEY_PROJECTED_CS_TYPE) ?? fail('No coordinate reference system found');
+  if (epsg === USER_DEFINED) {
+    fail('User-defined coordinate reference systems are not supported');
+  }
+  const project = getProjection(epsg);
+
+  // Model → pixel transform; pixel (0, 0) is the corner of the first pixel unless PixelIsPoint
+  const transformation = numbers(tags, TAG_MODEL_TRANSFORMATION);
+  const scale = numbers(tags, TAG_MODEL_PIXEL_SCALE);
+  const tiepoint = numbers(tags, TAG_MODEL_TIEPOINT);
+  let toPixel: (x: number, y: number) => [number, number];
+  if (transformation && transformation.length >= 8) {
+    const [a, b, , c, d, e, , f] = transformation;
+    const determinant = a * e - b * d;
+    if (determinant === 0) {
+      fail('Degenerate model transformation');
+    }
+    toPixel = (x, y) => [(e * (x - c) - b * (y - f)) / determinant, (a * (y - f) - d * (x - c)) / determinant];
+  } else if (scale && tiepoint && tiepoint.length >= 6) {
+    const [i, j, , x0, y0] = tiepoint;
+    toPixel = (x, y) => [i + (x - x0) / scale[0], j + (y0 - y) / scale[1]];
+  } else {
+    return fail('No georeferencing found');
+  }
+  const centreOffset = geoKeys.get(KEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+
+  const sample = (lat: number, lon: number): number | null => {
+    const { x, y } = project(lat, lon);
+    const [pixelX, pixelY] = toPixel(x, y);
+    const column = pixelX - centreOffset;
+    const row = pixelY - centreOffset;
+    if (column < -0.5 || row < -0.5 || column > raster.width - 0.5 || row > raster.height - 0.5) {
+      return null;
+    }
+
+    // Clamp to the outermost pixel centres so the edge half-pixels are covered
+    const left = Math.max(0, Math.min(Math.floor(column), raster.width - 1));
+    const top = Math.max(0, Math.min(Math.floor(row), raster.height - 1));
+    const right = Math.min(left + 1, raster.width - 1);
+    const bottom = Math.min(top + 1, raster.height - 1);
+    const dx = Math.max(0, Math.min(column - left, 1));
+    const dy = Math.max(0, Math.min(row - top, 1));
+
+    const neighbours: Array<[number | null, number]> = [
+      [raster.read(left, top), (1 - dx) * (1 - dy)],
+      [raster.read(right, top), dx * (1 - dy)],
+      [raster.read(left, bottom), (1 - dx) * dy],
+      [raster.read(right, bottom), dx * dy]
+    ];
+
+    let sum = 0;
+    let weight = 0;
+    neighbours.forEach(([value, neighbourWeight]) => {
+      if (value !== null) {
+        sum += value * neighbourWeight;
+        weight += neighbourWeight;
+      }
+    });
+    return weight > 0 ? sum / weight : null;
+  };
+
+  return {
+    name: filename,
+    description: `GeoTIFF ${raster.width}×${raster.height} EPSG:${epsg}`,
+    sample
+  };
+}
@@ -1,6 +1,20 @@
 import { XMLParser } from 'fast-xml-parser';
+import { RawPointGroup, buildTrackPoints, readSensorExtensions, toArray } from './track-builder';
 
-export interface TrackPoint {
+/**
+ * Sensor readings recorded with a point (heart rate in bpm, cadence in rpm,
+ * temperature in °C, power in watts)
+ */
+export interface SensorReadings {
+  heartRate?: number;
+  cadence?: number;
+  temperature?: number;
+  power?: number;
+}
+
+export type SensorChannel = keyof SensorReadings;
+
+export interface TrackPoint extends SensorReadings {
   lat: number;
   lon: number;
   ele: number;
@@ -9,26 +23,141 @@ export interface TrackPoint {
   originalIndex: number;
 }
 
+export interface GPXWaypoint {
+  lat: number;
+  lon: number;
+  ele?: number;
+  name?: string;
+  time?: string;
+}
+
+export interface GPXRoute {
+  name?: string;
+  points: TrackPoint[];
+  totalDistance: number;
+}
+
+/**
+ * Continuous run of points (a <trkseg>), as inclusive indices into `trackPoints`
+ */
+export interface GPXSegment {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Group of points edited together (a <trk> or a <rte>)
+ *
+ * Distances restart at zero for every track, so each track is its own profile.
+ */
+export interface GPXTrack {
+  name?: string;
+  /** Element the points were read from; tracks without it are <trk> points */
+  source?: GPXPointSource;
+  startIndex: number;
+  endIndex: number;
+  totalDistance: number;
+  segments: GPXSegment[];
+}
+
+/**
+ * Which GPX elements points were read from; for a whole file, 'route' means
+ * it has routes only
+ */
+export type GPXPointSource = 'track' | 'route';
+
 export interface GPXData {
   name?: string;
   trackPoints: TrackPoint[];
+  tracks: GPXTrack[];
   totalDistance: number;
   elevationGain: number;
   elevationLoss: number;
+  source: GPXPointSource;
+  routes: GPXRoute[];
+  waypoints: GPXWaypoint[];
+}
+
+export interface GPXParseOptions {
+  /**
+   * Count the straight-line jump between consecutive segments of a track
+   * towards distance and ascent/descent. Defaults to false, so a paused
+   * recording does not show a fake jump in distance or an artificial cliff.
+   */
+  countSegmentGaps?: boolean;
+}
+
+interface PointGroup {
+  name?: string;
+  segments: any[][];
+}
+
+// Collects the <trkpt> nodes of every non-empty track and segment in document order
+function collectTrackGroups(gpx: any): PointGroup[] {
+  return toArray(gpx.trk)
+    .map((track: any) => ({
+      name: track?.name,
+      segments: toArray(track?.trkseg)
+        .map((segment: any) => toArray(segment?.trkpt))
+        .filter(points => points.length > 0)
+    }))
+    .filter(group => group.segments.length > 0);
+}
+
+// Collects the <rtept> nodes of every non-empty route in document order
+function collectRouteGroups(gpx: any): PointGroup[] {
+  return toArray(gpx.rte)
+    .map((route: any) => ({
+      name: route?.name,
+      segments: [toArray(route?.rtept)]
+    }))
+    .filter(group => group.segments[0].length > 0);
+}
+
+// Spreading a whole segment into push() overflows the call stack on long recordings
+function flattenGroups(groups: PointGroup[]): any[] {
+  const nodes: any[] = [];
+  groups.forEach(group => {
+    group.segments.forEach(segment => {
+      segment.forEach(node => nodes.push(node));
+    });
+  });
+  return nodes;
 }
 
-export function parseGPX(gpxContent: string): GPXData {
+// Element names of Garmin TrackPointExtension (v1/v2) and the common power extensions
+const SENSOR_EXTENSION_NAMES: Record<string, SensorChannel> = {
+  hr: 'heartRate',
+  cad: 'cadence',
+  atemp: 'temperature',
+  power: 'power',
+  PowerInWatts: 'power'
+};
+
+// Reads the coordinates, elevation, time and sensor extensions of <trkpt>/<rtept> nodes
+function toRawGroups(groups: PointGroup[]): RawPointGroup[] {
+  return groups.map(group => ({
+    name: group.name,
+    segments: group.segments.map(segment =>
+      segment.map((point: any) => ({
+        lat: parseFloat(point['@_lat']),
+        lon: parseFloat(point['@_lon']),
+        ele: point.ele ? parseFloat(point.ele) : 0,
+        time: point.time,
+        ...readSensorExtensions(point.extensions, SENSOR_EXTENSION_NAMES)
+      }))
+    )
+  }));
+}
+
+export function parseGPX(gpxContent: string, options: GPXParseOptions = {}): GPXData {
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_'
   });
 
   const gpxData = parser.parse(gpxContent);
-
-  const trackPoints: TrackPoint[] = [];
-  let totalDistance = 0;
-  let elevationGain = 0;
-  let elevationLoss = 0;
+  const countSegmentGaps = options.countSegmentGaps ?? false;
 
   // Navigate through the GPX structure
   const gpx = gpxData.gpx;
@@ -37,91 +166,75 @@ export function parseGPX(gpxContent: string): GPXData {
     throw new Error('Invalid GPX file: No GPX root element found');
   }
 
-  if (!gpx.trk) {
-    throw new Error('Invalid GPX file: No track data found');
+  const trackGroups = collectTrackGroups(gpx);
+  const routeGroups = collectRouteGroups(gpx);
+
+  if (trackGroups.length === 0 && routeGroups.length === 0) {
+    throw new Error('Invalid GPX file: No track or route data found');
   }
 
-  const tracks = Array.isArray(gpx.trk) ? gpx.trk : [gpx.trk];
-
-  tracks.forEach((track: any) => {
-    const segments = Array.isArray(track.trkseg) ? track.trkseg : [track.trkseg];
-    
-    segments.forEach((segment: any) => {
-      const points = Array.isArray(segment.trkpt) ? segment.trkpt : [segment.trkpt];
-      
-      points.forEach((point: any, index: number) => {
-        const lat = parseFloat(point['@_lat']);
-        const lon = parseFloat(point['@_lon']);
-        const ele = point.ele ? parseFloat(point.ele) : 0;
-        
-        // Calculate distance from previous point
-        let distance = 0;
-        if (trackPoints.length > 0) {
-          const prevPoint = trackPoints[trackPoints.length - 1];
-          distance = calculateDistance(prevPoint.lat, prevPoint.lon, lat, lon);
-          totalDistance += distance;
-        }
-
-        // Calculate elevation changes
-        if (trackPoints.length > 0) {
-          const elevationDiff = ele - trackPoints[trackPoints.length - 1].ele;
-          if (elevationDiff > 0) {
-            elevationGain += elevationDiff;
-          } else {
-            elevationLoss += Math.abs(elevationDiff);
-          }
-        }
-
-        trackPoints.push({
-          lat,
-          lon,
-          ele,
-          time: point.time,
-          distance: totalDistance,
-          originalIndex: trackPoints.length
-        });
-      });
-    });
+  // Routes are edited as further tracks after the <trk> ones, in the order exportGPX writes them back
+  const source: GPXPointSource = trackGroups.length > 0 ? 'track' : 'route';
+  const built = buildTrackPoints(toRawGroups([...trackGroups, ...routeGroups]), countSegmentGaps);
+  const { trackPoints, totalDistance, elevationGain, elevationLoss } = built;
+  const tracks: GPXTrack[] = built.tracks.map((track, index) =>
+    index < trackGroups.length ? track : { ...track, source: 'route' }
+  );
+
+  const routes: GPXRoute[] = routeGroups.map(group => {
+    const { trackPoints: points, totalDistance: routeDistance } = buildTrackPoints(toRawGroups([group]), countSegmentGaps);
+    return {
+      name: group.name,
+      points,
+      totalDistance: routeDistance
+    };
   });
 
-  // Prefer metadata name over track name
-  const trackName = gpx.metadata?.name || gpx.trk?.name || 'GPX Track';
+  const waypoints: GPXWaypoint[] = toArray(gpx.wpt).map((waypoint: any) => ({
+    lat: parseFloat(waypoint['@_lat']),
+    lon: parseFloat(waypoint['@_lon']),
+    ele: waypoint.ele !== undefined ? parseFloat(waypoint.ele) : undefined,
+    name: waypoint.name,
+    time: waypoint.time
+  }));
+
+  // Prefer metadata name over track or route name
+  const trackName = gpx.metadata?.name || tracks[0]?.name || routes[0]?.name || 'GPX Track';
 
   return {
     name: trackName,
     trackPoints,
+    tracks,
     totalDistance,
     elevationGain,
-    elevationLoss
+    elevationLoss,
+    source,
+    routes,
+    waypoints
   };
 }
 
 export function exportGPX(gpxData: GPXData, originalContent: string): string {
-  // Parse the original GPX to maintain structure
+  // Parse the original GPX to maintain structure; values are kept as text so
+  // extensions such as <gpxtpx:atemp>20.0</gpxtpx:atemp> are written back unchanged
   const parser = new XMLParser({
     ignoreAttributes: false,
-    attributeNamePrefix: '@_'
+    attributeNamePrefix: '@_',
+    parseTagValue: false
   });
 
   const originalGpx = parser.parse(originalContent);
-  
-  // Update elevation values in the original structure
-  const tracks = Array.isArray(originalGpx.gpx.trk) ? originalGpx.gpx.trk : [originalGpx.gpx.trk];
-  
-  let pointIndex = 0;
-  tracks.forEach((track: any) => {
-    const segments = Array.isArray(track.trkseg) ? track.trkseg : [track.trkseg];
-    
-    segments.forEach((segment: any) => {
-      const points = Array.isArray(segment.trkpt) ? segment.trkpt : [segment.trkpt];
-      
-      points.forEach((point: any) => {
-        if (pointIndex < gpxData.trackPoints.length) {
-          point.ele = gpxData.trackPoints[pointIndex].ele.toFixed(2);
-          pointIndex++;
-        }
-      });
-    });
+
+  // Update elevation values of the track points, then the route points, as parseGPX read them
+  const pointNodes = flattenGroups([
+    ...collectTrackGroups(originalGpx.gpx),
+    ...collectRouteGroups(originalGpx.gpx)
+  ]);
+
+  pointNodes.forEach((point: any, pointIndex: number) => {
+    if (pointIndex < gpxData.trackPoints.length) {
+      point.ele = gpxData.trackPoints[pointIndex].ele.toFixed(2);
+    }
   });
 
   // Convert back to XML
@@ -136,14 +249,63 @@ export function exportGPX(gpxData: GPXData, originalContent: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>\n${xmlString}`;
 }
 
-// Haversine formula for calculating distance between two points
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371000; // Earth's radius in meters
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
\ No newline at end of file
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Writes sensor readings as a Garmin TrackPointExtension, with power alongside it
+const buildSensorExtensions = (point: TrackPoint): string => {
+  const fields = [
+    ...(point.temperature !== undefined ? [`<gpxtpx:atemp>${point.temperature}</gpxtpx:atemp>`] : []),
+    ...(point.heartRate !== undefined ? [`<gpxtpx:hr>${point.heartRate}</gpxtpx:hr>`] : []),
+    ...(point.cadence !== undefined ? [`<gpxtpx:cad>${point.cadence}</gpxtpx:cad>`] : [])
+  ];
+  if (fields.length === 0 && point.power === undefined) {
+    return '';
+  }
+  return '<extensions>' +
+    (point.power !== undefined ? `<power>${point.power}</power>` : '') +
+    (fields.length > 0 ? `<gpxtpx:TrackPointExtension>${fields.join('')}</gpxtpx:TrackPointExtension>` : '') +
+    '</extensions>';
+};
+
+/**
+ * Creates a new GPX 1.1 document from the edited profile
+ *
+ * Used when converting other formats to GPX; every track is written as a
+ * <trk> with one <trkseg> per segment, waypoints as <wpt>. Sensor readings are
+ * written as Garmin TrackPointExtension data.
+ */
+export function buildGPX(gpxData: GPXData): string {
+  const waypoints = gpxData.waypoints.map(waypoint => [
+    `  <wpt lat="${waypoint.lat}" lon="${waypoint.lon}">`,
+    ...(waypoint.ele !== undefined ? [`    <ele>${waypoint.ele.toFixed(2)}</ele>`] : []),
+    ...(waypoint.time ? [`    <time>${escapeXml(waypoint.time)}</time>`] : []),
+    ...(waypoint.name ? [`    <name>${escapeXml(waypoint.name)}</name>`] : []),
+    '  </wpt>'
+  ].join('\n'));
+
+  const tracks = gpxData.tracks.map(track => [
+    '  <trk>',
+    ...(track.name ? [`    <name>${escapeXml(track.name)}</name>`] : []),
+    ...track.segments.map(segment => [
+      '    <trkseg>',
+      ...gpxData.trackPoints.slice(segment.startIndex, segment.endIndex + 1).map(point =>
+        `      <trkpt lat="${point.lat}" lon="${point.lon}"><ele>${point.ele.toFixed(2)}</ele>` +
+        `${point.time ? `<time>${escapeXml(point.time)}</time>` : ''}${buildSensorExtensions(point)}</trkpt>`
+      ),
+      '    </trkseg>'
+    ].join('\n')),
+    '  </trk>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Elevation Editor" xmlns="http://www.topografix.com/GPX/1/1"' +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    ...(gpxData.name ? [`  <metadata><name>${escapeXml(gpxData.name)}</name></metadata>`] : []),
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,91 @@
+import type { DemSource } from './dem';
+
+// Samples per tile edge for 1 and 3 arc-second tiles
+const SIZE_1_ARC_SECOND = 3601;
+const SIZE_3_ARC_SECONDS = 1201;
+const VOID_VALUE = -32768;
+
+/**
+ * South-west corner of an SRTM tile, read from a name such as "N50E014.hgt"
+ */
+export function parseHGTFilename(filename: string): { lat: number; lon: number } | null {
+  const match = /([NS])(\d{1,2})([EW])(\d{1,3})[^/\\]*\.hgt$/i.exec(filename);
+  if (!match) {
+    return null;
+  }
+  const lat = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const lon = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  return { lat, lon };
+}
+
+/**
+ * Reads an SRTM `.hgt` tile (1″ or 3″) as a DEM source
+ *
+ * Tiles are square grids of big-endian 16-bit elevations in meters, north row
+ * first, covering one degree from the south-west corner named in the file
+ * name. Positions are sampled with bilinear interpolation; void cells are left
+ * out of the interpolation, and a position surrounded only by voids has no
+ * elevation.
+ *
+ * @param content - Raw tile bytes
+ * @param filename - Tile file name, which carries the tile position
+ */
+export function parseHGT(content: ArrayBuffer, filename: string): DemSource {
+  const corner = parseHGTFilename(filename);
+  if (!corner) {
+    throw new Error(`Invalid HGT file: Cannot read the tile position from "${filename}"`);
+  }
+
+  const size = [SIZE_1_ARC_SECOND, SIZE_3_ARC_SECONDS].find(edge => edge * edge * 2 === content.byteLength);
+  if (!size) {
+    throw new Error('Invalid HGT file: Unexpected file size for a 1″ or 3″ tile');
+  }
+
+  const view = new DataView(content);
+  const cells = size - 1;
+  const north = corner.lat + 1;
+
+  const read = (row: number, column: number): number | null => {
+    const value = view.getInt16((row * size + column) * 2, false);
+    return value === VOID_VALUE ? null : value;
+  };
+
+  const sample = (lat: number, lon: number): number | null => {
+    const x = (lon - corner.lon) * cells;
+    const y = (north - lat) * cells;
+    if (x < 0 || y < 0 || x > cells || y > cells) {
+      return null;
+    }
+
+    const column = Math.min(Math.floor(x), cells - 1);
+    const row = Math.min(Math.floor(y), cells - 1);
+    const dx = x - column;
+    const dy = y - row;
+
+    const neighbours: Array<[number | null, number]> = [
+      [read(row, column), (1 - dx) * (1 - dy)],
+      [read(row, column + 1), dx * (1 - dy)],
+      [read(row + 1, column), (1 - dx) * dy],
+      [read(row + 1, column + 1), dx * dy]
+    ];
+
+    let sum = 0;
+    let weight = 0;
+    neighbours.forEach(([value, neighbourWeight]) => {
+      if (value !== null) {
+        sum += value * neighbourWeight;
+        weight += neighbourWeight;
+      }
+    });
+
+    return weight > 0 ? sum / weight : null;
+  };
+
+  const tileName = filename.split(/[/\\]/).pop()!.replace(/\.hgt$/i, '').toUpperCase();
+
+  return {
+    name: filename,
+    description: `SRTM ${size === SIZE_1_ARC_SECOND ? '1″' : '3″'} ${tileName}`,
+    sample
+  };
+}
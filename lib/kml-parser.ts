@@ -0,0 +1,284 @@
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { GPXData, GPXParseOptions, GPXWaypoint } from './gpx-parser';
+import { RawPointGroup, RawTrackPoint, buildTrackPoints, toArray } from './track-builder';
+import { createZipEntry, extractZipEntry, readZipEntries, writeZip } from './zip';
+
+/**
+ * Line geometry that holds editable points
+ *
+ * `LineString` keeps "lon,lat,alt" tuples in <coordinates>; `gx:Track` keeps
+ * "lon lat alt" in <gx:coord> elements paired with <when> timestamps.
+ */
+interface LineGeometry {
+  kind: 'line' | 'track';
+  node: any;
+}
+
+interface PlacemarkGroup {
+  name?: string;
+  geometries: LineGeometry[];
+}
+
+const TRACK_TAGS = ['gx:Track', 'Track'];
+const MULTI_TRACK_TAGS = ['gx:MultiTrack', 'MultiTrack'];
+
+// Placemarks of a container and of all nested Documents and Folders, in a stable order
+function collectPlacemarks(container: any): any[] {
+  if (!container || typeof container !== 'object') {
+    return [];
+  }
+  return [
+    ...toArray(container.Placemark),
+    ...toArray(container.Document).flatMap(collectPlacemarks),
+    ...toArray(container.Folder).flatMap(collectPlacemarks)
+  ];
+}
+
+// Line geometries of a geometry container (Placemark or MultiGeometry), in a stable order
+function collectLineGeometries(container: any): LineGeometry[] {
+  if (!container || typeof container !== 'object') {
+    return [];
+  }
+  return [
+    ...toArray(container.LineString).map(node => ({ kind: 'line' as const, node })),
+    ...TRACK_TAGS.flatMap(tag => toArray(container[tag]).map(node => ({ kind: 'track' as const, node }))),
+    ...MULTI_TRACK_TAGS.flatMap(tag => toArray(container[tag]).flatMap(collectLineGeometries)),
+    ...toArray(container.MultiGeometry).flatMap(collectLineGeometries)
+  ];
+}
+
+function collectPlacemarkGroups(kml: any): PlacemarkGroup[] {
+  return collectPlacemarks(kml)
+    .map(placemark => ({
+      name: placemark?.name !== undefined ? String(placemark.name) : undefined,
+      geometries: collectLineGeometries(placemark).filter(geometry => getTuples(geometry).length > 0)
+    }))
+    .filter(group => group.geometries.length > 0);
+}
+
+const splitWhitespace = (value: any): string[] =>
+  value === undefined || value === null ? [] : String(value).trim().split(/\s+/).filter(Boolean);
+
+// Coordinate tuples of a geometry, each as [lon, lat, alt?] strings
+function getTuples(geometry: LineGeometry): string[][] {
+  if (geometry.kind === 'line') {
+    return splitWhitespace(geometry.node?.coordinates).map(tuple => tuple.split(','));
+  }
+  return toArray(geometry.node?.['gx:coord'] ?? geometry.node?.coord).map(splitWhitespace);
+}
+
+function setTuples(geometry: LineGeometry, tuples: string[][]) {
+  if (geometry.kind === 'line') {
+    geometry.node.coordinates = tuples.map(tuple => tuple.join(',')).join(' ');
+    return;
+  }
+  const key = geometry.node['gx:coord'] !== undefined ? 'gx:coord' : 'coord';
+  const coords = tuples.map(tuple => tuple.join(' '));
+  geometry.node[key] = Array.isArray(geometry.node[key]) ? coords : coords[0];
+}
+
+function toRawPoints(geometry: LineGeometry): RawTrackPoint[] {
+  const times = geometry.kind === 'track' ? toArray(geometry.node?.when).map(String) : [];
+  return getTuples(geometry).map((tuple, index) => ({
+    lon: parseFloat(tuple[0]),
+    lat: parseFloat(tuple[1]),
+    ele: tuple[2] !== undefined ? parseFloat(tuple[2]) : 0,
+    time: times[index]
+  }));
+}
+
+const toRawGroups = (groups: PlacemarkGroup[]): RawPointGroup[] =>
+  groups.map(group => ({
+    name: group.name,
+    segments: group.geometries.map(toRawPoints)
+  }));
+
+/**
+ * Parses a KML document into the same structure as `parseGPX`
+ *
+ * Every placemark with line geometry becomes a track; each `LineString` or
+ * `gx:Track` in it (including inside `MultiGeometry` / `gx:MultiTrack`) is a
+ * segment. Point placemarks become waypoints.
+ */
+export function parseKML(kmlContent: string, options: GPXParseOptions = {}): GPXData {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_'
+  });
+
+  const kml = parser.parse(kmlContent).kml;
+
+  if (!kml) {
+    throw new Error('Invalid KML file: No kml root element found');
+  }
+
+  const groups = collectPlacemarkGroups(kml);
+
+  if (groups.length === 0) {
+    throw new Error('Invalid KML file: No LineString or gx:Track data found');
+  }
+
+  const { trackPoints, tracks, totalDistance, elevationGain, elevationLoss } = buildTrackPoints(
+    toRawGroups(groups),
+    options.countSegmentGaps ?? false
+  );
+
+  const waypoints: GPXWaypoint[] = collectPlacemarks(kml)
+    .filter(placemark => placemark?.Point?.coordinates !== undefined)
+    .map(placemark => {
+      const [lon, lat, ele] = String(placemark.Point.coordinates).trim().split(',');
+      return {
+        lat: parseFloat(lat),
+        lon: parseFloat(lon),
+        ele: ele !== undefined ? parseFloat(ele) : undefined,
+        name: placemark.name !== undefined ? String(placemark.name) : undefined,
+        time: placemark.TimeStamp?.when !== undefined ? String(placemark.TimeStamp.when) : undefined
+      };
+    });
+
+  const documentName = toArray(kml.Document)[0]?.name;
+
+  return {
+    name: documentName !== undefined ? String(documentName) : tracks[0]?.name || 'KML Track',
+    trackPoints,
+    tracks,
+    totalDistance,
+    elevationGain,
+    elevationLoss,
+    source: 'track',
+    routes: [],
+    waypoints
+  };
+}
+
+/**
+ * Writes the edited elevations back into the original KML content
+ *
+ * Only the altitude of each coordinate tuple is changed; longitude and latitude
+ * keep their original text, and styles, timestamps and other elements are kept.
+ */
+export function exportKML(gpxData: GPXData, originalContent: string): string {
+  // Keep values as strings so untouched numbers are written back unchanged
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false
+  });
+
+  const originalKml = parser.parse(originalContent);
+  let pointIndex = 0;
+
+  collectPlacemarkGroups(originalKml.kml).forEach(group => {
+    group.geometries.forEach(geometry => {
+      const tuples = getTuples(geometry).map(tuple => {
+        const point = gpxData.trackPoints[pointIndex++];
+        return point ? [tuple[0], tuple[1], point.ele.toFixed(2), ...tuple.slice(3)] : tuple;
+      });
+      setTuples(geometry, tuples);
+    });
+  });
+
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true
+  });
+
+  return xmlBuilder.build(originalKml);
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Creates a new KML document from the edited profile
+ *
+ * Tracks with timestamps are written as `gx:Track` so the times are kept;
+ * others as `LineString`. Segments share one placemark per track.
+ */
+export function buildKML(gpxData: GPXData): string {
+  const placemarks = gpxData.tracks.map((track, trackIndex) => {
+    const segments = track.segments.map(segment => gpxData.trackPoints.slice(segment.startIndex, segment.endIndex + 1));
+    const hasTimes = segments.every(points => points.every(point => point.time));
+
+    const geometries = segments.map(points => {
+      if (hasTimes) {
+        return [
+          '      <gx:Track>',
+          ...points.map(point => `        <when>${escapeXml(point.time!)}</when>`),
+          ...points.map(point => `        <gx:coord>${point.lon} ${point.lat} ${point.ele.toFixed(2)}</gx:coord>`),
+          '      </gx:Track>'
+        ].join('\n');
+      }
+      const coordinates = points.map(point => `${point.lon},${point.lat},${point.ele.toFixed(2)}`).join(' ');
+      return `      <LineString>\n        <altitudeMode>absolute</altitudeMode>\n        <coordinates>${coordinates}</coordinates>\n      </LineString>`;
+    });
+
+    const container = hasTimes ? 'gx:MultiTrack' : 'MultiGeometry';
+    const geometry = geometries.length === 1
+      ? geometries[0]
+      : `      <${container}>\n${geometries.join('\n')}\n      </${container}>`;
+
+    return `    <Placemark>\n      <name>${escapeXml(track.name || `Track ${trackIndex + 1}`)}</name>\n${geometry}\n    </Placemark>`;
+  });
+
+  const waypoints = gpxData.waypoints.map(waypoint => {
+    const coordinates = [waypoint.lon, waypoint.lat, ...(waypoint.ele !== undefined ? [waypoint.ele] : [])].join(',');
+    const name = waypoint.name ? `\n      <name>${escapeXml(waypoint.name)}</name>` : '';
+    return `    <Placemark>${name}\n      <Point><coordinates>${coordinates}</coordinates></Point>\n    </Placemark>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(gpxData.name || 'Track')}</name>`,
+    ...placemarks,
+    ...waypoints,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+// The main document of a KMZ archive is its first .kml entry
+function findKmlEntry(bytes: Uint8Array) {
+  const entries = readZipEntries(bytes);
+  const index = entries.findIndex(entry => entry.name.toLowerCase().endsWith('.kml'));
+  if (index < 0) {
+    throw new Error('Invalid KMZ file: No KML document found in archive');
+  }
+  return { entries, index };
+}
+
+const toBytes = (content: ArrayBuffer | Uint8Array): Uint8Array =>
+  content instanceof Uint8Array ? content : new Uint8Array(content);
+
+/**
+ * Parses a zipped KML (KMZ) file
+ */
+export function parseKMZ(content: ArrayBuffer | Uint8Array, options: GPXParseOptions = {}): GPXData {
+  const { entries, index } = findKmlEntry(toBytes(content));
+  return parseKML(new TextDecoder().decode(extractZipEntry(entries[index])), options);
+}
+
+/**
+ * Writes the edited elevations into the KML document of a KMZ archive
+ *
+ * Images and other files in the archive are copied unchanged.
+ */
+export function exportKMZ(gpxData: GPXData, originalContent: ArrayBuffer | Uint8Array): Uint8Array {
+  const { entries, index } = findKmlEntry(toBytes(originalContent));
+  const kml = exportKML(gpxData, new TextDecoder().decode(extractZipEntry(entries[index])));
+
+  const nextEntries = entries.slice();
+  nextEntries[index] = createZipEntry(entries[index].name, new TextEncoder().encode(kml));
+  return writeZip(nextEntries);
+}
+
+/**
+ * Creates a new KMZ archive from the edited profile
+ */
+export function buildKMZ(gpxData: GPXData): Uint8Array {
+  return writeZip([createZipEntry('doc.kml', new TextEncoder().encode(buildKML(gpxData)))]);
+}
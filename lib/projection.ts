@@ -0,0 +1,211 @@
+/**
+ * Projected position in the units of a coordinate reference system
+ */
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Converts a WGS84 latitude/longitude (degrees) into a coordinate reference system
+ */
+export type Projection = (lat: number, lon: number) => ProjectedPoint;
+
+interface Ellipsoid {
+  a: number;
+  f: number;
+}
+
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+const BESSEL_1841: Ellipsoid = { a: 6377397.155, f: 1 / 299.1528128 };
+
+const DEG = Math.PI / 180;
+const ARC_SECOND = DEG / 3600;
+
+/**
+ * Transverse Mercator forward projection using Krüger's series (accurate to
+ * well under a millimetre within a UTM zone)
+ */
+export function transverseMercator(
+  lat: number,
+  lon: number,
+  centralMeridian: number,
+  scale: number,
+  falseEasting: number,
+  falseNorthing: number,
+  ellipsoid: Ellipsoid = WGS84
+): ProjectedPoint {
+  const { a, f } = ellipsoid;
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const rectifyingRadius = (a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64);
+  const alpha = [
+    n / 2 - (2 / 3) * n2 + (5 / 16) * n3,
+    (13 / 48) * n2 - (3 / 5) * n3,
+    (61 / 240) * n3
+  ];
+
+  const phi = lat * DEG;
+  const lambda = (lon - centralMeridian) * DEG;
+  const e = Math.sqrt(f * (2 - f));
+
+  // Conformal latitude
+  const t = Math.sinh(atanh(Math.sin(phi)) - e * atanh(e * Math.sin(phi)));
+  const xiPrime = Math.atan2(t, Math.cos(lambda));
+  const etaPrime = atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  alpha.forEach((coefficient, index) => {
+    const j = 2 * (index + 1);
+    xi += coefficient * Math.sin(j * xiPrime) * Math.cosh(j * etaPrime);
+    eta += coefficient * Math.cos(j * xiPrime) * Math.sinh(j * etaPrime);
+  });
+
+  return {
+    x: falseEasting + scale * rectifyingRadius * eta,
+    y: falseNorthing + scale * rectifyingRadius * xi
+  };
+}
+
+function atanh(value: number): number {
+  return 0.5 * Math.log((1 + value) / (1 - value));
+}
+
+/**
+ * UTM projection for a zone on the WGS84 ellipsoid (also used for ETRS89,
+ * which differs from WGS84 by well under a metre)
+ */
+export function utm(zone: number, south: boolean): Projection {
+  const centralMeridian = zone * 6 - 183;
+  return (lat, lon) => transverseMercator(lat, lon, centralMeridian, 0.9996, 500000, south ? 10000000 : 0);
+}
+
+const toCartesian = (lat: number, lon: number, height: number, { a, f }: Ellipsoid): [number, number, number] => {
+  const e2 = f * (2 - f);
+  const phi = lat * DEG;
+  const lambda = lon * DEG;
+  const radius = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    (radius + height) * Math.cos(phi) * Math.cos(lambda),
+    (radius + height) * Math.cos(phi) * Math.sin(lambda),
+    (radius * (1 - e2) + height) * Math.sin(phi)
+  ];
+};
+
+const toGeodetic = ([x, y, z]: [number, number, number], { a, f }: Ellipsoid): { lat: number; lon: number } => {
+  const e2 = f * (2 - f);
+  const p = Math.sqrt(x * x + y * y);
+  let phi = Math.atan2(z, p * (1 - e2));
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const radius = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const height = p / Math.cos(phi) - radius;
+    phi = Math.atan2(z, p * (1 - (e2 * radius) / (radius + height)));
+  }
+  return { lat: phi / DEG, lon: Math.atan2(y, x) / DEG };
+};
+
+// S-JTSK to WGS84 position vector transformation (translations in metres,
+// rotations in arc-seconds, scale in ppm), applied in reverse
+const SJTSK_TO_WGS84 = { tx: 570.8, ty: 85.7, tz: 462.8, rx: 4.998, ry: 1.587, rz: 5.261, scale: 3.56 };
+
+/**
+ * Converts WGS84 latitude/longitude to S-JTSK (Bessel 1841) latitude/longitude
+ */
+export function wgs84ToSjtsk(lat: number, lon: number): { lat: number; lon: number } {
+  const [x, y, z] = toCartesian(lat, lon, 0, WGS84);
+  const { tx, ty, tz } = SJTSK_TO_WGS84;
+  const rx = -SJTSK_TO_WGS84.rx * ARC_SECOND;
+  const ry = -SJTSK_TO_WGS84.ry * ARC_SECOND;
+  const rz = -SJTSK_TO_WGS84.rz * ARC_SECOND;
+  const scale = 1 - SJTSK_TO_WGS84.scale * 1e-6;
+
+  const dx = x - tx;
+  const dy = y - ty;
+  const dz = z - tz;
+  return toGeodetic(
+    [
+      scale * (dx - rz * dy + ry * dz),
+      scale * (rz * dx + dy - rx * dz),
+      scale * (-ry * dx + rx * dy + dz)
+    ],
+    BESSEL_1841
+  );
+}
+
+/**
+ * Krovak projection of an S-JTSK (Bessel 1841) latitude/longitude
+ *
+ * Follows the EPSG guidance note 7-2 formulas with the parameters of
+ * S-JTSK / Krovak; returns the southing (X) and westing (Y) in metres.
+ */
+export function krovak(lat: number, lon: number): { southing: number; westing: number } {
+  const { a, f } = BESSEL_1841;
+  const e = Math.sqrt(f * (2 - f));
+  const e2 = e * e;
+  const latitudeOfCentre = 49.5 * DEG;
+  const longitudeOfOrigin = (24 + 50 / 60) * DEG;
+  const coneAxisColatitude = (30 + 17 / 60 + 17.30311 / 3600) * DEG;
+  const pseudoStandardParallel = 78.5 * DEG;
+  const scale = 0.9999;
+
+  const A = (a * Math.sqrt(1 - e2)) / (1 - e2 * Math.sin(latitudeOfCentre) ** 2);
+  const B = Math.sqrt(1 + (e2 * Math.cos(latitudeOfCentre) ** 4) / (1 - e2));
+  const gamma0 = Math.asin(Math.sin(latitudeOfCentre) / B);
+  const t0 =
+    (Math.tan(Math.PI / 4 + gamma0 / 2) *
+      ((1 + e * Math.sin(latitudeOfCentre)) / (1 - e * Math.sin(latitudeOfCentre))) ** ((e * B) / 2)) /
+    Math.tan(Math.PI / 4 + latitudeOfCentre / 2) ** B;
+  const n = Math.sin(pseudoStandardParallel);
+  const r0 = (scale * A) / Math.tan(pseudoStandardParallel);
+
+  const phi = lat * DEG;
+  const U =
+    2 *
+    (Math.atan(
+      (t0 * Math.tan(phi / 2 + Math.PI / 4) ** B) /
+        ((1 + e * Math.sin(phi)) / (1 - e * Math.sin(phi))) ** ((e * B) / 2)
+    ) -
+      Math.PI / 4);
+  const V = B * (longitudeOfOrigin - lon * DEG);
+  const T = Math.asin(
+    Math.cos(coneAxisColatitude) * Math.sin(U) + Math.sin(coneAxisColatitude) * Math.cos(U) * Math.cos(V)
+  );
+  const D = Math.asin((Math.cos(U) * Math.sin(V)) / Math.cos(T));
+  const theta = n * D;
+  const r = (r0 * Math.tan(Math.PI / 4 + pseudoStandardParallel / 2) ** n) / Math.tan(T / 2 + Math.PI / 4) ** n;
+
+  return { southing: r * Math.cos(theta), westing: r * Math.sin(theta) };
+}
+
+/**
+ * Returns the projection from WGS84 into an EPSG coordinate reference system
+ *
+ * Supported: geographic WGS84/ETRS89 (4326, 4258), WGS84 / UTM (326xx, 327xx),
+ * ETRS89 / UTM (258xx) and S-JTSK / Krovak (5514 east-north, 2065 south-west).
+ *
+ * @throws When the CRS is not supported
+ */
+export function getProjection(epsg: number): Projection {
+  if (epsg === 4326 || epsg === 4258) {
+    return (lat, lon) => ({ x: lon, y: lat });
+  }
+  if (epsg >= 32601 && epsg <= 32660) {
+    return utm(epsg - 32600, false);
+  }
+  if (epsg >= 32701 && epsg <= 32760) {
+    return utm(epsg - 32700, true);
+  }
+  if (epsg >= 25801 && epsg <= 25860) {
+    return utm(epsg - 25800, false);
+  }
+  if (epsg === 5514 || epsg === 2065) {
+    return (lat, lon) => {
+      const sjtsk = wgs84ToSjtsk(lat, lon);
+      const { southing, westing } = krovak(sjtsk.lat, sjtsk.lon);
+      return epsg === 5514 ? { x: -westing, y: -southing } : { x: westing, y: southing };
+    };
+  }
+  throw new Error(`Unsupported coordinate reference system EPSG:${epsg}`);
+}
@@ -0,0 +1,191 @@
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { GPXData, GPXParseOptions, GPXPointSource, GPXWaypoint, SensorChannel } from './gpx-parser';
+import { RawPointGroup, buildTrackPoints, readSensorExtensions, toArray } from './track-builder';
+
+interface TrackpointGroup {
+  name?: string;
+  segments: any[][];
+}
+
+// Trackpoints without a position (e.g. heart rate only while GPS was lost) cannot be edited
+const hasPosition = (trackpoint: any): boolean =>
+  trackpoint?.Position?.LatitudeDegrees !== undefined &&
+  trackpoint?.Position?.LongitudeDegrees !== undefined;
+
+const collectTrackpoints = (track: any): any[] =>
+  toArray(track?.Trackpoint).filter(hasPosition);
+
+// Collects the <Trackpoint> nodes of every activity. Extra <Track> elements
+// inside a lap mark a pause and start a new segment; lap boundaries do not.
+function collectActivityGroups(tcx: any): TrackpointGroup[] {
+  return toArray(tcx.Activities?.Activity)
+    .map((activity: any) => {
+      const segments: any[][] = [];
+      toArray(activity?.Lap).forEach((lap: any) => {
+        toArray(lap?.Track).forEach((track: any, trackIndex: number) => {
+          const trackpoints = collectTrackpoints(track);
+          if (trackpoints.length === 0) {
+            return;
+          }
+          if (trackIndex === 0 && segments.length > 0) {
+            segments[segments.length - 1] = segments[segments.length - 1].concat(trackpoints);
+          } else {
+            segments.push(trackpoints);
+          }
+        });
+      });
+      return { name: activity?.Notes || activity?.Id, segments };
+    })
+    .filter(group => group.segments.length > 0);
+}
+
+// Collects the <Trackpoint> nodes of every course
+function collectCourseGroups(tcx: any): TrackpointGroup[] {
+  return toArray(tcx.Courses?.Course)
+    .map((course: any) => ({
+      name: course?.Name,
+      segments: toArray(course?.Track)
+        .map(collectTrackpoints)
+        .filter(trackpoints => trackpoints.length > 0)
+    }))
+    .filter(group => group.segments.length > 0);
+}
+
+// <HeartRateBpm><Value>, <Cadence> and the ActivityExtension <TPX> fields
+const TCX_SENSOR_NAMES: Record<string, SensorChannel> = {
+  Value: 'heartRate',
+  Cadence: 'cadence',
+  RunCadence: 'cadence',
+  Watts: 'power'
+};
+
+function toRawGroups(groups: TrackpointGroup[]): RawPointGroup[] {
+  return groups.map(group => ({
+    name: group.name !== undefined ? String(group.name) : undefined,
+    segments: group.segments.map(segment =>
+      segment.map((trackpoint: any) => ({
+        lat: parseFloat(trackpoint.Position.LatitudeDegrees),
+        lon: parseFloat(trackpoint.Position.LongitudeDegrees),
+        ele: trackpoint.AltitudeMeters !== undefined ? parseFloat(trackpoint.AltitudeMeters) : 0,
+        time: trackpoint.Time !== undefined ? String(trackpoint.Time) : undefined,
+        recordedDistance: trackpoint.DistanceMeters !== undefined
+          ? parseFloat(trackpoint.DistanceMeters)
+          : undefined,
+        ...readSensorExtensions(
+          { HeartRateBpm: trackpoint.HeartRateBpm, Cadence: trackpoint.Cadence, Extensions: trackpoint.Extensions },
+          TCX_SENSOR_NAMES
+        )
+      }))
+    )
+  }));
+}
+
+/**
+ * Parses a Garmin Training Center (TCX) file into the same structure as `parseGPX`
+ *
+ * Activities are edited as tracks and courses as routes. Distances come from
+ * <DistanceMeters> where the device recorded them.
+ */
+export function parseTCX(tcxContent: string, options: GPXParseOptions = {}): GPXData {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_'
+  });
+
+  const tcx = parser.parse(tcxContent).TrainingCenterDatabase;
+  const countSegmentGaps = options.countSegmentGaps ?? false;
+
+  if (!tcx) {
+    throw new Error('Invalid TCX file: No TrainingCenterDatabase root element found');
+  }
+
+  const activityGroups = collectActivityGroups(tcx);
+  const courseGroups = collectCourseGroups(tcx);
+
+  if (activityGroups.length === 0 && courseGroups.length === 0) {
+    throw new Error('Invalid TCX file: No activity or course data found');
+  }
+
+  const source: GPXPointSource = activityGroups.length > 0 ? 'track' : 'route';
+  const { trackPoints, tracks, totalDistance, elevationGain, elevationLoss } = buildTrackPoints(
+    toRawGroups(source === 'track' ? activityGroups : courseGroups),
+    countSegmentGaps
+  );
+
+  // Course points are the TCX counterpart of GPX waypoints
+  const waypoints: GPXWaypoint[] = toArray(tcx.Courses?.Course)
+    .flatMap((course: any) => toArray(course?.CoursePoint))
+    .filter(hasPosition)
+    .map((coursePoint: any) => ({
+      lat: parseFloat(coursePoint.Position.LatitudeDegrees),
+      lon: parseFloat(coursePoint.Position.LongitudeDegrees),
+      ele: coursePoint.AltitudeMeters !== undefined ? parseFloat(coursePoint.AltitudeMeters) : undefined,
+      name: coursePoint.Name !== undefined ? String(coursePoint.Name) : undefined,
+      time: coursePoint.Time !== undefined ? String(coursePoint.Time) : undefined
+    }));
+
+  return {
+    name: tracks[0]?.name || 'TCX Activity',
+    trackPoints,
+    tracks,
+    totalDistance,
+    elevationGain,
+    elevationLoss,
+    source,
+    routes: [],
+    waypoints
+  };
+}
+
+// Sets <AltitudeMeters>, keeping the schema order (right after <Position>) when it has to be added
+function setAltitude(trackpoint: any, altitude: string) {
+  if (trackpoint.AltitudeMeters !== undefined) {
+    trackpoint.AltitudeMeters = altitude;
+    return;
+  }
+
+  const entries = Object.entries(trackpoint);
+  Object.keys(trackpoint).forEach(key => delete trackpoint[key]);
+  entries.forEach(([key, value]) => {
+    trackpoint[key] = value;
+    if (key === 'Position') {
+      trackpoint.AltitudeMeters = altitude;
+    }
+  });
+}
+
+/**
+ * Writes the edited elevations back into the original TCX content
+ *
+ * Only <AltitudeMeters> is changed; laps, heart rate, cadence, extensions and
+ * all other values are kept exactly as they were in the original file.
+ */
+export function exportTCX(gpxData: GPXData, originalContent: string): string {
+  // Keep values as strings so untouched numbers are written back unchanged
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false
+  });
+
+  const originalTcx = parser.parse(originalContent);
+  const tcx = originalTcx.TrainingCenterDatabase;
+
+  const groups = gpxData.source === 'route' ? collectCourseGroups(tcx) : collectActivityGroups(tcx);
+  const trackpoints = groups.flatMap(group => group.segments.flat());
+
+  trackpoints.forEach((trackpoint: any, pointIndex: number) => {
+    if (pointIndex < gpxData.trackPoints.length) {
+      setAltitude(trackpoint, gpxData.trackPoints[pointIndex].ele.toFixed(2));
+    }
+  });
+
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true
+  });
+
+  // The original XML declaration is kept by the parser and written back by the builder
+  return xmlBuilder.build(originalTcx);
+}
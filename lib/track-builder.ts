@@ -0,0 +1,171 @@
+import type { TrackPoint, GPXSegment, GPXTrack, SensorChannel, SensorReadings } from './gpx-parser';
+
+/**
+ * Sensor channels in display order
+ */
+export const SENSOR_CHANNELS: SensorChannel[] = ['heartRate', 'cadence', 'power', 'temperature'];
+
+/**
+ * Point read from a track file, before distances are accumulated
+ */
+export interface RawTrackPoint extends SensorReadings {
+  lat: number;
+  lon: number;
+  ele: number;
+  time?: string;
+  /**
+   * Cumulative distance recorded by the device (e.g. TCX <DistanceMeters>).
+   * When present on consecutive points it is used instead of the straight-line distance.
+   */
+  recordedDistance?: number;
+}
+
+/**
+ * Points of one track, split into continuous segments
+ */
+export interface RawPointGroup {
+  name?: string;
+  segments: RawTrackPoint[][];
+}
+
+export function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Copies the sensor readings that are present, so points without sensor data
+ * carry no extra keys
+ */
+export function pickSensorReadings(point: SensorReadings): SensorReadings {
+  const readings: SensorReadings = {};
+  SENSOR_CHANNELS.forEach(channel => {
+    if (point[channel] !== undefined) {
+      readings[channel] = point[channel];
+    }
+  });
+  return readings;
+}
+
+/**
+ * Collects sensor readings from an extensions node
+ *
+ * Element names are matched without their namespace prefix, so `gpxtpx:hr`,
+ * `ns3:hr` and `hr` are all read. The first value found for a channel wins.
+ *
+ * @param node - Parsed extensions element
+ * @param names - Channel for each element name
+ */
+export function readSensorExtensions(node: any, names: Record<string, SensorChannel>): SensorReadings {
+  const readings: SensorReadings = {};
+
+  const visit = (value: any) => {
+    if (value === null || typeof value !== 'object') {
+      return;
+    }
+    Object.keys(value).forEach(key => {
+      const channel = names[key.replace(/^.*:/, '')];
+      const child = Array.isArray(value[key]) ? value[key][0] : value[key];
+      if (channel && typeof child !== 'object') {
+        const reading = parseFloat(child);
+        if (readings[channel] === undefined && Number.isFinite(reading)) {
+          readings[channel] = reading;
+        }
+      } else {
+        visit(child);
+      }
+    });
+  };
+
+  visit(node);
+  return readings;
+}
+
+/**
+ * Builds the flat point list, track ranges and totals shared by every file format
+ *
+ * Distance restarts at zero for every group. Segment breaks add no distance or
+ * elevation change unless `countSegmentGaps` is set.
+ */
+export function buildTrackPoints(groups: RawPointGroup[], countSegmentGaps: boolean) {
+  const trackPoints: TrackPoint[] = [];
+  const tracks: GPXTrack[] = [];
+  let totalDistance = 0;
+  let elevationGain = 0;
+  let elevationLoss = 0;
+
+  groups.forEach(group => {
+    const trackStart = trackPoints.length;
+    const segments: GPXSegment[] = [];
+    let trackDistance = 0;
+    let prevRaw: RawTrackPoint | undefined;
+
+    group.segments.forEach((segmentPoints, segmentIndex) => {
+      const segmentStart = trackPoints.length;
+
+      segmentPoints.forEach((point, pointIndex) => {
+        const { lat, lon, ele } = point;
+
+        const isTrackStart = segmentIndex === 0 && pointIndex === 0;
+        const isSegmentBreak = segmentIndex > 0 && pointIndex === 0;
+
+        if (!isTrackStart && (!isSegmentBreak || countSegmentGaps)) {
+          const prevPoint = trackPoints[trackPoints.length - 1];
+
+          // Prefer the distance measured by the device over the straight line
+          if (prevRaw?.recordedDistance !== undefined && point.recordedDistance !== undefined) {
+            trackDistance += Math.max(0, point.recordedDistance - prevRaw.recordedDistance);
+          } else {
+            trackDistance += calculateDistance(prevPoint.lat, prevPoint.lon, lat, lon);
+          }
+
+          // Calculate elevation changes
+          const elevationDiff = ele - prevPoint.ele;
+          if (elevationDiff > 0) {
+            elevationGain += elevationDiff;
+          } else {
+            elevationLoss += Math.abs(elevationDiff);
+          }
+        }
+
+        trackPoints.push({
+          lat,
+          lon,
+          ele,
+          time: point.time,
+          ...pickSensorReadings(point),
+          distance: trackDistance,
+          originalIndex: trackPoints.length
+        });
+        prevRaw = point;
+      });
+
+      segments.push({ startIndex: segmentStart, endIndex: trackPoints.length - 1 });
+    });
+
+    tracks.push({
+      name: group.name,
+      startIndex: trackStart,
+      endIndex: trackPoints.length - 1,
+      totalDistance: trackDistance,
+      segments
+    });
+    totalDistance += trackDistance;
+  });
+
+  return { trackPoints, tracks, totalDistance, elevationGain, elevationLoss };
+}
+
+// Haversine formula for calculating distance between two points
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
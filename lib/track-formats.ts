@@ -0,0 +1,132 @@
+import { GPXData, GPXParseOptions, parseGPX, exportGPX, buildGPX } from './gpx-parser';
+import { parseTCX, exportTCX } from './tcx-parser';
+import { parseFIT, exportFIT } from './fit-parser';
+import { parseKML, exportKML, buildKML, parseKMZ, exportKMZ, buildKMZ } from './kml-parser';
+import { parseGeoJSON, exportGeoJSON, buildGeoJSON } from './geojson-parser';
+
+/**
+ * File formats that can be loaded and written back
+ */
+export type TrackFileFormat = 'gpx' | 'tcx' | 'fit' | 'kml' | 'kmz' | 'geojson';
+
+/**
+ * Content of a loaded file: text for XML formats, bytes for binary formats
+ */
+export type TrackFileContent = string | ArrayBuffer;
+
+type TrackFileHandler =
+  | {
+      binary: false;
+      parse: (content: string, options?: GPXParseOptions) => GPXData;
+      export: (gpxData: GPXData, originalContent: string) => string;
+      mimeType: string;
+    }
+  | {
+      binary: true;
+      parse: (content: ArrayBuffer, options?: GPXParseOptions) => GPXData;
+      export: (gpxData: GPXData, originalContent: ArrayBuffer) => Uint8Array;
+      mimeType: string;
+    };
+
+const HANDLERS: Record<TrackFileFormat, TrackFileHandler> = {
+  gpx: { binary: false, parse: parseGPX, export: exportGPX, mimeType: 'application/gpx+xml' },
+  tcx: { binary: false, parse: parseTCX, export: exportTCX, mimeType: 'application/vnd.garmin.tcx+xml' },
+  fit: { binary: true, parse: parseFIT, export: exportFIT, mimeType: 'application/vnd.ant.fit' },
+  kml: { binary: false, parse: parseKML, export: exportKML, mimeType: 'application/vnd.google-earth.kml+xml' },
+  kmz: { binary: true, parse: parseKMZ, export: exportKMZ, mimeType: 'application/vnd.google-earth.kmz' },
+  geojson: { binary: false, parse: parseGeoJSON, export: exportGeoJSON, mimeType: 'application/geo+json' }
+};
+
+/**
+ * Formats the edited profile can be converted to, whatever format was loaded
+ */
+export const CONVERSION_FORMATS = ['gpx', 'kml', 'kmz', 'geojson'] as const;
+
+export type ConversionFormat = typeof CONVERSION_FORMATS[number];
+
+const BUILDERS: Record<ConversionFormat, (gpxData: GPXData) => string | Uint8Array> = {
+  gpx: buildGPX,
+  kml: buildKML,
+  kmz: buildKMZ,
+  geojson: buildGeoJSON
+};
+
+/**
+ * Value for the `accept` attribute of file inputs
+ */
+export const ACCEPTED_FILE_TYPES = Object.keys(HANDLERS).map(format => `.${format}`).join(',');
+
+/**
+ * Detects the file format from the file name extension
+ *
+ * @returns The format, or null when the extension is not supported
+ */
+export function getTrackFileFormat(filename: string): TrackFileFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension && extension in HANDLERS ? extension as TrackFileFormat : null;
+}
+
+// Unknown extensions fall back to GPX, the format the editor was built for
+const getHandler = (filename: string): TrackFileHandler =>
+  HANDLERS[getTrackFileFormat(filename) ?? 'gpx'];
+
+// e.g. "ride.fit" -> "ride_modified.kml"
+const getModifiedFilename = (filename: string, format: TrackFileFormat): string =>
+  getTrackFileFormat(filename)
+    ? filename.replace(/\.[^.]+$/, `_modified.${format}`)
+    : `${filename}_modified.${format}`;
+
+const asText = (content: TrackFileContent): string =>
+  typeof content === 'string' ? content : new TextDecoder().decode(content);
+
+const asBinary = (content: TrackFileContent): ArrayBuffer => {
+  if (typeof content !== 'string') {
+    return content;
+  }
+  throw new Error('Binary file was read as text');
+};
+
+/**
+ * Reads a selected file as text or bytes, depending on its format
+ */
+export function readTrackFile(file: File): Promise<TrackFileContent> {
+  return getHandler(file.name).binary ? file.arrayBuffer() : file.text();
+}
+
+export function parseTrackFile(content: TrackFileContent, filename: string, options: GPXParseOptions = {}): GPXData {
+  const handler = getHandler(filename);
+  return handler.binary
+    ? handler.parse(asBinary(content), options)
+    : handler.parse(asText(content), options);
+}
+
+/**
+ * Writes the edited elevations back in the format of the original file
+ *
+ * @returns The file content, its MIME type and a download name such as `ride_modified.tcx`
+ */
+export function exportTrackFile(gpxData: GPXData, originalContent: TrackFileContent, filename: string) {
+  const handler = getHandler(filename);
+
+  return {
+    content: handler.binary
+      ? handler.export(gpxData, asBinary(originalContent))
+      : handler.export(gpxData, asText(originalContent)),
+    mimeType: handler.mimeType,
+    filename: getModifiedFilename(filename, getTrackFileFormat(filename) ?? 'gpx')
+  };
+}
+
+/**
+ * Creates a new file in another format from the edited profile
+ *
+ * Unlike `exportTrackFile` this does not start from the original file, so only
+ * positions, elevations, times, track and segment structure and waypoints are kept.
+ */
+export function convertTrackFile(gpxData: GPXData, format: ConversionFormat, filename: string) {
+  return {
+    content: BUILDERS[format](gpxData),
+    mimeType: HANDLERS[format].mimeType,
+    filename: getModifiedFilename(filename, format)
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Minimal ZIP archive support for KMZ files
+ *
+ * Reads stored and deflated entries and writes archives that keep the
+ * original (still compressed) data of entries that were not replaced.
+ */
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// 1980-01-01 00:00, the earliest date a ZIP entry can carry
+const DEFAULT_DOS_DATE = 0x0021;
+const DEFAULT_DOS_TIME = 0;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc32: number;
+  uncompressedSize: number;
+  modTime: number;
+  modDate: number;
+  /** Entry data as stored in the archive (compressed when `method` is deflate) */
+  data: Uint8Array;
+}
+
+let crcTable: number[] | null = null;
+
+export function calculateCrc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = crcTable[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Lists the entries of a ZIP archive using its central directory
+ */
+export function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record is followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Invalid ZIP archive: No end of central directory found');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: Corrupted central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const localOffset = view.getUint32(offset + 42, true);
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('Invalid ZIP archive: Corrupted local file header');
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+
+    entries.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      modTime: view.getUint16(offset + 12, true),
+      modDate: view.getUint16(offset + 14, true),
+      crc32: view.getUint32(offset + 16, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      data: bytes.subarray(dataStart, dataStart + compressedSize)
+    });
+
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  return entries;
+}
+
+/**
+ * Returns the uncompressed content of an entry
+ */
+export function extractZipEntry(entry: ZipEntry): Uint8Array {
+  if (entry.method === METHOD_STORED) {
+    return entry.data;
+  }
+  if (entry.method === METHOD_DEFLATED) {
+    return inflateRaw(entry.data, entry.uncompressedSize);
+  }
+  throw new Error(`Unsupported ZIP compression method: ${entry.method}`);
+}
+
+/**
+ * Creates a stored (uncompressed) entry
+ */
+export function createZipEntry(name: string, content: Uint8Array): ZipEntry {
+  return {
+    name,
+    method: METHOD_STORED,
+    crc32: calculateCrc32(content),
+    uncompressedSize: content.length,
+    modTime: DEFAULT_DOS_TIME,
+    modDate: DEFAULT_DOS_DATE,
+    data: content
+  };
+}
+
+/**
+ * Writes entries into a new ZIP archive
+ */
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = entries.map(entry => encoder.encode(entry.name));
+  const localSize = entries.reduce((sum, entry, index) => sum + 30 + names[index].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  const localOffsets: number[] = [];
+  let offset = 0;
+
+  // Shared fields of local and central headers, starting at "version needed"
+  const writeEntryFields = (at: number, entry: ZipEntry, name: Uint8Array) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+    view.setUint16(at + 4, entry.method, true);
+    view.setUint16(at + 6, entry.modTime, true);
+    view.setUint16(at + 8, entry.modDate, true);
+    view.setUint32(at + 10, entry.crc32, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.uncompressedSize, true);
+    view.setUint16(at + 22, name.length, true);
+  };
+
+  entries.forEach((entry, index) => {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    writeEntryFields(offset + 4, entry, names[index]);
+    bytes.set(names[index], offset + 30);
+    bytes.set(entry.data, offset + 30 + names[index].length);
+    offset += 30 + names[index].length + entry.data.length;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    writeEntryFields(offset + 6, entry, names[index]);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(names[index], offset + 46);
+    offset += 46 + names[index].length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+}
+
+// ============================================================================
+// Raw DEFLATE decoder (RFC 1951)
+// ============================================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: number[];
+  symbols: number[];
+}
+
+// Builds a canonical Huffman decoding table from code lengths
+function buildHuffman(lengths: number[]): Huffman {
+  const counts = new Array(16).fill(0);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+
+  const offsets = [0, 0];
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols: number[] = [];
+  lengths.forEach((length, symbol) => {
+    if (length !== 0) {
+      symbols[offsets[length]++] = symbol;
+    }
+  });
+
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+/**
+ * Decompresses raw DEFLATE data
+ *
+ * @param data - Compressed data without zlib or gzip header
+ * @param expectedSize - Uncompressed size, used to allocate the output
+ */
+export function inflateRaw(data: Uint8Array, expectedSize = data.length * 4): Uint8Array {
+  let output = new Uint8Array(Math.max(expectedSize, 1));
+  let outputLength = 0;
+  let position = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= data.length) {
+        throw new Error('Invalid DEFLATE data: Unexpected end of data');
+      }
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= bits(1);
+      const count = huffman.counts[length];
+      if (code - count < first) {
+        return huffman.symbols[index + (code - first)];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid DEFLATE data: Bad Huffman code');
+  };
+
+  const ensureCapacity = (extra: number) => {
+    if (outputLength + extra > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outputLength + extra));
+      grown.set(output.subarray(0, outputLength));
+      output = grown;
+    }
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = bits(1) === 1;
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block: skip to the byte boundary, then copy LEN bytes
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > data.length) {
+        throw new Error('Invalid DEFLATE data: Unexpected end of data');
+      }
+      const length = data[position] | (data[position + 1] << 8);
+      position += 4;
+      ensureCapacity(length);
+      output.set(data.subarray(position, position + length), outputLength);
+      outputLength += length;
+      position += length;
+      continue;
+    }
+
+    let literals = FIXED_LITERALS;
+    let distances = FIXED_DISTANCES;
+
+    if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengths = new Array(19).fill(0);
+      for (let index = 0; index < codeLengthCount; index++) {
+        codeLengths[CODE_LENGTH_ORDER[index]] = bits(3);
+      }
+      const codeLengthHuffman = buildHuffman(codeLengths);
+
+      const lengths: number[] = [];
+      while (lengths.length < literalCount + distanceCount) {
+        const symbol = decodeSymbol(codeLengthHuffman);
+        if (symbol < 16) {
+          lengths.push(symbol);
+        } else if (symbol === 16) {
+          const previous = lengths[lengths.length - 1];
+          for (let repeat = 3 + bits(2); repeat > 0; repeat--) lengths.push(previous);
+        } else if (symbol === 17) {
+          for (let repeat = 3 + bits(3); repeat > 0; repeat--) lengths.push(0);
+        } else {
+          for (let repeat = 11 + bits(7); repeat > 0; repeat--) lengths.push(0);
+        }
+      }
+
+      literals = buildHuffman(lengths.slice(0, literalCount));
+      distances = buildHuffman(lengths.slice(literalCount));
+    } else if (type !== 1) {
+      throw new Error('Invalid DEFLATE data: Bad block type');
+    }
+
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol === 256) {
+        break;
+      }
+      if (symbol < 256) {
+        ensureCapacity(1);
+        output[outputLength++] = symbol;
+        continue;
+      }
+
+      const lengthIndex = symbol - 257;
+      const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decodeSymbol(distances);
+      const distance = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > outputLength) {
+        throw new Error('Invalid DEFLATE data: Distance too far back');
+      }
+
+      ensureCapacity(length);
+      for (let index = 0; index < length; index++) {
+        output[outputLength] = output[outputLength - distance];
+        outputLength++;
+      }
+    }
+  }
+
+  return output.subarray(0, outputLength);
+}